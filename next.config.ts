@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // tiktoken lädt sein WASM serverseitig direkt aus node_modules,
+  // im Browser über /api/tokenizer/wasm (siehe lib/tokenizer)
+  serverExternalPackages: ["tiktoken"],
 };
 
 export default nextConfig;
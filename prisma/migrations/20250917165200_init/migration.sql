@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "Prompt" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "content" TEXT NOT NULL,
+    "model1" TEXT NOT NULL,
+    "model2" TEXT NOT NULL,
+    "response1" TEXT,
+    "response2" TEXT,
+    "cost1" REAL,
+    "cost2" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
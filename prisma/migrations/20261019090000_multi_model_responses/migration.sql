@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "Response" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "promptId" TEXT NOT NULL,
+    "slot" INTEGER NOT NULL,
+    "model" TEXT NOT NULL,
+    "content" TEXT,
+    "cost" REAL,
+    CONSTRAINT "Response_promptId_fkey" FOREIGN KEY ("promptId") REFERENCES "Prompt" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Migrate existing two-slot history rows into one Response row per slot
+INSERT INTO "Response" ("id", "promptId", "slot", "model", "content", "cost")
+SELECT "id" || '_0', "id", 0, "model1", "response1", "cost1" FROM "Prompt";
+
+INSERT INTO "Response" ("id", "promptId", "slot", "model", "content", "cost")
+SELECT "id" || '_1', "id", 1, "model2", "response2", "cost2" FROM "Prompt";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Prompt" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "content" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "new_Prompt" ("content", "createdAt", "id") SELECT "content", "createdAt", "id" FROM "Prompt";
+DROP TABLE "Prompt";
+ALTER TABLE "new_Prompt" RENAME TO "Prompt";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Response_promptId_slot_key" ON "Response"("promptId", "slot");
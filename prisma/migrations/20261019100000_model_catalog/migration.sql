@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "Model" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "provider" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "displayName" TEXT NOT NULL,
+    "contextWindow" INTEGER NOT NULL,
+    "inputPrice" REAL NOT NULL,
+    "outputPrice" REAL NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "capabilities" TEXT NOT NULL DEFAULT '[]',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Model" ADD COLUMN "maxOutputTokens" INTEGER NOT NULL DEFAULT 4096;
+
+-- AlterTable
+ALTER TABLE "Response" ADD COLUMN "params" TEXT;
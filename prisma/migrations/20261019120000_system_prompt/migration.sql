@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Prompt" ADD COLUMN "systemPrompt" TEXT;
+
+-- AlterTable
+ALTER TABLE "Response" ADD COLUMN "systemPrompt" TEXT;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "ChatSession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "prompt" TEXT NOT NULL,
+    "systemPrompt" TEXT,
+    "systemPrompts" TEXT NOT NULL,
+    "models" TEXT NOT NULL,
+    "params" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" DATETIME NOT NULL,
+    "consumedAt" DATETIME,
+    CONSTRAINT "ChatSession_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Prompt" ADD COLUMN "sessionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Vote" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "promptId" TEXT NOT NULL,
+    "slotA" INTEGER NOT NULL,
+    "slotB" INTEGER NOT NULL,
+    "modelA" TEXT NOT NULL,
+    "modelB" TEXT NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Vote_promptId_fkey" FOREIGN KEY ("promptId") REFERENCES "Prompt" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Prompt_sessionId_key" ON "Prompt"("sessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Vote_promptId_key" ON "Vote"("promptId");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Prompt" ADD COLUMN "isFavorite" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Prompt" ADD COLUMN "tags" TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE "Prompt" ADD COLUMN "note" TEXT;
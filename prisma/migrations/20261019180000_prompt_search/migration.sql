@@ -0,0 +1,61 @@
+-- Volltextsuche über Prompts und Antworten (FTS5).
+-- Die virtuelle Tabelle ist nicht Teil von schema.prisma und wird ausschließlich
+-- über die Trigger unten gepflegt; gelesen wird per $queryRaw (src/lib/search.ts).
+
+-- CreateTable
+CREATE VIRTUAL TABLE "PromptSearch" USING fts5(
+    "promptId" UNINDEXED,
+    "content",
+    "systemPrompt",
+    "responses",
+    "note",
+    "tags",
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Backfill
+INSERT INTO "PromptSearch" ("promptId", "content", "systemPrompt", "responses", "note", "tags")
+SELECT "p"."id", "p"."content", COALESCE("p"."systemPrompt", ''),
+       COALESCE((SELECT group_concat("r"."content", char(10)) FROM "Response" "r" WHERE "r"."promptId" = "p"."id"), ''),
+       COALESCE("p"."note", ''), "p"."tags"
+FROM "Prompt" "p";
+
+-- CreateTrigger
+CREATE TRIGGER "Prompt_search_insert" AFTER INSERT ON "Prompt" BEGIN
+    INSERT INTO "PromptSearch" ("promptId", "content", "systemPrompt", "responses", "note", "tags")
+    VALUES (NEW."id", NEW."content", COALESCE(NEW."systemPrompt", ''), '', COALESCE(NEW."note", ''), NEW."tags");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Prompt_search_update" AFTER UPDATE OF "content", "systemPrompt", "note", "tags" ON "Prompt" BEGIN
+    UPDATE "PromptSearch"
+    SET "content" = NEW."content", "systemPrompt" = COALESCE(NEW."systemPrompt", ''),
+        "note" = COALESCE(NEW."note", ''), "tags" = NEW."tags"
+    WHERE "promptId" = NEW."id";
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Prompt_search_delete" AFTER DELETE ON "Prompt" BEGIN
+    DELETE FROM "PromptSearch" WHERE "promptId" = OLD."id";
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Response_search_insert" AFTER INSERT ON "Response" BEGIN
+    UPDATE "PromptSearch"
+    SET "responses" = COALESCE((SELECT group_concat("content", char(10)) FROM "Response" WHERE "promptId" = NEW."promptId"), '')
+    WHERE "promptId" = NEW."promptId";
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Response_search_update" AFTER UPDATE OF "content" ON "Response" BEGIN
+    UPDATE "PromptSearch"
+    SET "responses" = COALESCE((SELECT group_concat("content", char(10)) FROM "Response" WHERE "promptId" = NEW."promptId"), '')
+    WHERE "promptId" = NEW."promptId";
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Response_search_delete" AFTER DELETE ON "Response" BEGIN
+    UPDATE "PromptSearch"
+    SET "responses" = COALESCE((SELECT group_concat("content", char(10)) FROM "Response" WHERE "promptId" = OLD."promptId"), '')
+    WHERE "promptId" = OLD."promptId";
+END;
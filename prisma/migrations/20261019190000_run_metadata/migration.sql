@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Response" ADD COLUMN "inputTokens" INTEGER;
+ALTER TABLE "Response" ADD COLUMN "outputTokens" INTEGER;
+ALTER TABLE "Response" ADD COLUMN "tokensExact" BOOLEAN;
+ALTER TABLE "Response" ADD COLUMN "ttftMs" INTEGER;
+ALTER TABLE "Response" ADD COLUMN "durationMs" INTEGER;
+ALTER TABLE "Response" ADD COLUMN "errorMessage" TEXT;
+ALTER TABLE "Response" ADD COLUMN "errorCode" TEXT;
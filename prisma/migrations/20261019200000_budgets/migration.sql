@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "Budget" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "scope" TEXT NOT NULL,
+    "target" TEXT,
+    "period" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "mode" TEXT NOT NULL DEFAULT 'block',
+    "hardCap" BOOLEAN NOT NULL DEFAULT false,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
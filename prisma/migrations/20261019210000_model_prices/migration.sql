@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "ModelPrice" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "modelId" TEXT NOT NULL,
+    "inputPrice" REAL NOT NULL,
+    "outputPrice" REAL NOT NULL,
+    "effectiveFrom" DATETIME NOT NULL,
+    "note" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ModelPrice_modelId_fkey" FOREIGN KEY ("modelId") REFERENCES "Model" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ModelPrice_modelId_effectiveFrom_idx" ON "ModelPrice"("modelId", "effectiveFrom");
+
+-- Bisherige Katalogpreise werden zum ersten Eintrag der Preistabelle (gültig seit jeher)
+INSERT INTO "ModelPrice" ("id", "modelId", "inputPrice", "outputPrice", "effectiveFrom", "note", "createdAt")
+SELECT 'price-' || "id", "id", "inputPrice", "outputPrice", 0, 'Ausgangspreis', CAST(strftime('%s', 'now') AS INTEGER) * 1000
+FROM "Model";
+
+-- Preise liegen nur noch in der Preistabelle
+ALTER TABLE "Model" DROP COLUMN "inputPrice";
+ALTER TABLE "Model" DROP COLUMN "outputPrice";
+
+-- AlterTable
+ALTER TABLE "Response" ADD COLUMN "priceId" TEXT;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "ModelPrice" ADD COLUMN "cachedInputPrice" REAL;
+ALTER TABLE "ModelPrice" ADD COLUMN "cacheWritePrice" REAL;
+ALTER TABLE "ModelPrice" ADD COLUMN "batchDiscount" REAL;
+ALTER TABLE "ModelPrice" ADD COLUMN "tiers" TEXT NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "Response" ADD COLUMN "cacheReadTokens" INTEGER;
+ALTER TABLE "Response" ADD COLUMN "cacheWriteTokens" INTEGER;
+
+-- Cache- und Batch-Konditionen der Standard-Models nachtragen
+UPDATE "ModelPrice" SET "cachedInputPrice" = "inputPrice" * 0.5
+WHERE "modelId" IN ('gpt-4o', 'gpt-4o-mini');
+
+UPDATE "ModelPrice" SET "cachedInputPrice" = "inputPrice" * 0.1, "cacheWritePrice" = "inputPrice" * 1.25
+WHERE "modelId" IN ('claude-3-5-sonnet-20241022', 'claude-3-5-haiku-20241022', 'claude-3-opus-20240229');
+
+UPDATE "ModelPrice" SET "batchDiscount" = 0.5
+WHERE "modelId" IN ('gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo', 'claude-3-5-sonnet-20241022', 'claude-3-5-haiku-20241022', 'claude-3-opus-20240229');
@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "Dataset" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "DatasetItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "datasetId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "variables" TEXT NOT NULL DEFAULT '{}',
+    "reference" TEXT,
+    CONSTRAINT "DatasetItem_datasetId_fkey" FOREIGN KEY ("datasetId") REFERENCES "Dataset" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "EvalRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "datasetId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "models" TEXT NOT NULL,
+    "systemPrompt" TEXT,
+    "concurrency" INTEGER NOT NULL DEFAULT 2,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" DATETIME,
+    CONSTRAINT "EvalRun_datasetId_fkey" FOREIGN KEY ("datasetId") REFERENCES "Dataset" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "EvalResult" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "runId" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "slot" INTEGER NOT NULL,
+    "model" TEXT NOT NULL,
+    "content" TEXT,
+    "inputTokens" INTEGER,
+    "outputTokens" INTEGER,
+    "cacheReadTokens" INTEGER,
+    "cacheWriteTokens" INTEGER,
+    "cost" REAL,
+    "priceId" TEXT,
+    "durationMs" INTEGER,
+    "finishReason" TEXT,
+    "errorMessage" TEXT,
+    "errorCode" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "EvalResult_runId_fkey" FOREIGN KEY ("runId") REFERENCES "EvalRun" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "EvalResult_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "DatasetItem" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DatasetItem_datasetId_position_key" ON "DatasetItem"("datasetId", "position");
+
+-- CreateIndex
+CREATE INDEX "EvalRun_status_idx" ON "EvalRun"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EvalResult_runId_itemId_slot_key" ON "EvalResult"("runId", "itemId", "slot");
+
+-- CreateIndex
+CREATE INDEX "EvalResult_createdAt_idx" ON "EvalResult"("createdAt");
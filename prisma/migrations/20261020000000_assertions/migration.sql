@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Prompt" ADD COLUMN "assertions" TEXT NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "Response" ADD COLUMN "assertionResults" TEXT;
+
+-- AlterTable
+ALTER TABLE "ChatSession" ADD COLUMN "assertions" TEXT NOT NULL DEFAULT '[]';
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "Judgment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "promptId" TEXT NOT NULL,
+    "judgeModel" TEXT NOT NULL,
+    "rubric" TEXT NOT NULL,
+    "scores" TEXT NOT NULL,
+    "verdicts" TEXT NOT NULL,
+    "winnerSlot" INTEGER,
+    "consistent" BOOLEAN NOT NULL,
+    "inputTokens" INTEGER NOT NULL,
+    "outputTokens" INTEGER NOT NULL,
+    "cost" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Judgment_promptId_fkey" FOREIGN KEY ("promptId") REFERENCES "Prompt" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Judgment_promptId_key" ON "Judgment"("promptId");
+
+-- CreateIndex
+CREATE INDEX "Judgment_createdAt_idx" ON "Judgment"("createdAt");
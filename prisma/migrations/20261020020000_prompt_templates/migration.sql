@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "PromptTemplate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "PromptTemplateVersion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "templateId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PromptTemplateVersion_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "PromptTemplate" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PromptTemplate_category_idx" ON "PromptTemplate"("category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptTemplateVersion_templateId_version_key" ON "PromptTemplateVersion"("templateId", "version");
+
+-- AlterTable
+ALTER TABLE "Prompt" ADD COLUMN "templateVersionId" TEXT REFERENCES "PromptTemplateVersion" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Prompt" ADD COLUMN "templateVariables" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Prompt_templateVersionId_idx" ON "Prompt"("templateVersionId");
+
+-- AlterTable
+ALTER TABLE "ChatSession" ADD COLUMN "templateVersionId" TEXT;
+ALTER TABLE "ChatSession" ADD COLUMN "templateVariables" TEXT;
+
+-- Bisher fest eingebaute Vorlagen werden zu den ersten Einträgen der Bibliothek (mit Platzhaltern)
+INSERT INTO "PromptTemplate" ("id", "name", "category", "createdAt", "updatedAt") VALUES
+    ('template-code-review', 'Code Review', 'Entwicklung', CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000),
+    ('template-summary', 'Text Zusammenfassung', 'Analyse', CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000),
+    ('template-creative', 'Kreatives Schreiben', 'Kreativität', CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000),
+    ('template-problem', 'Problemlösung', 'Beratung', CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+
+INSERT INTO "PromptTemplateVersion" ("id", "templateId", "version", "content", "createdAt") VALUES
+    ('template-code-review-v1', 'template-code-review', 1, 'Bitte überprüfe den folgenden Code und gib Feedback zu Verbesserungen:' || char(10) || char(10) || '```{{sprache}}' || char(10) || '{{code}}' || char(10) || '```', CAST(strftime('%s', 'now') AS INTEGER) * 1000),
+    ('template-summary-v1', 'template-summary', 1, 'Fasse den folgenden Text in {{anzahl_saetze}} Sätzen zusammen:' || char(10) || char(10) || '{{text}}', CAST(strftime('%s', 'now') AS INTEGER) * 1000),
+    ('template-creative-v1', 'template-creative', 1, 'Schreibe eine kurze Geschichte über {{thema}}.', CAST(strftime('%s', 'now') AS INTEGER) * 1000),
+    ('template-problem-v1', 'template-problem', 1, 'Ich habe folgendes Problem und brauche einen strukturierten Lösungsansatz:' || char(10) || char(10) || 'Problem: {{problem}}', CAST(strftime('%s', 'now') AS INTEGER) * 1000);
@@ -0,0 +1,9 @@
+-- Jede Bewertung wird als eigene Zeile gespeichert, damit Kosten wiederholter Bewertungen erhalten bleiben
+-- DropIndex
+DROP INDEX "Judgment_promptId_key";
+
+-- CreateIndex
+CREATE INDEX "Judgment_promptId_idx" ON "Judgment"("promptId");
+
+-- AlterTable
+ALTER TABLE "Judgment" ADD COLUMN "errorMessage" TEXT;
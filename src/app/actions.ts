@@ -1,66 +1,210 @@
 'use server';
 
-import { HumanMessage } from "@langchain/core/messages";
-import { createModelInstance, getModelConfig, parseTokenUsage } from "@/lib/models";
-import { calculateCost } from "@/lib/pricing";
+import { createMessages, createModelInstance, getDefaultGenerationParams, getModelConfig, isModelAvailable, parseProviderError, parseTokenUsage, resolveSystemPrompts, validateGenerationParams, MAX_MODEL_SLOTS, MIN_MODEL_SLOTS } from "@/lib/models";
+import { calculateCost, estimatePromptCost, isSamePricing } from "@/lib/pricing";
+import { computeLatencyStats, computeResponseMetrics } from "@/lib/metrics";
+import { getAnalyticsData, getCostRecomputationData, loadLatencySamples } from "@/lib/analytics";
+import { checkBudgets, loadBudgetStatuses, toBudget } from "@/lib/spend";
+import { validateBudget } from "@/lib/budgets";
+import { evaluateAssertions, validateAssertions } from "@/lib/assertions";
+import { assertionSandbox } from "@/lib/expressions";
+import { buildJudgePrompt, getJudgeOrders, MAX_RUBRIC_LENGTH } from "@/lib/judge";
+import { getJudgeableResponses, getJudgeParams, judgeComparison, waitForSavedPrompt } from "@/lib/judgments";
+import { MAX_EVAL_CONCURRENCY, renderPrompt, validateDatasetItems } from "@/lib/datasets";
+import { createDataset, createEvalRun, listDatasets, listEvalRuns, loadDatasetItems, loadEvalRun, startEvalWorker, stopEvalWorker } from "@/lib/evals";
+import { validateTemplateInput } from "@/lib/templates";
+import { getTemplateColumns, listTemplates, listTemplateVersions, resolveTemplateSelection, saveTemplate } from "@/lib/templateLibrary";
+import { preloadTokenizers } from "@/lib/tokenizer";
+import { loadModelCatalog, toModelConfig, toModelPrice, toModelRow, toPriceRow } from "@/lib/catalog";
+import { getProvider } from "@/lib/providers";
+import { appendConversationTurn, createConversation, findConversation, resolveConversation } from "@/lib/conversations";
+import { abortActiveStream, createStreamSession } from "@/lib/sessions";
+import { computeLeaderboard, isVoteOutcome } from "@/lib/leaderboard";
+import { getAllTags, getPromptHistoryPaginated, toggleFavorite, updateNote, updateTags } from "@/lib/history";
 import { PrismaClient } from "@prisma/client";
 import { revalidatePath } from "next/cache";
+import { format } from "date-fns";
 import { 
+  type AnalyticsData,
+  type AnalyticsFilter,
+  type Assertion,
+  type Budget,
+  type BudgetInput,
+  type BudgetStatus,
   type ChatRequest, 
   type ChatResponse, 
+  type CostRecomputation,
+  type CreateEvalRunRequest,
+  type DatasetItemInput,
+  type DatasetSummary,
+  type EvalRunDetails,
+  type EvalRunSummary,
   type ServerActionResult,
   type CreateChatRequest,
   type CreateChatResponse,
-  type PromptHistory 
+  type Conversation,
+  type GenerationParams,
+  type HistoryAnnotations,
+  type HistoryFilter,
+  type HistoryPage,
+  type JudgeRequest,
+  type Judgment,
+  type Leaderboard,
+  type ModelConfig,
+  type ModelLatencyStats,
+  type ModelPrice,
+  type ModelPricing,
+  type PriceSetSelection,
+  type PromptTemplate,
+  type PromptTemplateInput,
+  type PromptTemplateVersion,
+  type TemplateSelection,
+  type ThreadMessage,
+  type VoteOutcome,
+  type VoteRequest
 } from "@/types";
 
 const prisma = new PrismaClient();
 
+const HISTORY_PAGE_SIZE = 20;
+const MAX_HISTORY_PAGE_SIZE = 100;
+
+/**
+ * Validiert die Model-Auswahl einer Vergleichsanfrage
+ */
+function validateModelSelection(models: string[]): string | null {
+  if (!models || models.length < MIN_MODEL_SLOTS || models.some(model => !model)) {
+    return `Mindestens ${MIN_MODEL_SLOTS} Modelle müssen ausgewählt werden`;
+  }
+
+  if (models.length > MAX_MODEL_SLOTS) {
+    return `Maximal ${MAX_MODEL_SLOTS} Modelle können verglichen werden`;
+  }
+
+  return null;
+}
+
+/**
+ * Ergänzt fehlende Generation-Parameter um Defaults und validiert sie pro Slot
+ */
+function resolveGenerationParams(
+  request: CreateChatRequest
+): { params: GenerationParams[] } | { error: string } {
+  const params = request.models.map((modelId, slot) =>
+    request.params?.[slot] || getDefaultGenerationParams(modelId)
+  );
+
+  for (const [slot, slotParams] of params.entries()) {
+    const paramsError = validateGenerationParams(slotParams, request.models[slot]);
+    if (paramsError) {
+      return { error: paramsError };
+    }
+  }
+
+  return { params };
+}
+
+/**
+ * Prüft den Worst Case eines Vergleichs (Verlauf + Prompt + max. Output-Tokens pro Slot) gegen die Budgets
+ */
+async function checkRunBudgets(request: CreateChatRequest, params: GenerationParams[], threads: ThreadMessage[][]) {
+  await preloadTokenizers(request.models);
+  const systemPrompts = resolveSystemPrompts(request.models.length, request.systemPrompt, request.systemPrompts);
+
+  return checkBudgets(request.models.map((model, slot) => ({
+    model,
+    worstCaseCost: estimatePromptCost(
+      request.prompt,
+      model,
+      params[slot].maxTokens,
+      systemPrompts[slot],
+      threads[slot]
+    ).totalCost,
+  })));
+}
+
 /**
  * Server Action für parallele Model-Anfragen (ohne Streaming)
  */
 export async function createParallelChat(
   request: CreateChatRequest
-): Promise<ServerActionResult<{ response1: ChatResponse; response2: ChatResponse }>> {
+): Promise<ServerActionResult<{ responses: ChatResponse[] }>> {
   try {
     // Validierung
     if (!request.prompt.trim()) {
       return { success: false, error: "Prompt darf nicht leer sein" };
     }
 
-    if (!request.model1 || !request.model2) {
-      return { success: false, error: "Beide Modelle müssen ausgewählt werden" };
+    const selectionError = validateModelSelection(request.models);
+    if (selectionError) {
+      return { success: false, error: selectionError };
+    }
+
+    const assertionError = validateAssertions(request.assertions || []);
+    if (assertionError) {
+      return { success: false, error: assertionError };
     }
 
-    const model1Config = getModelConfig(request.model1);
-    const model2Config = getModelConfig(request.model2);
+    await loadModelCatalog();
+    const modelConfigs = request.models.map(modelId => getModelConfig(modelId));
 
-    if (!model1Config || !model2Config) {
+    if (modelConfigs.some(config => !config)) {
       return { success: false, error: "Ungültige Model-Auswahl" };
     }
 
+    const resolved = resolveGenerationParams(request);
+    if ('error' in resolved) {
+      return { success: false, error: resolved.error };
+    }
+
+    // Verlauf zuerst auflösen, damit die Budget-Prüfung den vollständigen Input schätzt
+    const conversationResult = await resolveConversation(request.conversationId, request.models);
+    if ('error' in conversationResult) {
+      return { success: false, error: conversationResult.error };
+    }
+
+    const budgetCheck = await checkRunBudgets(
+      request,
+      resolved.params,
+      conversationResult.conversation?.threads || request.models.map(() => [])
+    );
+    if (budgetCheck.blocked) {
+      return { success: false, error: `Budget überschritten – ${budgetCheck.blocked}` };
+    }
+
+    // Neue Konversation erst nach bestandener Budget-Prüfung anlegen
+    const conversation = conversationResult.conversation || await createConversation(request.prompt, request.models);
+
     // Parallele Model-Instanzen erstellen
-    const model1Instance = createModelInstance(request.model1);
-    const model2Instance = createModelInstance(request.model2);
+    const modelInstances = request.models.map((modelId, slot) => createModelInstance(modelId, resolved.params[slot]));
 
-    const message = new HumanMessage(request.prompt);
+    const systemPrompts = resolveSystemPrompts(request.models.length, request.systemPrompt, request.systemPrompts);
 
-    // Parallele Ausführung
-    const [result1, result2] = await Promise.allSettled([
-      model1Instance.invoke([message]),
-      model2Instance.invoke([message])
-    ]);
+    // Parallele Ausführung (Start- und Endzeit pro Slot messen)
+    const timings: Array<{ startedAt: number; finishedAt: number }> = [];
+    const results = await Promise.allSettled(
+      modelInstances.map(async (modelInstance, slot) => {
+        const startedAt = Date.now();
+        try {
+          return await modelInstance.invoke(createMessages(request.prompt, systemPrompts[slot], conversation.threads[slot]));
+        } finally {
+          timings[slot] = { startedAt, finishedAt: Date.now() };
+        }
+      })
+    );
 
     // Responses verarbeiten
-    const response1 = processModelResult(result1, request.model1, model1Config);
-    const response2 = processModelResult(result2, request.model2, model2Config);
+    const responses = results.map((result, slot) =>
+      processModelResult(result, request.models[slot], modelConfigs[slot], timings[slot], request.assertions || [])
+    );
 
     // In Datenbank speichern
-    await saveToDatabase(request, response1, response2);
+    const template = await resolveTemplateSelection(request.template, request.prompt);
+    await saveToDatabase(request, responses, resolved.params, systemPrompts, conversation, template);
 
     return {
       success: true,
-      data: { response1, response2 }
+      data: { responses }
     };
 
   } catch (error) {
@@ -78,7 +222,9 @@ export async function createParallelChat(
 function processModelResult(
   result: PromiseSettledResult<any>,
   modelId: string,
-  modelConfig: any
+  modelConfig: any,
+  timing: { startedAt: number; finishedAt: number },
+  assertions: Assertion[]
 ): ChatResponse {
   const baseResponse: ChatResponse = {
     id: crypto.randomUUID(),
@@ -88,12 +234,15 @@ function processModelResult(
     cost: 0,
     finishReason: 'error',
     timestamp: new Date(),
+    metrics: computeResponseMetrics(timing.startedAt, null, timing.finishedAt, 0),
   };
 
   if (result.status === 'rejected') {
+    const providerError = parseProviderError(result.reason);
     return {
       ...baseResponse,
-      error: `Fehler bei ${modelConfig.displayName}: ${result.reason?.message || 'Unbekannter Fehler'}`,
+      error: `Fehler bei ${modelConfig.displayName}: ${providerError.message}`,
+      errorCode: providerError.code,
     };
   }
 
@@ -105,14 +254,20 @@ function processModelResult(
     const usage = response.usage_metadata || response.usage || {};
     const tokenUsage = parseTokenUsage(usage, modelConfig.provider);
     
-    const cost = calculateCost(tokenUsage, modelId);
+    // Preis, der zum Start der Anfrage gültig war
+    const cost = calculateCost(tokenUsage, modelId, new Date(timing.startedAt));
 
     return {
       ...baseResponse,
       content,
       tokens: tokenUsage,
       cost: cost.totalCost,
+      priceId: cost.priceId,
       finishReason: response.response_metadata?.finish_reason || 'stop',
+      exact: tokenUsage.total > 0,
+      // Ohne Streaming kein TTFT: Durchsatz über die gesamte Dauer
+      metrics: computeResponseMetrics(timing.startedAt, null, timing.finishedAt, tokenUsage.output),
+      ...(assertions.length > 0 && { assertionResults: evaluateAssertions(assertions, content, assertionSandbox) }),
     };
 
   } catch (error) {
@@ -128,21 +283,49 @@ function processModelResult(
  */
 async function saveToDatabase(
   request: CreateChatRequest,
-  response1: ChatResponse,
-  response2: ChatResponse
+  responses: ChatResponse[],
+  params: GenerationParams[],
+  systemPrompts: Array<string | null>,
+  conversation: Conversation,
+  template: TemplateSelection | null
 ): Promise<void> {
   try {
     await prisma.prompt.create({
       data: {
         content: request.prompt,
-        model1: request.model1,
-        model2: request.model2,
-        response1: response1.error ? null : response1.content,
-        response2: response2.error ? null : response2.content,
-        cost1: response1.error ? null : response1.cost,
-        cost2: response2.error ? null : response2.cost,
+        systemPrompt: request.systemPrompt?.trim() || null,
+        conversationId: conversation.id,
+        assertions: JSON.stringify(request.assertions || []),
+        ...await getTemplateColumns(template),
+        responses: {
+          create: responses.map((response, slot) => ({
+            slot,
+            model: request.models[slot],
+            content: response.error ? null : response.content,
+            cost: response.error ? null : response.cost,
+            params: JSON.stringify(params[slot]),
+            systemPrompt: systemPrompts[slot],
+            finishReason: response.finishReason,
+            inputTokens: response.error ? null : response.tokens.input,
+            outputTokens: response.error ? null : response.tokens.output,
+            tokensExact: response.error ? null : response.exact ?? false,
+            durationMs: response.metrics?.durationMs ?? null,
+            errorMessage: response.error ?? null,
+            errorCode: response.errorCode ?? null,
+            priceId: response.error ? null : response.priceId ?? null,
+            cacheReadTokens: response.error ? null : response.tokens.cacheRead ?? null,
+            cacheWriteTokens: response.error ? null : response.tokens.cacheWrite ?? null,
+            assertionResults: response.assertionResults ? JSON.stringify(response.assertionResults) : null,
+          })),
+        },
       },
     });
+
+    await appendConversationTurn(
+      conversation,
+      request.prompt,
+      responses.map(response => response.error ? null : response.content)
+    );
   } catch (error) {
     console.error('Fehler beim Speichern in Datenbank:', error);
     // Fehler beim Speichern sollte nicht die ganze Anfrage scheitern lassen
@@ -150,29 +333,57 @@ async function saveToDatabase(
 }
 
 /**
- * Lädt die Prompt-Historie
+ * Lädt eine Seite der Prompt-Historie (Suche und Filter serverseitig)
  */
-export async function getPromptHistory(): Promise<ServerActionResult<PromptHistory[]>> {
-  try {
-    const history = await prisma.prompt.findMany({
-      orderBy: { createdAt: 'desc' },
-      take: 50, // Limitiere auf 50 neueste Einträge
-    });
+export async function getPromptHistory(
+  page: number = 1,
+  limit: number = HISTORY_PAGE_SIZE,
+  search?: string,
+  filter: HistoryFilter = {}
+): Promise<ServerActionResult<HistoryPage>> {
+  return getPromptHistoryPaginated(
+    Math.max(1, Math.floor(page)),
+    Math.min(Math.max(1, Math.floor(limit)), MAX_HISTORY_PAGE_SIZE),
+    search,
+    filter
+  );
+}
 
-    return {
-      success: true,
-      data: history.map(item => ({
-        ...item,
-        createdAt: item.createdAt,
-      })),
-    };
-  } catch (error) {
-    console.error('Fehler beim Laden der Historie:', error);
-    return {
-      success: false,
-      error: 'Fehler beim Laden der Historie',
-    };
+/**
+ * Alle vergebenen Tags der Historie
+ */
+export async function getHistoryTags(): Promise<ServerActionResult<string[]>> {
+  return getAllTags();
+}
+
+/**
+ * Markiert einen Historie-Eintrag als Favorit bzw. entfernt die Markierung
+ */
+export async function toggleHistoryFavorite(id: string): Promise<ServerActionResult<boolean>> {
+  return toggleFavorite(id);
+}
+
+/**
+ * Speichert Tags und Notiz eines Historie-Eintrags
+ */
+export async function updateHistoryAnnotations(
+  id: string,
+  annotations: HistoryAnnotations
+): Promise<ServerActionResult<HistoryAnnotations>> {
+  const tagsResult = await updateTags(id, annotations.tags);
+  if (!tagsResult.success || !tagsResult.data) {
+    return { success: false, error: tagsResult.error };
+  }
+
+  const noteResult = await updateNote(id, annotations.note);
+  if (!noteResult.success) {
+    return { success: false, error: noteResult.error };
   }
+
+  return {
+    success: true,
+    data: { tags: tagsResult.data, note: noteResult.data || '' },
+  };
 }
 
 /**
@@ -208,21 +419,66 @@ export async function createStreamingChat(
       return { success: false, error: "Prompt darf nicht leer sein" };
     }
 
-    if (!request.model1 || !request.model2) {
-      return { success: false, error: "Beide Modelle müssen ausgewählt werden" };
+    const selectionError = validateModelSelection(request.models);
+    if (selectionError) {
+      return { success: false, error: selectionError };
     }
 
-    // Eindeutige Session-ID generieren
-    const sessionId = crypto.randomUUID();
-    
-    // Stream-URL erstellen
-    const streamUrl = `/api/chat/stream?session=${sessionId}&model1=${request.model1}&model2=${request.model2}&prompt=${encodeURIComponent(request.prompt)}`;
+    const assertionError = validateAssertions(request.assertions || []);
+    if (assertionError) {
+      return { success: false, error: assertionError };
+    }
+
+    await loadModelCatalog();
+    if (request.models.some(modelId => !isModelAvailable(modelId))) {
+      return { success: false, error: "Ungültige oder deaktivierte Model-Auswahl" };
+    }
+
+    const resolved = resolveGenerationParams(request);
+    if ('error' in resolved) {
+      return { success: false, error: resolved.error };
+    }
+
+    // Verlauf zuerst auflösen, damit die Budget-Prüfung den vollständigen Input schätzt
+    const conversationResult = await resolveConversation(request.conversationId, request.models);
+    if ('error' in conversationResult) {
+      return { success: false, error: conversationResult.error };
+    }
+
+    const budgetCheck = await checkRunBudgets(
+      request,
+      resolved.params,
+      conversationResult.conversation?.threads || request.models.map(() => [])
+    );
+    if (budgetCheck.blocked) {
+      return { success: false, error: `Budget überschritten – ${budgetCheck.blocked}` };
+    }
+
+    // Neue Konversation erst nach bestandener Budget-Prüfung anlegen
+    const conversation = conversationResult.conversation || await createConversation(request.prompt, request.models);
+
+    // Ausstehende Session speichern, der Stream-Endpoint löst sie einmalig ein
+    const sessionId = await createStreamSession({
+      prompt: request.prompt,
+      systemPrompt: request.systemPrompt?.trim() || null,
+      systemPrompts: resolveSystemPrompts(request.models.length, request.systemPrompt, request.systemPrompts),
+      models: request.models,
+      params: resolved.params,
+      conversationId: conversation.id,
+      assertions: request.assertions || [],
+      template: await resolveTemplateSelection(request.template, request.prompt),
+    });
+
+    // Stream-URL enthält nur die opake Session-ID
+    const streamUrl = `/api/chat/stream?session=${sessionId}`;
 
     return {
       success: true,
       data: {
         id: sessionId,
         streamUrl,
+        conversationId: conversation.id,
+        budgetWarnings: budgetCheck.warnings,
       },
     };
 
@@ -235,6 +491,28 @@ export async function createStreamingChat(
   }
 }
 
+/**
+ * Bricht einen laufenden Streaming-Vergleich ab (alle Slots oder nur einen)
+ */
+export async function cancelStreamingChat(
+  sessionId: string,
+  slot?: number
+): Promise<ServerActionResult<void>> {
+  try {
+    if (!abortActiveStream(sessionId, slot)) {
+      return { success: false, error: 'Kein laufender Stream für diese Session' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Fehler beim Abbrechen des Streams:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Abbrechen des Streams',
+    };
+  }
+}
+
 /**
  * Utility: Bereinigt alte Historie-Einträge (kann als Cron-Job verwendet werden)
  */
@@ -263,3 +541,888 @@ export async function cleanupOldHistory(daysOld: number = 30): Promise<ServerAct
     };
   }
 }
+
+/**
+ * Lädt den Model-Katalog (inkl. deaktivierter Models)
+ */
+export async function getModelCatalog(): Promise<ServerActionResult<ModelConfig[]>> {
+  try {
+    const catalog = await loadModelCatalog();
+
+    return { success: true, data: catalog };
+  } catch (error) {
+    console.error('Fehler beim Laden des Model-Katalogs:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Laden des Model-Katalogs',
+    };
+  }
+}
+
+/**
+ * Validiert eine Model-Konfiguration aus dem Einstellungs-Screen
+ */
+function validateModelConfig(config: ModelConfig): string | null {
+  if (!config.id.trim() || !config.name.trim() || !config.displayName.trim()) {
+    return 'ID, API-Name und Anzeigename sind Pflichtfelder';
+  }
+
+  if (!getProvider(config.provider)) {
+    return `Unbekannter Provider: ${config.provider}`;
+  }
+
+  if (!Number.isInteger(config.maxTokens) || config.maxTokens <= 0) {
+    return 'Context Window muss eine positive Ganzzahl sein';
+  }
+
+  if (!Number.isInteger(config.maxOutputTokens) || config.maxOutputTokens <= 0 || config.maxOutputTokens > config.maxTokens) {
+    return 'Max. Output-Tokens muss eine positive Ganzzahl bis zum Context Window sein';
+  }
+
+  return validatePricing(config.pricing);
+}
+
+/**
+ * Validiert Preise inkl. Cache-, Staffel- und Batch-Konditionen
+ */
+function validatePricing(pricing: ModelPricing): string | null {
+  const rates = [
+    pricing.input,
+    pricing.output,
+    pricing.cachedInput,
+    pricing.cacheWrite,
+    ...(pricing.tiers || []).flatMap(tier => [tier.input, tier.output, tier.cachedInput, tier.cacheWrite]),
+  ].filter((rate): rate is number => rate !== undefined);
+
+  if (rates.some(rate => !Number.isFinite(rate) || rate < 0)) {
+    return 'Preise dürfen nicht negativ sein';
+  }
+
+  if (pricing.batchDiscount !== undefined && !(pricing.batchDiscount >= 0 && pricing.batchDiscount < 1)) {
+    return 'Batch-Rabatt muss zwischen 0 und 100 % liegen';
+  }
+
+  const thresholds = (pricing.tiers || []).map(tier => tier.aboveInputTokens);
+  if (thresholds.some(threshold => !Number.isInteger(threshold) || threshold <= 0) || new Set(thresholds).size !== thresholds.length) {
+    return 'Staffeln brauchen unterschiedliche, positive Token-Grenzen';
+  }
+
+  return null;
+}
+
+/**
+ * Legt ein Model im Katalog an oder aktualisiert es
+ */
+export async function saveModelConfig(
+  config: ModelConfig,
+  isNew: boolean
+): Promise<ServerActionResult<ModelConfig>> {
+  try {
+    const validationError = validateModelConfig(config);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const existing = await prisma.model.findUnique({
+      where: { id: config.id },
+      include: { prices: true },
+    });
+
+    if (isNew && existing) {
+      return { success: false, error: `Model-ID ${config.id} existiert bereits` };
+    }
+
+    // Geänderte Preise werden als neuer Eintrag der Preistabelle ab sofort gültig
+    const currentPricing = existing ? toModelConfig(existing).pricing : null;
+    const prices = !currentPricing || !isSamePricing(currentPricing, config.pricing)
+      ? {
+          create: {
+            ...toPriceRow(config.pricing),
+            effectiveFrom: new Date(),
+            note: isNew ? 'Ausgangspreis' : 'Im Katalog geändert',
+          },
+        }
+      : undefined;
+
+    const model = isNew
+      ? await prisma.model.create({
+          data: { id: config.id, ...toModelRow(config), prices },
+          include: { prices: true },
+        })
+      : await prisma.model.update({
+          where: { id: config.id },
+          data: { ...toModelRow(config), prices },
+          include: { prices: true },
+        });
+
+    await loadModelCatalog();
+    revalidatePath('/');
+
+    return { success: true, data: toModelConfig(model) };
+  } catch (error) {
+    console.error('Fehler beim Speichern des Models:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Speichern des Models',
+    };
+  }
+}
+
+/**
+ * Fügt der Preistabelle eines Models einen Preis ab einem Stichtag (YYYY-MM-DD) hinzu
+ */
+export async function addModelPrice(
+  modelId: string,
+  pricing: ModelPricing,
+  effectiveFrom: string,
+  note?: string
+): Promise<ServerActionResult<ModelPrice>> {
+  try {
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom) ? new Date(`${effectiveFrom}T00:00:00`) : null;
+    if (!date || Number.isNaN(date.getTime())) {
+      return { success: false, error: 'Ungültiger Stichtag' };
+    }
+
+    const pricingError = validatePricing(pricing);
+    if (pricingError) {
+      return { success: false, error: pricingError };
+    }
+
+    const price = await prisma.modelPrice.create({
+      data: {
+        modelId,
+        ...toPriceRow(pricing),
+        effectiveFrom: date,
+        note: note?.trim() || null,
+      },
+    });
+
+    await loadModelCatalog();
+    revalidatePath('/');
+
+    return { success: true, data: toModelPrice(price) };
+  } catch (error) {
+    console.error('Fehler beim Speichern des Preises:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Speichern des Preises',
+    };
+  }
+}
+
+/**
+ * Löscht einen Eintrag der Preistabelle (nur wenn noch keine Response damit berechnet wurde)
+ */
+export async function deleteModelPrice(id: string): Promise<ServerActionResult<void>> {
+  try {
+    const price = await prisma.modelPrice.findUnique({ where: { id } });
+    if (!price) {
+      return { success: false, error: 'Preis nicht gefunden' };
+    }
+
+    const [usedBy, remaining] = await Promise.all([
+      prisma.response.count({ where: { priceId: id } }),
+      prisma.modelPrice.count({ where: { modelId: price.modelId } }),
+    ]);
+
+    if (usedBy > 0) {
+      return { success: false, error: `Preis wurde bereits für ${usedBy} Antworten angewandt` };
+    }
+    if (remaining <= 1) {
+      return { success: false, error: 'Der letzte Preis eines Models kann nicht gelöscht werden' };
+    }
+
+    await prisma.modelPrice.delete({ where: { id } });
+
+    await loadModelCatalog();
+    revalidatePath('/');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Fehler beim Löschen des Preises:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Löschen des Preises',
+    };
+  }
+}
+
+/**
+ * Aktiviert oder deaktiviert ein Model
+ */
+export async function setModelEnabled(
+  id: string,
+  enabled: boolean
+): Promise<ServerActionResult<void>> {
+  try {
+    await prisma.model.update({
+      where: { id },
+      data: { enabled },
+    });
+
+    await loadModelCatalog();
+    revalidatePath('/');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Fehler beim Aktualisieren des Models:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Aktualisieren des Models',
+    };
+  }
+}
+
+/**
+ * Lädt alle Budgets (inkl. deaktivierter)
+ */
+export async function getBudgets(): Promise<ServerActionResult<Budget[]>> {
+  try {
+    const budgets = await prisma.budget.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { success: true, data: budgets.map(toBudget) };
+  } catch (error) {
+    console.error('Fehler beim Laden der Budgets:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Laden der Budgets',
+    };
+  }
+}
+
+/**
+ * Legt ein Budget an (ohne ID) oder aktualisiert es
+ */
+export async function saveBudget(
+  input: BudgetInput,
+  id?: string
+): Promise<ServerActionResult<Budget>> {
+  try {
+    const validationError = validateBudget(input);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const data = {
+      scope: input.scope,
+      target: input.scope === 'global' ? null : input.target,
+      period: input.period,
+      amount: input.amount,
+      mode: input.mode,
+      hardCap: input.hardCap,
+      enabled: input.enabled,
+    };
+
+    const budget = id
+      ? await prisma.budget.update({ where: { id }, data })
+      : await prisma.budget.create({ data });
+
+    return { success: true, data: toBudget(budget) };
+  } catch (error) {
+    console.error('Fehler beim Speichern des Budgets:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Speichern des Budgets',
+    };
+  }
+}
+
+/**
+ * Löscht ein Budget
+ */
+export async function deleteBudget(id: string): Promise<ServerActionResult<void>> {
+  try {
+    await prisma.budget.delete({ where: { id } });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Fehler beim Löschen des Budgets:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Löschen des Budgets',
+    };
+  }
+}
+
+/**
+ * Verbrauch aller aktiven Budgets im laufenden Tag bzw. Monat
+ */
+export async function getBudgetStatus(): Promise<ServerActionResult<BudgetStatus[]>> {
+  try {
+    // Katalog für die Zuordnung Model → Provider
+    await loadModelCatalog();
+
+    return { success: true, data: await loadBudgetStatuses() };
+  } catch (error) {
+    console.error('Fehler beim Laden des Budget-Verbrauchs:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Laden des Budget-Verbrauchs',
+    };
+  }
+}
+
+/**
+ * Lädt eine Konversation mit den Threads aller Slots (zum Fortsetzen)
+ */
+export async function getConversation(id: string): Promise<ServerActionResult<Conversation>> {
+  try {
+    const conversation = await findConversation(id);
+    if (!conversation) {
+      return { success: false, error: 'Konversation nicht gefunden' };
+    }
+
+    return { success: true, data: conversation };
+  } catch (error) {
+    console.error('Fehler beim Laden der Konversation:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Laden der Konversation',
+    };
+  }
+}
+
+/**
+ * Speichert die Blind-Abstimmung eines gestreamten Vergleichs und deckt die Models auf
+ */
+export async function submitVote(request: VoteRequest): Promise<ServerActionResult<{ modelA: string; modelB: string }>> {
+  try {
+    if (!isVoteOutcome(request.outcome) || request.slotA === request.slotB) {
+      return { success: false, error: 'Ungültige Abstimmung' };
+    }
+
+    const prompt = await prisma.prompt.findUnique({
+      where: { sessionId: request.sessionId },
+      include: { responses: true, vote: true },
+    });
+
+    // Resultate werden erst nach Ende aller Streams gespeichert
+    if (!prompt) {
+      return { success: false, error: 'Vergleich ist noch nicht gespeichert, bitte gleich noch einmal versuchen' };
+    }
+
+    if (prompt.vote) {
+      return { success: false, error: 'Für diesen Vergleich wurde bereits abgestimmt' };
+    }
+
+    const responseA = prompt.responses.find(response => response.slot === request.slotA);
+    const responseB = prompt.responses.find(response => response.slot === request.slotB);
+    if (!responseA || !responseB) {
+      return { success: false, error: 'Antworten zu dieser Abstimmung nicht gefunden' };
+    }
+
+    await prisma.vote.create({
+      data: {
+        promptId: prompt.id,
+        slotA: request.slotA,
+        slotB: request.slotB,
+        modelA: responseA.model,
+        modelB: responseB.model,
+        outcome: request.outcome,
+      },
+    });
+
+    revalidatePath('/leaderboard');
+
+    return { success: true, data: { modelA: responseA.model, modelB: responseB.model } };
+  } catch (error) {
+    console.error('Fehler beim Speichern der Abstimmung:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Speichern der Abstimmung',
+    };
+  }
+}
+
+/**
+ * Lässt die Antworten eines Vergleichs von einem Judge-Model bewerten (in beiden Reihenfolgen)
+ */
+export async function requestJudgment(request: JudgeRequest): Promise<ServerActionResult<Judgment>> {
+  try {
+    const rubric = request.rubric.trim();
+    if (!rubric) {
+      return { success: false, error: 'Bewertungskriterien fehlen' };
+    }
+    if (rubric.length > MAX_RUBRIC_LENGTH) {
+      return { success: false, error: `Bewertungskriterien dürfen maximal ${MAX_RUBRIC_LENGTH} Zeichen lang sein` };
+    }
+
+    await loadModelCatalog();
+    if (!isModelAvailable(request.judgeModel)) {
+      return { success: false, error: `Judge-Model nicht verfügbar: ${request.judgeModel}` };
+    }
+
+    const prompt = await waitForSavedPrompt(request.sessionId);
+    if (!prompt) {
+      return { success: false, error: 'Vergleich nicht gefunden' };
+    }
+
+    const responses = getJudgeableResponses(prompt.responses);
+    if (responses.length < 2) {
+      return { success: false, error: 'Zum Bewerten sind mindestens zwei erfolgreiche Antworten nötig' };
+    }
+
+    // Worst Case beider Durchläufe gegen die Budgets prüfen
+    await preloadTokenizers([request.judgeModel]);
+    const { systemPrompt, userPrompt } = buildJudgePrompt(prompt.content, rubric, responses.map(response => response.content || ''));
+    const worstCaseCost = estimatePromptCost(
+      userPrompt,
+      request.judgeModel,
+      getJudgeParams(request.judgeModel).maxTokens,
+      systemPrompt
+    ).totalCost;
+
+    const budgetCheck = await checkBudgets(getJudgeOrders(responses.length).map(() => ({
+      model: request.judgeModel,
+      worstCaseCost,
+    })));
+    if (budgetCheck.blocked) {
+      return { success: false, error: `Budget überschritten – ${budgetCheck.blocked}` };
+    }
+
+    return {
+      success: true,
+      data: await judgeComparison(prompt, request.judgeModel, rubric),
+    };
+  } catch (error) {
+    console.error('Fehler bei der Bewertung durch das Judge-Model:', error);
+    return {
+      success: false,
+      error: `Fehler bei der Bewertung: ${error instanceof Error ? error.message : 'Unbekannter Fehler'}`,
+    };
+  }
+}
+
+/**
+ * Aggregierte Kosten, Nutzung, Fehler und Latenzen für das Analytics-Dashboard
+ */
+export async function getAnalytics(filter: AnalyticsFilter = {}): Promise<ServerActionResult<AnalyticsData>> {
+  try {
+    // Katalog sicherstellen, damit Models ihrem Provider zugeordnet werden können
+    await loadModelCatalog();
+
+    return {
+      success: true,
+      data: await getAnalyticsData(filter),
+    };
+  } catch (error) {
+    console.error('Fehler beim Laden der Analytics:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Laden der Analytics',
+    };
+  }
+}
+
+/**
+ * What-if: historische Kosten mit einem gewählten Preisstand neu berechnen (ohne zu speichern)
+ */
+export async function getCostRecomputation(
+  filter: AnalyticsFilter,
+  priceSet: PriceSetSelection
+): Promise<ServerActionResult<CostRecomputation>> {
+  try {
+    // Preistabellen der Models laden
+    await loadModelCatalog();
+
+    return {
+      success: true,
+      data: await getCostRecomputationData(filter, priceSet),
+    };
+  } catch (error) {
+    console.error('Fehler bei der Neuberechnung der Kosten:', error);
+    return {
+      success: false,
+      error: 'Fehler bei der Neuberechnung der Kosten',
+    };
+  }
+}
+
+/**
+ * Latenz-Perzentile (p50/p95) pro Model über die jüngsten gespeicherten Läufe
+ */
+export async function getLatencyStatistics(): Promise<ServerActionResult<ModelLatencyStats[]>> {
+  try {
+    return {
+      success: true,
+      data: computeLatencyStats(await loadLatencySamples()),
+    };
+  } catch (error) {
+    console.error('Fehler beim Berechnen der Latenz-Statistiken:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Berechnen der Latenz-Statistiken',
+    };
+  }
+}
+
+/**
+ * Berechnet das Leaderboard aus allen gespeicherten Abstimmungen
+ */
+export async function getLeaderboard(): Promise<ServerActionResult<Leaderboard>> {
+  try {
+    const votes = await prisma.vote.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const records = votes
+      .filter(vote => isVoteOutcome(vote.outcome))
+      .map(vote => ({
+        modelA: vote.modelA,
+        modelB: vote.modelB,
+        outcome: vote.outcome as VoteOutcome,
+      }));
+
+    return {
+      success: true,
+      data: {
+        entries: computeLeaderboard(records),
+        totalVotes: records.length,
+      },
+    };
+  } catch (error) {
+    console.error('Fehler beim Berechnen des Leaderboards:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Berechnen des Leaderboards',
+    };
+  }
+}
+
+/**
+ * Importiert einen Prompt-Datensatz (bereits im Browser aus CSV/JSONL gelesen)
+ */
+export async function importDataset(
+  name: string,
+  items: DatasetItemInput[]
+): Promise<ServerActionResult<DatasetSummary>> {
+  try {
+    if (!name.trim()) {
+      return { success: false, error: 'Bitte einen Namen für den Datensatz angeben' };
+    }
+
+    const validationError = validateDatasetItems(items);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    return { success: true, data: await createDataset(name.trim(), items) };
+  } catch (error) {
+    console.error('Fehler beim Importieren des Datensatzes:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Importieren des Datensatzes',
+    };
+  }
+}
+
+/**
+ * Lädt alle Datensätze (neueste zuerst)
+ */
+export async function getDatasets(): Promise<ServerActionResult<DatasetSummary[]>> {
+  try {
+    return { success: true, data: await listDatasets() };
+  } catch (error) {
+    console.error('Fehler beim Laden der Datensätze:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Laden der Datensätze',
+    };
+  }
+}
+
+/**
+ * Löscht einen Datensatz inkl. aller Läufe (nicht während ein Lauf darauf arbeitet)
+ */
+export async function deleteDataset(id: string): Promise<ServerActionResult<void>> {
+  try {
+    const activeRuns = await prisma.evalRun.count({ where: { datasetId: id, status: 'running' } });
+    if (activeRuns > 0) {
+      return { success: false, error: 'Der Datensatz wird gerade evaluiert – Lauf erst pausieren oder abbrechen' };
+    }
+
+    await prisma.dataset.delete({ where: { id } });
+    return { success: true };
+  } catch (error) {
+    console.error('Fehler beim Löschen des Datensatzes:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Löschen des Datensatzes',
+    };
+  }
+}
+
+/**
+ * Startet einen Evaluationslauf: jeder Prompt des Datensatzes gegen jedes gewählte Model
+ */
+export async function startEvalRun(
+  request: CreateEvalRunRequest
+): Promise<ServerActionResult<{ runId: string; budgetWarnings: string[] }>> {
+  try {
+    if (!request.models.length || request.models.some(model => !model)) {
+      return { success: false, error: 'Mindestens ein Model muss ausgewählt werden' };
+    }
+    if (request.models.length > MAX_MODEL_SLOTS) {
+      return { success: false, error: `Maximal ${MAX_MODEL_SLOTS} Modelle pro Lauf` };
+    }
+    if (new Set(request.models).size !== request.models.length) {
+      return { success: false, error: 'Jedes Model darf nur einmal ausgewählt werden' };
+    }
+    if (!Number.isInteger(request.concurrency) || request.concurrency < 1 || request.concurrency > MAX_EVAL_CONCURRENCY) {
+      return { success: false, error: `Parallelität muss zwischen 1 und ${MAX_EVAL_CONCURRENCY} liegen` };
+    }
+
+    await loadModelCatalog();
+    const unavailable = request.models.find(model => !isModelAvailable(model));
+    if (unavailable) {
+      return { success: false, error: `Model nicht verfügbar: ${unavailable}` };
+    }
+
+    const dataset = await prisma.dataset.findUnique({ where: { id: request.datasetId } });
+    if (!dataset) {
+      return { success: false, error: 'Datensatz nicht gefunden' };
+    }
+
+    // Worst Case des gesamten Laufs gegen die Budgets prüfen
+    const items = await loadDatasetItems(dataset.id);
+    const systemPrompt = request.systemPrompt?.trim() || null;
+    await preloadTokenizers(request.models);
+
+    const budgetCheck = await checkBudgets(items.flatMap(item => request.models.map(model => ({
+      model,
+      worstCaseCost: estimatePromptCost(
+        renderPrompt(item.prompt, item.variables),
+        model,
+        getDefaultGenerationParams(model).maxTokens,
+        systemPrompt
+      ).totalCost,
+    }))));
+    if (budgetCheck.blocked) {
+      return { success: false, error: `Budget überschritten – ${budgetCheck.blocked}` };
+    }
+
+    const runId = await createEvalRun({
+      ...request,
+      systemPrompt,
+      name: request.name?.trim() || `${dataset.name} · ${format(new Date(), 'dd.MM.yyyy HH:mm')}`,
+    });
+
+    return { success: true, data: { runId, budgetWarnings: budgetCheck.warnings } };
+  } catch (error) {
+    console.error('Fehler beim Starten des Evaluationslaufs:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Starten des Evaluationslaufs',
+    };
+  }
+}
+
+/**
+ * Lädt alle Evaluationsläufe mit Fortschritt und Kosten
+ */
+export async function getEvalRuns(): Promise<ServerActionResult<EvalRunSummary[]>> {
+  try {
+    return { success: true, data: await listEvalRuns() };
+  } catch (error) {
+    console.error('Fehler beim Laden der Evaluationsläufe:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Laden der Evaluationsläufe',
+    };
+  }
+}
+
+/**
+ * Lädt einen Evaluationslauf mit allen Prompts und Ergebnissen
+ */
+export async function getEvalRun(id: string): Promise<ServerActionResult<EvalRunDetails>> {
+  try {
+    const details = await loadEvalRun(id);
+    if (!details) {
+      return { success: false, error: 'Evaluationslauf nicht gefunden' };
+    }
+
+    return { success: true, data: details };
+  } catch (error) {
+    console.error('Fehler beim Laden des Evaluationslaufs:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Laden des Evaluationslaufs',
+    };
+  }
+}
+
+/**
+ * Pausiert einen laufenden Evaluationslauf (laufende Anfragen werden abgebrochen und später wiederholt)
+ */
+export async function pauseEvalRun(id: string): Promise<ServerActionResult<void>> {
+  try {
+    const { count } = await prisma.evalRun.updateMany({
+      where: { id, status: 'running' },
+      data: { status: 'paused' },
+    });
+    if (count === 0) {
+      return { success: false, error: 'Nur laufende Evaluationen können pausiert werden' };
+    }
+
+    stopEvalWorker(id);
+    return { success: true };
+  } catch (error) {
+    console.error('Fehler beim Pausieren des Evaluationslaufs:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Pausieren des Evaluationslaufs',
+    };
+  }
+}
+
+/**
+ * Setzt einen pausierten oder fehlgeschlagenen Lauf fort.
+ * Mit retryFailed werden zusätzlich alle Anfragen mit Provider-Fehler wiederholt.
+ */
+export async function resumeEvalRun(id: string, retryFailed: boolean = false): Promise<ServerActionResult<void>> {
+  try {
+    const { count } = await prisma.evalRun.updateMany({
+      where: { id, status: { in: retryFailed ? ['paused', 'failed', 'completed'] : ['paused', 'failed'] } },
+      data: { status: 'running', error: null, finishedAt: null },
+    });
+    if (count === 0) {
+      return { success: false, error: 'Dieser Lauf kann nicht fortgesetzt werden' };
+    }
+
+    if (retryFailed) {
+      await prisma.evalResult.deleteMany({ where: { runId: id, errorMessage: { not: null } } });
+    }
+
+    startEvalWorker(id);
+    return { success: true };
+  } catch (error) {
+    console.error('Fehler beim Fortsetzen des Evaluationslaufs:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Fortsetzen des Evaluationslaufs',
+    };
+  }
+}
+
+/**
+ * Bricht einen Lauf endgültig ab (bisherige Ergebnisse bleiben erhalten)
+ */
+export async function cancelEvalRun(id: string): Promise<ServerActionResult<void>> {
+  try {
+    const { count } = await prisma.evalRun.updateMany({
+      where: { id, status: { in: ['running', 'paused'] } },
+      data: { status: 'cancelled', finishedAt: new Date() },
+    });
+    if (count === 0) {
+      return { success: false, error: 'Dieser Lauf ist bereits beendet' };
+    }
+
+    stopEvalWorker(id);
+    return { success: true };
+  } catch (error) {
+    console.error('Fehler beim Abbrechen des Evaluationslaufs:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Abbrechen des Evaluationslaufs',
+    };
+  }
+}
+
+/**
+ * Löscht einen beendeten oder pausierten Lauf inkl. Ergebnissen
+ */
+export async function deleteEvalRun(id: string): Promise<ServerActionResult<void>> {
+  try {
+    const { count } = await prisma.evalRun.deleteMany({
+      where: { id, status: { not: 'running' } },
+    });
+    if (count === 0) {
+      return { success: false, error: 'Laufende Evaluationen können nicht gelöscht werden' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Fehler beim Löschen des Evaluationslaufs:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Löschen des Evaluationslaufs',
+    };
+  }
+}
+
+/**
+ * Lädt alle Prompt-Vorlagen mit ihrer aktuellen Version
+ */
+export async function getPromptTemplates(): Promise<ServerActionResult<PromptTemplate[]>> {
+  try {
+    return { success: true, data: await listTemplates() };
+  } catch (error) {
+    console.error('Fehler beim Laden der Vorlagen:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Laden der Vorlagen',
+    };
+  }
+}
+
+/**
+ * Legt eine Vorlage an (ohne ID) oder speichert Änderungen; geänderter Inhalt wird zur neuen Version
+ */
+export async function savePromptTemplate(
+  id: string | null,
+  input: PromptTemplateInput
+): Promise<ServerActionResult<PromptTemplate>> {
+  try {
+    const validationError = validateTemplateInput(input);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const template = await saveTemplate(id, input);
+    if (!template) {
+      return { success: false, error: 'Vorlage nicht gefunden' };
+    }
+
+    return { success: true, data: template };
+  } catch (error) {
+    console.error('Fehler beim Speichern der Vorlage:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Speichern der Vorlage',
+    };
+  }
+}
+
+/**
+ * Löscht eine Vorlage inkl. aller Versionen (History-Einträge bleiben ohne Verweis erhalten)
+ */
+export async function deletePromptTemplate(id: string): Promise<ServerActionResult<void>> {
+  try {
+    await prisma.promptTemplate.delete({ where: { id } });
+    return { success: true };
+  } catch (error) {
+    console.error('Fehler beim Löschen der Vorlage:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Löschen der Vorlage',
+    };
+  }
+}
+
+/**
+ * Lädt die Versionsgeschichte einer Vorlage (neueste zuerst)
+ */
+export async function getPromptTemplateVersions(templateId: string): Promise<ServerActionResult<PromptTemplateVersion[]>> {
+  try {
+    return { success: true, data: await listTemplateVersions(templateId) };
+  } catch (error) {
+    console.error('Fehler beim Laden der Vorlagen-Versionen:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Laden der Vorlagen-Versionen',
+    };
+  }
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@mui/material';
+import { ArrowBack } from '@mui/icons-material';
+import { AppLayout, PageHeader } from '@/components/ui/AppLayout';
+import AnalyticsDashboard from '@/components/AnalyticsDashboard';
+
+export default function AnalyticsPage() {
+  return (
+    <AppLayout>
+      <PageHeader
+        title="Analytics"
+        subtitle="Kosten, Nutzung, Fehler und Latenzen über die Zeit"
+        action={
+          <Button href="/" startIcon={<ArrowBack />}>
+            Zurück zur Arena
+          </Button>
+        }
+      />
+
+      <AnalyticsDashboard />
+    </AppLayout>
+  );
+}
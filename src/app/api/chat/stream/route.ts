@@ -1,154 +1,187 @@
 import { NextRequest } from 'next/server';
-import { HumanMessage } from "@langchain/core/messages";
-import { createModelInstance, getModelConfig, parseTokenUsage } from "@/lib/models";
-import { calculateLiveCost } from "@/lib/pricing";
-import { countTokens, createTokenUsage, estimateInputTokens } from "@/lib/tokenizer";
+import { createMessages, createModelInstance, getModelConfig, isModelAvailable, mergeTokenUsage, parseProviderError, parseTokenUsage } from "@/lib/models";
+import { loadModelCatalog } from "@/lib/catalog";
+import { appendConversationTurn, findConversation } from "@/lib/conversations";
+import { abortActiveStream, consumeStreamSession, registerActiveStream, unregisterActiveStream } from "@/lib/sessions";
+import { calculateCost, calculateLiveCost, resolveModelPrice } from "@/lib/pricing";
+import { computeResponseMetrics } from "@/lib/metrics";
+import { evaluateAssertions } from "@/lib/assertions";
+import { assertionSandbox } from "@/lib/expressions";
+import { createBudgetGuard, loadBudgetStatuses, type BudgetGuard } from "@/lib/spend";
+import { countTokens, estimateInputTokens, preloadTokenizers } from "@/lib/tokenizer";
+import { getTemplateColumns } from "@/lib/templateLibrary";
 import { PrismaClient } from "@prisma/client";
-import { type StreamEvent, type StreamResponse } from "@/types";
+import { type Assertion, type AssertionResult, type Conversation, type FinishReason, type GenerationParams, type ProviderError, type ResponseMetrics, type StreamEvent, type TemplateSelection, type ThreadMessage, type TokenUsage } from "@/types";
 
 const prisma = new PrismaClient();
 
+// Ergebnis eines Slots inkl. der Laufdaten, die gespeichert werden
+interface StreamModelResult {
+  content: string | null; // null bei Fehler
+  tokens: TokenUsage;
+  cost: number;
+  finishReason: FinishReason;
+  exact: boolean;
+  metrics: ResponseMetrics;
+  priceId: string | null;
+  assertionResults?: AssertionResult[];
+  error?: ProviderError;
+}
+
 export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const sessionId = searchParams.get('session');
-  const model1Id = searchParams.get('model1');
-  const model2Id = searchParams.get('model2');
-  const prompt = searchParams.get('prompt');
+  const sessionId = request.nextUrl.searchParams.get('session');
 
   // Validierung
-  if (!sessionId || !model1Id || !model2Id || !prompt) {
-    return new Response('Fehlende Parameter', { status: 400 });
+  if (!sessionId) {
+    return new Response('Fehlende Session', { status: 400 });
   }
 
-  const model1Config = getModelConfig(model1Id);
-  const model2Config = getModelConfig(model2Id);
+  // Session einlösen (unbekannt, abgelaufen oder bereits verwendet => abweisen)
+  const consumed = await consumeStreamSession(sessionId);
+  if ('error' in consumed) {
+    return new Response(consumed.error, { status: consumed.status });
+  }
+
+  const { prompt, systemPrompt, systemPrompts, params, assertions, template, models: modelIds } = consumed.session;
+
+  // Konversation mit den bisherigen Threads der Slots
+  const conversation = await findConversation(consumed.session.conversationId);
+  if (!conversation) {
+    return new Response('Konversation nicht gefunden', { status: 404 });
+  }
 
-  if (!model1Config || !model2Config) {
+  // Katalog kann sich seit dem Anlegen der Session geändert haben
+  await loadModelCatalog();
+  if (modelIds.some(modelId => !isModelAvailable(modelId))) {
     return new Response('Ungültige Model-IDs', { status: 400 });
   }
 
+  // BPE-Encoder laden, damit schon die Input-Tokens exakt gezählt werden
+  await preloadTokenizers(modelIds);
+
   // TextEncoder für Streaming
   const encoder = new TextEncoder();
 
   // Hilfsfunktion zum Senden von Events
   const sendEvent = (controller: ReadableStreamDefaultController, event: StreamEvent) => {
     const data = `data: ${JSON.stringify(event)}\n\n`;
-    controller.enqueue(encoder.encode(data));
+    try {
+      controller.enqueue(encoder.encode(data));
+    } catch {
+      // Client hat die Verbindung bereits geschlossen
+    }
   };
 
+  const closeStream = (controller: ReadableStreamDefaultController) => {
+    try {
+      controller.close();
+    } catch {
+      // Stream wurde bereits vom Client abgebrochen
+    }
+  };
+
+  // Budget-Verbrauch vor dem Start (für Hard-Caps während des Streams)
+  const budgetStatuses = await loadBudgetStatuses();
+
+  // Ein AbortController pro Slot (Stop-Button, Verbindungsabbruch oder Hard-Cap)
+  const abortControllers = registerActiveStream(sessionId, modelIds.length);
+
+  // Hard-Caps: Slots abbrechen, sobald die Live-Kosten ein Budget überschreiten
+  const budgetGuard = createBudgetGuard(budgetStatuses, modelIds, abortControllers);
+
   // ReadableStream für SSE
   const stream = new ReadableStream({
     async start(controller) {
       try {
         // Models initialisieren
-        let model1Instance, model2Instance;
+        let modelInstances;
         
         try {
-          model1Instance = createModelInstance(model1Id);
-          model2Instance = createModelInstance(model2Id);
+          modelInstances = modelIds.map((modelId, slot) => createModelInstance(modelId, params[slot]));
         } catch (error) {
           // Send error event for API key issues
           sendEvent(controller, {
             type: 'error',
-            model: 'system',
+            slot: 'system',
             data: {
               error: error instanceof Error ? error.message : 'Fehler beim Initialisieren der Models',
               isConfigError: true,
             }
           });
-          controller.close();
+          closeStream(controller);
           return;
         }
 
-        const message = new HumanMessage(prompt);
-
-        // Track Token-Counts für Live-Kosten
-        let model1InputTokens = 0;
-        let model1OutputTokens = 0;
-        let model2InputTokens = 0;
-        let model2OutputTokens = 0;
-
         // Start-Events senden
-        sendEvent(controller, {
-          type: 'start',
-          model: 'model1',
-          data: {
-            id: sessionId,
-            model: model1Id,
-            delta: '',
-            tokens: { input: 0, output: 0, total: 0 },
-            cost: 0,
-            isComplete: false,
-          }
-        });
-
-        sendEvent(controller, {
-          type: 'start',
-          model: 'model2',
-          data: {
-            id: sessionId,
-            model: model2Id,
-            delta: '',
-            tokens: { input: 0, output: 0, total: 0 },
-            cost: 0,
-            isComplete: false,
-          }
+        modelIds.forEach((modelId, slot) => {
+          sendEvent(controller, {
+            type: 'start',
+            slot,
+            data: {
+              id: sessionId,
+              model: modelId,
+              delta: '',
+              tokens: { input: 0, output: 0, total: 0 },
+              cost: 0,
+              isComplete: false,
+            }
+          });
         });
 
-        // Parallele Streams starten
-        const model1Promise = streamModel(
-          model1Instance,
-          message,
-          model1Id,
-          'model1',
-          controller,
-          sendEvent,
-          sessionId
+        // Parallele Streams starten und auf alle warten
+        const results = await Promise.allSettled(
+          modelInstances.map((modelInstance, slot) => streamModel(
+            modelInstance,
+            prompt,
+            systemPrompts[slot],
+            conversation.threads[slot],
+            modelIds[slot],
+            slot,
+            controller,
+            sendEvent,
+            sessionId,
+            abortControllers[slot].signal,
+            budgetGuard,
+            assertions
+          ))
         );
 
-        const model2Promise = streamModel(
-          model2Instance,
-          message,
-          model2Id,
-          'model2',
-          controller,
-          sendEvent,
-          sessionId
-        );
-
-        // Warten auf beide Streams
-        const [result1, result2] = await Promise.allSettled([
-          model1Promise,
-          model2Promise
-        ]);
-
-        // Resultate in Datenbank speichern
-        await saveStreamResults(prompt, model1Id, model2Id, result1, result2);
+        // Resultate in Datenbank speichern (auch abgebrochene Teilantworten)
+        await saveStreamResults(sessionId, prompt, systemPrompt, conversation, modelIds, params, systemPrompts, assertions, template, results);
 
         // Stream beenden
-        controller.close();
+        closeStream(controller);
 
       } catch (error) {
         console.error('Streaming error:', error);
         
-        // Error-Event senden
-        sendEvent(controller, {
-          type: 'error',
-          model: 'model1',
-          data: {
-            id: sessionId,
-            model: model1Id,
-            delta: '',
-            tokens: { input: 0, output: 0, total: 0 },
-            cost: 0,
-            isComplete: true,
-            error: error instanceof Error ? error.message : 'Unbekannter Fehler',
-          }
+        // Error-Event für alle Slots senden
+        modelIds.forEach((modelId, slot) => {
+          sendEvent(controller, {
+            type: 'error',
+            slot,
+            data: {
+              id: sessionId,
+              model: modelId,
+              delta: '',
+              tokens: { input: 0, output: 0, total: 0 },
+              cost: 0,
+              isComplete: true,
+              error: error instanceof Error ? error.message : 'Unbekannter Fehler',
+            }
+          });
         });
 
-        controller.close();
+        closeStream(controller);
+      } finally {
+        unregisterActiveStream(sessionId);
       }
     },
+
+    // Client hat die Verbindung geschlossen: Provider-Requests abbrechen
+    cancel() {
+      abortActiveStream(sessionId);
+    },
   });
 
   // SSE Response Headers
@@ -169,42 +202,90 @@ export async function GET(request: NextRequest) {
  */
 async function streamModel(
   modelInstance: any,
-  message: HumanMessage,
+  prompt: string,
+  systemPrompt: string | null,
+  thread: ThreadMessage[],
   modelId: string,
-  modelKey: 'model1' | 'model2',
+  slot: number,
   controller: ReadableStreamDefaultController,
   sendEvent: Function,
-  sessionId: string
-): Promise<{ content: string; tokens: any; cost: number }> {
+  sessionId: string,
+  signal: AbortSignal,
+  budgetGuard: BudgetGuard,
+  assertions: Assertion[]
+): Promise<StreamModelResult> {
   
+  const startedAt = Date.now();
+  let firstTokenAt: number | null = null;
   let fullContent = '';
   let inputTokens = 0;
   let outputTokens = 0;
+  let providerUsage: TokenUsage | null = null;
+  const modelConfig = getModelConfig(modelId);
+  const provider = modelConfig?.provider || '';
+
+  // Es gilt der Preis zum Start der Anfrage (auch für Teilantworten)
+  const requestedAt = new Date(startedAt);
+  const priceId = modelConfig ? resolveModelPrice(modelConfig, requestedAt).priceId : null;
+
+  // Abbruch: Teilantwort inkl. bereits angefallener Kosten melden
+  const cancel = () => {
+    const usage = { input: inputTokens, output: outputTokens, total: inputTokens + outputTokens };
+    const cost = calculateLiveCost(inputTokens, outputTokens, modelId, requestedAt);
+    const metrics = computeResponseMetrics(startedAt, firstTokenAt, Date.now(), outputTokens);
+
+    sendEvent(controller, {
+      type: 'cancelled',
+      slot,
+      data: {
+        id: sessionId,
+        model: modelId,
+        delta: '',
+        tokens: usage,
+        cost,
+        isComplete: true,
+        finishReason: 'cancelled',
+        exact: false,
+        metrics,
+        cancelReason: signal.reason === 'budget' ? 'budget' : 'user',
+      }
+    });
+
+    return { content: fullContent, tokens: usage, cost, finishReason: 'cancelled' as const, exact: false, metrics, priceId };
+  };
 
   try {
-    // Input tokens mit tiktoken zählen
-    const messageText = typeof message.content === 'string' ? message.content : String(message.content);
-    inputTokens = estimateInputTokens(messageText, modelId);
+    // Input tokens mit tiktoken zählen (inkl. System-Prompt und bisherigem Thread)
+    inputTokens = estimateInputTokens(prompt, modelId, systemPrompt, thread);
     
     // Stream starten
-    const stream = await modelInstance.stream([message]);
+    const stream = await modelInstance.stream(createMessages(prompt, systemPrompt, thread), { signal });
 
     for await (const chunk of stream) {
+      // Usage-Metadaten des Providers sammeln (kommen ohne Text-Delta)
+      if (chunk.usage_metadata) {
+        providerUsage = mergeTokenUsage(providerUsage, parseTokenUsage(chunk.usage_metadata, provider));
+      }
+
       const delta = chunk.content || chunk.text || '';
       
       if (delta) {
+        if (firstTokenAt === null) {
+          firstTokenAt = Date.now();
+        }
         fullContent += delta;
         
-        // Output tokens präzise mit tiktoken zählen
+        // Output tokens als Live-Vorschau schätzen
         outputTokens = countTokens(fullContent, modelId);
 
-        // Live-Kosten berechnen (präzise basierend auf tiktoken)
-        const liveCost = calculateLiveCost(inputTokens, outputTokens, modelId);
+        // Live-Kosten berechnen (Schätzung bis zur finalen Usage)
+        const liveCost = calculateLiveCost(inputTokens, outputTokens, modelId, requestedAt);
+        budgetGuard.track(slot, liveCost);
 
         // Token-Event senden
         sendEvent(controller, {
           type: 'token',
-          model: modelKey,
+          slot,
           data: {
             id: sessionId,
             model: modelId,
@@ -221,14 +302,28 @@ async function streamModel(
       }
     }
 
-    // Finale Token-Usage aus der Antwort extrahieren (falls verfügbar)
-    const finalUsage = { input: inputTokens, output: outputTokens, total: inputTokens + outputTokens };
-    const finalCost = calculateLiveCost(inputTokens, outputTokens, modelId);
+    if (signal.aborted) {
+      return cancel();
+    }
+
+    // Finale Token-Usage aus der Antwort des Providers, sonst die Schätzung
+    const exact = providerUsage !== null && providerUsage.total > 0;
+    const finalUsage = exact && providerUsage
+      ? providerUsage
+      : { input: inputTokens, output: outputTokens, total: inputTokens + outputTokens };
+    // Inkl. Cache-Tokens aus der Usage des Providers
+    const finalCost = calculateCost(finalUsage, modelId, requestedAt).totalCost;
+    const metrics = computeResponseMetrics(startedAt, firstTokenAt, Date.now(), finalUsage.output);
+
+    // Assertions nur gegen vollständige Antworten prüfen
+    const assertionResults = assertions.length > 0
+      ? evaluateAssertions(assertions, fullContent, assertionSandbox)
+      : undefined;
 
     // Complete-Event senden
     sendEvent(controller, {
       type: 'complete',
-      model: modelKey,
+      slot,
       data: {
         id: sessionId,
         model: modelId,
@@ -236,6 +331,10 @@ async function streamModel(
         tokens: finalUsage,
         cost: finalCost,
         isComplete: true,
+        finishReason: 'stop',
+        exact,
+        metrics,
+        assertionResults,
       }
     });
 
@@ -243,27 +342,51 @@ async function streamModel(
       content: fullContent,
       tokens: finalUsage,
       cost: finalCost,
+      finishReason: 'stop',
+      exact,
+      metrics,
+      priceId,
+      assertionResults,
     };
 
   } catch (error) {
+    if (signal.aborted) {
+      return cancel();
+    }
+
     console.error(`Streaming error for ${modelId}:`, error);
+    const providerError = parseProviderError(error);
+    const usage = { input: inputTokens, output: outputTokens, total: inputTokens + outputTokens };
+    // Bis zum Fehler generierte Tokens werden vom Provider trotzdem abgerechnet
+    const cost = calculateLiveCost(inputTokens, outputTokens, modelId, requestedAt);
     
     // Error-Event senden
     sendEvent(controller, {
       type: 'error',
-      model: modelKey,
+      slot,
       data: {
         id: sessionId,
         model: modelId,
         delta: '',
-        tokens: { input: inputTokens, output: outputTokens, total: inputTokens + outputTokens },
-        cost: calculateLiveCost(inputTokens, outputTokens, modelId),
+        tokens: usage,
+        cost,
         isComplete: true,
-        error: error instanceof Error ? error.message : 'Streaming-Fehler',
+        error: providerError.message,
+        finishReason: 'error',
       }
     });
 
-    throw error;
+    // Fehler wird mit den bisherigen Laufdaten gespeichert
+    return {
+      content: null,
+      tokens: usage,
+      cost,
+      finishReason: 'error',
+      exact: false,
+      metrics: computeResponseMetrics(startedAt, firstTokenAt, Date.now(), outputTokens),
+      priceId,
+      error: providerError,
+    };
   }
 }
 
@@ -271,29 +394,68 @@ async function streamModel(
  * Speichert Stream-Resultate in der Datenbank
  */
 async function saveStreamResults(
+  sessionId: string,
   prompt: string,
-  model1Id: string,
-  model2Id: string,
-  result1: PromiseSettledResult<any>,
-  result2: PromiseSettledResult<any>
+  systemPrompt: string | null,
+  conversation: Conversation,
+  modelIds: string[],
+  params: GenerationParams[],
+  systemPrompts: Array<string | null>,
+  assertions: Assertion[],
+  template: TemplateSelection | null,
+  results: PromiseSettledResult<StreamModelResult>[]
 ) {
   try {
-    const response1 = result1.status === 'fulfilled' ? result1.value.content : null;
-    const response2 = result2.status === 'fulfilled' ? result2.value.content : null;
-    const cost1 = result1.status === 'fulfilled' ? result1.value.cost : null;
-    const cost2 = result2.status === 'fulfilled' ? result2.value.cost : null;
-
     await prisma.prompt.create({
       data: {
         content: prompt,
-        model1: model1Id,
-        model2: model2Id,
-        response1,
-        response2,
-        cost1,
-        cost2,
+        systemPrompt: systemPrompt?.trim() || null,
+        conversationId: conversation.id,
+        sessionId,
+        assertions: JSON.stringify(assertions),
+        ...await getTemplateColumns(template),
+        responses: {
+          create: results.map((result, slot) => {
+            const base = {
+              slot,
+              model: modelIds[slot],
+              params: JSON.stringify(params[slot]),
+              systemPrompt: systemPrompts[slot],
+            };
+
+            if (result.status === 'rejected') {
+              const error = parseProviderError(result.reason);
+              return { ...base, content: null, cost: null, finishReason: 'error', errorMessage: error.message, errorCode: error.code };
+            }
+
+            const run = result.value;
+            return {
+              ...base,
+              content: run.content,
+              cost: run.cost,
+              finishReason: run.finishReason,
+              inputTokens: run.tokens.input,
+              outputTokens: run.tokens.output,
+              tokensExact: run.exact,
+              ttftMs: run.metrics.ttftMs,
+              durationMs: run.metrics.durationMs,
+              errorMessage: run.error?.message ?? null,
+              errorCode: run.error?.code ?? null,
+              priceId: run.priceId,
+              cacheReadTokens: run.tokens.cacheRead ?? null,
+              cacheWriteTokens: run.tokens.cacheWrite ?? null,
+              assertionResults: run.assertionResults ? JSON.stringify(run.assertionResults) : null,
+            };
+          }),
+        },
       },
     });
+
+    await appendConversationTurn(
+      conversation,
+      prompt,
+      results.map(result => result.status === 'fulfilled' ? result.value.content : null)
+    );
   } catch (error) {
     console.error('Fehler beim Speichern der Stream-Resultate:', error);
   }
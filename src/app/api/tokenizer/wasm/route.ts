@@ -0,0 +1,24 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+// WASM-Binary des Tokenizers; tiktoken ist serverExternal und liegt unverändert in node_modules
+const WASM_PATH = path.join(process.cwd(), 'node_modules', 'tiktoken', 'lite', 'tiktoken_bg.wasm');
+
+/**
+ * Liefert das tiktoken-WASM für den Tokenizer im Browser (siehe loadEncoder in lib/tokenizer)
+ */
+export async function GET() {
+  try {
+    const wasm = await readFile(WASM_PATH);
+
+    return new Response(new Uint8Array(wasm), {
+      headers: {
+        'Content-Type': 'application/wasm',
+        'Cache-Control': 'public, max-age=86400',
+      },
+    });
+  } catch (error) {
+    console.error('Tokenizer-WASM nicht gefunden:', error);
+    return new Response('Tokenizer nicht verfügbar', { status: 404 });
+  }
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import React from 'react';
+import { useParams } from 'next/navigation';
+import { Button } from '@mui/material';
+import { ArrowBack } from '@mui/icons-material';
+import { AppLayout, PageHeader } from '@/components/ui/AppLayout';
+import EvalResultsGrid from '@/components/EvalResultsGrid';
+
+export default function EvalRunPage() {
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <AppLayout>
+      <PageHeader
+        title="Evaluationslauf"
+        subtitle="Antworten pro Prompt und Model mit Kosten und Latenz"
+        action={
+          <Button href="/evals" startIcon={<ArrowBack />}>
+            Zurück zu den Evaluationen
+          </Button>
+        }
+      />
+
+      <EvalResultsGrid runId={id} />
+    </AppLayout>
+  );
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@mui/material';
+import { ArrowBack } from '@mui/icons-material';
+import { AppLayout, PageHeader } from '@/components/ui/AppLayout';
+import EvalRunsPanel from '@/components/EvalRunsPanel';
+
+export default function EvalsPage() {
+  return (
+    <AppLayout>
+      <PageHeader
+        title="Evaluationen"
+        subtitle="Prompt-Datensätze importieren und gegen mehrere Models auswerten"
+        action={
+          <Button href="/" startIcon={<ArrowBack />}>
+            Zurück zur Arena
+          </Button>
+        }
+      />
+
+      <EvalRunsPanel />
+    </AppLayout>
+  );
+}
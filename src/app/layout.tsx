@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import { CustomThemeProvider } from "@/components/providers/ThemeProvider";
+import { ModelCatalogProvider } from "@/components/providers/ModelCatalogProvider";
 
 const inter = Inter({
   subsets: ["latin"],
@@ -25,7 +26,9 @@ export default function RootLayout({
     <html lang="de" suppressHydrationWarning>
       <body className={`${inter.variable} antialiased`}>
         <CustomThemeProvider>
-          {children}
+          <ModelCatalogProvider>
+            {children}
+          </ModelCatalogProvider>
         </CustomThemeProvider>
       </body>
     </html>
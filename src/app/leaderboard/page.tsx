@@ -0,0 +1,25 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@mui/material';
+import { ArrowBack } from '@mui/icons-material';
+import { AppLayout, PageHeader } from '@/components/ui/AppLayout';
+import LeaderboardTable from '@/components/LeaderboardTable';
+
+export default function LeaderboardPage() {
+  return (
+    <AppLayout>
+      <PageHeader
+        title="Leaderboard"
+        subtitle="Model-Ratings aus allen Blind-Abstimmungen der Arena"
+        action={
+          <Button href="/" startIcon={<ArrowBack />}>
+            Zurück zur Arena
+          </Button>
+        }
+      />
+
+      <LeaderboardTable />
+    </AppLayout>
+  );
+}
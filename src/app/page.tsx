@@ -1,80 +1,119 @@
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Box, Stack, Alert, Snackbar } from '@mui/material';
+import React, { useState, useRef } from 'react';
+import { Box, Stack, Alert, Snackbar, Button, Chip, FormControlLabel, Switch } from '@mui/material';
+import { Forum, AddComment, VisibilityOff } from '@mui/icons-material';
 import { AppLayout, PageHeader } from '@/components/ui/AppLayout';
-import { DualModelSelector, ModelComparison } from '@/components/ModelSelector';
+import { MultiModelSelector, ModelComparison } from '@/components/ModelSelector';
 import { PromptInputWithTemplates } from '@/components/PromptInput';
-import { DualResponseDisplay } from '@/components/ResponseDisplay';
-import { DualCostDisplay, SessionCostTracker } from '@/components/CostDisplay';
+import { MultiResponseDisplay } from '@/components/ResponseDisplay';
+import { MultiCostDisplay, SessionCostTracker } from '@/components/CostDisplay';
+import AssertionEditor from '@/components/AssertionEditor';
+import JudgeSettings from '@/components/JudgeSettings';
+import JudgeVerdict from '@/components/JudgeVerdict';
 import HistoryPanel from '@/components/HistoryPanel';
-import { createStreamingChat, getPromptHistory } from '@/app/actions';
+import BlindVotePanel from '@/components/BlindVotePanel';
+import { cancelStreamingChat, createStreamingChat, getConversation, requestJudgment, submitVote } from '@/app/actions';
 import { createStreamingClient, createInitialStreamState, updateStreamState } from '@/lib/streaming';
-import { getModelConfig, DEFAULT_MODELS } from '@/lib/models';
+import { getDefaultGenerationParams, getModelConfig, parseGenerationParams, validateGenerationParams, DEFAULT_MODELS, MAX_MODEL_SLOTS, MIN_MODEL_SLOTS } from '@/lib/models';
 import { calculateCost } from '@/lib/pricing';
-import { type ChatResponse, type PromptHistory, type StreamEvent } from '@/types';
+import { BUDGET_UPDATED_EVENT } from '@/lib/budgets';
+import { DEFAULT_JUDGE_RUBRIC } from '@/lib/judge';
+import { type Assertion, type ChatResponse, type GenerationParams, type JudgeRequest, type Judgment, type ModelConfig, type ModelSelection, type ParamsSelection, type PromptHistory, type StreamEvent, type SystemPromptSelection, type TemplateReference, type ThreadMessage, type VoteOutcome } from '@/types';
+
+const BLIND_LABELS = ['Antwort A', 'Antwort B'];
+
+type SessionCostEntry = { modelName: string; cost: number; timestamp: Date };
 
 export default function Home() {
   // State Management
-  const [selectedModels, setSelectedModels] = useState<{
-    model1: string | null;
-    model2: string | null;
-  }>({
-    model1: DEFAULT_MODELS.model1,
-    model2: DEFAULT_MODELS.model2,
-  });
+  const [selectedModels, setSelectedModels] = useState<ModelSelection>(DEFAULT_MODELS);
+  const [selectedParams, setSelectedParams] = useState<ParamsSelection>(DEFAULT_MODELS.map(() => null));
+  const [runModels, setRunModels] = useState<string[]>([]);
+  const [runPrompt, setRunPrompt] = useState('');
+
+  // Konversation: jeder Slot hat seinen eigenen Thread
+  const [isConversationMode, setIsConversationMode] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [threads, setThreads] = useState<ThreadMessage[][]>([]);
+
+  // Blind-Modus: zwei Antworten in zufälliger Reihenfolge, Models erst nach der Abstimmung sichtbar
+  const [isBlindMode, setIsBlindMode] = useState(false);
+  const [blindOrder, setBlindOrder] = useState<number[] | null>(null); // Anzeigeposition -> Slot
+  const [vote, setVote] = useState<VoteOutcome | null>(null);
+  const [isVoting, setIsVoting] = useState(false);
+
+  // LLM-Judge: bewertet die Antworten nach Abschluss aller Streams
+  const [isJudgeEnabled, setIsJudgeEnabled] = useState(false);
+  const [judgeModel, setJudgeModel] = useState<string | null>(DEFAULT_MODELS[0]);
+  const [rubric, setRubric] = useState(DEFAULT_JUDGE_RUBRIC);
+  const [judgment, setJudgment] = useState<Judgment | null>(null);
+  const [isJudging, setIsJudging] = useState(false);
+  const [judgeError, setJudgeError] = useState<string | null>(null);
+  const pendingJudgeRef = useRef<JudgeRequest | null>(null); // beim Start festgelegt, nach Abschluss ausgeführt
 
   const [prompt, setPrompt] = useState('');
+  const [systemPrompt, setSystemPrompt] = useState('');
+  const [systemPrompts, setSystemPrompts] = useState<SystemPromptSelection>(DEFAULT_MODELS.map(() => null));
+  const [assertions, setAssertions] = useState<Assertion[]>([]);
+  // Ausgefüllte Vorlage; gilt nur, solange der Prompt unverändert ist
+  const [template, setTemplate] = useState<{ reference: TemplateReference; prompt: string } | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const [streamState, setStreamState] = useState(createInitialStreamState());
-  const [history, setHistory] = useState<PromptHistory[]>([]);
-  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
-  const [sessionCosts, setSessionCosts] = useState<Array<{ modelName: string; cost: number; timestamp: Date }>>([]);
-  const [notification, setNotification] = useState<{ message: string; severity: 'success' | 'error' | 'info' } | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [sessionCosts, setSessionCosts] = useState<SessionCostEntry[]>([]);
+  // Kosten eines Blind-Vergleichs erst nach der Abstimmung anzeigen (Model-Name + Preis verraten die Zuordnung)
+  const heldBlindCostsRef = useRef<SessionCostEntry[] | null>(null);
+  const [notification, setNotification] = useState<{ message: string; severity: 'success' | 'error' | 'info' | 'warning' } | null>(null);
   const streamingClientRef = useRef<ReturnType<typeof createStreamingClient> | null>(null);
 
-  // Load history on mount
-  useEffect(() => {
-    loadHistory();
-  }, []);
-
-  const loadHistory = async () => {
-    setIsLoadingHistory(true);
-    try {
-      const result = await getPromptHistory();
-      if (result.success && result.data) {
-        setHistory(result.data);
-      }
-    } catch (error) {
-      console.error('Failed to load history:', error);
-    } finally {
-      setIsLoadingHistory(false);
-    }
+  // HistoryPanel lädt seine Seiten selbst, hier nur neu anstoßen
+  const loadHistory = () => {
+    setHistoryRefreshKey(key => key + 1);
   };
 
+  const activeTemplate = template && template.prompt === prompt ? template.reference : null;
+
   // Handle streaming events
   const handleStreamEvent = (event: StreamEvent) => {
     setStreamState(prevState => {
       const newState = updateStreamState(prevState, event);
       
-      // Check if both models are complete after this update
-      if (event.type === 'complete') {
-        const model1Complete = event.model === 'model1' || !newState.model1.isStreaming;
-        const model2Complete = event.model === 'model2' || !newState.model2.isStreaming;
-        
-        if (model1Complete && model2Complete && !newState.isAnyStreaming) {
-          // Both models completed - stop streaming and show success
+      // Check if all slots are finished (complete, cancelled or failed) after this update
+      if (event.type === 'complete' || event.type === 'cancelled' || event.type === 'error') {
+        if (!newState.isAnyStreaming) {
+          const wasCancelled = newState.slots.some(slotState => slotState.cancelled);
+          const budgetExceeded = newState.slots.some(slotState => slotState.budgetExceeded);
+
+          // All models finished - stop streaming and show result
           setTimeout(() => {
             if (streamingClientRef.current) {
               streamingClientRef.current.stopStream();
               streamingClientRef.current = null;
             }
             setIsSubmitting(false);
-            loadHistory();
-            setNotification({
+            // Der neue History-Eintrag zeigt die Models – bei Blind-Vergleichen erst nach der Abstimmung laden
+            if (heldBlindCostsRef.current === null) {
+              loadHistory();
+            }
+            window.dispatchEvent(new Event(BUDGET_UPDATED_EVENT));
+            setNotification(budgetExceeded ? {
+              message: 'Budget-Limit erreicht: Vergleich abgebrochen. Teilantworten wurden gespeichert.',
+              severity: 'warning'
+            } : wasCancelled ? {
+              message: 'Vergleich abgebrochen. Teilantworten wurden gespeichert.',
+              severity: 'info'
+            } : {
               message: 'Vergleich erfolgreich abgeschlossen!',
               severity: 'success'
             });
+            // Abgebrochene Vergleiche werden nicht automatisch bewertet
+            const judgeRequest = pendingJudgeRef.current;
+            pendingJudgeRef.current = null;
+            if (judgeRequest && !wasCancelled && !budgetExceeded) {
+              runJudge(judgeRequest);
+            }
           }, 100); // Small delay to ensure state is updated
         }
       }
@@ -82,24 +121,52 @@ export default function Home() {
       return newState;
     });
 
-    // Track costs when streaming completes
-    if (event.type === 'complete' && event.data.model && typeof event.data.cost === 'number') {
+    // Track costs when streaming completes or is cancelled (partial output is billed too)
+    if ((event.type === 'complete' || event.type === 'cancelled') && event.data.model && typeof event.data.cost === 'number') {
       const modelConfig = getModelConfig(event.data.model);
       if (modelConfig) {
-        setSessionCosts(prev => [...prev, {
+        const entry = {
           modelName: modelConfig.displayName,
           cost: event.data.cost as number, // Type assertion since we checked above
           timestamp: new Date(),
-        }]);
+        };
+        if (heldBlindCostsRef.current) {
+          heldBlindCostsRef.current.push(entry);
+        } else {
+          setSessionCosts(prev => [...prev, entry]);
+        }
       }
     }
   };
 
+  const releaseBlindCosts = () => {
+    const held = heldBlindCostsRef.current;
+    heldBlindCostsRef.current = null;
+    if (held?.length) {
+      setSessionCosts(prev => [...prev, ...held]);
+    }
+  };
+
   // Submit prompt for processing
   const handleSubmit = async () => {
-    if (!prompt.trim() || !selectedModels.model1 || !selectedModels.model2) {
+    const models = selectedModels.filter((model): model is string => Boolean(model));
+
+    if (!prompt.trim() || models.length !== selectedModels.length) {
+      setNotification({
+        message: 'Bitte wähle für jeden Slot ein Modell aus und gib einen Prompt ein.',
+        severity: 'error'
+      });
+      return;
+    }
+
+    const params = models.map((model, slot) => selectedParams[slot] || getDefaultGenerationParams(model));
+    const paramsError = params
+      .map((slotParams, slot) => validateGenerationParams(slotParams, models[slot]))
+      .find(Boolean);
+
+    if (paramsError) {
       setNotification({
-        message: 'Bitte wähle beide Modelle aus und gib einen Prompt ein.',
+        message: paramsError,
         severity: 'error'
       });
       return;
@@ -110,21 +177,54 @@ export default function Home() {
       streamingClientRef.current.stopStream();
     }
 
+    // Folgefrage nur, wenn die Models der Konversation unverändert sind
+    const continueConversation = isConversationMode && conversationId !== null && models.join(',') === runModels.join(',');
+
+    // Zurückgehaltene Kosten eines nicht bewerteten Blind-Vergleichs jetzt übernehmen
+    releaseBlindCosts();
+    heldBlindCostsRef.current = isBlindMode && models.length === 2 ? [] : null;
+
     setIsSubmitting(true);
-    setStreamState(createInitialStreamState());
+    setThreads(continueConversation ? appendLastTurn(threads) : []);
+    setRunModels(models);
+    setRunPrompt(prompt.trim());
+    setStreamState(createInitialStreamState(models.length));
+    setBlindOrder(isBlindMode && models.length === 2 ? (Math.random() < 0.5 ? [0, 1] : [1, 0]) : null);
+    setVote(null);
+    setJudgment(null);
+    setJudgeError(null);
+    pendingJudgeRef.current = null;
 
     try {
       // Create streaming session
       const result = await createStreamingChat({
         prompt: prompt.trim(),
-        model1: selectedModels.model1,
-        model2: selectedModels.model2,
+        models,
+        params,
+        systemPrompt,
+        systemPrompts,
+        assertions,
+        template: activeTemplate ? { versionId: activeTemplate.versionId, variables: activeTemplate.variables } : undefined,
+        conversationId: continueConversation ? conversationId : undefined,
       });
 
       if (!result.success || !result.data) {
         throw new Error(result.error || 'Failed to create streaming session');
       }
 
+      setConversationId(result.data.conversationId);
+      setSessionId(result.data.id);
+      if (isJudgeEnabled && judgeModel) {
+        pendingJudgeRef.current = { sessionId: result.data.id, judgeModel, rubric };
+      }
+
+      if (result.data.budgetWarnings?.length) {
+        setNotification({
+          message: `Budget-Warnung: ${result.data.budgetWarnings.join(' · ')}`,
+          severity: 'warning'
+        });
+      }
+
       // Start streaming
       const streamingClient = createStreamingClient({
         onStreamEvent: handleStreamEvent,
@@ -153,13 +253,53 @@ export default function Home() {
     }
   };
 
+  // Antworten vom Judge-Model bewerten lassen; die Kosten zählen zur Session
+  const runJudge = async (request: JudgeRequest) => {
+    setIsJudging(true);
+    setJudgeError(null);
+    try {
+      const result = await requestJudgment(request);
+      if (!result.success || !result.data) {
+        setJudgeError(result.error || 'Bewertung fehlgeschlagen');
+        return;
+      }
+
+      const judgeResult = result.data;
+      setJudgment(judgeResult);
+      setSessionCosts(prev => [...prev, {
+        modelName: `Judge: ${getModelConfig(judgeResult.judgeModel)?.displayName || judgeResult.judgeModel}`,
+        cost: judgeResult.cost,
+        timestamp: new Date(),
+      }]);
+      if (heldBlindCostsRef.current === null) {
+        loadHistory();
+      }
+      window.dispatchEvent(new Event(BUDGET_UPDATED_EVENT));
+    } finally {
+      setIsJudging(false);
+    }
+  };
+
+  const handleJudgeNow = () => {
+    if (!sessionId || !judgeModel) return;
+    runJudge({ sessionId, judgeModel, rubric });
+  };
+
   // Handle history selection
   const handleHistorySelect = (historyItem: PromptHistory) => {
     setPrompt(historyItem.content);
-    setSelectedModels({
-      model1: historyItem.model1,
-      model2: historyItem.model2,
-    });
+    setSelectedModels(historyItem.responses.map(response => response.model));
+    setSelectedParams(historyItem.responses.map(response => parseGenerationParams(response.params)));
+    setSystemPrompt(historyItem.systemPrompt || '');
+    // Abweichende System-Prompts einzelner Slots als Überschreibung übernehmen
+    const overrides = historyItem.responses.map(response => response.systemPrompt === historyItem.systemPrompt ? null : response.systemPrompt || '');
+    setSystemPrompts(overrides);
+    setAssertions(historyItem.assertions);
+    setTemplate(historyItem.template ? { reference: historyItem.template, prompt: historyItem.content } : null);
+    if (historyItem.judgment) {
+      setJudgeModel(historyItem.judgment.judgeModel);
+      setRubric(historyItem.judgment.rubric);
+    }
     
     setNotification({
       message: 'Prompt aus Historie geladen.',
@@ -167,6 +307,125 @@ export default function Home() {
     });
   };
 
+  // Stop: bricht alle Slots oder nur einen Slot serverseitig ab
+  const handleStop = async (slot?: number) => {
+    if (!sessionId) return;
+
+    const result = await cancelStreamingChat(sessionId, slot);
+    if (!result.success) {
+      setNotification({
+        message: result.error || 'Stream konnte nicht abgebrochen werden.',
+        severity: 'error'
+      });
+    }
+  };
+
+  // Blind-Abstimmung speichern und Models aufdecken
+  const handleVote = async (outcome: VoteOutcome) => {
+    if (!sessionId || !blindOrder) return;
+
+    setIsVoting(true);
+    try {
+      const result = await submitVote({
+        sessionId,
+        slotA: blindOrder[0],
+        slotB: blindOrder[1],
+        outcome,
+      });
+
+      if (!result.success) {
+        setNotification({
+          message: result.error || 'Abstimmung konnte nicht gespeichert werden.',
+          severity: 'error'
+        });
+        return;
+      }
+
+      setVote(outcome);
+      releaseBlindCosts();
+      loadHistory();
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  // Letzte abgeschlossene Runde an die Threads anhängen (Slots mit Fehler bleiben unverändert)
+  const appendLastTurn = (currentThreads: ThreadMessage[][]): ThreadMessage[][] => {
+    return runModels.map((_, slot) => {
+      const thread = currentThreads[slot] || [];
+      const slotState = streamState.slots[slot];
+
+      if (!runPrompt || !slotState?.content || slotState.error) return thread;
+
+      return [
+        ...thread,
+        { role: 'user', content: runPrompt },
+        { role: 'assistant', content: slotState.content },
+      ];
+    });
+  };
+
+  // Reopen a conversation from history
+  const handleContinueConversation = async (historyItem: PromptHistory) => {
+    if (!historyItem.conversationId) return;
+
+    const result = await getConversation(historyItem.conversationId);
+    if (!result.success || !result.data) {
+      setNotification({
+        message: result.error || 'Konversation konnte nicht geladen werden.',
+        severity: 'error'
+      });
+      return;
+    }
+
+    const conversation = result.data;
+    handleHistorySelect(historyItem);
+    setPrompt('');
+    setSelectedModels(conversation.models);
+    setRunModels(conversation.models);
+    setRunPrompt('');
+    setThreads(conversation.threads);
+    setStreamState(createInitialStreamState(conversation.models.length));
+    setConversationId(conversation.id);
+    setIsConversationMode(true);
+
+    setNotification({
+      message: `Konversation "${conversation.title}" geöffnet.`,
+      severity: 'info'
+    });
+  };
+
+  const handleNewConversation = () => {
+    setConversationId(null);
+    setThreads([]);
+    setRunPrompt('');
+  };
+
+  // Handle model slot changes
+  const handleModelChange = (slot: number, model: string | null) => {
+    setSelectedModels(prev => prev.map((current, index) => index === slot ? model : current));
+    // Parameter gelten pro Model (Limits unterscheiden sich), daher zurücksetzen
+    setSelectedParams(prev => prev.map((current, index) => index === slot ? null : current));
+  };
+
+  const handleParamsChange = (slot: number, params: GenerationParams) => {
+    setSelectedParams(prev => prev.map((current, index) => index === slot ? params : current));
+  };
+
+  const handleAddSlot = () => {
+    if (selectedModels.length >= MAX_MODEL_SLOTS) return;
+    setSelectedModels(prev => [...prev, null]);
+    setSelectedParams(prev => [...prev, null]);
+    setSystemPrompts(prev => [...prev, prev.some(override => override !== null) ? systemPrompt : null]);
+  };
+
+  const handleRemoveSlot = (slot: number) => {
+    if (selectedModels.length <= MIN_MODEL_SLOTS) return;
+    setSelectedModels(prev => prev.filter((_, index) => index !== slot));
+    setSelectedParams(prev => prev.filter((_, index) => index !== slot));
+    setSystemPrompts(prev => prev.filter((_, index) => index !== slot));
+  };
+
   // Handle copy responses
   const handleCopy = (content: string, modelName: string) => {
     setNotification({
@@ -175,15 +434,27 @@ export default function Home() {
     });
   };
 
-  // Get model configs for displays
-  const model1Config = selectedModels.model1 ? getModelConfig(selectedModels.model1) : null;
-  const model2Config = selectedModels.model2 ? getModelConfig(selectedModels.model2) : null;
+  // Get model configs for displays (Models des laufenden bzw. letzten Vergleichs)
+  const runConfigs = runModels
+    .map(model => getModelConfig(model))
+    .filter((config): config is ModelConfig => Boolean(config));
 
   // Create cost calculations
-  const cost1 = model1Config && streamState.model1.tokens && selectedModels.model1 ? 
-    calculateCost(streamState.model1.tokens, selectedModels.model1) : null;
-  const cost2 = model2Config && streamState.model2.tokens && selectedModels.model2 ? 
-    calculateCost(streamState.model2.tokens, selectedModels.model2) : null;
+  const costs = runConfigs.length === runModels.length && streamState.slots.length === runModels.length
+    ? streamState.slots.map((slotState, slot) => ({
+        ...calculateCost(slotState.tokens, runModels[slot]),
+        exact: slotState.exact,
+      }))
+    : null;
+
+  // Labels pro Slot ("Antwort A/B") und ob die Models noch verborgen sind
+  const blindLabels = blindOrder
+    ? runModels.map((_, slot) => BLIND_LABELS[blindOrder.indexOf(slot)])
+    : undefined;
+  const isBlindHidden = blindOrder !== null && vote === null;
+
+  const hasResults = streamState.isAnyStreaming || streamState.slots.some(slotState => slotState.content);
+  const hasThreads = threads.some(thread => thread.length > 0);
 
   return (
     <AppLayout>
@@ -197,68 +468,156 @@ export default function Home() {
         <Box sx={{ flex: { lg: '1 1 75%' }, width: '100%' }}>
           <Stack spacing={3}>
             {/* Model Selection */}
-            <DualModelSelector
-              model1={selectedModels.model1}
-              model2={selectedModels.model2}
-              onModel1Change={(model) => setSelectedModels(prev => ({ ...prev, model1: model }))}
-              onModel2Change={(model) => setSelectedModels(prev => ({ ...prev, model2: model }))}
+            <MultiModelSelector
+              models={selectedModels}
+              params={selectedParams}
+              onModelChange={handleModelChange}
+              onParamsChange={handleParamsChange}
+              onAddSlot={handleAddSlot}
+              onRemoveSlot={handleRemoveSlot}
               disabled={isSubmitting}
             />
 
             {/* Model Comparison */}
             <ModelComparison
-              model1Id={selectedModels.model1}
-              model2Id={selectedModels.model2}
+              modelIds={selectedModels}
+              // Laufzeiten pro Model würden im Blind-Modus die Zuordnung der Antworten verraten
+              runMetrics={!isBlindHidden && runModels.length === selectedModels.length && runModels.every((model, slot) => model === selectedModels[slot])
+                ? streamState.slots.map(slotState => slotState.metrics)
+                : undefined}
             />
 
+            {/* Conversation Mode */}
+            <Stack direction="row" spacing={2} alignItems="center" flexWrap="wrap" useFlexGap>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={isConversationMode}
+                    onChange={(e) => setIsConversationMode(e.target.checked)}
+                    disabled={isSubmitting}
+                  />
+                }
+                label="Konversationsmodus (Folgefragen mit bisherigem Verlauf)"
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={isBlindMode && selectedModels.length === 2}
+                    onChange={(e) => setIsBlindMode(e.target.checked)}
+                    disabled={isSubmitting || selectedModels.length !== 2}
+                  />
+                }
+                label={selectedModels.length === 2
+                  ? 'Blind-Modus (Antwort A/B bewerten)'
+                  : 'Blind-Modus (nur mit genau zwei Models)'}
+              />
+              {isBlindHidden && (
+                <Chip icon={<VisibilityOff />} label="Models verborgen" color="secondary" variant="outlined" size="small" />
+              )}
+              {isConversationMode && conversationId && (
+                <>
+                  <Chip icon={<Forum />} label="Konversation aktiv" color="primary" variant="outlined" size="small" />
+                  <Button size="small" startIcon={<AddComment />} onClick={handleNewConversation} disabled={isSubmitting}>
+                    Neue Konversation
+                  </Button>
+                </>
+              )}
+            </Stack>
+
             {/* Prompt Input */}
             <PromptInputWithTemplates
               value={prompt}
               onChange={setPrompt}
+              systemPrompt={systemPrompt}
+              onSystemPromptChange={setSystemPrompt}
+              systemPrompts={systemPrompts}
+              onSystemPromptsChange={setSystemPrompts}
+              modelIds={selectedModels}
               onSubmit={handleSubmit}
+              onStop={() => handleStop()}
               isSubmitting={isSubmitting}
               error={undefined}
+              activeTemplate={activeTemplate}
+              onTemplateApply={(reference, templatePrompt) => setTemplate({ reference, prompt: templatePrompt })}
+              onTemplateClear={() => setTemplate(null)}
+            />
+
+            <AssertionEditor
+              assertions={assertions}
+              onChange={setAssertions}
+              disabled={isSubmitting}
+            />
+
+            <JudgeSettings
+              enabled={isJudgeEnabled}
+              onEnabledChange={setIsJudgeEnabled}
+              judgeModel={judgeModel}
+              onJudgeModelChange={setJudgeModel}
+              rubric={rubric}
+              onRubricChange={setRubric}
+              onJudgeNow={handleJudgeNow}
+              canJudgeNow={Boolean(sessionId) && hasResults && !streamState.isAnyStreaming && !isJudging}
+              disabled={isSubmitting}
             />
 
             {/* Response Display */}
-            {(streamState.model1.content || streamState.model2.content || streamState.isAnyStreaming) && (
-              <DualResponseDisplay
-                response1={streamState.model1.content ? {
-                  id: 'model1',
-                  model: selectedModels.model1!,
-                  content: streamState.model1.content,
-                  tokens: streamState.model1.tokens,
-                  cost: streamState.model1.cost,
-                  finishReason: 'stop',
-                  timestamp: new Date(),
-                  error: streamState.model1.error || undefined,
-                } as ChatResponse : null}
-                response2={streamState.model2.content ? {
-                  id: 'model2',
-                  model: selectedModels.model2!,
-                  content: streamState.model2.content,
-                  tokens: streamState.model2.tokens,
-                  cost: streamState.model2.cost,
-                  finishReason: 'stop',
+            {(hasResults || hasThreads) && runConfigs.length === runModels.length && (
+              <MultiResponseDisplay
+                responses={streamState.slots.map((slotState, slot) => slotState.content ? {
+                  id: `slot-${slot}`,
+                  model: runModels[slot],
+                  content: slotState.content,
+                  tokens: slotState.tokens,
+                  cost: slotState.cost,
+                  finishReason: slotState.cancelled ? 'cancelled' : 'stop',
+                  exact: slotState.exact,
+                  metrics: slotState.metrics || undefined,
                   timestamp: new Date(),
-                  error: streamState.model2.error || undefined,
-                } as ChatResponse : null}
-                isStreaming1={streamState.model1.isStreaming}
-                isStreaming2={streamState.model2.isStreaming}
-                model1Config={model1Config!}
-                model2Config={model2Config!}
-                onCopy1={() => handleCopy(streamState.model1.content, model1Config?.displayName || 'Model 1')}
-                onCopy2={() => handleCopy(streamState.model2.content, model2Config?.displayName || 'Model 2')}
+                  error: slotState.error || undefined,
+                  assertionResults: slotState.assertionResults || undefined,
+                } as ChatResponse : null)}
+                streaming={streamState.slots.map(slotState => slotState.isStreaming)}
+                modelConfigs={runConfigs}
+                threads={threads}
+                onStop={(slot) => handleStop(slot)}
+                onCopy={(slot) => handleCopy(streamState.slots[slot].content, blindLabels?.[slot] || runConfigs[slot]?.displayName || `Model ${slot + 1}`)}
+                order={blindOrder || undefined}
+                blindLabels={blindLabels}
+                hideModels={isBlindHidden}
+              />
+            )}
+
+            {/* Judge Verdict */}
+            {(judgment || isJudging || judgeError) && (
+              <JudgeVerdict
+                judgment={judgment}
+                isJudging={isJudging}
+                error={judgeError}
+                slotLabels={runModels.map((model, slot) => blindLabels?.[slot] || runConfigs[slot]?.displayName || model)}
+                hidden={isBlindHidden}
+                onRetry={isSubmitting ? undefined : handleJudgeNow}
+              />
+            )}
+
+            {/* Blind Voting */}
+            {blindOrder && hasResults && runConfigs.length === 2 && (
+              <BlindVotePanel
+                onVote={handleVote}
+                disabled={streamState.isAnyStreaming}
+                isSubmitting={isVoting}
+                vote={vote}
+                revealedModels={vote ? {
+                  a: runConfigs[blindOrder[0]].displayName,
+                  b: runConfigs[blindOrder[1]].displayName,
+                } : null}
               />
             )}
 
-            {/* Cost Display */}
-            {cost1 && cost2 && (
-              <DualCostDisplay
-                cost1={cost1}
-                cost2={cost2}
-                model1Name={model1Config?.displayName || 'Model 1'}
-                model2Name={model2Config?.displayName || 'Model 2'}
+            {/* Cost Display (im Blind-Modus erst nach der Abstimmung, sonst verraten die Preise das Model) */}
+            {costs && !isBlindHidden && (
+              <MultiCostDisplay
+                costs={costs}
+                modelNames={runConfigs.map(config => config.displayName)}
                 isLive={streamState.isAnyStreaming}
               />
             )}
@@ -276,9 +635,9 @@ export default function Home() {
         {/* Sidebar */}
         <Box sx={{ flex: { lg: '0 0 25%' }, width: '100%', minWidth: 300 }}>
           <HistoryPanel
-            history={history}
             onSelectPrompt={handleHistorySelect}
-            isLoading={isLoadingHistory}
+            onContinueConversation={handleContinueConversation}
+            refreshKey={historyRefreshKey}
           />
         </Box>
       </Stack>
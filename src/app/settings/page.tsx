@@ -0,0 +1,29 @@
+'use client';
+
+import React from 'react';
+import { Button, Stack } from '@mui/material';
+import { ArrowBack } from '@mui/icons-material';
+import { AppLayout, PageHeader } from '@/components/ui/AppLayout';
+import ModelCatalogEditor from '@/components/ModelCatalogEditor';
+import BudgetEditor from '@/components/BudgetEditor';
+
+export default function SettingsPage() {
+  return (
+    <AppLayout>
+      <PageHeader
+        title="Einstellungen"
+        subtitle="Models hinzufügen, deaktivieren, Preise pflegen und Budgets festlegen – ohne neues Deployment"
+        action={
+          <Button href="/" startIcon={<ArrowBack />}>
+            Zurück zur Arena
+          </Button>
+        }
+      />
+
+      <Stack spacing={3}>
+        <ModelCatalogEditor />
+        <BudgetEditor />
+      </Stack>
+    </AppLayout>
+  );
+}
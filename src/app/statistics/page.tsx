@@ -0,0 +1,25 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@mui/material';
+import { ArrowBack } from '@mui/icons-material';
+import { AppLayout, PageHeader } from '@/components/ui/AppLayout';
+import LatencyStatsTable from '@/components/LatencyStatsTable';
+
+export default function StatisticsPage() {
+  return (
+    <AppLayout>
+      <PageHeader
+        title="Statistiken"
+        subtitle="Latenz-Perzentile (p50/p95) pro Model aus allen gespeicherten Läufen"
+        action={
+          <Button href="/" startIcon={<ArrowBack />}>
+            Zurück zur Arena
+          </Button>
+        }
+      />
+
+      <LatencyStatsTable />
+    </AppLayout>
+  );
+}
@@ -0,0 +1,399 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Box,
+  TextField,
+  Autocomplete,
+  ToggleButton,
+  ToggleButtonGroup,
+  Alert,
+  LinearProgress,
+} from '@mui/material';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as ChartTooltip,
+  Legend,
+} from 'recharts';
+import { format, parseISO, subDays } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { getAnalytics } from '@/app/actions';
+import { useModelCatalog } from '@/components/providers/ModelCatalogProvider';
+import CostRecomputationCard from '@/components/CostRecomputationCard';
+import { getModelConfig } from '@/lib/models';
+import { getProvider } from '@/lib/providers';
+import { formatCost, formatTokens } from '@/lib/pricing';
+import { LATENCY_BUCKETS } from '@/lib/metrics';
+import { type AnalyticsData, type AnalyticsGranularity, type AnalyticsSeriesPoint } from '@/types';
+
+type GroupBy = 'model' | 'provider';
+type LatencyMetric = 'ttft' | 'duration';
+type ChartRow = Record<string, string | number>;
+
+const DEFAULT_RANGE_DAYS = 30;
+const CHART_HEIGHT = 280;
+
+// Feste Farbfolge, damit Models über alle Diagramme gleich eingefärbt sind
+const CHART_COLORS = ['#1976d2', '#9c27b0', '#2e7d32', '#ed6c02', '#0288d1', '#d32f2f', '#7b1fa2', '#689f38', '#f9a825', '#5d4037'];
+
+const groupLabel = (group: string, groupBy: GroupBy) =>
+  groupBy === 'model'
+    ? getModelConfig(group)?.displayName || group
+    : getProvider(group)?.name || group;
+
+/**
+ * Pivotiert die Aggregate zu einer Zeile pro Zeitraum mit einer Spalte pro Model bzw. Provider
+ */
+function pivotSeries(
+  series: AnalyticsSeriesPoint[],
+  groupBy: GroupBy,
+  value: (point: AnalyticsSeriesPoint) => number
+): { rows: ChartRow[]; groups: string[] } {
+  const rows = new Map<string, ChartRow>();
+  const groups = new Set<string>();
+
+  for (const point of series) {
+    const group = point[groupBy];
+    const row = rows.get(point.period) || { period: point.period };
+    row[group] = ((row[group] as number) || 0) + value(point);
+    rows.set(point.period, row);
+    groups.add(group);
+  }
+
+  return { rows: [...rows.values()], groups: [...groups] };
+}
+
+const formatPeriod = (period: string, granularity: AnalyticsGranularity) =>
+  granularity === 'week'
+    ? `KW ab ${format(parseISO(period), 'dd.MM.', { locale: de })}`
+    : format(parseISO(period), 'dd.MM.', { locale: de });
+
+export const AnalyticsDashboard: React.FC = () => {
+  const { catalog } = useModelCatalog();
+  const [dateFrom, setDateFrom] = useState(() => format(subDays(new Date(), DEFAULT_RANGE_DAYS), 'yyyy-MM-dd'));
+  const [dateTo, setDateTo] = useState('');
+  const [models, setModels] = useState<string[]>([]);
+  const [granularity, setGranularity] = useState<AnalyticsGranularity>('day');
+  const [groupBy, setGroupBy] = useState<GroupBy>('model');
+  const [latencyMetric, setLatencyMetric] = useState<LatencyMetric>('ttft');
+
+  const [data, setData] = useState<AnalyticsData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Zuletzt gestartete Abfrage (ältere Antworten verwerfen)
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+
+    getAnalytics({ dateFrom: dateFrom || undefined, dateTo: dateTo || undefined, models, granularity })
+      .then(result => {
+        if (requestId !== requestIdRef.current) return;
+
+        if (result.success && result.data) {
+          setData(result.data);
+          setError(null);
+        } else {
+          setError(result.error || 'Fehler beim Laden der Analytics');
+        }
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) setIsLoading(false);
+      });
+  }, [dateFrom, dateTo, models, granularity]);
+
+  const series = data?.series || [];
+  const costs = pivotSeries(series, groupBy, point => point.cost);
+  const requests = pivotSeries(series, groupBy, point => point.requests);
+  const tokens = [...series.reduce((rows, point) => {
+    const row = rows.get(point.period) || { period: point.period, input: 0, output: 0 };
+    row.input += point.inputTokens;
+    row.output += point.outputTokens;
+    return rows.set(point.period, row);
+  }, new Map<string, { period: string; input: number; output: number }>()).values()];
+
+  // Fehlerquote über den gesamten Zeitraum pro Model bzw. Provider
+  const errorRates = Object.values(series.reduce<Record<string, { group: string; requests: number; errors: number }>>(
+    (acc, point) => {
+      const group = point[groupBy];
+      acc[group] = acc[group] || { group, requests: 0, errors: 0 };
+      acc[group].requests += point.requests;
+      acc[group].errors += point.errors;
+      return acc;
+    },
+    {}
+  )).map(entry => ({
+    name: groupLabel(entry.group, groupBy),
+    rate: entry.requests > 0 ? Math.round((entry.errors / entry.requests) * 1000) / 10 : 0,
+  }));
+
+  // Latenz-Histogramm: eine Zeile pro Klasse, eine Spalte pro Model
+  const latencyBins = (data?.latency || []).filter(bin => bin.metric === latencyMetric);
+  const latencyModels = [...new Set(latencyBins.map(bin => bin.model))];
+  const latencyRows: ChartRow[] = LATENCY_BUCKETS.map((bucket, index) => {
+    const row: ChartRow = { bucket: bucket.label };
+    latencyBins.filter(bin => bin.bin === index).forEach(bin => { row[bin.model] = bin.count; });
+    return row;
+  });
+
+  const totals = data?.totals;
+  const totalTokens = totals ? totals.inputTokens + totals.outputTokens : 0;
+
+  return (
+    <Stack spacing={3}>
+      {/* Filter */}
+      <Card>
+        {isLoading && <LinearProgress />}
+        <CardContent>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }}>
+            <TextField
+              label="Von"
+              type="date"
+              size="small"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              label="Bis"
+              type="date"
+              size="small"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <Autocomplete
+              multiple
+              size="small"
+              options={catalog.map(model => model.id)}
+              getOptionLabel={(modelId) => getModelConfig(modelId)?.displayName || modelId}
+              value={models}
+              onChange={(_, value) => setModels(value)}
+              renderInput={(params) => <TextField {...params} label="Models" placeholder="Alle Models" />}
+              sx={{ flex: 1, minWidth: 240 }}
+            />
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={granularity}
+              onChange={(_, value) => value && setGranularity(value)}
+            >
+              <ToggleButton value="day">Tag</ToggleButton>
+              <ToggleButton value="week">Woche</ToggleButton>
+            </ToggleButtonGroup>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={groupBy}
+              onChange={(_, value) => value && setGroupBy(value)}
+            >
+              <ToggleButton value="model">Model</ToggleButton>
+              <ToggleButton value="provider">Provider</ToggleButton>
+            </ToggleButtonGroup>
+          </Stack>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert severity="error">
+          {error}
+        </Alert>
+      )}
+
+      {/* Kennzahlen */}
+      {totals && (
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: 'repeat(2, 1fr)', md: 'repeat(4, 1fr)' }, gap: 2 }}>
+          <SummaryCard label="Kosten" value={formatCost(totals.cost)} color="warning.main" />
+          <SummaryCard label="Anfragen" value={`${totals.requests}`} caption={`${totals.prompts} Vergleiche`} color="primary.main" />
+          <SummaryCard label="Tokens" value={formatTokens(totalTokens)} color="info.main" />
+          <SummaryCard
+            label="Fehlerquote"
+            value={totals.requests > 0 ? `${((totals.errors / totals.requests) * 100).toFixed(1)} %` : '–'}
+            caption={`${totals.errors} Fehler`}
+            color="error.main"
+          />
+        </Box>
+      )}
+
+      {data && series.length === 0 && (
+        <Alert severity="info">
+          Keine Daten im gewählten Zeitraum.
+        </Alert>
+      )}
+
+      {series.length > 0 && (
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', lg: 'repeat(2, 1fr)' }, gap: 3 }}>
+          <ChartCard title={`Kosten pro ${granularity === 'week' ? 'Woche' : 'Tag'}`}>
+            <BarChart data={costs.rows}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="period" tickFormatter={(period) => formatPeriod(period, granularity)} />
+              <YAxis tickFormatter={(value) => formatCost(value)} width={80} />
+              <ChartTooltip
+                labelFormatter={(period) => formatPeriod(String(period), granularity)}
+                formatter={(value) => formatCost(Number(value))}
+              />
+              <Legend />
+              {costs.groups.map((group, index) => (
+                <Bar
+                  key={group}
+                  dataKey={(row: ChartRow) => row[group] || 0}
+                  name={groupLabel(group, groupBy)}
+                  stackId="cost"
+                  fill={CHART_COLORS[index % CHART_COLORS.length]}
+                />
+              ))}
+            </BarChart>
+          </ChartCard>
+
+          <ChartCard title="Anfragen">
+            <LineChart data={requests.rows}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="period" tickFormatter={(period) => formatPeriod(period, granularity)} />
+              <YAxis allowDecimals={false} />
+              <ChartTooltip labelFormatter={(period) => formatPeriod(String(period), granularity)} />
+              <Legend />
+              {requests.groups.map((group, index) => (
+                <Line
+                  key={group}
+                  type="monotone"
+                  dataKey={(row: ChartRow) => row[group] || 0}
+                  name={groupLabel(group, groupBy)}
+                  stroke={CHART_COLORS[index % CHART_COLORS.length]}
+                  strokeWidth={2}
+                />
+              ))}
+            </LineChart>
+          </ChartCard>
+
+          <ChartCard title="Token-Volumen">
+            <BarChart data={tokens}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="period" tickFormatter={(period) => formatPeriod(period, granularity)} />
+              <YAxis tickFormatter={(value) => formatTokens(value)} width={60} />
+              <ChartTooltip
+                labelFormatter={(period) => formatPeriod(String(period), granularity)}
+                formatter={(value) => formatTokens(Number(value))}
+              />
+              <Legend />
+              <Bar dataKey="input" name="Input" stackId="tokens" fill={CHART_COLORS[0]} />
+              <Bar dataKey="output" name="Output" stackId="tokens" fill={CHART_COLORS[1]} />
+            </BarChart>
+          </ChartCard>
+
+          <ChartCard title="Fehlerquote">
+            <BarChart data={errorRates} layout="vertical">
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" unit=" %" domain={[0, 100]} />
+              <YAxis type="category" dataKey="name" width={140} />
+              <ChartTooltip formatter={(value) => `${value} %`} />
+              <Bar dataKey="rate" name="Fehlerquote" fill={CHART_COLORS[5]} />
+            </BarChart>
+          </ChartCard>
+
+          <Box sx={{ gridColumn: { lg: '1 / -1' } }}>
+            <ChartCard
+              title="Latenzverteilung"
+              emptyMessage={latencyModels.length === 0 ? 'Noch keine Latenz-Messwerte im gewählten Zeitraum.' : undefined}
+              action={
+                <ToggleButtonGroup
+                  size="small"
+                  exclusive
+                  value={latencyMetric}
+                  onChange={(_, value) => value && setLatencyMetric(value)}
+                >
+                  <ToggleButton value="ttft">Erstes Token</ToggleButton>
+                  <ToggleButton value="duration">Gesamtdauer</ToggleButton>
+                </ToggleButtonGroup>
+              }
+            >
+              <BarChart data={latencyRows}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="bucket" />
+                <YAxis allowDecimals={false} />
+                <ChartTooltip />
+                <Legend />
+                {latencyModels.map((model, index) => (
+                  <Bar
+                    key={model}
+                    dataKey={(row: ChartRow) => row[model] || 0}
+                    name={groupLabel(model, 'model')}
+                    fill={CHART_COLORS[index % CHART_COLORS.length]}
+                  />
+                ))}
+              </BarChart>
+            </ChartCard>
+          </Box>
+        </Box>
+      )}
+
+      <CostRecomputationCard filter={{ dateFrom: dateFrom || undefined, dateTo: dateTo || undefined, models }} />
+    </Stack>
+  );
+};
+
+// Kennzahl-Kachel
+const SummaryCard: React.FC<{
+  label: string;
+  value: string;
+  caption?: string;
+  color: string;
+}> = ({ label, value, caption, color }) => (
+  <Card>
+    <CardContent>
+      <Typography variant="caption" color="text.secondary">
+        {label}
+      </Typography>
+      <Typography variant="h5" color={color} fontWeight="bold">
+        {value}
+      </Typography>
+      {caption && (
+        <Typography variant="caption" color="text.secondary">
+          {caption}
+        </Typography>
+      )}
+    </CardContent>
+  </Card>
+);
+
+// Karte mit Titel und responsivem Diagramm
+const ChartCard: React.FC<{
+  title: string;
+  action?: React.ReactNode;
+  emptyMessage?: string; // statt des Diagramms anzeigen
+  children: React.ReactElement;
+}> = ({ title, action, emptyMessage, children }) => (
+  <Card sx={{ height: '100%' }}>
+    <CardContent>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+        <Typography variant="h6">
+          {title}
+        </Typography>
+        {action}
+      </Stack>
+      {emptyMessage ? (
+        <Alert severity="info">
+          {emptyMessage}
+        </Alert>
+      ) : (
+        <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+          {children}
+        </ResponsiveContainer>
+      )}
+    </CardContent>
+  </Card>
+);
+
+export default AnalyticsDashboard;
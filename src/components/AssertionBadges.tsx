@@ -0,0 +1,47 @@
+'use client';
+
+import React from 'react';
+import { Chip, Stack, Tooltip } from '@mui/material';
+import { CheckCircle, Cancel } from '@mui/icons-material';
+import { ASSERTION_TYPE_LABELS } from '@/lib/assertions';
+import { type AssertionResult } from '@/types';
+
+interface AssertionBadgesProps {
+  results: AssertionResult[];
+}
+
+/**
+ * Pass/Fail-Badges der Assertions einer Antwort (Details im Tooltip)
+ */
+export const AssertionBadges: React.FC<AssertionBadgesProps> = ({ results }) => {
+  if (results.length === 0) return null;
+
+  const passed = results.filter(result => result.passed).length;
+
+  return (
+    <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap alignItems="center">
+      <Chip
+        label={`${passed}/${results.length} bestanden`}
+        size="small"
+        color={passed === results.length ? 'success' : 'error'}
+      />
+      {results.map(result => (
+        <Tooltip
+          key={result.assertionId}
+          title={`${ASSERTION_TYPE_LABELS[result.type]}: ${result.label}${result.message ? ` – ${result.message}` : ''}`}
+        >
+          <Chip
+            icon={result.passed ? <CheckCircle /> : <Cancel />}
+            label={result.label}
+            size="small"
+            variant="outlined"
+            color={result.passed ? 'success' : 'error'}
+            sx={{ maxWidth: 220 }}
+          />
+        </Tooltip>
+      ))}
+    </Stack>
+  );
+};
+
+export default AssertionBadges;
@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Collapse,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Add, Rule, ExpandMore, ExpandLess } from '@mui/icons-material';
+import { ASSERTION_TYPE_LABELS, MAX_ASSERTIONS, describeAssertion, isAssertionType, validateAssertions } from '@/lib/assertions';
+import { type Assertion, type AssertionType } from '@/types';
+
+interface AssertionEditorProps {
+  assertions: Assertion[];
+  onChange: (assertions: Assertion[]) => void;
+  disabled?: boolean;
+}
+
+const VALUE_PLACEHOLDERS: Record<AssertionType, string> = {
+  contains: 'Berlin',
+  regex: '/^\\d{4}-\\d{2}-\\d{2}$/m',
+  isJson: '',
+  jsonSchema: '{ "type": "object", "required": ["name"] }',
+  maxLength: '500',
+  forbiddenWords: 'leider, als KI',
+  javascript: 'json && json.items.length === 3',
+};
+
+const MULTILINE_TYPES: AssertionType[] = ['jsonSchema', 'javascript'];
+const CASE_TYPES: AssertionType[] = ['contains', 'forbiddenWords'];
+
+/**
+ * Editor für Assertions, die nach jeder Antwort automatisch geprüft werden
+ */
+export const AssertionEditor: React.FC<AssertionEditorProps> = ({ assertions, onChange, disabled = false }) => {
+  const [open, setOpen] = useState(assertions.length > 0);
+  const [type, setType] = useState<AssertionType>('contains');
+  const [value, setValue] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Beim Laden aus der Historie aufklappen
+  useEffect(() => {
+    if (assertions.length > 0) setOpen(true);
+  }, [assertions.length]);
+
+  const handleAdd = () => {
+    const assertion: Assertion = {
+      id: crypto.randomUUID(),
+      type,
+      value: type === 'isJson' ? '' : value.trim(),
+      ...(CASE_TYPES.includes(type) && { caseSensitive }),
+    };
+
+    const validationError = validateAssertions([...assertions, assertion]);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    onChange([...assertions, assertion]);
+    setValue('');
+    setError(null);
+  };
+
+  return (
+    <Box>
+      <Button
+        size="small"
+        startIcon={<Rule />}
+        endIcon={open ? <ExpandLess /> : <ExpandMore />}
+        onClick={() => setOpen(!open)}
+        color={assertions.length > 0 ? 'primary' : 'inherit'}
+      >
+        Assertions
+        {assertions.length > 0 && ` (${assertions.length})`}
+      </Button>
+
+      <Collapse in={open}>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {assertions.length > 0 && (
+            <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+              {assertions.map(assertion => (
+                <Tooltip key={assertion.id} title={ASSERTION_TYPE_LABELS[assertion.type]}>
+                  <Chip
+                    label={describeAssertion(assertion)}
+                    size="small"
+                    variant="outlined"
+                    onDelete={disabled ? undefined : () => onChange(assertions.filter(entry => entry.id !== assertion.id))}
+                    sx={{ maxWidth: 320 }}
+                  />
+                </Tooltip>
+              ))}
+            </Stack>
+          )}
+
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1} alignItems={{ sm: 'flex-start' }}>
+            <FormControl size="small" sx={{ minWidth: 180 }}>
+              <InputLabel>Typ</InputLabel>
+              <Select
+                label="Typ"
+                value={type}
+                onChange={(e) => isAssertionType(e.target.value) && setType(e.target.value)}
+                disabled={disabled}
+              >
+                {Object.entries(ASSERTION_TYPE_LABELS).map(([key, label]) => (
+                  <MenuItem key={key} value={key}>{label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            {type !== 'isJson' && (
+              <TextField
+                size="small"
+                fullWidth
+                label="Wert"
+                placeholder={VALUE_PLACEHOLDERS[type]}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                multiline={MULTILINE_TYPES.includes(type)}
+                minRows={MULTILINE_TYPES.includes(type) ? 2 : undefined}
+                maxRows={8}
+                disabled={disabled}
+                helperText={
+                  type === 'javascript'
+                    ? 'Ausdruck mit output (Antworttext) und json (geparste Antwort), muss truthy sein'
+                    : type === 'forbiddenWords'
+                      ? 'Mehrere Wörter mit Komma trennen'
+                      : undefined
+                }
+              />
+            )}
+
+            {CASE_TYPES.includes(type) && (
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    size="small"
+                    checked={caseSensitive}
+                    onChange={(e) => setCaseSensitive(e.target.checked)}
+                    disabled={disabled}
+                  />
+                }
+                label={<Typography variant="body2" noWrap>Groß-/Kleinschreibung</Typography>}
+              />
+            )}
+
+            <Button
+              variant="outlined"
+              startIcon={<Add />}
+              onClick={handleAdd}
+              disabled={disabled || assertions.length >= MAX_ASSERTIONS}
+              sx={{ flexShrink: 0 }}
+            >
+              Hinzufügen
+            </Button>
+          </Stack>
+
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+        </Stack>
+      </Collapse>
+    </Box>
+  );
+};
+
+export default AssertionEditor;
@@ -0,0 +1,76 @@
+'use client';
+
+import React from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Button,
+  Alert,
+} from '@mui/material';
+import { HowToVote, ThumbUp, Balance, ThumbDown } from '@mui/icons-material';
+import { VOTE_OUTCOME_LABELS } from '@/lib/leaderboard';
+import { type VoteOutcome } from '@/types';
+
+const VOTE_ICONS: Record<VoteOutcome, React.ReactElement> = {
+  a: <ThumbUp />,
+  b: <ThumbUp />,
+  tie: <Balance />,
+  both_bad: <ThumbDown />,
+};
+
+// Abstimmung im Blind-Modus; nach der Abgabe werden die Models aufgedeckt
+export const BlindVotePanel: React.FC<{
+  onVote: (outcome: VoteOutcome) => void;
+  disabled?: boolean; // z.B. solange noch gestreamt wird
+  isSubmitting?: boolean;
+  vote: VoteOutcome | null;
+  revealedModels?: { a: string; b: string } | null;
+}> = ({ onVote, disabled = false, isSubmitting = false, vote, revealedModels }) => {
+  return (
+    <Card variant="outlined" sx={{ borderColor: 'primary.main' }}>
+      <CardContent>
+        <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 2 }}>
+          <HowToVote color="primary" />
+          <Typography variant="h6">
+            Blind-Bewertung
+          </Typography>
+        </Stack>
+
+        {vote && revealedModels ? (
+          <Alert severity="success">
+            <Typography variant="body2">
+              Deine Wahl: <strong>{VOTE_OUTCOME_LABELS[vote]}</strong>
+            </Typography>
+            <Typography variant="body2">
+              Antwort A = <strong>{revealedModels.a}</strong>, Antwort B = <strong>{revealedModels.b}</strong>
+            </Typography>
+          </Alert>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Welche Antwort ist besser? Die Models werden erst nach der Abstimmung aufgedeckt.
+            </Typography>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1}>
+              {(Object.keys(VOTE_OUTCOME_LABELS) as VoteOutcome[]).map(outcome => (
+                <Button
+                  key={outcome}
+                  variant={outcome === 'a' || outcome === 'b' ? 'contained' : 'outlined'}
+                  color={outcome === 'both_bad' ? 'error' : 'primary'}
+                  startIcon={VOTE_ICONS[outcome]}
+                  onClick={() => onVote(outcome)}
+                  disabled={disabled || isSubmitting}
+                >
+                  {VOTE_OUTCOME_LABELS[outcome]}
+                </Button>
+              ))}
+            </Stack>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BlindVotePanel;
@@ -0,0 +1,418 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Switch,
+  IconButton,
+  Tooltip,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  LinearProgress,
+} from '@mui/material';
+import { Add, Delete, Edit } from '@mui/icons-material';
+import { useModelCatalog } from '@/components/providers/ModelCatalogProvider';
+import { deleteBudget, getBudgetStatus, getBudgets, saveBudget } from '@/app/actions';
+import { getProviders } from '@/lib/providers';
+import { formatCost } from '@/lib/pricing';
+import {
+  BUDGET_MODE_LABELS,
+  BUDGET_PERIOD_LABELS,
+  BUDGET_SCOPE_LABELS,
+  BUDGET_UPDATED_EVENT,
+  describeBudget,
+} from '@/lib/budgets';
+import { type Budget, type BudgetInput, type BudgetMode, type BudgetPeriod, type BudgetScope } from '@/types';
+
+// Formular-State (Betrag als String für das Eingabefeld)
+interface BudgetFormState {
+  scope: BudgetScope;
+  target: string;
+  period: BudgetPeriod;
+  amount: string;
+  mode: BudgetMode;
+  hardCap: boolean;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: BudgetFormState = {
+  scope: 'global',
+  target: '',
+  period: 'monthly',
+  amount: '10',
+  mode: 'block',
+  hardCap: false,
+  enabled: true,
+};
+
+const toFormState = (budget: Budget): BudgetFormState => ({
+  scope: budget.scope,
+  target: budget.target || '',
+  period: budget.period,
+  amount: String(budget.amount),
+  mode: budget.mode,
+  hardCap: budget.hardCap,
+  enabled: budget.enabled,
+});
+
+const toBudgetInput = (form: BudgetFormState): BudgetInput => ({
+  scope: form.scope,
+  target: form.scope === 'global' ? null : form.target,
+  period: form.period,
+  amount: Number(form.amount),
+  mode: form.mode,
+  hardCap: form.hardCap,
+  enabled: form.enabled,
+});
+
+export const BudgetEditor: React.FC = () => {
+  const { catalog } = useModelCatalog();
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [spentById, setSpentById] = useState<Map<string, number>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState<BudgetFormState | null>(null);
+  const [editId, setEditId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBudgets = async () => {
+    setIsLoading(true);
+    try {
+      const [budgetResult, statusResult] = await Promise.all([getBudgets(), getBudgetStatus()]);
+
+      if (budgetResult.success && budgetResult.data) {
+        setBudgets(budgetResult.data);
+      } else {
+        setError(budgetResult.error || 'Fehler beim Laden der Budgets');
+      }
+
+      if (statusResult.success && statusResult.data) {
+        setSpentById(new Map(statusResult.data.map(status => [status.budget.id, status.spent])));
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBudgets();
+  }, []);
+
+  // Änderungen an die Budget-Anzeige in der App-Bar melden
+  const afterChange = async () => {
+    await loadBudgets();
+    window.dispatchEvent(new Event(BUDGET_UPDATED_EVENT));
+  };
+
+  const openDialog = (budget?: Budget) => {
+    setEditId(budget?.id || null);
+    setForm(budget ? toFormState(budget) : EMPTY_FORM);
+    setError(null);
+  };
+
+  const closeDialog = () => {
+    setForm(null);
+    setError(null);
+  };
+
+  const updateForm = <K extends keyof BudgetFormState>(field: K, value: BudgetFormState[K]) => {
+    setForm(prev => prev ? { ...prev, [field]: value } : prev);
+  };
+
+  const handleScopeChange = (scope: BudgetScope) => {
+    setForm(prev => prev ? { ...prev, scope, target: '' } : prev);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    setIsSaving(true);
+    try {
+      const result = await saveBudget(toBudgetInput(form), editId || undefined);
+      if (!result.success) {
+        setError(result.error || 'Fehler beim Speichern des Budgets');
+        return;
+      }
+
+      closeDialog();
+      await afterChange();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (budget: Budget) => {
+    const { id, ...input } = budget;
+    const result = await saveBudget({ ...input, enabled: !budget.enabled }, id);
+    if (!result.success) {
+      setError(result.error || 'Fehler beim Aktualisieren des Budgets');
+      return;
+    }
+
+    await afterChange();
+  };
+
+  const handleDelete = async (budget: Budget) => {
+    if (!window.confirm(`${describeBudget(budget)} löschen?`)) return;
+
+    const result = await deleteBudget(budget.id);
+    if (!result.success) {
+      setError(result.error || 'Fehler beim Löschen des Budgets');
+      return;
+    }
+
+    await afterChange();
+  };
+
+  const targetOptions = form?.scope === 'model'
+    ? catalog.map(config => ({ id: config.id, label: config.displayName }))
+    : getProviders().map(provider => ({ id: provider.id, label: provider.name }));
+
+  return (
+    <Card>
+      {isLoading && <LinearProgress />}
+      <CardContent>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+          <Box>
+            <Typography variant="h6">
+              Budgets ({budgets.length})
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              Vor jedem Vergleich wird der Worst Case (max. Output-Tokens) gegen das Restbudget geprüft
+            </Typography>
+          </Box>
+          <Button variant="contained" startIcon={<Add />} onClick={() => openDialog()}>
+            Budget hinzufügen
+          </Button>
+        </Stack>
+
+        {error && !form && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!isLoading && budgets.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            Noch keine Budgets angelegt – Vergleiche laufen ohne Ausgabenlimit.
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Aktiv</TableCell>
+                  <TableCell>Budget</TableCell>
+                  <TableCell>Geltungsbereich</TableCell>
+                  <TableCell>Zeitraum</TableCell>
+                  <TableCell align="right">Verbraucht</TableCell>
+                  <TableCell>Modus</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {budgets.map(budget => {
+                  const spent = spentById.get(budget.id);
+
+                  return (
+                    <TableRow key={budget.id} hover>
+                      <TableCell>
+                        <Switch
+                          checked={budget.enabled}
+                          onChange={() => handleToggle(budget)}
+                          size="small"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight="medium">
+                          {describeBudget(budget)}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        {BUDGET_SCOPE_LABELS[budget.scope]}
+                      </TableCell>
+                      <TableCell>
+                        {BUDGET_PERIOD_LABELS[budget.period]}
+                      </TableCell>
+                      <TableCell align="right">
+                        {spent !== undefined
+                          ? `${formatCost(spent)} / ${formatCost(budget.amount)}`
+                          : '–'}
+                      </TableCell>
+                      <TableCell>
+                        <Stack direction="row" spacing={0.5}>
+                          <Chip
+                            label={BUDGET_MODE_LABELS[budget.mode]}
+                            size="small"
+                            color={budget.mode === 'block' ? 'error' : 'warning'}
+                            variant="outlined"
+                          />
+                          {budget.hardCap && (
+                            <Chip label="Hard-Cap" size="small" color="error" />
+                          )}
+                        </Stack>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Bearbeiten">
+                          <IconButton size="small" onClick={() => openDialog(budget)}>
+                            <Edit fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Löschen">
+                          <IconButton size="small" onClick={() => handleDelete(budget)}>
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={!!form} onClose={closeDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {editId ? 'Budget bearbeiten' : 'Budget hinzufügen'}
+        </DialogTitle>
+        <DialogContent>
+          {form && (
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              {error && <Alert severity="error">{error}</Alert>}
+
+              <Stack direction="row" spacing={2}>
+                <FormControl size="small" fullWidth>
+                  <InputLabel>Geltungsbereich</InputLabel>
+                  <Select
+                    value={form.scope}
+                    label="Geltungsbereich"
+                    onChange={(e) => handleScopeChange(e.target.value as BudgetScope)}
+                  >
+                    {Object.entries(BUDGET_SCOPE_LABELS).map(([scope, label]) => (
+                      <MenuItem key={scope} value={scope}>
+                        {label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+
+                {form.scope !== 'global' && (
+                  <FormControl size="small" fullWidth>
+                    <InputLabel>{BUDGET_SCOPE_LABELS[form.scope]}</InputLabel>
+                    <Select
+                      value={form.target}
+                      label={BUDGET_SCOPE_LABELS[form.scope]}
+                      onChange={(e) => updateForm('target', e.target.value)}
+                    >
+                      {targetOptions.map(option => (
+                        <MenuItem key={option.id} value={option.id}>
+                          {option.label}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                )}
+              </Stack>
+
+              <Stack direction="row" spacing={2}>
+                <FormControl size="small" fullWidth>
+                  <InputLabel>Zeitraum</InputLabel>
+                  <Select
+                    value={form.period}
+                    label="Zeitraum"
+                    onChange={(e) => updateForm('period', e.target.value as BudgetPeriod)}
+                  >
+                    {Object.entries(BUDGET_PERIOD_LABELS).map(([period, label]) => (
+                      <MenuItem key={period} value={period}>
+                        {label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+
+                <TextField
+                  label="Budget (USD)"
+                  type="number"
+                  value={form.amount}
+                  onChange={(e) => updateForm('amount', e.target.value)}
+                  inputProps={{ step: 0.5, min: 0 }}
+                  size="small"
+                  fullWidth
+                />
+              </Stack>
+
+              <FormControl size="small">
+                <InputLabel>Bei Überschreitung</InputLabel>
+                <Select
+                  value={form.mode}
+                  label="Bei Überschreitung"
+                  onChange={(e) => updateForm('mode', e.target.value as BudgetMode)}
+                >
+                  {Object.entries(BUDGET_MODE_LABELS).map(([mode, label]) => (
+                    <MenuItem key={mode} value={mode}>
+                      {label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={form.hardCap}
+                    onChange={(e) => updateForm('hardCap', e.target.checked)}
+                  />
+                }
+                label="Hard-Cap: laufende Vergleiche abbrechen, sobald das Budget erreicht ist"
+              />
+
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={form.enabled}
+                    onChange={(e) => updateForm('enabled', e.target.checked)}
+                  />
+                }
+                label="Aktiv"
+              />
+            </Stack>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialog} disabled={isSaving}>
+            Abbrechen
+          </Button>
+          <Button onClick={handleSave} variant="contained" disabled={isSaving}>
+            Speichern
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default BudgetEditor;
@@ -0,0 +1,80 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Box, Chip, Stack, Tooltip, Typography } from '@mui/material';
+import { AccountBalanceWallet } from '@mui/icons-material';
+import { getBudgetStatus } from '@/app/actions';
+import { BUDGET_UPDATED_EVENT, describeBudget } from '@/lib/budgets';
+import { formatCost } from '@/lib/pricing';
+import { type BudgetStatus } from '@/types';
+
+// Zusätzliches Nachladen, falls in einem anderen Tab verglichen wurde
+const REFRESH_INTERVAL_MS = 60000;
+
+// Ab diesem Verbrauch wird die Anzeige gelb
+const WARNING_RATIO = 0.8;
+
+const getStatusColor = (ratio: number): 'success' | 'warning' | 'error' =>
+  ratio >= 1 ? 'error' : ratio >= WARNING_RATIO ? 'warning' : 'success';
+
+const formatRatio = (ratio: number): string => `${Math.round(ratio * 100)}%`;
+
+/**
+ * Verbrauch der aktiven Budgets für die App-Bar (zeigt das am stärksten ausgeschöpfte Budget)
+ */
+export const BudgetIndicator: React.FC = () => {
+  const [statuses, setStatuses] = useState<BudgetStatus[]>([]);
+
+  const loadStatus = useCallback(async () => {
+    const result = await getBudgetStatus();
+    if (result.success && result.data) {
+      setStatuses(result.data);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+
+    const interval = window.setInterval(loadStatus, REFRESH_INTERVAL_MS);
+    window.addEventListener(BUDGET_UPDATED_EVENT, loadStatus);
+    window.addEventListener('focus', loadStatus);
+
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener(BUDGET_UPDATED_EVENT, loadStatus);
+      window.removeEventListener('focus', loadStatus);
+    };
+  }, [loadStatus]);
+
+  if (statuses.length === 0) return null;
+
+  const sorted = [...statuses].sort((a, b) => b.ratio - a.ratio);
+  const highest = sorted[0];
+
+  return (
+    <Tooltip
+      title={
+        <Stack spacing={0.5}>
+          {sorted.map(status => (
+            <Typography key={status.budget.id} variant="caption" display="block">
+              {describeBudget(status.budget)}: {formatCost(status.spent)} / {formatCost(status.budget.amount)} ({formatRatio(status.ratio)})
+            </Typography>
+          ))}
+        </Stack>
+      }
+    >
+      <Box component="a" href="/settings" sx={{ display: 'flex', alignItems: 'center' }}>
+        <Chip
+          icon={<AccountBalanceWallet />}
+          label={`${formatCost(highest.spent)} / ${formatCost(highest.budget.amount)}`}
+          color={getStatusColor(highest.ratio)}
+          variant={highest.ratio >= 1 ? 'filled' : 'outlined'}
+          size="small"
+          clickable
+        />
+      </Box>
+    </Tooltip>
+  );
+};
+
+export default BudgetIndicator;
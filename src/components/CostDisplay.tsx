@@ -24,9 +24,10 @@ import {
   ExpandLess,
   Calculate,
   CompareArrows,
+  Verified,
 } from '@mui/icons-material';
 import { type CostDisplayProps, type CostCalculation } from '@/types';
-import { formatCost, formatTokens } from '@/lib/pricing';
+import { COST_COMPONENT_LABELS, formatCost, formatTokens } from '@/lib/pricing';
 import { getModelConfig } from '@/lib/models';
 
 const CostDisplay: React.FC<CostDisplayProps> = ({
@@ -96,6 +97,22 @@ const CostDisplay: React.FC<CostDisplayProps> = ({
                   sx={{ fontSize: '0.7rem' }}
                 />
               )}
+              {!isLive && calculation.totalCost > 0 && (
+                <Tooltip
+                  title={calculation.exact
+                    ? 'Token-Zahlen laut Provider-Usage (abgerechnet)'
+                    : 'Provider hat keine Usage gemeldet – Token-Zahlen sind geschätzt'}
+                >
+                  <Chip
+                    icon={calculation.exact ? <Verified /> : undefined}
+                    label={calculation.exact ? 'Abgerechnet' : 'Geschätzt'}
+                    size="small"
+                    color={calculation.exact ? 'success' : 'default'}
+                    variant="outlined"
+                    sx={{ fontSize: '0.7rem' }}
+                  />
+                </Tooltip>
+              )}
             </Box>
             
             <IconButton 
@@ -192,23 +209,29 @@ const CostBreakdown: React.FC<{ calculation: CostCalculation }> = ({ calculation
       </Typography>
       
       <Stack spacing={1}>
-        <Box display="flex" justifyContent="space-between" alignItems="center">
-          <Typography variant="body2" color="text.secondary">
-            Input ({formatTokens(calculation.inputTokens)} tokens)
-          </Typography>
-          <Typography variant="body2" fontWeight={500}>
-            {formatCost(calculation.inputCost)}
-          </Typography>
-        </Box>
-        
-        <Box display="flex" justifyContent="space-between" alignItems="center">
-          <Typography variant="body2" color="text.secondary">
-            Output ({formatTokens(calculation.outputTokens)} tokens)
-          </Typography>
-          <Typography variant="body2" fontWeight={500}>
-            {formatCost(calculation.outputCost)}
-          </Typography>
-        </Box>
+        {calculation.items.map(item => (
+          <Box key={item.component} display="flex" justifyContent="space-between" alignItems="center">
+            <Tooltip title={`$${item.rate.toFixed(6)} pro 1K Tokens`}>
+              <Typography variant="body2" color="text.secondary">
+                {COST_COMPONENT_LABELS[item.component]} ({formatTokens(item.tokens)} tokens)
+              </Typography>
+            </Tooltip>
+            <Typography variant="body2" fontWeight={500}>
+              {formatCost(item.cost)}
+            </Typography>
+          </Box>
+        ))}
+
+        {(calculation.tier !== null || calculation.batch) && (
+          <Stack direction="row" spacing={1}>
+            {calculation.tier !== null && (
+              <Chip label={`Staffelpreis > ${formatTokens(calculation.tier)} Tokens`} size="small" variant="outlined" />
+            )}
+            {calculation.batch && (
+              <Chip label="Batch-Rabatt" size="small" variant="outlined" color="success" />
+            )}
+          </Stack>
+        )}
         
         <Divider />
         
@@ -225,25 +248,27 @@ const CostBreakdown: React.FC<{ calculation: CostCalculation }> = ({ calculation
       {/* Cost per Token Info */}
       <Alert severity="info" icon={<Calculate />}>
         <Typography variant="caption">
-          Diese Berechnung basiert auf den aktuellen API-Preisen. 
-          Tatsächliche Kosten können aufgrund von Rabatten oder Preisänderungen variieren.
+          {calculation.exact
+            ? 'Die Token-Zahlen stammen aus der Usage-Meldung des Providers. '
+            : 'Die Token-Zahlen sind geschätzt, der Provider hat (noch) keine Usage gemeldet. '}
+          Die Berechnung nutzt den zum Anfragezeitpunkt gültigen Tarif inkl. Cache- und Staffelpreisen.
+          Tatsächliche Kosten können aufgrund individueller Rabatte abweichen.
         </Typography>
       </Alert>
     </Stack>
   );
 };
 
-// Dual Cost Comparison Component
-export const DualCostDisplay: React.FC<{
-  cost1: CostCalculation;
-  cost2: CostCalculation;
-  model1Name: string;
-  model2Name: string;
+// Multi Cost Comparison Component
+export const MultiCostDisplay: React.FC<{
+  costs: CostCalculation[];
+  modelNames: string[];
   isLive?: boolean;
-}> = ({ cost1, cost2, model1Name, model2Name, isLive = false }) => {
-  const totalCost = cost1.totalCost + cost2.totalCost;
-  const savings = Math.abs(cost1.totalCost - cost2.totalCost);
-  const cheaperModel = cost1.totalCost < cost2.totalCost ? model1Name : model2Name;
+}> = ({ costs, modelNames, isLive = false }) => {
+  const totals = costs.map(cost => cost.totalCost);
+  const totalCost = totals.reduce((sum, cost) => sum + cost, 0);
+  const savings = Math.max(...totals) - Math.min(...totals);
+  const cheaperModel = modelNames[totals.indexOf(Math.min(...totals))];
   const hasSavings = savings > 0.000001; // Avoid floating point comparison issues
 
   return (
@@ -284,7 +309,7 @@ export const DualCostDisplay: React.FC<{
                       {formatCost(savings)}
                     </Typography>
                     <Typography variant="caption" color="text.secondary">
-                      Ersparnis mit {cheaperModel}
+                      Ersparnis mit {cheaperModel} (ggü. teuerstem Model)
                     </Typography>
                   </Box>
                 </>
@@ -295,31 +320,31 @@ export const DualCostDisplay: React.FC<{
       </Card>
 
       {/* Individual Cost Displays */}
-      <Stack direction={{ xs: 'column', md: 'row' }} spacing={3}>
-        <Box flex={1}>
+      <Box 
+        sx={{ 
+          display: 'grid',
+          gridTemplateColumns: { 
+            xs: '1fr', 
+            md: `repeat(${Math.min(costs.length, 3)}, 1fr)` 
+          },
+          gap: 3,
+        }}
+      >
+        {costs.map((cost, slot) => (
           <CostDisplay
-            calculation={cost1}
-            modelName={model1Name}
+            key={slot}
+            calculation={cost}
+            modelName={modelNames[slot]}
             isLive={isLive}
           />
-        </Box>
-        
-        <Box flex={1}>
-          <CostDisplay
-            calculation={cost2}
-            modelName={model2Name}
-            isLive={isLive}
-          />
-        </Box>
-      </Stack>
+        ))}
+      </Box>
 
       {/* Cost Efficiency Analysis */}
       {hasSavings && (
         <CostEfficiencyAnalysis 
-          cost1={cost1}
-          cost2={cost2}
-          model1Name={model1Name}
-          model2Name={model2Name}
+          costs={costs}
+          modelNames={modelNames}
         />
       )}
     </Box>
@@ -328,27 +353,25 @@ export const DualCostDisplay: React.FC<{
 
 // Cost Efficiency Analysis Component
 const CostEfficiencyAnalysis: React.FC<{
-  cost1: CostCalculation;
-  cost2: CostCalculation;
-  model1Name: string;
-  model2Name: string;
-}> = ({ cost1, cost2, model1Name, model2Name }) => {
+  costs: CostCalculation[];
+  modelNames: string[];
+}> = ({ costs, modelNames }) => {
   // Validate costs to avoid division by zero
   const isValidCost = (cost: CostCalculation) => 
     cost.totalCost > 0 && cost.outputTokens > 0 && 
     !isNaN(cost.totalCost) && !isNaN(cost.outputTokens);
   
-  if (!isValidCost(cost1) || !isValidCost(cost2)) {
+  if (!costs.every(isValidCost)) {
     return null; // Don't show efficiency analysis with incomplete data
   }
   
-  const efficiency1 = cost1.outputTokens / cost1.totalCost;
-  const efficiency2 = cost2.outputTokens / cost2.totalCost;
-  const moreEfficient = efficiency1 > efficiency2 ? model1Name : model2Name;
-  const efficiencyDiff = Math.abs(efficiency1 - efficiency2);
+  const efficiencies = costs.map(cost => cost.outputTokens / cost.totalCost);
+  const bestEfficiency = Math.max(...efficiencies);
+  const moreEfficient = modelNames[efficiencies.indexOf(bestEfficiency)];
+  const efficiencyDiff = bestEfficiency - Math.min(...efficiencies);
   
   // Additional validation for calculated values
-  if (isNaN(efficiency1) || isNaN(efficiency2) || isNaN(efficiencyDiff)) {
+  if (efficiencies.some(isNaN) || isNaN(efficiencyDiff)) {
     return null;
   }
 
@@ -361,29 +384,22 @@ const CostEfficiencyAnalysis: React.FC<{
         
         <Alert severity="info">
           <Typography variant="body2">
-            <strong>{moreEfficient}</strong> ist effizienter und produziert{' '}
+            <strong>{moreEfficient}</strong> ist am effizientesten und produziert bis zu{' '}
             <strong>{Math.round(efficiencyDiff)}</strong> mehr Tokens pro Dollar.
           </Typography>
         </Alert>
         
-        <Stack direction="row" spacing={2} sx={{ mt: 2 }}>
-          <Box flex={1}>
-            <Typography variant="caption" color="text.secondary">
-              {model1Name} Effizienz
-            </Typography>
-            <Typography variant="body2">
-              {Math.round(efficiency1)} tokens/$
-            </Typography>
-          </Box>
-          
-          <Box flex={1}>
-            <Typography variant="caption" color="text.secondary">
-              {model2Name} Effizienz
-            </Typography>
-            <Typography variant="body2">
-              {Math.round(efficiency2)} tokens/$
-            </Typography>
-          </Box>
+        <Stack direction="row" spacing={2} sx={{ mt: 2 }} flexWrap="wrap" useFlexGap>
+          {efficiencies.map((efficiency, slot) => (
+            <Box flex={1} key={slot}>
+              <Typography variant="caption" color="text.secondary">
+                {modelNames[slot]} Effizienz
+              </Typography>
+              <Typography variant="body2">
+                {Math.round(efficiency)} tokens/$
+              </Typography>
+            </Box>
+          ))}
         </Stack>
       </CardContent>
     </Card>
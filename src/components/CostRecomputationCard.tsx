@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  CardContent,
+  FormControl,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Select,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Calculate } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { getCostRecomputation } from '@/app/actions';
+import { getModelConfig } from '@/lib/models';
+import { formatCost, formatTokens } from '@/lib/pricing';
+import { type AnalyticsFilter, type CostRecomputation, type PriceSetSelection } from '@/types';
+
+interface CostRecomputationCardProps {
+  filter: AnalyticsFilter; // Zeitraum und Models des Dashboards
+}
+
+// Differenz mit Vorzeichen, z.B. "+$1.20"
+const formatDelta = (delta: number) =>
+  `${delta >= 0 ? '+' : '−'}${formatCost(Math.abs(delta))}`;
+
+/**
+ * What-if-Analyse: gespeicherte Kosten mit einem anderen Preisstand neu berechnen
+ */
+export const CostRecomputationCard: React.FC<CostRecomputationCardProps> = ({ filter }) => {
+  const [priceSetType, setPriceSetType] = useState<PriceSetSelection['type']>('asOf');
+  const [priceDate, setPriceDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [result, setResult] = useState<CostRecomputation | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRecompute = async () => {
+    const priceSet: PriceSetSelection = priceSetType === 'asOf'
+      ? { type: 'asOf', date: priceDate }
+      : { type: 'historical' };
+
+    setIsLoading(true);
+    try {
+      const response = await getCostRecomputation(filter, priceSet);
+      if (response.success && response.data) {
+        setResult(response.data);
+        setError(null);
+      } else {
+        setError(response.error || 'Fehler bei der Neuberechnung der Kosten');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const withoutTokens = result?.rows.reduce((sum, row) => sum + row.withoutTokens, 0) || 0;
+
+  return (
+    <Card>
+      {isLoading && <LinearProgress />}
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          What-if: Kosten neu berechnen
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Rechnet die gespeicherten Token-Mengen im gewählten Zeitraum mit einem anderen Preisstand neu. Gespeichert wird dabei nichts.
+        </Typography>
+
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }} sx={{ mb: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 260 }}>
+            <InputLabel>Preisstand</InputLabel>
+            <Select
+              value={priceSetType}
+              label="Preisstand"
+              onChange={(e) => setPriceSetType(e.target.value as PriceSetSelection['type'])}
+            >
+              <MenuItem value="asOf">Preise eines Stichtags</MenuItem>
+              <MenuItem value="historical">Zum Anfragezeitpunkt gültige Preise</MenuItem>
+            </Select>
+          </FormControl>
+          {priceSetType === 'asOf' && (
+            <TextField
+              label="Stichtag"
+              type="date"
+              size="small"
+              value={priceDate}
+              onChange={(e) => setPriceDate(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          )}
+          <Button
+            variant="contained"
+            startIcon={<Calculate />}
+            onClick={handleRecompute}
+            disabled={isLoading || (priceSetType === 'asOf' && !priceDate)}
+          >
+            Neu berechnen
+          </Button>
+        </Stack>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {result && (result.rows.length === 0 ? (
+          <Alert severity="info">
+            Keine abgerechneten Antworten im gewählten Zeitraum.
+          </Alert>
+        ) : (
+          <>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Model</TableCell>
+                    <TableCell align="right">Anfragen</TableCell>
+                    <TableCell align="right">Tokens (In / Out)</TableCell>
+                    <TableCell align="right">Gespeichert</TableCell>
+                    <TableCell align="right">Neu berechnet</TableCell>
+                    <TableCell align="right">Differenz</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {result.rows.map(row => {
+                    const delta = row.recomputedCost - row.storedCost;
+
+                    return (
+                      <TableRow key={row.model} hover>
+                        <TableCell>
+                          {getModelConfig(row.model)?.displayName || row.model}
+                        </TableCell>
+                        <TableCell align="right">{row.requests}</TableCell>
+                        <TableCell align="right">
+                          {formatTokens(row.inputTokens)} / {formatTokens(row.outputTokens)}
+                        </TableCell>
+                        <TableCell align="right">{formatCost(row.storedCost)}</TableCell>
+                        <TableCell align="right">{formatCost(row.recomputedCost)}</TableCell>
+                        <TableCell align="right" sx={{ color: delta > 0 ? 'error.main' : delta < 0 ? 'success.main' : undefined }}>
+                          {formatDelta(delta)}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  <TableRow>
+                    <TableCell colSpan={3}>
+                      <strong>Gesamt</strong>
+                    </TableCell>
+                    <TableCell align="right"><strong>{formatCost(result.storedCost)}</strong></TableCell>
+                    <TableCell align="right"><strong>{formatCost(result.recomputedCost)}</strong></TableCell>
+                    <TableCell align="right">
+                      <strong>{formatDelta(result.recomputedCost - result.storedCost)}</strong>
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </TableContainer>
+            {withoutTokens > 0 && (
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                {withoutTokens} ältere Antworten ohne Token-Daten behalten ihre gespeicherten Kosten.
+              </Typography>
+            )}
+          </>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CostRecomputationCard;
@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { UploadFile } from '@mui/icons-material';
+import { importDataset } from '@/app/actions';
+import { parseDataset } from '@/lib/datasets';
+import { type DatasetItemInput, type DatasetSummary } from '@/types';
+
+interface DatasetUploadDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImported: (dataset: DatasetSummary) => void;
+}
+
+// Anzahl Zeilen in der Vorschau
+const PREVIEW_ROWS = 5;
+
+/**
+ * Import eines Prompt-Datensatzes aus CSV (Spalte "prompt", optional "reference", weitere Spalten = Variablen)
+ * oder JSONL (ein Objekt pro Zeile)
+ */
+export const DatasetUploadDialog: React.FC<DatasetUploadDialogProps> = ({ open, onClose, onImported }) => {
+  const [name, setName] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [items, setItems] = useState<DatasetItemInput[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const reset = () => {
+    setName('');
+    setFileName(null);
+    setItems([]);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    if (!name) setName(file.name.replace(/\.[^.]+$/, ''));
+
+    try {
+      setItems(parseDataset(await file.text(), file.name));
+      setError(null);
+    } catch (parseError) {
+      setItems([]);
+      setError(parseError instanceof Error ? parseError.message : 'Datei konnte nicht gelesen werden');
+    }
+  };
+
+  const handleImport = async () => {
+    setIsSaving(true);
+    try {
+      const result = await importDataset(name, items);
+      if (result.success && result.data) {
+        onImported(result.data);
+        handleClose();
+      } else {
+        setError(result.error || 'Fehler beim Importieren des Datensatzes');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const variableNames = [...new Set(items.flatMap(item => Object.keys(item.variables)))];
+  const withReference = items.filter(item => item.reference).length;
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Datensatz importieren</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            CSV mit einer Spalte <code>prompt</code> und optional <code>reference</code>; alle weiteren Spalten
+            füllen <code>{'{{platzhalter}}'}</code> im Prompt. Alternativ JSONL mit einem Objekt pro Zeile,
+            z.B. <code>{'{"prompt": "...", "reference": "...", "variables": {...}}'}</code>.
+          </Typography>
+
+          <Stack direction="row" spacing={2} alignItems="center">
+            <Button variant="outlined" component="label" startIcon={<UploadFile />}>
+              Datei wählen
+              <input type="file" hidden accept=".csv,.jsonl,.ndjson,text/csv" onChange={handleFile} />
+            </Button>
+            <Typography variant="body2" color="text.secondary">
+              {fileName || 'Keine Datei ausgewählt'}
+            </Typography>
+          </Stack>
+
+          {error && <Alert severity="error">{error}</Alert>}
+
+          {items.length > 0 && (
+            <>
+              <TextField
+                label="Name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                size="small"
+                fullWidth
+              />
+
+              <Typography variant="body2">
+                {items.length} Prompts · {withReference} mit Referenzantwort
+                {variableNames.length > 0 && ` · Variablen: ${variableNames.join(', ')}`}
+              </Typography>
+
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>#</TableCell>
+                      <TableCell>Prompt</TableCell>
+                      <TableCell>Referenz</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {items.slice(0, PREVIEW_ROWS).map((item, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{index + 1}</TableCell>
+                        <TableCell sx={{ maxWidth: 360 }}>
+                          <Typography variant="body2" noWrap>{item.prompt}</Typography>
+                        </TableCell>
+                        <TableCell sx={{ maxWidth: 240 }}>
+                          <Typography variant="body2" color="text.secondary" noWrap>
+                            {item.reference || '–'}
+                          </Typography>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              {items.length > PREVIEW_ROWS && (
+                <Typography variant="caption" color="text.secondary">
+                  … und {items.length - PREVIEW_ROWS} weitere
+                </Typography>
+              )}
+            </>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Abbrechen</Button>
+        <Button
+          variant="contained"
+          onClick={handleImport}
+          disabled={isSaving || items.length === 0 || !name.trim()}
+        >
+          Importieren
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DatasetUploadDialog;
@@ -0,0 +1,353 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableFooter,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { EvalRunControls, EvalRunStatusChip } from '@/components/EvalRunControls';
+import { getEvalRun } from '@/app/actions';
+import { EVAL_POLL_INTERVAL_MS, renderPrompt } from '@/lib/datasets';
+import { computeLatencyStats, formatLatency } from '@/lib/metrics';
+import { getModelConfig } from '@/lib/models';
+import { formatCost, formatTokens } from '@/lib/pricing';
+import { type DatasetItem, type EvalResult, type EvalRunDetails } from '@/types';
+
+interface EvalResultsGridProps {
+  runId: string;
+}
+
+interface SelectedCell {
+  item: DatasetItem;
+  model: string;
+  result: EvalResult | null;
+}
+
+const cellKey = (itemId: string, slot: number) => `${itemId}:${slot}`;
+
+// Antwort in der Zelle auf wenige Zeilen kürzen
+const CLAMP_SX = {
+  display: '-webkit-box',
+  WebkitLineClamp: 3,
+  WebkitBoxOrient: 'vertical',
+  overflow: 'hidden',
+  whiteSpace: 'pre-wrap',
+} as const;
+
+/**
+ * Ergebnis-Grid eines Evaluationslaufs (Zeilen = Prompts, Spalten = Models)
+ * mit Kosten und Latenz pro Model in der Fußzeile
+ */
+export const EvalResultsGrid: React.FC<EvalResultsGridProps> = ({ runId }) => {
+  const [details, setDetails] = useState<EvalRunDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDeleted, setIsDeleted] = useState(false);
+  const [selected, setSelected] = useState<SelectedCell | null>(null);
+
+  const loadRun = useCallback(async () => {
+    const result = await getEvalRun(runId);
+    if (result.success && result.data) {
+      setDetails(result.data);
+    } else {
+      setError(result.error || 'Fehler beim Laden des Evaluationslaufs');
+    }
+  }, [runId]);
+
+  useEffect(() => {
+    loadRun();
+  }, [loadRun]);
+
+  const isRunning = details?.run.status === 'running';
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const interval = window.setInterval(loadRun, EVAL_POLL_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [isRunning, loadRun]);
+
+  const resultsByCell = useMemo(() => new Map(
+    (details?.results || []).map(result => [cellKey(result.itemId, result.slot), result])
+  ), [details]);
+
+  // Kosten, Fehler und Latenz-Perzentile pro Slot
+  const modelSummaries = useMemo(() => {
+    if (!details) return [];
+
+    return details.run.models.map((model, slot) => {
+      const results = details.results.filter(result => result.slot === slot);
+      const succeeded = results.filter(result => !result.error);
+      const [latency] = computeLatencyStats(succeeded.map(result => ({
+        model,
+        ttftMs: null,
+        durationMs: result.durationMs,
+        outputTokens: result.tokens?.output ?? null,
+      })));
+
+      return {
+        model,
+        cost: succeeded.reduce((sum, result) => sum + (result.cost || 0), 0),
+        succeeded: succeeded.length,
+        failed: results.length - succeeded.length,
+        durationMs: latency?.durationMs || null,
+      };
+    });
+  }, [details]);
+
+  if (isDeleted) {
+    return (
+      <Alert severity="info">
+        Der Lauf wurde gelöscht.
+      </Alert>
+    );
+  }
+
+  if (!details) {
+    return error ? <Alert severity="error">{error}</Alert> : <LinearProgress />;
+  }
+
+  const { run, items } = details;
+  const progress = run.total > 0 ? (run.completed / run.total) * 100 : 0;
+
+  return (
+    <Stack spacing={3}>
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent>
+          <Stack direction={{ xs: 'column', sm: 'row' }} justifyContent="space-between" spacing={2}>
+            <Box>
+              <Stack direction="row" spacing={1} alignItems="center">
+                <Typography variant="h6">{run.name}</Typography>
+                <EvalRunStatusChip status={run.status} />
+              </Stack>
+              <Typography variant="body2" color="text.secondary">
+                {run.datasetName} · gestartet {format(new Date(run.createdAt), 'dd.MM.yyyy HH:mm')}
+                {run.finishedAt && ` · beendet ${format(new Date(run.finishedAt), 'dd.MM.yyyy HH:mm')}`}
+                {` · ${run.concurrency} parallel`}
+              </Typography>
+              {run.systemPrompt && (
+                <Typography variant="caption" color="text.secondary" display="block">
+                  System-Prompt: {run.systemPrompt}
+                </Typography>
+              )}
+            </Box>
+            <Stack direction="row" spacing={2} alignItems="center">
+              <Typography variant="h6">{formatCost(run.cost)}</Typography>
+              <EvalRunControls
+                run={run}
+                onChanged={loadRun}
+                onError={setError}
+                onDeleted={() => setIsDeleted(true)}
+              />
+            </Stack>
+          </Stack>
+
+          <Box sx={{ mt: 2 }}>
+            <LinearProgress variant="determinate" value={progress} color={run.failed > 0 ? 'warning' : 'primary'} />
+            <Typography variant="caption" color="text.secondary">
+              {run.completed} / {run.total} Anfragen
+              {run.failed > 0 && ` · ${run.failed} fehlgeschlagen`}
+            </Typography>
+          </Box>
+
+          {run.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {run.error}
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      <TableContainer component={Card} sx={{ maxHeight: '70vh' }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ minWidth: 240 }}>Prompt</TableCell>
+              {run.models.map((model, slot) => (
+                <TableCell key={slot} sx={{ minWidth: 220 }}>
+                  {getModelConfig(model)?.displayName || model}
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {items.map(item => (
+              <TableRow key={item.id} sx={{ verticalAlign: 'top' }}>
+                <TableCell>
+                  <Typography variant="caption" color="text.secondary">#{item.position + 1}</Typography>
+                  <Typography variant="body2" sx={CLAMP_SX}>
+                    {renderPrompt(item.prompt, item.variables)}
+                  </Typography>
+                  {item.reference && (
+                    <Typography variant="caption" color="text.secondary" sx={CLAMP_SX}>
+                      Referenz: {item.reference}
+                    </Typography>
+                  )}
+                </TableCell>
+                {run.models.map((model, slot) => {
+                  const result = resultsByCell.get(cellKey(item.id, slot)) || null;
+
+                  return (
+                    <TableCell
+                      key={slot}
+                      onClick={() => setSelected({ item, model, result })}
+                      sx={{ cursor: 'pointer', '&:hover': { bgcolor: 'action.hover' } }}
+                    >
+                      {!result ? (
+                        <Typography variant="body2" color="text.disabled">
+                          {isRunning ? 'Ausstehend …' : '–'}
+                        </Typography>
+                      ) : result.error ? (
+                        <Typography variant="body2" color="error" sx={CLAMP_SX}>
+                          {result.error}
+                        </Typography>
+                      ) : (
+                        <>
+                          <Typography variant="body2" sx={CLAMP_SX}>
+                            {result.content}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {formatCost(result.cost || 0)}
+                            {result.durationMs !== null && ` · ${formatLatency(result.durationMs)}`}
+                          </Typography>
+                        </>
+                      )}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell>
+                <strong>Kosten gesamt</strong>
+              </TableCell>
+              {modelSummaries.map((summary, slot) => (
+                <TableCell key={slot}>
+                  <strong>{formatCost(summary.cost)}</strong>
+                  {summary.succeeded > 0 && (
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      Ø {formatCost(summary.cost / summary.succeeded)} pro Prompt
+                    </Typography>
+                  )}
+                </TableCell>
+              ))}
+            </TableRow>
+            <TableRow>
+              <TableCell>
+                <strong>Dauer p50 / p95</strong>
+              </TableCell>
+              {modelSummaries.map((summary, slot) => (
+                <TableCell key={slot}>
+                  {summary.durationMs
+                    ? `${formatLatency(summary.durationMs.p50)} / ${formatLatency(summary.durationMs.p95)}`
+                    : '–'}
+                </TableCell>
+              ))}
+            </TableRow>
+            <TableRow>
+              <TableCell>
+                <strong>Erfolgreich / Fehler</strong>
+              </TableCell>
+              {modelSummaries.map((summary, slot) => (
+                <TableCell key={slot}>
+                  {summary.succeeded} / {summary.failed}
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </TableContainer>
+
+      <Dialog open={!!selected} onClose={() => setSelected(null)} maxWidth="md" fullWidth>
+        {selected && (
+          <>
+            <DialogTitle>
+              #{selected.item.position + 1} · {getModelConfig(selected.model)?.displayName || selected.model}
+            </DialogTitle>
+            <DialogContent dividers>
+              <Stack spacing={2}>
+                <Box>
+                  <Typography variant="subtitle2">Prompt</Typography>
+                  <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                    {renderPrompt(selected.item.prompt, selected.item.variables)}
+                  </Typography>
+                </Box>
+                {selected.item.reference && (
+                  <Box>
+                    <Typography variant="subtitle2">Referenzantwort</Typography>
+                    <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                      {selected.item.reference}
+                    </Typography>
+                  </Box>
+                )}
+                <Box>
+                  <Typography variant="subtitle2">Antwort</Typography>
+                  {!selected.result ? (
+                    <Typography variant="body2" color="text.secondary">Noch kein Ergebnis.</Typography>
+                  ) : selected.result.error ? (
+                    <Alert severity="error">
+                      {selected.result.error}
+                      {selected.result.errorCode && ` (${selected.result.errorCode})`}
+                    </Alert>
+                  ) : (
+                    <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                      {selected.result.content}
+                    </Typography>
+                  )}
+                </Box>
+                {selected.result && !selected.result.error && (
+                  <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                    <Chip size="small" label={formatCost(selected.result.cost || 0)} />
+                    {selected.result.tokens && (
+                      <Chip
+                        size="small"
+                        label={`${formatTokens(selected.result.tokens.input)} In / ${formatTokens(selected.result.tokens.output)} Out`}
+                      />
+                    )}
+                    {selected.result.durationMs !== null && (
+                      <Chip size="small" label={formatLatency(selected.result.durationMs)} />
+                    )}
+                    {selected.result.finishReason && (
+                      <Chip size="small" variant="outlined" label={selected.result.finishReason} />
+                    )}
+                  </Stack>
+                )}
+              </Stack>
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={() => setSelected(null)}>Schließen</Button>
+            </DialogActions>
+          </>
+        )}
+      </Dialog>
+    </Stack>
+  );
+};
+
+export default EvalResultsGrid;
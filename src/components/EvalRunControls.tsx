@@ -0,0 +1,97 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Chip, IconButton, Stack, Tooltip } from '@mui/material';
+import { Cancel, Delete, Pause, PlayArrow, Replay } from '@mui/icons-material';
+import { cancelEvalRun, deleteEvalRun, pauseEvalRun, resumeEvalRun } from '@/app/actions';
+import { EVAL_RUN_STATUS_LABELS } from '@/lib/datasets';
+import { BUDGET_UPDATED_EVENT } from '@/lib/budgets';
+import { type EvalRunStatus, type EvalRunSummary, type ServerActionResult } from '@/types';
+
+const STATUS_COLORS: Record<EvalRunStatus, 'default' | 'primary' | 'success' | 'warning' | 'error'> = {
+  running: 'primary',
+  paused: 'warning',
+  completed: 'success',
+  cancelled: 'default',
+  failed: 'error',
+};
+
+export const EvalRunStatusChip: React.FC<{ status: EvalRunStatus }> = ({ status }) => (
+  <Chip label={EVAL_RUN_STATUS_LABELS[status]} color={STATUS_COLORS[status]} size="small" variant="outlined" />
+);
+
+interface EvalRunControlsProps {
+  run: EvalRunSummary;
+  onChanged: () => void;
+  onError: (message: string) => void;
+  onDeleted?: () => void;
+}
+
+/**
+ * Pausieren, Fortsetzen, Fehler wiederholen, Abbrechen und Löschen eines Laufs
+ */
+export const EvalRunControls: React.FC<EvalRunControlsProps> = ({ run, onChanged, onError, onDeleted }) => {
+  const [isBusy, setIsBusy] = useState(false);
+
+  const perform = async (action: () => Promise<ServerActionResult<void>>, onSuccess: () => void = onChanged) => {
+    setIsBusy(true);
+    try {
+      const result = await action();
+      if (result.success) {
+        onSuccess();
+        window.dispatchEvent(new Event(BUDGET_UPDATED_EVENT));
+      } else {
+        onError(result.error || 'Aktion fehlgeschlagen');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Lauf "${run.name}" inkl. aller Ergebnisse löschen?`)) return;
+    perform(() => deleteEvalRun(run.id), onDeleted || onChanged);
+  };
+
+  return (
+    <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+      {run.status === 'running' && (
+        <Tooltip title="Pausieren">
+          <IconButton size="small" onClick={() => perform(() => pauseEvalRun(run.id))} disabled={isBusy}>
+            <Pause fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+      {(run.status === 'paused' || run.status === 'failed') && (
+        <Tooltip title="Fortsetzen">
+          <IconButton size="small" onClick={() => perform(() => resumeEvalRun(run.id))} disabled={isBusy}>
+            <PlayArrow fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+      {run.failed > 0 && run.status !== 'running' && run.status !== 'cancelled' && (
+        <Tooltip title={`${run.failed} fehlgeschlagene Anfragen wiederholen`}>
+          <IconButton size="small" onClick={() => perform(() => resumeEvalRun(run.id, true))} disabled={isBusy}>
+            <Replay fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+      {(run.status === 'running' || run.status === 'paused') && (
+        <Tooltip title="Abbrechen">
+          <IconButton size="small" onClick={() => perform(() => cancelEvalRun(run.id))} disabled={isBusy}>
+            <Cancel fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+      {run.status !== 'running' && (
+        <Tooltip title="Löschen">
+          <IconButton size="small" color="error" onClick={handleDelete} disabled={isBusy}>
+            <Delete fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+    </Stack>
+  );
+};
+
+export default EvalRunControls;
@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+} from '@mui/material';
+import { useModelCatalog } from '@/components/providers/ModelCatalogProvider';
+import { startEvalRun } from '@/app/actions';
+import { DEFAULT_EVAL_CONCURRENCY, MAX_EVAL_CONCURRENCY } from '@/lib/datasets';
+import { MAX_MODEL_SLOTS } from '@/lib/models';
+import { type DatasetSummary } from '@/types';
+
+interface EvalRunDialogProps {
+  open: boolean;
+  datasets: DatasetSummary[];
+  initialDatasetId?: string | null;
+  onClose: () => void;
+  onStarted: (runId: string, budgetWarnings: string[]) => void;
+}
+
+/**
+ * Startet einen Evaluationslauf: Datensatz, Models und Parallelität wählen
+ */
+export const EvalRunDialog: React.FC<EvalRunDialogProps> = ({ open, datasets, initialDatasetId, onClose, onStarted }) => {
+  const { models } = useModelCatalog();
+  const [datasetId, setDatasetId] = useState('');
+  const [selectedModels, setSelectedModels] = useState<string[]>([]);
+  const [name, setName] = useState('');
+  const [systemPrompt, setSystemPrompt] = useState('');
+  const [concurrency, setConcurrency] = useState(String(DEFAULT_EVAL_CONCURRENCY));
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDatasetId(initialDatasetId || datasets[0]?.id || '');
+    setError(null);
+  }, [open, initialDatasetId, datasets]);
+
+  const dataset = datasets.find(entry => entry.id === datasetId);
+  const requestCount = (dataset?.itemCount || 0) * selectedModels.length;
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      const result = await startEvalRun({
+        datasetId,
+        name,
+        models: selectedModels,
+        systemPrompt,
+        concurrency: Number(concurrency),
+      });
+
+      if (result.success && result.data) {
+        onStarted(result.data.runId, result.data.budgetWarnings);
+        setName('');
+      } else {
+        setError(result.error || 'Fehler beim Starten des Evaluationslaufs');
+      }
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Neuer Evaluationslauf</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <FormControl fullWidth size="small">
+            <InputLabel>Datensatz</InputLabel>
+            <Select value={datasetId} label="Datensatz" onChange={(e) => setDatasetId(e.target.value)}>
+              {datasets.map(entry => (
+                <MenuItem key={entry.id} value={entry.id}>
+                  {entry.name} ({entry.itemCount} Prompts)
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl fullWidth size="small">
+            <InputLabel>Models</InputLabel>
+            <Select
+              multiple
+              value={selectedModels}
+              label="Models"
+              onChange={(e) => {
+                const value = e.target.value;
+                setSelectedModels(typeof value === 'string' ? value.split(',') : value);
+              }}
+              renderValue={(selected) => selected
+                .map(modelId => models.find(model => model.id === modelId)?.displayName || modelId)
+                .join(', ')}
+            >
+              {models.map(model => (
+                <MenuItem
+                  key={model.id}
+                  value={model.id}
+                  disabled={!selectedModels.includes(model.id) && selectedModels.length >= MAX_MODEL_SLOTS}
+                >
+                  <Checkbox size="small" checked={selectedModels.includes(model.id)} />
+                  <ListItemText primary={model.displayName} secondary={model.provider} />
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            label="Name (optional)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            size="small"
+            fullWidth
+            placeholder={dataset ? `${dataset.name} · Datum` : undefined}
+          />
+
+          <TextField
+            label="System-Prompt (optional)"
+            value={systemPrompt}
+            onChange={(e) => setSystemPrompt(e.target.value)}
+            size="small"
+            fullWidth
+            multiline
+            minRows={2}
+          />
+
+          <TextField
+            label="Parallele Anfragen"
+            type="number"
+            value={concurrency}
+            onChange={(e) => setConcurrency(e.target.value)}
+            size="small"
+            inputProps={{ min: 1, max: MAX_EVAL_CONCURRENCY, step: 1 }}
+            helperText={`1–${MAX_EVAL_CONCURRENCY}; höhere Werte laufen schneller, stoßen aber eher an Rate-Limits`}
+          />
+
+          {requestCount > 0 && (
+            <Alert severity="info">
+              {requestCount} Anfragen ({dataset?.itemCount} Prompts × {selectedModels.length} Models)
+            </Alert>
+          )}
+
+          {error && <Alert severity="error">{error}</Alert>}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Abbrechen</Button>
+        <Button
+          variant="contained"
+          onClick={handleStart}
+          disabled={isStarting || !datasetId || selectedModels.length === 0}
+        >
+          Starten
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default EvalRunDialog;
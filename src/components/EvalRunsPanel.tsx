@@ -0,0 +1,253 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  IconButton,
+  LinearProgress,
+  Link,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Delete, PlayArrow, UploadFile } from '@mui/icons-material';
+import { format } from 'date-fns';
+import DatasetUploadDialog from '@/components/DatasetUploadDialog';
+import EvalRunDialog from '@/components/EvalRunDialog';
+import { EvalRunControls, EvalRunStatusChip } from '@/components/EvalRunControls';
+import { deleteDataset, getDatasets, getEvalRuns } from '@/app/actions';
+import { EVAL_POLL_INTERVAL_MS } from '@/lib/datasets';
+import { getModelConfig } from '@/lib/models';
+import { formatCost } from '@/lib/pricing';
+import { type DatasetSummary, type EvalRunSummary } from '@/types';
+
+/**
+ * Übersicht der Datensätze und Evaluationsläufe
+ */
+export const EvalRunsPanel: React.FC = () => {
+  const [datasets, setDatasets] = useState<DatasetSummary[]>([]);
+  const [runs, setRuns] = useState<EvalRunSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [uploadOpen, setUploadOpen] = useState(false);
+  const [runDatasetId, setRunDatasetId] = useState<string | null | undefined>(undefined);
+
+  const loadRuns = useCallback(async () => {
+    const result = await getEvalRuns();
+    if (result.success && result.data) {
+      setRuns(result.data);
+    } else {
+      setError(result.error || 'Fehler beim Laden der Evaluationsläufe');
+    }
+  }, []);
+
+  const loadDatasets = useCallback(async () => {
+    const result = await getDatasets();
+    if (result.success && result.data) {
+      setDatasets(result.data);
+    } else {
+      setError(result.error || 'Fehler beim Laden der Datensätze');
+    }
+  }, []);
+
+  useEffect(() => {
+    Promise.all([loadDatasets(), loadRuns()]).finally(() => setIsLoading(false));
+  }, [loadDatasets, loadRuns]);
+
+  const hasRunningRuns = runs.some(run => run.status === 'running');
+
+  useEffect(() => {
+    if (!hasRunningRuns) return;
+
+    const interval = window.setInterval(loadRuns, EVAL_POLL_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [hasRunningRuns, loadRuns]);
+
+  const handleDeleteDataset = async (dataset: DatasetSummary) => {
+    if (!window.confirm(`Datensatz "${dataset.name}" inkl. aller Läufe löschen?`)) return;
+
+    const result = await deleteDataset(dataset.id);
+    if (result.success) {
+      await Promise.all([loadDatasets(), loadRuns()]);
+    } else {
+      setError(result.error || 'Fehler beim Löschen des Datensatzes');
+    }
+  };
+
+  const handleStarted = async (runId: string, budgetWarnings: string[]) => {
+    setRunDatasetId(undefined);
+    setWarnings(budgetWarnings);
+    await loadRuns();
+  };
+
+  return (
+    <Stack spacing={3}>
+      {isLoading && <LinearProgress />}
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {warnings.length > 0 && (
+        <Alert severity="warning" onClose={() => setWarnings([])}>
+          {warnings.join(' · ')}
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent>
+          <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+            <Typography variant="h6">Datensätze</Typography>
+            <Button variant="outlined" startIcon={<UploadFile />} onClick={() => setUploadOpen(true)}>
+              Importieren
+            </Button>
+          </Stack>
+
+          {datasets.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              Noch keine Datensätze. Importiere eine CSV- oder JSONL-Datei mit Prompts.
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Name</TableCell>
+                    <TableCell align="right">Prompts</TableCell>
+                    <TableCell>Importiert</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {datasets.map(dataset => (
+                    <TableRow key={dataset.id} hover>
+                      <TableCell>{dataset.name}</TableCell>
+                      <TableCell align="right">{dataset.itemCount}</TableCell>
+                      <TableCell>{format(new Date(dataset.createdAt), 'dd.MM.yyyy HH:mm')}</TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Evaluieren">
+                          <IconButton size="small" color="primary" onClick={() => setRunDatasetId(dataset.id)}>
+                            <PlayArrow fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Löschen">
+                          <IconButton size="small" color="error" onClick={() => handleDeleteDataset(dataset)}>
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent>
+          <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+            <Typography variant="h6">Läufe</Typography>
+            <Button
+              variant="contained"
+              startIcon={<PlayArrow />}
+              onClick={() => setRunDatasetId(null)}
+              disabled={datasets.length === 0}
+            >
+              Neuer Lauf
+            </Button>
+          </Stack>
+
+          {runs.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              Noch keine Evaluationsläufe.
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Lauf</TableCell>
+                    <TableCell>Models</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell sx={{ minWidth: 160 }}>Fortschritt</TableCell>
+                    <TableCell align="right">Kosten</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {runs.map(run => (
+                    <TableRow key={run.id} hover>
+                      <TableCell>
+                        <Link href={`/evals/${run.id}`} underline="hover">
+                          {run.name}
+                        </Link>
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          {run.datasetName} · {format(new Date(run.createdAt), 'dd.MM.yyyy HH:mm')}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2">
+                          {run.models.map(model => getModelConfig(model)?.displayName || model).join(', ')}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <EvalRunStatusChip status={run.status} />
+                      </TableCell>
+                      <TableCell>
+                        <Box>
+                          <LinearProgress
+                            variant="determinate"
+                            value={run.total > 0 ? (run.completed / run.total) * 100 : 0}
+                            color={run.failed > 0 ? 'warning' : 'primary'}
+                          />
+                          <Typography variant="caption" color="text.secondary">
+                            {run.completed} / {run.total}
+                            {run.failed > 0 && ` · ${run.failed} Fehler`}
+                          </Typography>
+                        </Box>
+                      </TableCell>
+                      <TableCell align="right">{formatCost(run.cost)}</TableCell>
+                      <TableCell align="right">
+                        <EvalRunControls run={run} onChanged={loadRuns} onError={setError} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <DatasetUploadDialog
+        open={uploadOpen}
+        onClose={() => setUploadOpen(false)}
+        onImported={loadDatasets}
+      />
+
+      <EvalRunDialog
+        open={runDatasetId !== undefined}
+        datasets={datasets}
+        initialDatasetId={runDatasetId}
+        onClose={() => setRunDatasetId(undefined)}
+        onStarted={handleStarted}
+      />
+    </Stack>
+  );
+};
+
+export default EvalRunsPanel;
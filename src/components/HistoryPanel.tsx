@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   Card,
   CardContent,
@@ -25,6 +25,14 @@ import {
   DialogContent,
   DialogActions,
   Divider,
+  Autocomplete,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  LinearProgress,
 } from '@mui/material';
 import {
   History,
@@ -37,36 +45,215 @@ import {
   Download,
   Clear,
   CalendarToday,
+  Forum,
+  Star,
+  StarBorder,
+  LocalOffer,
+  Gavel,
+  Description,
 } from '@mui/icons-material';
-import { type HistoryPanelProps, type PromptHistory } from '@/types';
-import { formatCost } from '@/lib/pricing';
+import ReactMarkdown from 'react-markdown';
+import { getHistoryTags, getPromptHistory, getPromptTemplates, toggleHistoryFavorite, updateHistoryAnnotations } from '@/app/actions';
+import { useModelCatalog } from '@/components/providers/ModelCatalogProvider';
+import AssertionBadges from '@/components/AssertionBadges';
+import { type HistoryAnnotations, type HistoryFilter, type HistoryPanelProps, type PromptHistory, type PromptTemplate, type ResponseHistory, type SearchSnippet, type VoteHistory } from '@/types';
+import { formatCost, formatPricing } from '@/lib/pricing';
+import { formatJudgeScore } from '@/lib/judge';
+import { formatTemplateVersion } from '@/lib/templates';
+import { splitHighlights } from '@/lib/highlight';
+import { formatLatency } from '@/lib/metrics';
+import { getModelConfig, parseGenerationParams } from '@/lib/models';
 import { format } from 'date-fns';
 import { de } from 'date-fns/locale';
 
+const PAGE_SIZE = 20;
+const QUERY_DEBOUNCE_MS = 300;
+
+type StatusFilter = 'all' | 'successful' | 'failed' | 'favorites';
+
+// Eingaben der erweiterten Filter (Zahlen als Strings für die Eingabefelder)
+interface FilterInputs {
+  model: string;
+  template: string; // Vorlagen-ID
+  dateFrom: string;
+  dateTo: string;
+  minCost: string;
+  maxCost: string;
+}
+
+const EMPTY_FILTER_INPUTS: FilterInputs = {
+  model: '',
+  template: '',
+  dateFrom: '',
+  dateTo: '',
+  minCost: '',
+  maxCost: '',
+};
+
+const parseCostInput = (value: string): number | undefined => {
+  const cost = parseFloat(value.replace(',', '.'));
+  return isNaN(cost) ? undefined : cost;
+};
+
+const toHistoryFilter = (status: StatusFilter, tag: string | null, inputs: FilterInputs): HistoryFilter => ({
+  status: status === 'successful' || status === 'failed' ? status : undefined,
+  favoritesOnly: status === 'favorites' || undefined,
+  tag: tag || undefined,
+  model: inputs.model || undefined,
+  templateId: inputs.template || undefined,
+  dateFrom: inputs.dateFrom || undefined,
+  dateTo: inputs.dateTo || undefined,
+  minCost: parseCostInput(inputs.minCost),
+  maxCost: parseCostInput(inputs.maxCost),
+});
+
 const HistoryPanel: React.FC<HistoryPanelProps> = ({
-  history,
   onSelectPrompt,
-  isLoading,
+  onContinueConversation,
+  refreshKey = 0,
 }) => {
+  const { catalog } = useModelCatalog();
   const [searchTerm, setSearchTerm] = useState('');
   const [isExpanded, setIsExpanded] = useState(true);
   const [selectedItem, setSelectedItem] = useState<PromptHistory | null>(null);
   const [showDetails, setShowDetails] = useState(false);
-  const [filterBy, setFilterBy] = useState<'all' | 'successful' | 'failed'>('all');
+  const [filterBy, setFilterBy] = useState<StatusFilter>('all');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  const [filterInputs, setFilterInputs] = useState<FilterInputs>(EMPTY_FILTER_INPUTS);
+
+  // Serverseitig geladene Seiten
+  const [items, setItems] = useState<PromptHistory[]>([]);
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [totalCost, setTotalCost] = useState(0);
+  const [totalTokens, setTotalTokens] = useState(0);
+  const [averageDurationMs, setAverageDurationMs] = useState<number | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+
+  // Zuletzt gestartete Abfrage (ältere Antworten verwerfen)
+  const requestIdRef = useRef(0);
+  const listRef = useRef<HTMLUListElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Suche und Filter entprellt an den Server geben
+  const [query, setQuery] = useState({ search: '', filter: {} as HistoryFilter });
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setQuery({ search: searchTerm.trim(), filter: toHistoryFilter(filterBy, tagFilter, filterInputs) });
+    }, QUERY_DEBOUNCE_MS);
 
-  // Filter and search history
-  const filteredHistory = history.filter(item => {
-    const matchesSearch = searchTerm === '' || 
-      item.content.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      item.response1?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      item.response2?.toLowerCase().includes(searchTerm.toLowerCase());
+    return () => clearTimeout(timeout);
+  }, [searchTerm, filterBy, tagFilter, filterInputs]);
 
-    const matchesFilter = filterBy === 'all' ||
-      (filterBy === 'successful' && item.response1 && item.response2) ||
-      (filterBy === 'failed' && (!item.response1 || !item.response2));
+  const loadPage = useCallback(async (pageToLoad: number) => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
 
-    return matchesSearch && matchesFilter;
-  });
+    try {
+      const result = await getPromptHistory(pageToLoad, PAGE_SIZE, query.search, query.filter);
+      if (requestId !== requestIdRef.current) return;
+
+      if (result.success && result.data) {
+        const data = result.data;
+        setItems(prev => pageToLoad === 1 ? data.items : [...prev, ...data.items]);
+        setPage(pageToLoad);
+        setTotal(data.total);
+        setTotalCost(data.totalCost);
+        setTotalTokens(data.totalTokens);
+        setAverageDurationMs(data.averageDurationMs);
+        setHasMore(data.hasMore);
+        setError(null);
+      } else {
+        setError(result.error || 'Fehler beim Laden der Historie');
+        setHasMore(false);
+      }
+    } catch (error) {
+      console.error('Failed to load history:', error);
+      if (requestId === requestIdRef.current) {
+        setError('Fehler beim Laden der Historie');
+        setHasMore(false);
+      }
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [query]);
+
+  // Neue Abfrage oder neuer Vergleich: von vorne laden
+  useEffect(() => {
+    loadPage(1);
+  }, [loadPage, refreshKey]);
+
+  useEffect(() => {
+    getHistoryTags().then(result => {
+      if (result.success && result.data) {
+        setAllTags(result.data);
+      }
+    });
+    getPromptTemplates().then(result => {
+      if (result.success && result.data) {
+        setTemplates(result.data);
+      }
+    });
+  }, [refreshKey]);
+
+  // Infinite Scroll: nächste Seite, sobald das Listenende sichtbar wird
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          loadPage(page + 1);
+        }
+      },
+      { root: listRef.current, rootMargin: '100px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, page, loadPage]);
+
+  const updateItem = (id: string, changes: Partial<PromptHistory>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const handleToggleFavorite = async (item: PromptHistory) => {
+    const result = await toggleHistoryFavorite(item.id);
+    if (result.success) {
+      updateItem(item.id, { isFavorite: result.data === true });
+    } else {
+      setError(result.error || 'Favorit konnte nicht gespeichert werden');
+    }
+  };
+
+  const handleSaveAnnotations = async (item: PromptHistory, annotations: HistoryAnnotations) => {
+    const result = await updateHistoryAnnotations(item.id, annotations);
+    if (!result.success || !result.data) {
+      setError(result.error || 'Tags und Notiz konnten nicht gespeichert werden');
+      return null;
+    }
+
+    const saved = result.data;
+    updateItem(item.id, { tags: saved.tags, note: saved.note || null });
+    setAllTags(prev => [...new Set([...prev, ...saved.tags])].sort((a, b) => a.localeCompare(b, 'de')));
+    return saved;
+  };
+
+  const updateFilterInput = (field: keyof FilterInputs, value: string) => {
+    setFilterInputs(prev => ({ ...prev, [field]: value }));
+  };
+
+  const activeFilterCount = Object.values(filterInputs).filter(Boolean).length;
+  const isFiltered = searchTerm !== '' || filterBy !== 'all' || tagFilter !== null || activeFilterCount > 0;
 
   const handleSelectPrompt = (prompt: PromptHistory) => {
     onSelectPrompt(prompt);
@@ -78,10 +265,9 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
     setShowDetails(true);
   };
 
-  const totalCost = history.reduce((sum, item) => sum + (item.cost1 || 0) + (item.cost2 || 0), 0);
-
   return (
     <Card sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+      {isLoading && <LinearProgress />}
       <CardHeader
         title={
           <Box display="flex" alignItems="center" gap={1}>
@@ -90,7 +276,7 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
               Prompt-Historie
             </Typography>
             <Chip 
-              label={`${history.length} Einträge`}
+              label={`${total} Einträge`}
               size="small"
               variant="outlined"
             />
@@ -108,12 +294,12 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
 
       <Collapse in={isExpanded}>
         <CardContent sx={{ flexGrow: 1, display: 'flex', flexDirection: 'column', pt: 0 }}>
-          {/* Summary Stats */}
+          {/* Summary Stats (alle Treffer, nicht nur die geladenen Seiten) */}
           <Box sx={{ mb: 2, p: 2, bgcolor: 'background.default', borderRadius: 1 }}>
-            <Stack direction="row" spacing={3} justifyContent="center">
+            <Stack direction="row" spacing={3} justifyContent="center" flexWrap="wrap" useFlexGap>
               <Box textAlign="center">
                 <Typography variant="h6" color="primary.main">
-                  {history.length}
+                  {total}
                 </Typography>
                 <Typography variant="caption" color="text.secondary">
                   Anfragen
@@ -129,39 +315,66 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
               </Box>
               <Box textAlign="center">
                 <Typography variant="h6" color="success.main">
-                  {history.length > 0 ? formatCost(totalCost / history.length) : '$0.00'}
+                  {total > 0 ? formatCost(totalCost / total) : '$0.00'}
                 </Typography>
                 <Typography variant="caption" color="text.secondary">
                   Ø pro Anfrage
                 </Typography>
               </Box>
+              <Box textAlign="center">
+                <Typography variant="h6" color="info.main">
+                  {totalTokens.toLocaleString('de-DE')}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  Tokens
+                </Typography>
+              </Box>
+              <Box textAlign="center">
+                <Typography variant="h6" color="text.primary">
+                  {averageDurationMs !== null ? formatLatency(averageDurationMs) : '–'}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  Ø Dauer
+                </Typography>
+              </Box>
             </Stack>
           </Box>
 
           {/* Search and Filter */}
           <Stack spacing={2} sx={{ mb: 2 }}>
-            <TextField
-              size="small"
-              placeholder="Historie durchsuchen..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              InputProps={{
-                startAdornment: (
-                  <InputAdornment position="start">
-                    <Search />
-                  </InputAdornment>
-                ),
-                endAdornment: searchTerm && (
-                  <InputAdornment position="end">
-                    <IconButton size="small" onClick={() => setSearchTerm('')}>
-                      <Clear />
-                    </IconButton>
-                  </InputAdornment>
-                ),
-              }}
-            />
+            <Stack direction="row" spacing={1} alignItems="center">
+              <TextField
+                size="small"
+                fullWidth
+                placeholder='Historie durchsuchen... ("Phrase", präfix*, model:gpt-4o)'
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                InputProps={{
+                  startAdornment: (
+                    <InputAdornment position="start">
+                      <Search />
+                    </InputAdornment>
+                  ),
+                  endAdornment: searchTerm && (
+                    <InputAdornment position="end">
+                      <IconButton size="small" onClick={() => setSearchTerm('')}>
+                        <Clear />
+                      </IconButton>
+                    </InputAdornment>
+                  ),
+                }}
+              />
+              <Tooltip title="Weitere Filter">
+                <IconButton
+                  onClick={() => setShowFilters(!showFilters)}
+                  color={activeFilterCount > 0 ? 'primary' : 'default'}
+                >
+                  <FilterList />
+                </IconButton>
+              </Tooltip>
+            </Stack>
 
-            <Stack direction="row" spacing={1}>
+            <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
               <Chip
                 label="Alle"
                 size="small"
@@ -183,34 +396,162 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
                 onClick={() => setFilterBy('failed')}
                 clickable
               />
+              <Chip
+                icon={<Star />}
+                label="Favoriten"
+                size="small"
+                color={filterBy === 'favorites' ? 'warning' : 'default'}
+                onClick={() => setFilterBy('favorites')}
+                clickable
+              />
             </Stack>
+
+            {allTags.length > 0 && (
+              <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                {allTags.map(tag => (
+                  <Chip
+                    key={tag}
+                    icon={<LocalOffer />}
+                    label={tag}
+                    size="small"
+                    variant={tagFilter === tag ? 'filled' : 'outlined'}
+                    color={tagFilter === tag ? 'secondary' : 'default'}
+                    onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                    clickable
+                  />
+                ))}
+              </Stack>
+            )}
+
+            {/* Erweiterte Filter: Model, Zeitraum, Kosten */}
+            <Collapse in={showFilters}>
+              <Stack spacing={2}>
+                <FormControl size="small" fullWidth>
+                  <InputLabel>Model</InputLabel>
+                  <Select
+                    value={filterInputs.model}
+                    label="Model"
+                    onChange={(e) => updateFilterInput('model', e.target.value)}
+                  >
+                    <MenuItem value="">Alle Models</MenuItem>
+                    {catalog.map(model => (
+                      <MenuItem key={model.id} value={model.id}>
+                        {model.displayName}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                {templates.length > 0 && (
+                  <FormControl size="small" fullWidth>
+                    <InputLabel>Vorlage</InputLabel>
+                    <Select
+                      value={filterInputs.template}
+                      label="Vorlage"
+                      onChange={(e) => updateFilterInput('template', e.target.value)}
+                    >
+                      <MenuItem value="">Alle Prompts</MenuItem>
+                      {templates.map(template => (
+                        <MenuItem key={template.id} value={template.id}>
+                          {template.name} ({template.category})
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                )}
+                <Stack direction="row" spacing={1}>
+                  <TextField
+                    label="Von"
+                    type="date"
+                    size="small"
+                    fullWidth
+                    value={filterInputs.dateFrom}
+                    onChange={(e) => updateFilterInput('dateFrom', e.target.value)}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                  <TextField
+                    label="Bis"
+                    type="date"
+                    size="small"
+                    fullWidth
+                    value={filterInputs.dateTo}
+                    onChange={(e) => updateFilterInput('dateTo', e.target.value)}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                </Stack>
+                <Stack direction="row" spacing={1}>
+                  <TextField
+                    label="Kosten ab ($)"
+                    type="number"
+                    size="small"
+                    fullWidth
+                    value={filterInputs.minCost}
+                    onChange={(e) => updateFilterInput('minCost', e.target.value)}
+                    inputProps={{ step: 0.001, min: 0 }}
+                  />
+                  <TextField
+                    label="Kosten bis ($)"
+                    type="number"
+                    size="small"
+                    fullWidth
+                    value={filterInputs.maxCost}
+                    onChange={(e) => updateFilterInput('maxCost', e.target.value)}
+                    inputProps={{ step: 0.001, min: 0 }}
+                  />
+                </Stack>
+                {activeFilterCount > 0 && (
+                  <Button size="small" startIcon={<Clear />} onClick={() => setFilterInputs(EMPTY_FILTER_INPUTS)}>
+                    Filter zurücksetzen
+                  </Button>
+                )}
+              </Stack>
+            </Collapse>
           </Stack>
 
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
           {/* History List */}
-          {isLoading ? (
+          {items.length === 0 && isLoading ? (
             <Box textAlign="center" py={4}>
               <Typography color="text.secondary">
                 Lade Historie...
               </Typography>
             </Box>
-          ) : filteredHistory.length === 0 ? (
+          ) : items.length === 0 ? (
             <Alert severity="info">
-              {searchTerm || filterBy !== 'all' 
+              {isFiltered 
                 ? 'Keine Einträge gefunden. Versuche andere Suchbegriffe oder Filter.'
                 : 'Noch keine Historie vorhanden. Starte deine erste Anfrage!'
               }
             </Alert>
           ) : (
-            <List sx={{ flexGrow: 1, overflow: 'auto', p: 0 }}>
-              {filteredHistory.map((item, index) => (
+            <List ref={listRef} sx={{ flexGrow: 1, overflow: 'auto', maxHeight: '70vh', p: 0 }}>
+              {items.map(item => (
                 <HistoryItem
                   key={item.id}
                   item={item}
                   isSelected={selectedItem?.id === item.id}
                   onSelect={() => handleSelectPrompt(item)}
                   onShowDetails={() => handleShowDetails(item)}
+                  onContinue={onContinueConversation && item.conversationId ? () => {
+                    setSelectedItem(item);
+                    onContinueConversation(item);
+                  } : undefined}
+                  onToggleFavorite={() => handleToggleFavorite(item)}
                 />
               ))}
+
+              {/* Sentinel für das Nachladen */}
+              <Box ref={sentinelRef} textAlign="center" py={1}>
+                <Typography variant="caption" color="text.secondary">
+                  {hasMore
+                    ? isLoading ? 'Lade weitere Einträge...' : `${items.length} von ${total} geladen`
+                    : `Alle ${total} Einträge geladen`}
+                </Typography>
+              </Box>
             </List>
           )}
 
@@ -222,7 +563,7 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
                 size="small"
                 variant="outlined"
                 onClick={() => {/* Handle export */}}
-                disabled={history.length === 0}
+                disabled={total === 0}
               >
                 Export
               </Button>
@@ -232,7 +573,7 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
                 variant="outlined"
                 color="error"
                 onClick={() => {/* Handle clear all */}}
-                disabled={history.length === 0}
+                disabled={total === 0}
               >
                 Alle löschen
               </Button>
@@ -244,7 +585,9 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
       {/* Details Dialog */}
       <HistoryDetailsDialog
         open={showDetails}
-        item={selectedItem}
+        item={selectedItem && (items.find(item => item.id === selectedItem.id) || selectedItem)}
+        allTags={allTags}
+        onSaveAnnotations={handleSaveAnnotations}
         onClose={() => setShowDetails(false)}
         onRestore={() => {
           if (selectedItem) {
@@ -258,14 +601,46 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
 };
 
 // History Item Component
+const SNIPPET_LABELS: Record<SearchSnippet['field'], string> = {
+  content: 'Prompt',
+  systemPrompt: 'System-Prompt',
+  responses: 'Antworten',
+  note: 'Notiz',
+  tags: 'Tags',
+};
+
+// Snippet eines Volltexttreffers mit hervorgehobenen Suchbegriffen
+const SearchSnippetLine: React.FC<{ snippet: SearchSnippet }> = ({ snippet }) => (
+  <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+    <Box component="span" fontWeight="bold" sx={{ mr: 0.5 }}>
+      {SNIPPET_LABELS[snippet.field]}:
+    </Box>
+    {splitHighlights(snippet.text).map((part, index) => (
+      part.highlighted ? (
+        <Box
+          key={index}
+          component="mark"
+          sx={{ bgcolor: 'warning.light', color: 'text.primary', borderRadius: 0.5, px: 0.25 }}
+        >
+          {part.text}
+        </Box>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      )
+    ))}
+  </Typography>
+);
+
 const HistoryItem: React.FC<{
   item: PromptHistory;
   isSelected: boolean;
   onSelect: () => void;
   onShowDetails: () => void;
-}> = ({ item, isSelected, onSelect, onShowDetails }) => {
-  const hasResponses = item.response1 && item.response2;
-  const totalCost = (item.cost1 || 0) + (item.cost2 || 0);
+  onContinue?: () => void;
+  onToggleFavorite?: () => void;
+}> = ({ item, isSelected, onSelect, onShowDetails, onContinue, onToggleFavorite }) => {
+  const hasResponses = isSuccessful(item);
+  const totalCost = getTotalCost(item);
 
   return (
     <ListItem 
@@ -297,6 +672,32 @@ const HistoryItem: React.FC<{
             ) : (
               <Chip label="✗" size="small" color="error" />
             )}
+            {onToggleFavorite && (
+              <Tooltip title={item.isFavorite ? 'Favorit entfernen' : 'Als Favorit markieren'}>
+                <IconButton 
+                  size="small" 
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleFavorite();
+                  }}
+                >
+                  {item.isFavorite ? <Star fontSize="small" color="warning" /> : <StarBorder fontSize="small" />}
+                </IconButton>
+              </Tooltip>
+            )}
+            {onContinue && (
+              <Tooltip title="Konversation fortsetzen">
+                <IconButton 
+                  size="small" 
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onContinue();
+                  }}
+                >
+                  <Forum fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
             <Tooltip title="Details anzeigen">
               <IconButton 
                 size="small" 
@@ -326,21 +727,58 @@ const HistoryItem: React.FC<{
           {item.content}
         </Typography>
 
-        {/* Footer */}
-        <Box display="flex" justifyContent="space-between" alignItems="center">
-          <Stack direction="row" spacing={1}>
-            <Chip 
-              label={item.model1} 
-              size="small" 
-              variant="outlined"
-              sx={{ fontSize: '0.7rem' }}
-            />
-            <Chip 
-              label={item.model2} 
-              size="small" 
+        {/* Suchtreffer */}
+        {item.snippets && item.snippets.length > 0 && (
+          <Stack spacing={0.5} sx={{ mb: 1 }}>
+            {item.snippets.map(snippet => (
+              <SearchSnippetLine key={snippet.field} snippet={snippet} />
+            ))}
+          </Stack>
+        )}
+
+        {/* Vorlage */}
+        {item.template && (
+          <Box sx={{ mb: 1 }}>
+            <Chip
+              icon={<Description />}
+              label={formatTemplateVersion(item.template.name, item.template.version)}
+              size="small"
+              color="info"
               variant="outlined"
               sx={{ fontSize: '0.7rem' }}
             />
+          </Box>
+        )}
+
+        {/* Tags */}
+        {item.tags.length > 0 && (
+          <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap sx={{ mb: 1 }}>
+            {item.tags.map(tag => (
+              <Chip
+                key={tag}
+                icon={<LocalOffer />}
+                label={tag}
+                size="small"
+                color="secondary"
+                variant="outlined"
+                sx={{ fontSize: '0.7rem' }}
+              />
+            ))}
+          </Stack>
+        )}
+
+        {/* Footer */}
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+            {item.responses.map(response => (
+              <Chip 
+                key={response.id}
+                label={response.model} 
+                size="small" 
+                variant="outlined"
+                sx={{ fontSize: '0.7rem' }}
+              />
+            ))}
           </Stack>
           <Typography variant="caption" color="warning.main" fontWeight={500}>
             {formatCost(totalCost)}
@@ -355,12 +793,14 @@ const HistoryItem: React.FC<{
 const HistoryDetailsDialog: React.FC<{
   open: boolean;
   item: PromptHistory | null;
+  allTags: string[];
+  onSaveAnnotations?: (item: PromptHistory, annotations: HistoryAnnotations) => Promise<HistoryAnnotations | null>;
   onClose: () => void;
   onRestore: () => void;
-}> = ({ open, item, onClose, onRestore }) => {
+}> = ({ open, item, allTags, onSaveAnnotations, onClose, onRestore }) => {
   if (!item) return null;
 
-  const totalCost = (item.cost1 || 0) + (item.cost2 || 0);
+  const totalCost = getTotalCost(item);
 
   return (
     <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
@@ -399,22 +839,37 @@ const HistoryDetailsDialog: React.FC<{
             </Box>
           </Box>
 
-          {/* Models Used */}
-          <Box>
-            <Typography variant="subtitle2" gutterBottom>
-              Verwendete Modelle
-            </Typography>
-            <Stack direction="row" spacing={2}>
-              <Chip label={item.model1} color="primary" />
-              <Chip label={item.model2} color="secondary" />
-            </Stack>
-          </Box>
+          {/* Vorlage mit eingesetzten Werten */}
+          {item.template && (
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                Vorlage
+              </Typography>
+              <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                <Chip
+                  icon={<Description />}
+                  label={formatTemplateVersion(item.template.name, item.template.version)}
+                  size="small"
+                  color="info"
+                />
+                {Object.entries(item.template.variables).map(([name, value]) => (
+                  <Tooltip key={name} title={value}>
+                    <Chip
+                      label={`${name}: ${value.length > 40 ? `${value.slice(0, 40)}…` : value}`}
+                      size="small"
+                      variant="outlined"
+                    />
+                  </Tooltip>
+                ))}
+              </Stack>
+            </Box>
+          )}
 
-          {/* Responses */}
-          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
-            <Box flex={1}>
+          {/* System Prompt */}
+          {item.systemPrompt && (
+            <Box>
               <Typography variant="subtitle2" gutterBottom>
-                {item.model1} Antwort
+                System-Prompt
               </Typography>
               <Box 
                 sx={{ 
@@ -422,48 +877,146 @@ const HistoryDetailsDialog: React.FC<{
                   bgcolor: 'background.default', 
                   borderRadius: 1,
                   border: 1,
-                  borderColor: 'divider',
-                  maxHeight: 200,
-                  overflow: 'auto'
+                  borderColor: 'divider'
                 }}
               >
-                <Typography variant="body2">
-                  {item.response1 || 'Keine Antwort erhalten'}
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                  {item.systemPrompt}
                 </Typography>
               </Box>
-              {item.cost1 && (
-                <Typography variant="caption" color="warning.main" sx={{ mt: 1, display: 'block' }}>
-                  Kosten: {formatCost(item.cost1)}
-                </Typography>
-              )}
             </Box>
+          )}
 
-            <Box flex={1}>
+          {/* Models Used */}
+          <Box>
+            <Typography variant="subtitle2" gutterBottom>
+              Verwendete Modelle
+            </Typography>
+            <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap>
+              {item.responses.map(response => (
+                <Chip 
+                  key={response.id} 
+                  label={`${response.slot + 1}. ${response.model}`} 
+                  color={response.slot % 2 === 0 ? 'primary' : 'secondary'} 
+                />
+              ))}
+            </Stack>
+          </Box>
+
+          {/* Tags & Notiz */}
+          {onSaveAnnotations ? (
+            <AnnotationsEditor
+              key={`${item.id}-${open}`}
+              item={item}
+              allTags={allTags}
+              onSave={(annotations) => onSaveAnnotations(item, annotations)}
+            />
+          ) : item.note && (
+            <Box>
               <Typography variant="subtitle2" gutterBottom>
-                {item.model2} Antwort
+                Notiz
               </Typography>
-              <Box 
-                sx={{ 
-                  p: 2, 
-                  bgcolor: 'background.default', 
-                  borderRadius: 1,
-                  border: 1,
-                  borderColor: 'divider',
-                  maxHeight: 200,
-                  overflow: 'auto'
-                }}
-              >
-                <Typography variant="body2">
-                  {item.response2 || 'Keine Antwort erhalten'}
-                </Typography>
+              <ReactMarkdown>{item.note}</ReactMarkdown>
+            </Box>
+          )}
+
+          {/* Blind Vote */}
+          {item.vote && (
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                Blind-Bewertung
+              </Typography>
+              <Typography variant="body2">
+                {formatVote(item.vote)}
+              </Typography>
+            </Box>
+          )}
+
+          {/* Responses */}
+          <Box 
+            sx={{ 
+              display: 'grid', 
+              gridTemplateColumns: { xs: '1fr', md: 'repeat(2, 1fr)' }, 
+              gap: 2 
+            }}
+          >
+            {item.responses.map(response => (
+              <Box key={response.id}>
+                <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+                  <Typography variant="subtitle2">
+                    {response.model} Antwort
+                  </Typography>
+                  {response.finishReason === 'cancelled' && (
+                    <Chip label="Abgebrochen" size="small" color="warning" variant="outlined" />
+                  )}
+                </Stack>
+                <Box 
+                  sx={{ 
+                    p: 2, 
+                    bgcolor: 'background.default', 
+                    borderRadius: 1,
+                    border: 1,
+                    borderColor: 'divider',
+                    maxHeight: 200,
+                    overflow: 'auto'
+                  }}
+                >
+                  <Typography variant="body2">
+                    {response.content || 'Keine Antwort erhalten'}
+                  </Typography>
+                </Box>
+                {response.assertionResults && (
+                  <Box sx={{ mt: 1 }}>
+                    <AssertionBadges results={response.assertionResults} />
+                  </Box>
+                )}
+                {response.cost && (
+                  <Typography variant="caption" color="warning.main" sx={{ mt: 1, display: 'block' }}>
+                    Kosten: {formatCost(response.cost)}
+                  </Typography>
+                )}
+                {response.systemPrompt !== item.systemPrompt && (
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                    Eigener System-Prompt: {response.systemPrompt || 'keiner'}
+                  </Typography>
+                )}
+                {response.params && (
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                    {formatGenerationParams(response.params)}
+                  </Typography>
+                )}
+                {formatRunMetadata(response) && (
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                    {formatRunMetadata(response)}
+                  </Typography>
+                )}
+                {response.errorMessage && (
+                  <Alert severity="error" sx={{ mt: 1, py: 0 }}>
+                    {response.errorCode && <strong>{response.errorCode}: </strong>}
+                    {response.errorMessage}
+                  </Alert>
+                )}
               </Box>
-              {item.cost2 && (
-                <Typography variant="caption" color="warning.main" sx={{ mt: 1, display: 'block' }}>
-                  Kosten: {formatCost(item.cost2)}
+            ))}
+          </Box>
+
+          {/* Judge-Bewertung */}
+          {item.judgment && (
+            <Alert severity="info" icon={<Gavel />}>
+              <Typography variant="body2">
+                <strong>Judge ({getModelConfig(item.judgment.judgeModel)?.displayName || item.judgment.judgeModel}):</strong>{' '}
+                {item.judgment.scores
+                  .map(score => `${score.model} ${formatJudgeScore(score.score)}`)
+                  .join(' · ')}
+                {!item.judgment.consistent && ' (Reihenfolgen uneinig)'}
+              </Typography>
+              {item.judgment.verdicts[0] && (
+                <Typography variant="caption" color="text.secondary">
+                  {item.judgment.verdicts[0]}
                 </Typography>
               )}
-            </Box>
-          </Stack>
+            </Alert>
+          )}
 
           {/* Total Cost */}
           <Box textAlign="center" sx={{ pt: 2, borderTop: 1, borderColor: 'divider' }}>
@@ -490,4 +1043,156 @@ const HistoryDetailsDialog: React.FC<{
   );
 };
 
+// Tags und Markdown-Notiz eines Eintrags bearbeiten
+const AnnotationsEditor: React.FC<{
+  item: PromptHistory;
+  allTags: string[];
+  onSave: (annotations: HistoryAnnotations) => Promise<HistoryAnnotations | null>;
+}> = ({ item, allTags, onSave }) => {
+  const [tags, setTags] = useState<string[]>(item.tags);
+  const [note, setNote] = useState(item.note || '');
+  const [noteMode, setNoteMode] = useState<'edit' | 'preview'>(item.note ? 'preview' : 'edit');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const isDirty = tags.join('\n') !== item.tags.join('\n') || note !== (item.note || '');
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // Server liefert die bereinigten Tags zurück
+      const result = await onSave({ tags, note });
+      if (result) {
+        setTags(result.tags);
+        setNote(result.note);
+        setSaved(true);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="subtitle2">
+          Tags & Notiz
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={noteMode}
+          onChange={(_, mode) => mode && setNoteMode(mode)}
+        >
+          <ToggleButton value="edit">Bearbeiten</ToggleButton>
+          <ToggleButton value="preview" disabled={!note.trim()}>Vorschau</ToggleButton>
+        </ToggleButtonGroup>
+      </Stack>
+
+      <Stack spacing={2}>
+        <Autocomplete
+          multiple
+          freeSolo
+          size="small"
+          options={allTags.filter(tag => !tags.includes(tag))}
+          value={tags}
+          onChange={(_, value) => setTags(value.map(tag => tag.trim()).filter(Boolean))}
+          renderInput={(params) => (
+            <TextField {...params} label="Tags" placeholder="Tag eingeben und Enter drücken" />
+          )}
+        />
+
+        {noteMode === 'edit' ? (
+          <TextField
+            label="Notiz (Markdown)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            multiline
+            minRows={3}
+            maxRows={10}
+            size="small"
+          />
+        ) : (
+          <Box 
+            sx={{ 
+              p: 2, 
+              bgcolor: 'background.default', 
+              borderRadius: 1,
+              border: 1,
+              borderColor: 'divider'
+            }}
+          >
+            <ReactMarkdown>{note}</ReactMarkdown>
+          </Box>
+        )}
+
+        <Stack direction="row" spacing={1} alignItems="center" justifyContent="flex-end">
+          {saved && !isDirty && (
+            <Typography variant="caption" color="success.main">
+              Gespeichert
+            </Typography>
+          )}
+          <Button size="small" variant="outlined" onClick={handleSave} disabled={!isDirty || isSaving}>
+            Speichern
+          </Button>
+        </Stack>
+      </Stack>
+    </Box>
+  );
+};
+
+// Utility Functions
+const isSuccessful = (item: PromptHistory) => 
+  item.responses.length > 0 && item.responses.every(response => response.content);
+
+const getTotalCost = (item: PromptHistory) => 
+  item.responses.reduce((sum, response) => sum + (response.cost || 0), 0);
+
+const formatGenerationParams = (value: string) => {
+  const params = parseGenerationParams(value);
+  if (!params) return '';
+
+  return [
+    `Temperature ${params.temperature}`,
+    `Max. Tokens ${params.maxTokens}`,
+    params.topP !== undefined && `Top P ${params.topP}`,
+    params.stop?.length && `Stop ${params.stop.map(sequence => JSON.stringify(sequence)).join(', ')}`,
+  ].filter(Boolean).join(' · ');
+};
+
+// Tokens, Latenz und Abschlussgrund eines Laufs (ältere Einträge haben keine Laufdaten)
+const formatRunMetadata = (response: ResponseHistory) => [
+  response.inputTokens !== null && response.outputTokens !== null &&
+    `${response.inputTokens} → ${response.outputTokens} Tokens (${response.tokensExact ? 'abgerechnet' : 'geschätzt'})`,
+  (response.cacheReadTokens || response.cacheWriteTokens) &&
+    `Cache: ${response.cacheReadTokens || 0} gelesen, ${response.cacheWriteTokens || 0} geschrieben`,
+  response.ttftMs !== null && `Erstes Token nach ${formatLatency(response.ttftMs)}`,
+  response.durationMs !== null && `Dauer ${formatLatency(response.durationMs)}`,
+  response.finishReason && `Ende: ${response.finishReason}`,
+  formatAppliedPrice(response),
+].filter(Boolean).join(' · ');
+
+// Angewandter Tarif aus der Preistabelle (ältere Einträge haben keinen)
+const formatAppliedPrice = (response: ResponseHistory) => {
+  const price = response.priceId
+    ? getModelConfig(response.model)?.prices?.find(entry => entry.id === response.priceId)
+    : null;
+  if (!price) return null;
+
+  return `Tarif ${formatPricing(price.pricing)} (ab ${format(new Date(price.effectiveFrom), 'dd.MM.yyyy', { locale: de })})`;
+};
+
+const formatVote = (vote: VoteHistory) => {
+  switch (vote.outcome) {
+    case 'a':
+      return `${vote.modelA} besser als ${vote.modelB}`;
+    case 'b':
+      return `${vote.modelB} besser als ${vote.modelA}`;
+    case 'tie':
+      return `Unentschieden (${vote.modelA} vs. ${vote.modelB})`;
+    default:
+      return `Beide schlecht (${vote.modelA} vs. ${vote.modelB})`;
+  }
+};
+
 export default HistoryPanel;
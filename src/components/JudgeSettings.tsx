@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Collapse,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Gavel, ExpandMore, ExpandLess, RestartAlt } from '@mui/icons-material';
+import { useModelCatalog } from '@/components/providers/ModelCatalogProvider';
+import { DEFAULT_JUDGE_RUBRIC, MAX_RUBRIC_LENGTH } from '@/lib/judge';
+
+interface JudgeSettingsProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  judgeModel: string | null;
+  onJudgeModelChange: (model: string) => void;
+  rubric: string;
+  onRubricChange: (rubric: string) => void;
+  onJudgeNow?: () => void; // letzten Vergleich (erneut) bewerten
+  canJudgeNow?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Einstellungen für die automatische Bewertung durch ein Judge-Model
+ */
+export const JudgeSettings: React.FC<JudgeSettingsProps> = ({
+  enabled,
+  onEnabledChange,
+  judgeModel,
+  onJudgeModelChange,
+  rubric,
+  onRubricChange,
+  onJudgeNow,
+  canJudgeNow = false,
+  disabled = false,
+}) => {
+  const { models } = useModelCatalog();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Box>
+      <Button
+        size="small"
+        startIcon={<Gavel />}
+        endIcon={open ? <ExpandLess /> : <ExpandMore />}
+        onClick={() => setOpen(!open)}
+        color={enabled ? 'primary' : 'inherit'}
+      >
+        LLM-Judge
+        {enabled && judgeModel && ` (${models.find(model => model.id === judgeModel)?.displayName || judgeModel})`}
+      </Button>
+
+      <Collapse in={open}>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={enabled}
+                  onChange={(e) => onEnabledChange(e.target.checked)}
+                  disabled={disabled}
+                  size="small"
+                />
+              }
+              label={<Typography variant="body2">Nach jedem Vergleich bewerten</Typography>}
+            />
+            <FormControl size="small" sx={{ minWidth: 220 }}>
+              <InputLabel>Judge-Model</InputLabel>
+              <Select
+                label="Judge-Model"
+                value={judgeModel && models.some(model => model.id === judgeModel) ? judgeModel : ''}
+                onChange={(e) => onJudgeModelChange(e.target.value)}
+                disabled={disabled}
+              >
+                {models.map(model => (
+                  <MenuItem key={model.id} value={model.id}>{model.displayName}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            {onJudgeNow && (
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={<Gavel />}
+                onClick={onJudgeNow}
+                disabled={disabled || !canJudgeNow || !judgeModel}
+              >
+                Letzten Vergleich bewerten
+              </Button>
+            )}
+          </Stack>
+
+          <TextField
+            multiline
+            minRows={3}
+            maxRows={10}
+            fullWidth
+            label="Bewertungskriterien"
+            value={rubric}
+            onChange={(e) => onRubricChange(e.target.value)}
+            disabled={disabled}
+            size="small"
+            error={rubric.length > MAX_RUBRIC_LENGTH}
+            helperText={`Jede Antwort wird zweimal bewertet (Reihenfolge original und umgekehrt), die Wertungen werden gemittelt. ${rubric.length}/${MAX_RUBRIC_LENGTH}`}
+          />
+
+          {rubric !== DEFAULT_JUDGE_RUBRIC && (
+            <Box>
+              <Button size="small" startIcon={<RestartAlt />} onClick={() => onRubricChange(DEFAULT_JUDGE_RUBRIC)} disabled={disabled}>
+                Standard-Kriterien
+              </Button>
+            </Box>
+          )}
+        </Stack>
+      </Collapse>
+    </Box>
+  );
+};
+
+export default JudgeSettings;
@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Collapse,
+  LinearProgress,
+  Stack,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Gavel, EmojiEvents, ExpandMore, ExpandLess, Refresh } from '@mui/icons-material';
+import { formatJudgeScore, JUDGE_SCORE_MAX } from '@/lib/judge';
+import { getModelConfig } from '@/lib/models';
+import { formatCost, formatTokens } from '@/lib/pricing';
+import { type Judgment } from '@/types';
+
+const PASS_LABELS = ['Reihenfolge original', 'Reihenfolge umgekehrt'];
+
+interface JudgeVerdictProps {
+  judgment: Judgment | null;
+  isJudging?: boolean;
+  error?: string | null;
+  slotLabels: string[]; // Anzeige pro Slot (Model-Name oder "Antwort A/B")
+  hidden?: boolean; // im Blind-Modus bis zur Abstimmung verbergen
+  onRetry?: () => void;
+}
+
+/**
+ * Urteil des Judge-Models unter den Antworten: Wertung pro Slot, Sieger und Begründungen
+ */
+export const JudgeVerdict: React.FC<JudgeVerdictProps> = ({
+  judgment,
+  isJudging = false,
+  error,
+  slotLabels,
+  hidden = false,
+  onRetry,
+}) => {
+  const [showReasoning, setShowReasoning] = useState(false);
+
+  const judgeName = judgment ? getModelConfig(judgment.judgeModel)?.displayName || judgment.judgeModel : null;
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Stack direction="row" spacing={1} alignItems="center" justifyContent="space-between" sx={{ mb: 2 }}>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Gavel color="primary" />
+            <Typography variant="h6">Judge-Bewertung</Typography>
+            {judgment && !hidden && (
+              <Typography variant="body2" color="text.secondary">
+                {judgeName}
+              </Typography>
+            )}
+          </Stack>
+          {onRetry && !isJudging && (error || judgment) && (
+            <Button size="small" startIcon={<Refresh />} onClick={onRetry}>
+              Erneut bewerten
+            </Button>
+          )}
+        </Stack>
+
+        {isJudging && (
+          <Box>
+            <LinearProgress />
+            <Typography variant="caption" color="text.secondary">
+              Antworten werden in beiden Reihenfolgen bewertet …
+            </Typography>
+          </Box>
+        )}
+
+        {error && !isJudging && (
+          <Alert severity="error">{error}</Alert>
+        )}
+
+        {judgment && !isJudging && hidden && (
+          <Typography variant="body2" color="text.secondary">
+            Die Bewertung wird nach deiner Abstimmung angezeigt.
+          </Typography>
+        )}
+
+        {judgment && !isJudging && !hidden && (
+          <Stack spacing={2}>
+            <Stack spacing={1}>
+              {[...judgment.scores].sort((a, b) => b.score - a.score).map(score => (
+                <Box key={score.slot}>
+                  <Stack direction="row" spacing={1} alignItems="center" justifyContent="space-between">
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      {score.slot === judgment.winnerSlot && <EmojiEvents fontSize="small" color="warning" />}
+                      <Typography variant="body2" fontWeight={score.slot === judgment.winnerSlot ? 600 : 400}>
+                        {slotLabels[score.slot] || `Slot ${score.slot + 1}`}
+                      </Typography>
+                    </Stack>
+                    <Tooltip title={score.passScores.map((passScore, index) => `${PASS_LABELS[index]}: ${passScore}`).join(' · ')}>
+                      <Typography variant="body2" fontWeight={600}>
+                        {formatJudgeScore(score.score)}
+                      </Typography>
+                    </Tooltip>
+                  </Stack>
+                  <LinearProgress
+                    variant="determinate"
+                    value={(score.score / JUDGE_SCORE_MAX) * 100}
+                    color={score.slot === judgment.winnerSlot ? 'success' : 'primary'}
+                    sx={{ height: 6, borderRadius: 1 }}
+                  />
+                </Box>
+              ))}
+            </Stack>
+
+            <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+              <Chip
+                size="small"
+                label={judgment.winnerSlot === null ? 'Gleichstand' : `Sieger: ${slotLabels[judgment.winnerSlot] || `Slot ${judgment.winnerSlot + 1}`}`}
+                color={judgment.winnerSlot === null ? 'default' : 'success'}
+              />
+              <Tooltip title="Ob beide Reihenfolgen denselben Sieger ergeben. Abweichungen deuten auf Positions-Bias hin.">
+                <Chip
+                  size="small"
+                  variant="outlined"
+                  label={judgment.consistent ? 'Reihenfolgen einig' : 'Reihenfolgen uneinig'}
+                  color={judgment.consistent ? 'success' : 'warning'}
+                />
+              </Tooltip>
+              <Chip
+                size="small"
+                variant="outlined"
+                label={`${formatCost(judgment.cost)} · ${formatTokens(judgment.tokens.input)} In / ${formatTokens(judgment.tokens.output)} Out`}
+              />
+            </Stack>
+
+            {judgment.verdicts[0] && (
+              <Typography variant="body2">{judgment.verdicts[0]}</Typography>
+            )}
+
+            <Box>
+              <Button
+                size="small"
+                endIcon={showReasoning ? <ExpandLess /> : <ExpandMore />}
+                onClick={() => setShowReasoning(!showReasoning)}
+              >
+                Begründungen
+              </Button>
+              <Collapse in={showReasoning}>
+                <Stack spacing={2} sx={{ mt: 1 }}>
+                  {judgment.scores.map(score => (
+                    <Box key={score.slot}>
+                      <Typography variant="subtitle2">
+                        {slotLabels[score.slot] || `Slot ${score.slot + 1}`}
+                      </Typography>
+                      {score.reasoning.map((reasoning, index) => (
+                        <Typography key={index} variant="body2" color="text.secondary">
+                          <strong>{PASS_LABELS[index]} ({score.passScores[index]}):</strong> {reasoning || '–'}
+                        </Typography>
+                      ))}
+                    </Box>
+                  ))}
+                  {judgment.verdicts.length > 1 && (
+                    <Box>
+                      <Typography variant="subtitle2">Fazit</Typography>
+                      {judgment.verdicts.map((verdict, index) => (
+                        <Typography key={index} variant="body2" color="text.secondary">
+                          <strong>{PASS_LABELS[index]}:</strong> {verdict || '–'}
+                        </Typography>
+                      ))}
+                    </Box>
+                  )}
+                </Stack>
+              </Collapse>
+            </Box>
+          </Stack>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default JudgeVerdict;
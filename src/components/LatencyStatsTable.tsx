@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Alert,
+  Avatar,
+  LinearProgress,
+} from '@mui/material';
+import { getLatencyStatistics } from '@/app/actions';
+import { getModelConfig } from '@/lib/models';
+import { getProvider } from '@/lib/providers';
+import { formatLatency, formatThroughput } from '@/lib/metrics';
+import { type LatencyPercentiles, type ModelLatencyStats } from '@/types';
+
+const formatPercentile = (
+  percentiles: LatencyPercentiles | null,
+  key: keyof LatencyPercentiles,
+  format: (value: number) => string
+) => (percentiles ? format(percentiles[key]) : '–');
+
+export const LatencyStatsTable: React.FC = () => {
+  const [stats, setStats] = useState<ModelLatencyStats[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const result = await getLatencyStatistics();
+        if (result.success && result.data) {
+          setStats(result.data);
+        } else {
+          setError(result.error || 'Fehler beim Laden der Latenz-Statistiken');
+        }
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  return (
+    <Card>
+      {isLoading && <LinearProgress />}
+      <CardContent>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+          <Typography variant="h6">
+            Latenz & Durchsatz
+          </Typography>
+          {stats && (
+            <Typography variant="body2" color="text.secondary">
+              {stats.reduce((sum, entry) => sum + entry.runs, 0)} Läufe
+            </Typography>
+          )}
+        </Stack>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {stats && stats.length === 0 && (
+          <Alert severity="info">
+            Noch keine Messwerte. Latenzen werden ab jetzt bei jedem Vergleich gespeichert.
+          </Alert>
+        )}
+
+        {stats && stats.length > 0 && (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Model</TableCell>
+                  <TableCell align="right">Läufe</TableCell>
+                  <Tooltip title="Zeit bis zum ersten Token">
+                    <TableCell align="right">TTFT p50</TableCell>
+                  </Tooltip>
+                  <TableCell align="right">TTFT p95</TableCell>
+                  <Tooltip title="Output-Tokens pro Sekunde ab dem ersten Token">
+                    <TableCell align="right">Tokens/s p50</TableCell>
+                  </Tooltip>
+                  <TableCell align="right">Tokens/s p95</TableCell>
+                  <TableCell align="right">Dauer p50</TableCell>
+                  <TableCell align="right">Dauer p95</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {stats.map(entry => {
+                  const config = getModelConfig(entry.model);
+                  const provider = config ? getProvider(config.provider) : undefined;
+
+                  return (
+                    <TableRow key={entry.model} hover>
+                      <TableCell>
+                        <Stack direction="row" alignItems="center" spacing={1}>
+                          <Avatar sx={{ width: 24, height: 24, fontSize: '0.75rem', bgcolor: provider?.color || 'grey.500' }}>
+                            {(config?.displayName || entry.model).charAt(0)}
+                          </Avatar>
+                          <Typography variant="body2" fontWeight="medium">
+                            {config?.displayName || entry.model}
+                          </Typography>
+                        </Stack>
+                      </TableCell>
+                      <TableCell align="right">{entry.runs}</TableCell>
+                      <TableCell align="right">{formatPercentile(entry.ttftMs, 'p50', formatLatency)}</TableCell>
+                      <TableCell align="right">{formatPercentile(entry.ttftMs, 'p95', formatLatency)}</TableCell>
+                      <TableCell align="right">{formatPercentile(entry.tokensPerSecond, 'p50', formatThroughput)}</TableCell>
+                      <TableCell align="right">{formatPercentile(entry.tokensPerSecond, 'p95', formatThroughput)}</TableCell>
+                      <TableCell align="right">{formatPercentile(entry.durationMs, 'p50', formatLatency)}</TableCell>
+                      <TableCell align="right">{formatPercentile(entry.durationMs, 'p95', formatLatency)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LatencyStatsTable;
@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Alert,
+  Avatar,
+  LinearProgress,
+} from '@mui/material';
+import { getLeaderboard } from '@/app/actions';
+import { getModelConfig } from '@/lib/models';
+import { getProvider } from '@/lib/providers';
+import { type Leaderboard } from '@/types';
+
+export const LeaderboardTable: React.FC = () => {
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const result = await getLeaderboard();
+        if (result.success && result.data) {
+          setLeaderboard(result.data);
+        } else {
+          setError(result.error || 'Fehler beim Laden des Leaderboards');
+        }
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  return (
+    <Card>
+      {isLoading && <LinearProgress />}
+      <CardContent>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+          <Typography variant="h6">
+            Leaderboard
+          </Typography>
+          {leaderboard && (
+            <Typography variant="body2" color="text.secondary">
+              {leaderboard.totalVotes} Abstimmungen
+            </Typography>
+          )}
+        </Stack>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {leaderboard && leaderboard.entries.length === 0 && (
+          <Alert severity="info">
+            Noch keine Abstimmungen. Aktiviere den Blind-Modus in der Arena und bewerte ein paar Vergleiche.
+          </Alert>
+        )}
+
+        {leaderboard && leaderboard.entries.length > 0 && (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>#</TableCell>
+                  <TableCell>Model</TableCell>
+                  <Tooltip title="Bradley-Terry-Rating auf Elo-Skala (Start 1000)">
+                    <TableCell align="right">Rating</TableCell>
+                  </Tooltip>
+                  <Tooltip title="95%-Konfidenzintervall (Bootstrap über alle Abstimmungen)">
+                    <TableCell align="right">95%-KI</TableCell>
+                  </Tooltip>
+                  <Tooltip title="Klassisches Elo in Abstimmungsreihenfolge (K = 32)">
+                    <TableCell align="right">Elo</TableCell>
+                  </Tooltip>
+                  <TableCell align="right">Spiele</TableCell>
+                  <TableCell align="right">S / N / U / Schlecht</TableCell>
+                  <TableCell align="right">Siegquote</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {leaderboard.entries.map((entry, index) => {
+                  const config = getModelConfig(entry.model);
+                  const provider = config ? getProvider(config.provider) : undefined;
+
+                  return (
+                    <TableRow key={entry.model} hover>
+                      <TableCell>{index + 1}</TableCell>
+                      <TableCell>
+                        <Stack direction="row" alignItems="center" spacing={1}>
+                          <Avatar sx={{ width: 24, height: 24, fontSize: '0.75rem', bgcolor: provider?.color || 'grey.500' }}>
+                            {(config?.displayName || entry.model).charAt(0)}
+                          </Avatar>
+                          <Typography variant="body2" fontWeight="medium">
+                            {config?.displayName || entry.model}
+                          </Typography>
+                        </Stack>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Typography variant="body2" fontWeight="bold">
+                          {entry.rating}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Typography variant="body2" color="text.secondary">
+                          {entry.ciLower} – {entry.ciUpper}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">{entry.elo}</TableCell>
+                      <TableCell align="right">{entry.games}</TableCell>
+                      <TableCell align="right">
+                        {entry.wins} / {entry.losses} / {entry.ties} / {entry.bothBad}
+                      </TableCell>
+                      <TableCell align="right">
+                        {(entry.winRate * 100).toFixed(0)}%
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LeaderboardTable;
@@ -0,0 +1,94 @@
+'use client';
+
+import React from 'react';
+import { Box } from '@mui/material';
+import ReactMarkdown from 'react-markdown';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneDark, oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { animations } from '@/lib/theme';
+
+// Markdown Renderer Component
+export const MarkdownRenderer: React.FC<{
+  content: string;
+  isStreaming: boolean;
+  theme: 'light' | 'dark';
+}> = ({ content, isStreaming, theme }) => {
+  return (
+    <Box sx={{ '& > *': { mb: 1 } }}>
+      <ReactMarkdown
+        components={{
+          code({ node, inline, className, children, ...props }: any) {
+            const match = /language-(\w+)/.exec(className || '');
+            const language = match ? match[1] : '';
+            
+            if (!inline && language) {
+              return (
+                <SyntaxHighlighter
+                  style={theme === 'dark' ? oneDark : oneLight}
+                  language={language}
+                  PreTag="div"
+                  {...props}
+                >
+                  {String(children).replace(/\n$/, '')}
+                </SyntaxHighlighter>
+              );
+            }
+            
+            return (
+              <Box
+                component="code"
+                sx={{
+                  bgcolor: 'action.hover',
+                  px: 0.5,
+                  py: 0.25,
+                  borderRadius: 0.5,
+                  fontSize: '0.875em',
+                  fontFamily: 'monospace',
+                }}
+                {...props}
+              >
+                {children}
+              </Box>
+            );
+          },
+          blockquote({ children }) {
+            return (
+              <Box
+                sx={{
+                  borderLeft: 4,
+                  borderColor: 'primary.main',
+                  pl: 2,
+                  py: 1,
+                  bgcolor: 'action.hover',
+                  borderRadius: '0 4px 4px 0',
+                  fontStyle: 'italic',
+                }}
+              >
+                {children}
+              </Box>
+            );
+          },
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+      
+      {/* Streaming Cursor */}
+      {isStreaming && (
+        <Box
+          component="span"
+          sx={{
+            display: 'inline-block',
+            width: 2,
+            height: '1em',
+            bgcolor: 'primary.main',
+            ml: 0.5,
+            ...animations.typing,
+          }}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default MarkdownRenderer;
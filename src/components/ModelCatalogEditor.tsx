@@ -0,0 +1,670 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Switch,
+  IconButton,
+  Tooltip,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  Avatar,
+  LinearProgress,
+} from '@mui/material';
+import { Add, Delete, Edit, History } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { useModelCatalog } from '@/components/providers/ModelCatalogProvider';
+import { addModelPrice, deleteModelPrice, saveModelConfig, setModelEnabled } from '@/app/actions';
+import { getProvider, getProviders } from '@/lib/providers';
+import { findPriceEntry } from '@/lib/pricing';
+import { type ModelConfig, type ModelPricing } from '@/types';
+
+// Preis-Formular (leere Cache-Felder = Input-Preis, leerer Rabatt = kein Batch-Rabatt)
+interface PricingFormState {
+  input: string;
+  output: string;
+  cachedInput: string;
+  cacheWrite: string;
+  batchDiscount: string; // Prozent
+  tiers: Array<{ aboveInputTokens: string; input: string; output: string }>;
+}
+
+// Formular-State (Zahlen als Strings für die Eingabefelder)
+interface ModelFormState {
+  id: string;
+  provider: string;
+  name: string;
+  displayName: string;
+  contextWindow: string;
+  maxOutputTokens: string;
+  pricing: PricingFormState;
+  capabilities: string;
+  enabled: boolean;
+}
+
+const optionalString = (value?: number) => value !== undefined ? String(value) : '';
+const optionalNumber = (value: string) => value.trim() !== '' ? Number(value) : undefined;
+
+const toPricingForm = (pricing: ModelPricing): PricingFormState => ({
+  input: String(pricing.input),
+  output: String(pricing.output),
+  cachedInput: optionalString(pricing.cachedInput),
+  cacheWrite: optionalString(pricing.cacheWrite),
+  batchDiscount: pricing.batchDiscount !== undefined ? String(Math.round(pricing.batchDiscount * 100)) : '',
+  tiers: (pricing.tiers || []).map(tier => ({
+    aboveInputTokens: String(tier.aboveInputTokens),
+    input: String(tier.input),
+    output: String(tier.output),
+  })),
+});
+
+const toPricing = (form: PricingFormState): ModelPricing => {
+  const batchDiscount = optionalNumber(form.batchDiscount);
+
+  return {
+    input: Number(form.input),
+    output: Number(form.output),
+    cachedInput: optionalNumber(form.cachedInput),
+    cacheWrite: optionalNumber(form.cacheWrite),
+    batchDiscount: batchDiscount !== undefined ? batchDiscount / 100 : undefined,
+    tiers: form.tiers.map(tier => ({
+      aboveInputTokens: Number(tier.aboveInputTokens),
+      input: Number(tier.input),
+      output: Number(tier.output),
+    })),
+  };
+};
+
+const EMPTY_FORM: ModelFormState = {
+  id: '',
+  provider: 'openai',
+  name: '',
+  displayName: '',
+  contextWindow: '128000',
+  maxOutputTokens: '4096',
+  pricing: toPricingForm({ input: 0, output: 0 }),
+  capabilities: 'streaming',
+  enabled: true,
+};
+
+const toFormState = (config: ModelConfig): ModelFormState => ({
+  id: config.id,
+  provider: config.provider,
+  name: config.name,
+  displayName: config.displayName,
+  contextWindow: String(config.maxTokens),
+  maxOutputTokens: String(config.maxOutputTokens),
+  pricing: toPricingForm(config.pricing),
+  capabilities: config.capabilities.join(', '),
+  enabled: config.enabled,
+});
+
+const toModelConfig = (form: ModelFormState): ModelConfig => {
+  const capabilities = form.capabilities
+    .split(',')
+    .map(capability => capability.trim())
+    .filter(Boolean);
+
+  return {
+    id: form.id.trim(),
+    provider: form.provider,
+    name: form.name.trim(),
+    displayName: form.displayName.trim(),
+    pricing: toPricing(form.pricing),
+    maxTokens: Number(form.contextWindow),
+    maxOutputTokens: Number(form.maxOutputTokens),
+    supportsStreaming: capabilities.includes('streaming'),
+    enabled: form.enabled,
+    capabilities,
+  };
+};
+
+export const ModelCatalogEditor: React.FC = () => {
+  const { catalog, isLoading, refresh } = useModelCatalog();
+  const [form, setForm] = useState<ModelFormState | null>(null);
+  const [priceModelId, setPriceModelId] = useState<string | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openDialog = (config?: ModelConfig) => {
+    setIsNew(!config);
+    setForm(config ? toFormState(config) : EMPTY_FORM);
+    setError(null);
+  };
+
+  const closeDialog = () => {
+    setForm(null);
+    setError(null);
+  };
+
+  const updateForm = <K extends keyof ModelFormState>(field: K, value: ModelFormState[K]) => {
+    setForm(prev => prev ? { ...prev, [field]: value } : prev);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    setIsSaving(true);
+    try {
+      const result = await saveModelConfig(toModelConfig(form), isNew);
+      if (!result.success) {
+        setError(result.error || 'Fehler beim Speichern des Models');
+        return;
+      }
+
+      await refresh();
+      closeDialog();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (config: ModelConfig) => {
+    const result = await setModelEnabled(config.id, !config.enabled);
+    if (!result.success) {
+      setError(result.error || 'Fehler beim Aktualisieren des Models');
+      return;
+    }
+
+    await refresh();
+  };
+
+  return (
+    <Card>
+      {isLoading && <LinearProgress />}
+      <CardContent>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+          <Typography variant="h6">
+            Model-Katalog ({catalog.length})
+          </Typography>
+          <Button variant="contained" startIcon={<Add />} onClick={() => openDialog()}>
+            Model hinzufügen
+          </Button>
+        </Stack>
+
+        {error && !form && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Aktiv</TableCell>
+                <TableCell>Model</TableCell>
+                <TableCell>Provider</TableCell>
+                <TableCell align="right">Context Window</TableCell>
+                <TableCell align="right">Max. Output</TableCell>
+                <TableCell align="right">Input / 1K</TableCell>
+                <TableCell align="right">Output / 1K</TableCell>
+                <TableCell>Capabilities</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {catalog.map(config => {
+                const provider = getProvider(config.provider);
+
+                return (
+                  <TableRow key={config.id} hover>
+                    <TableCell>
+                      <Switch
+                        checked={config.enabled}
+                        onChange={() => handleToggle(config)}
+                        size="small"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight="medium">
+                        {config.displayName}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {config.id} · {config.name}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Stack direction="row" alignItems="center" spacing={1}>
+                        <Avatar sx={{ width: 20, height: 20, fontSize: '0.7rem', bgcolor: provider?.color || 'grey.500' }}>
+                          {(provider?.name || config.provider).charAt(0)}
+                        </Avatar>
+                        <Typography variant="body2">
+                          {provider?.name || config.provider}
+                        </Typography>
+                      </Stack>
+                    </TableCell>
+                    <TableCell align="right">
+                      {config.maxTokens.toLocaleString()}
+                    </TableCell>
+                    <TableCell align="right">
+                      {config.maxOutputTokens.toLocaleString()}
+                    </TableCell>
+                    <TableCell align="right">
+                      ${config.pricing.input.toFixed(4)}
+                    </TableCell>
+                    <TableCell align="right">
+                      ${config.pricing.output.toFixed(4)}
+                    </TableCell>
+                    <TableCell>
+                      <Stack direction="row" spacing={0.5} flexWrap="wrap">
+                        {config.capabilities.map(capability => (
+                          <Chip key={capability} label={capability} size="small" variant="outlined" />
+                        ))}
+                      </Stack>
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Tooltip title="Preistabelle">
+                        <IconButton size="small" onClick={() => setPriceModelId(config.id)}>
+                          <History fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Bearbeiten">
+                        <IconButton size="small" onClick={() => openDialog(config)}>
+                          <Edit fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </CardContent>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={!!form} onClose={closeDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {isNew ? 'Model hinzufügen' : 'Model bearbeiten'}
+        </DialogTitle>
+        <DialogContent>
+          {form && (
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              {error && <Alert severity="error">{error}</Alert>}
+
+              <TextField
+                label="ID"
+                value={form.id}
+                onChange={(e) => updateForm('id', e.target.value)}
+                disabled={!isNew}
+                helperText="Eindeutige ID innerhalb der App"
+                size="small"
+              />
+
+              <FormControl size="small">
+                <InputLabel>Provider</InputLabel>
+                <Select
+                  value={form.provider}
+                  label="Provider"
+                  onChange={(e) => updateForm('provider', e.target.value)}
+                >
+                  {getProviders().map(provider => (
+                    <MenuItem key={provider.id} value={provider.id}>
+                      {provider.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+
+              <TextField
+                label="API-Name"
+                value={form.name}
+                onChange={(e) => updateForm('name', e.target.value)}
+                helperText="Model-Name bei der Provider-API"
+                size="small"
+              />
+
+              <TextField
+                label="Anzeigename"
+                value={form.displayName}
+                onChange={(e) => updateForm('displayName', e.target.value)}
+                size="small"
+              />
+
+              <Stack direction="row" spacing={2}>
+                <TextField
+                  label="Context Window (Tokens)"
+                  type="number"
+                  value={form.contextWindow}
+                  onChange={(e) => updateForm('contextWindow', e.target.value)}
+                  size="small"
+                  fullWidth
+                />
+                <TextField
+                  label="Max. Output-Tokens"
+                  type="number"
+                  value={form.maxOutputTokens}
+                  onChange={(e) => updateForm('maxOutputTokens', e.target.value)}
+                  size="small"
+                  fullWidth
+                />
+              </Stack>
+
+              <PricingFields
+                value={form.pricing}
+                onChange={(pricing) => updateForm('pricing', pricing)}
+              />
+              {!isNew && (
+                <Typography variant="caption" color="text.secondary">
+                  Geänderte Preise gelten ab sofort. Ältere Anfragen behalten ihren Tarif – Preise mit Stichtag über die Preistabelle pflegen.
+                </Typography>
+              )}
+
+              <TextField
+                label="Capabilities"
+                value={form.capabilities}
+                onChange={(e) => updateForm('capabilities', e.target.value)}
+                helperText="Kommagetrennt, z.B. streaming, vision"
+                size="small"
+              />
+            </Stack>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialog} disabled={isSaving}>
+            Abbrechen
+          </Button>
+          <Button onClick={handleSave} variant="contained" disabled={isSaving}>
+            Speichern
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <PriceTableDialog
+        config={catalog.find(config => config.id === priceModelId) || null}
+        onClose={() => setPriceModelId(null)}
+        onChange={refresh}
+      />
+    </Card>
+  );
+};
+
+// Preistabelle eines Models: Preise mit Stichtag anlegen und ungenutzte löschen
+const PriceTableDialog: React.FC<{
+  config: ModelConfig | null;
+  onClose: () => void;
+  onChange: () => Promise<void>;
+}> = ({ config, onClose, onChange }) => {
+  const [effectiveFrom, setEffectiveFrom] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [pricing, setPricing] = useState<PricingFormState>(() => toPricingForm({ input: 0, output: 0 }));
+  const [note, setNote] = useState('');
+
+  // Neuer Preis startet mit den aktuell gültigen Konditionen
+  useEffect(() => {
+    if (config) setPricing(toPricingForm(config.pricing));
+  }, [config?.id]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const prices = config?.prices || [];
+  const currentId = findPriceEntry(prices, new Date())?.id;
+
+  const handleClose = () => {
+    setError(null);
+    onClose();
+  };
+
+  const handleAdd = async () => {
+    if (!config) return;
+
+    setIsSaving(true);
+    try {
+      const result = await addModelPrice(config.id, toPricing(pricing), effectiveFrom, note);
+      if (!result.success) {
+        setError(result.error || 'Fehler beim Speichern des Preises');
+        return;
+      }
+
+      setNote('');
+      setError(null);
+      await onChange();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const result = await deleteModelPrice(id);
+    if (!result.success) {
+      setError(result.error || 'Fehler beim Löschen des Preises');
+      return;
+    }
+
+    setError(null);
+    await onChange();
+  };
+
+  return (
+    <Dialog open={!!config} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        Preistabelle {config?.displayName}
+      </DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+
+          <Typography variant="body2" color="text.secondary">
+            Jede Anfrage wird mit dem Preis berechnet, der zu ihrem Zeitpunkt gültig war.
+            Ein Eintrag gilt ab seinem Stichtag bis zum nächsten.
+          </Typography>
+
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Gültig ab</TableCell>
+                  <TableCell align="right">Input / 1K</TableCell>
+                  <TableCell align="right">Output / 1K</TableCell>
+                  <TableCell>Konditionen</TableCell>
+                  <TableCell>Notiz</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {[...prices].reverse().map(price => (
+                  <TableRow key={price.id} hover>
+                    <TableCell>
+                      <Stack direction="row" alignItems="center" spacing={1}>
+                        <Typography variant="body2">
+                          {new Date(price.effectiveFrom).getTime() === 0
+                            ? 'Seit Beginn'
+                            : format(new Date(price.effectiveFrom), 'dd.MM.yyyy', { locale: de })}
+                        </Typography>
+                        {price.id === currentId && <Chip label="Aktuell" size="small" color="primary" />}
+                      </Stack>
+                    </TableCell>
+                    <TableCell align="right">
+                      ${price.pricing.input.toFixed(4)}
+                    </TableCell>
+                    <TableCell align="right">
+                      ${price.pricing.output.toFixed(4)}
+                    </TableCell>
+                    <TableCell>
+                      <PricingConditions pricing={price.pricing} />
+                    </TableCell>
+                    <TableCell>
+                      {price.note}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Tooltip title="Löschen (nur ohne berechnete Antworten)">
+                        <span>
+                          <IconButton size="small" onClick={() => handleDelete(price.id)} disabled={prices.length <= 1}>
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <Typography variant="subtitle2">
+            Neuer Preis
+          </Typography>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <TextField
+              label="Gültig ab"
+              type="date"
+              value={effectiveFrom}
+              onChange={(e) => setEffectiveFrom(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              size="small"
+            />
+            <TextField
+              label="Notiz"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              size="small"
+              sx={{ flexGrow: 1 }}
+            />
+          </Stack>
+          <PricingFields value={pricing} onChange={setPricing} />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={isSaving}>
+          Schließen
+        </Button>
+        <Button onClick={handleAdd} variant="contained" disabled={isSaving || !effectiveFrom}>
+          Preis hinzufügen
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+// Felder für Basis-, Cache-, Batch- und Staffelpreise
+const PricingFields: React.FC<{
+  value: PricingFormState;
+  onChange: (value: PricingFormState) => void;
+}> = ({ value, onChange }) => {
+  const update = (field: Exclude<keyof PricingFormState, 'tiers'>, fieldValue: string) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
+  const updateTier = (index: number, field: keyof PricingFormState['tiers'][number], fieldValue: string) => {
+    onChange({
+      ...value,
+      tiers: value.tiers.map((tier, tierIndex) => tierIndex === index ? { ...tier, [field]: fieldValue } : tier),
+    });
+  };
+
+  const priceField = (label: string, fieldValue: string, onFieldChange: (value: string) => void, placeholder?: string) => (
+    <TextField
+      label={label}
+      type="number"
+      value={fieldValue}
+      placeholder={placeholder}
+      onChange={(e) => onFieldChange(e.target.value)}
+      inputProps={{ step: 0.0001, min: 0 }}
+      InputLabelProps={placeholder ? { shrink: true } : undefined}
+      size="small"
+      fullWidth
+    />
+  );
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" spacing={2}>
+        {priceField('Input-Preis (USD / 1K Tokens)', value.input, (input) => update('input', input))}
+        {priceField('Output-Preis (USD / 1K Tokens)', value.output, (output) => update('output', output))}
+      </Stack>
+
+      <Stack direction="row" spacing={2}>
+        {priceField('Cache-Lesen (USD / 1K)', value.cachedInput, (cachedInput) => update('cachedInput', cachedInput), 'wie Input')}
+        {priceField('Cache-Schreiben (USD / 1K)', value.cacheWrite, (cacheWrite) => update('cacheWrite', cacheWrite), 'wie Input')}
+        <TextField
+          label="Batch-Rabatt (%)"
+          type="number"
+          value={value.batchDiscount}
+          placeholder="kein"
+          onChange={(e) => update('batchDiscount', e.target.value)}
+          inputProps={{ step: 5, min: 0, max: 99 }}
+          InputLabelProps={{ shrink: true }}
+          size="small"
+          fullWidth
+        />
+      </Stack>
+
+      <Stack spacing={1}>
+        <Stack direction="row" justifyContent="space-between" alignItems="center">
+          <Typography variant="subtitle2">
+            Staffelpreise für lange Prompts
+          </Typography>
+          <Button
+            size="small"
+            startIcon={<Add />}
+            onClick={() => onChange({ ...value, tiers: [...value.tiers, { aboveInputTokens: '200000', input: value.input, output: value.output }] })}
+          >
+            Staffel
+          </Button>
+        </Stack>
+        {value.tiers.map((tier, index) => (
+          <Stack key={index} direction="row" spacing={2} alignItems="center">
+            <TextField
+              label="Ab Input-Tokens (>)"
+              type="number"
+              value={tier.aboveInputTokens}
+              onChange={(e) => updateTier(index, 'aboveInputTokens', e.target.value)}
+              inputProps={{ step: 1000, min: 1 }}
+              size="small"
+              fullWidth
+            />
+            {priceField('Input (USD / 1K)', tier.input, (input) => updateTier(index, 'input', input))}
+            {priceField('Output (USD / 1K)', tier.output, (output) => updateTier(index, 'output', output))}
+            <IconButton
+              size="small"
+              onClick={() => onChange({ ...value, tiers: value.tiers.filter((_, tierIndex) => tierIndex !== index) })}
+            >
+              <Delete fontSize="small" />
+            </IconButton>
+          </Stack>
+        ))}
+      </Stack>
+    </Stack>
+  );
+};
+
+// Kurzfassung der Zusatzkonditionen eines Preises
+const PricingConditions: React.FC<{ pricing: ModelPricing }> = ({ pricing }) => (
+  <Stack direction="row" spacing={0.5} flexWrap="wrap">
+    {pricing.cachedInput !== undefined && (
+      <Chip label={`Cache $${pricing.cachedInput.toFixed(4)}`} size="small" variant="outlined" />
+    )}
+    {pricing.cacheWrite !== undefined && (
+      <Chip label={`Cache-Write $${pricing.cacheWrite.toFixed(4)}`} size="small" variant="outlined" />
+    )}
+    {pricing.batchDiscount !== undefined && (
+      <Chip label={`Batch −${Math.round(pricing.batchDiscount * 100)} %`} size="small" variant="outlined" />
+    )}
+    {(pricing.tiers || []).map(tier => (
+      <Chip key={tier.aboveInputTokens} label={`> ${tier.aboveInputTokens.toLocaleString()}: $${tier.input.toFixed(4)} / $${tier.output.toFixed(4)}`} size="small" variant="outlined" />
+    ))}
+  </Stack>
+);
+
+export default ModelCatalogEditor;
@@ -1,6 +1,6 @@
 'use client';
 
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   FormControl,
   InputLabel,
@@ -14,6 +14,13 @@ import {
   Stack,
   Avatar,
   Tooltip,
+  IconButton,
+  Button,
+  Collapse,
+  Slider,
+  TextField,
+  Autocomplete,
+  Alert,
   SelectChangeEvent,
 } from '@mui/material';
 import { 
@@ -21,19 +28,32 @@ import {
   Speed, 
   AttachMoney, 
   Psychology,
-  OpenInNew 
+  OpenInNew,
+  Close,
+  Add,
+  Tune,
+  ExpandMore,
+  ExpandLess,
 } from '@mui/icons-material';
-import { type ModelConfig, type ModelSelectorProps } from '@/types';
-import { ALL_MODELS, MODEL_PROVIDERS } from '@/lib/models';
+import { type GenerationParams, type ModelConfig, type ModelLatencyStats, type ModelSelectorProps, type ParamsSelection, type ResponseMetrics } from '@/types';
+import { getLatencyStatistics } from '@/app/actions';
+import { formatLatency, formatThroughput } from '@/lib/metrics';
+import { getDefaultGenerationParams, validateGenerationParams, MAX_MODEL_SLOTS, MIN_MODEL_SLOTS } from '@/lib/models';
+import { getProvider } from '@/lib/providers';
+import { useModelCatalog } from '@/components/providers/ModelCatalogProvider';
 import { formatCost } from '@/lib/pricing';
 
 const ModelSelector: React.FC<ModelSelectorProps> = ({
   value,
   onChange,
   label,
-  availableModels = ALL_MODELS,
+  availableModels,
   disabled = false,
+  onRemove,
+  params,
+  onParamsChange,
 }) => {
+  const { providers } = useModelCatalog();
   const handleChange = (event: SelectChangeEvent<string>) => {
     const selectedValue = event.target.value;
     onChange(selectedValue === '' ? null : selectedValue);
@@ -60,9 +80,18 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
           {/* Header */}
           <Box display="flex" alignItems="center" gap={1}>
             <SmartToy color="primary" />
-            <Typography variant="h6" component="h3">
+            <Typography variant="h6" component="h3" sx={{ flexGrow: 1 }}>
               {label}
             </Typography>
+            {onRemove && (
+              <Tooltip title="Slot entfernen">
+                <span>
+                  <IconButton size="small" onClick={onRemove} disabled={disabled}>
+                    <Close fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            )}
           </Box>
 
           {/* Model Selection */}
@@ -79,7 +108,7 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
                 <em>Kein Model ausgewählt</em>
               </MenuItem>
               
-              {MODEL_PROVIDERS.flatMap(provider => [
+              {providers.flatMap(provider => [
                 <MenuItem key={`${provider.id}-header`} disabled sx={{ fontWeight: 'bold', color: 'primary.main' }}>
                   {provider.name}
                 </MenuItem>,
@@ -96,7 +125,7 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
                           sx={{ 
                             width: 24, 
                             height: 24, 
-                            bgcolor: provider.id === 'openai' ? 'success.main' : 'secondary.main',
+                            bgcolor: provider.color,
                             fontSize: 12
                           }}
                         >
@@ -121,6 +150,16 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
           {selectedModel && (
             <ModelInfoCard model={selectedModel} />
           )}
+
+          {/* Advanced: Generation-Parameter */}
+          {selectedModel && onParamsChange && (
+            <GenerationParamsPanel
+              model={selectedModel}
+              params={params || getDefaultGenerationParams(selectedModel.id)}
+              onChange={onParamsChange}
+              disabled={disabled}
+            />
+          )}
         </Stack>
       </CardContent>
     </Card>
@@ -129,7 +168,8 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
 
 // Model Info Card Component
 const ModelInfoCard: React.FC<{ model: ModelConfig }> = ({ model }) => {
-  const provider = MODEL_PROVIDERS.find(p => p.id === model.provider);
+  const { providers } = useModelCatalog();
+  const provider = providers.find(p => p.id === model.provider);
   
   return (
     <Box 
@@ -147,7 +187,7 @@ const ModelInfoCard: React.FC<{ model: ModelConfig }> = ({ model }) => {
           <Box display="flex" alignItems="center" gap={2}>
             <Avatar 
               sx={{ 
-                bgcolor: model.provider === 'openai' ? 'success.main' : 'secondary.main',
+                bgcolor: provider?.color,
                 width: 32,
                 height: 32
               }}
@@ -217,6 +257,109 @@ const ModelInfoCard: React.FC<{ model: ModelConfig }> = ({ model }) => {
   );
 };
 
+// Generation Params Panel Component (aufklappbar unter dem Selector)
+const GenerationParamsPanel: React.FC<{
+  model: ModelConfig;
+  params: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+  disabled?: boolean;
+}> = ({ model, params, onChange, disabled = false }) => {
+  const [open, setOpen] = useState(false);
+  const maxTemperature = getProvider(model.provider)?.maxTemperature ?? 2;
+  const error = validateGenerationParams(params, model.id);
+
+  const update = (changes: Partial<GenerationParams>) => {
+    onChange({ ...params, ...changes });
+  };
+
+  return (
+    <Box>
+      <Button
+        size="small"
+        startIcon={<Tune />}
+        endIcon={open ? <ExpandLess /> : <ExpandMore />}
+        onClick={() => setOpen(!open)}
+        color={error ? 'error' : 'inherit'}
+      >
+        Erweitert
+      </Button>
+
+      <Collapse in={open}>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {/* Temperature */}
+          <Box>
+            <Typography variant="caption" color="text.secondary">
+              Temperature: {params.temperature.toFixed(1)}
+            </Typography>
+            <Slider
+              value={params.temperature}
+              onChange={(_, value) => update({ temperature: value as number })}
+              min={0}
+              max={maxTemperature}
+              step={0.1}
+              size="small"
+              disabled={disabled}
+            />
+          </Box>
+
+          <Stack direction="row" spacing={2}>
+            <TextField
+              label="Max. Tokens"
+              type="number"
+              value={params.maxTokens}
+              onChange={(e) => update({ maxTokens: Number(e.target.value) })}
+              inputProps={{ min: 1, max: model.maxOutputTokens }}
+              helperText={`max. ${model.maxOutputTokens.toLocaleString()}`}
+              size="small"
+              disabled={disabled}
+              fullWidth
+            />
+            <TextField
+              label="Top P"
+              type="number"
+              value={params.topP ?? ''}
+              onChange={(e) => update({ topP: e.target.value === '' ? undefined : Number(e.target.value) })}
+              inputProps={{ min: 0, max: 1, step: 0.05 }}
+              helperText="leer = Provider-Default"
+              size="small"
+              disabled={disabled}
+              fullWidth
+            />
+          </Stack>
+
+          <Autocomplete
+            multiple
+            freeSolo
+            options={[]}
+            value={params.stop || []}
+            onChange={(_, value) => update({ stop: value.length > 0 ? value as string[] : undefined })}
+            disabled={disabled}
+            renderTags={(value, getTagProps) =>
+              value.map((sequence, index) => (
+                <Chip {...getTagProps({ index })} key={index} label={JSON.stringify(sequence)} size="small" />
+              ))
+            }
+            renderInput={(inputProps) => (
+              <TextField
+                {...inputProps}
+                label="Stop-Sequenzen"
+                helperText="Enter fügt eine Sequenz hinzu"
+                size="small"
+              />
+            )}
+          />
+
+          {error && (
+            <Alert severity="error" variant="outlined">
+              {error}
+            </Alert>
+          )}
+        </Stack>
+      </Collapse>
+    </Box>
+  );
+};
+
 // Performance Indicator Component
 const PerformanceIndicator: React.FC<{ model: ModelConfig }> = ({ model }) => {
   // Simple scoring based on pricing (lower is better for cost)
@@ -241,90 +384,109 @@ const PerformanceIndicator: React.FC<{ model: ModelConfig }> = ({ model }) => {
   );
 };
 
-// Dual Model Selector Component
-export const DualModelSelector: React.FC<{
-  model1: string | null;
-  model2: string | null;
-  onModel1Change: (model: string | null) => void;
-  onModel2Change: (model: string | null) => void;
+// Multi Model Selector Component (ein Selector pro Slot)
+export const MultiModelSelector: React.FC<{
+  models: Array<string | null>;
+  params: ParamsSelection;
+  onModelChange: (slot: number, model: string | null) => void;
+  onParamsChange: (slot: number, params: GenerationParams) => void;
+  onAddSlot: () => void;
+  onRemoveSlot: (slot: number) => void;
   disabled?: boolean;
 }> = ({ 
-  model1, 
-  model2, 
-  onModel1Change, 
-  onModel2Change, 
+  models, 
+  params,
+  onModelChange, 
+  onParamsChange,
+  onAddSlot, 
+  onRemoveSlot, 
   disabled = false 
 }) => {
+  const { models: availableModels } = useModelCatalog();
+  const canRemove = models.length > MIN_MODEL_SLOTS;
+  const canAdd = models.length < MAX_MODEL_SLOTS;
+
   return (
-    <Stack 
-      direction={{ xs: 'column', md: 'row' }} 
-      spacing={3}
-      sx={{ mb: 4 }}
-    >
-      <Box flex={1}>
-        <ModelSelector
-          value={model1}
-          onChange={onModel1Change}
-          label="Model 1"
-          availableModels={ALL_MODELS}
-          disabled={disabled}
-        />
-      </Box>
-      
+    <Box sx={{ mb: 4 }}>
       <Box 
         sx={{ 
-          display: 'flex', 
-          alignItems: 'center', 
-          justifyContent: 'center',
-          minWidth: 60
+          display: 'grid',
+          gridTemplateColumns: { 
+            xs: '1fr', 
+            md: 'repeat(2, 1fr)', 
+            xl: `repeat(${Math.min(models.length, 3)}, 1fr)` 
+          },
+          gap: 3,
         }}
       >
-        <Typography 
-          variant="h4" 
-          color="primary.main" 
-          sx={{ 
-            transform: { xs: 'rotate(90deg)', md: 'none' },
-            fontSize: { xs: '2rem', md: '2.5rem' }
-          }}
-        >
-          VS
-        </Typography>
+        {models.map((model, slot) => (
+          <ModelSelector
+            key={slot}
+            value={model}
+            onChange={(value) => onModelChange(slot, value)}
+            label={`Model ${slot + 1}`}
+            availableModels={availableModels}
+            disabled={disabled}
+            onRemove={canRemove ? () => onRemoveSlot(slot) : undefined}
+            params={params[slot]}
+            onParamsChange={(value) => onParamsChange(slot, value)}
+          />
+        ))}
       </Box>
-      
-      <Box flex={1}>
-        <ModelSelector
-          value={model2}
-          onChange={onModel2Change}
-          label="Model 2"
-          availableModels={ALL_MODELS}
-          disabled={disabled}
-        />
+
+      <Box display="flex" justifyContent="center" mt={2}>
+        <Button
+          startIcon={<Add />}
+          variant="outlined"
+          size="small"
+          onClick={onAddSlot}
+          disabled={disabled || !canAdd}
+        >
+          {canAdd ? 'Model hinzufügen' : `Maximal ${MAX_MODEL_SLOTS} Models`}
+        </Button>
       </Box>
-    </Stack>
+    </Box>
   );
 };
 
 // Model Comparison Component
 export const ModelComparison: React.FC<{
-  model1Id: string | null;
-  model2Id: string | null;
-}> = ({ model1Id, model2Id }) => {
-  if (!model1Id || !model2Id) return null;
-
-  const model1 = ALL_MODELS.find(m => m.id === model1Id);
-  const model2 = ALL_MODELS.find(m => m.id === model2Id);
-
-  if (!model1 || !model2) return null;
-
-  const compareMetric = (value1: number, value2: number, lowerIsBetter = true) => {
-    if (value1 === value2) return 'equal';
-    if (lowerIsBetter) {
-      return value1 < value2 ? 'model1' : 'model2';
-    } else {
-      return value1 > value2 ? 'model1' : 'model2';
-    }
+  modelIds: Array<string | null>;
+  runMetrics?: Array<ResponseMetrics | null>; // Messwerte des letzten Laufs mit dieser Auswahl
+}> = ({ modelIds, runMetrics }) => {
+  const { models: availableModels } = useModelCatalog();
+  const [latencyStats, setLatencyStats] = useState<ModelLatencyStats[]>([]);
+
+  // Historische Latenzen (p50) für alle Models einmalig laden
+  useEffect(() => {
+    getLatencyStatistics().then(result => {
+      if (result.success && result.data) setLatencyStats(result.data);
+    });
+  }, []);
+
+  const models = modelIds
+    .map(modelId => availableModels.find(m => m.id === modelId))
+    .filter((model): model is ModelConfig => Boolean(model));
+
+  if (models.length < MIN_MODEL_SLOTS || models.length !== modelIds.length) return null;
+
+  // Bester Wert über alle Slots (nur hervorheben, wenn sich die Werte unterscheiden)
+  const bestValue = (values: number[], lowerIsBetter = true) => {
+    if (values.every(value => value === values[0])) return null;
+    return lowerIsBetter ? Math.min(...values) : Math.max(...values);
   };
 
+  const bestInput = bestValue(models.map(m => m.pricing.input));
+  const bestOutput = bestValue(models.map(m => m.pricing.output));
+  const bestContext = bestValue(models.map(m => m.maxTokens), false);
+
+  const modelLatency = models.map(model => latencyStats.find(stats => stats.model === model.id));
+  const ttftMedians = modelLatency.map(stats => stats?.ttftMs?.p50);
+  const bestTtft = ttftMedians.every((value): value is number => value !== undefined)
+    ? bestValue(ttftMedians)
+    : null;
+  const hasLatencyData = modelLatency.some(Boolean) || runMetrics?.some(Boolean);
+
   return (
     <Card sx={{ mb: 3 }}>
       <CardContent>
@@ -338,43 +500,30 @@ export const ModelComparison: React.FC<{
             <Typography variant="subtitle2" gutterBottom>
               Kosten-Vergleich (pro 1K tokens)
             </Typography>
-            <Stack direction="row" spacing={4}>
-              <Box flex={1}>
-                <Box display="flex" alignItems="center" gap={1} mb={0.5}>
-                  <Typography variant="body2" color="text.secondary">
-                    Input: {formatCost(model1.pricing.input)}
-                  </Typography>
-                  {compareMetric(model1.pricing.input, model2.pricing.input) === 'model1' && 
-                    <Chip label="Günstiger" size="small" color="success" />
-                  }
-                </Box>
-                <Box display="flex" alignItems="center" gap={1}>
-                  <Typography variant="body2" color="text.secondary">
-                    Output: {formatCost(model1.pricing.output)}
-                  </Typography>
-                  {compareMetric(model1.pricing.output, model2.pricing.output) === 'model1' && 
-                    <Chip label="Günstiger" size="small" color="success" />
-                  }
-                </Box>
-              </Box>
-              <Box flex={1}>
-                <Box display="flex" alignItems="center" gap={1} mb={0.5}>
-                  <Typography variant="body2" color="text.secondary">
-                    Input: {formatCost(model2.pricing.input)}
-                  </Typography>
-                  {compareMetric(model1.pricing.input, model2.pricing.input) === 'model2' && 
-                    <Chip label="Günstiger" size="small" color="success" />
-                  }
-                </Box>
-                <Box display="flex" alignItems="center" gap={1}>
-                  <Typography variant="body2" color="text.secondary">
-                    Output: {formatCost(model2.pricing.output)}
+            <Stack direction="row" spacing={4} flexWrap="wrap" useFlexGap>
+              {models.map((model, slot) => (
+                <Box flex={1} key={slot} minWidth={160}>
+                  <Typography variant="caption" color="text.secondary" display="block" mb={0.5}>
+                    {slot + 1}. {model.displayName}
                   </Typography>
-                  {compareMetric(model1.pricing.output, model2.pricing.output) === 'model2' && 
-                    <Chip label="Günstiger" size="small" color="success" />
-                  }
+                  <Box display="flex" alignItems="center" gap={1} mb={0.5}>
+                    <Typography variant="body2" color="text.secondary">
+                      Input: {formatCost(model.pricing.input)}
+                    </Typography>
+                    {model.pricing.input === bestInput && 
+                      <Chip label="Günstiger" size="small" color="success" />
+                    }
+                  </Box>
+                  <Box display="flex" alignItems="center" gap={1}>
+                    <Typography variant="body2" color="text.secondary">
+                      Output: {formatCost(model.pricing.output)}
+                    </Typography>
+                    {model.pricing.output === bestOutput && 
+                      <Chip label="Günstiger" size="small" color="success" />
+                    }
+                  </Box>
                 </Box>
-              </Box>
+              ))}
             </Stack>
           </Box>
 
@@ -383,29 +532,69 @@ export const ModelComparison: React.FC<{
             <Typography variant="subtitle2" gutterBottom>
               Context Window
             </Typography>
-            <Stack direction="row" spacing={4}>
-              <Box flex={1}>
-                <Box display="flex" alignItems="center" gap={1}>
-                  <Typography variant="body2" color="text.secondary">
-                    {(model1.maxTokens / 1000).toFixed(0)}K tokens
-                  </Typography>
-                  {compareMetric(model1.maxTokens, model2.maxTokens, false) === 'model1' && 
-                    <Chip label="Größer" size="small" color="info" />
-                  }
-                </Box>
-              </Box>
-              <Box flex={1}>
-                <Box display="flex" alignItems="center" gap={1}>
-                  <Typography variant="body2" color="text.secondary">
-                    {(model2.maxTokens / 1000).toFixed(0)}K tokens
-                  </Typography>
-                  {compareMetric(model1.maxTokens, model2.maxTokens, false) === 'model2' && 
-                    <Chip label="Größer" size="small" color="info" />
-                  }
+            <Stack direction="row" spacing={4} flexWrap="wrap" useFlexGap>
+              {models.map((model, slot) => (
+                <Box flex={1} key={slot} minWidth={160}>
+                  <Box display="flex" alignItems="center" gap={1}>
+                    <Typography variant="body2" color="text.secondary">
+                      {(model.maxTokens / 1000).toFixed(0)}K tokens
+                    </Typography>
+                    {model.maxTokens === bestContext && 
+                      <Chip label="Größer" size="small" color="info" />
+                    }
+                  </Box>
                 </Box>
-              </Box>
+              ))}
             </Stack>
           </Box>
+
+          {/* Latency Comparison */}
+          {hasLatencyData && (
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                Latenz & Durchsatz
+              </Typography>
+              <Stack direction="row" spacing={4} flexWrap="wrap" useFlexGap>
+                {models.map((model, slot) => {
+                  const stats = modelLatency[slot];
+                  const lastRun = runMetrics?.[slot];
+
+                  return (
+                    <Box flex={1} key={slot} minWidth={160}>
+                      {lastRun && (
+                        <Typography variant="body2" color="text.secondary">
+                          Letzter Lauf: {[
+                            lastRun.ttftMs !== null && `TTFT ${formatLatency(lastRun.ttftMs)}`,
+                            lastRun.tokensPerSecond !== null && formatThroughput(lastRun.tokensPerSecond),
+                            formatLatency(lastRun.durationMs),
+                          ].filter(Boolean).join(' · ')}
+                        </Typography>
+                      )}
+                      {stats ? (
+                        <Box display="flex" alignItems="center" gap={1}>
+                          <Tooltip title={`Median aus ${stats.runs} Läufen`}>
+                            <Typography variant="body2" color="text.secondary">
+                              Median: {[
+                                stats.ttftMs && `TTFT ${formatLatency(stats.ttftMs.p50)}`,
+                                stats.tokensPerSecond && formatThroughput(stats.tokensPerSecond.p50),
+                              ].filter(Boolean).join(' · ') || formatLatency(stats.durationMs?.p50 || 0)}
+                            </Typography>
+                          </Tooltip>
+                          {stats.ttftMs?.p50 === bestTtft && 
+                            <Chip label="Schneller" size="small" color="success" />
+                          }
+                        </Box>
+                      ) : (
+                        <Typography variant="body2" color="text.secondary">
+                          Noch keine Messwerte
+                        </Typography>
+                      )}
+                    </Box>
+                  );
+                })}
+              </Stack>
+            </Box>
+          )}
         </Stack>
       </CardContent>
     </Card>
@@ -16,6 +16,8 @@ import {
   LinearProgress,
   Fade,
   Collapse,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
 import {
   Send,
@@ -25,18 +27,35 @@ import {
   AutoAwesome,
   Speed,
   MonetizationOn,
+  Stop,
+  SettingsSuggest,
+  ExpandMore,
+  ExpandLess,
+  Description,
+  LibraryBooks,
 } from '@mui/icons-material';
-import { type PromptInputProps } from '@/types';
+import { getPromptTemplates } from '@/app/actions';
+import TemplateFillDialog from '@/components/TemplateFillDialog';
+import TemplateLibraryDialog from '@/components/TemplateLibraryDialog';
+import { type PromptInputProps, type PromptTemplate, type SystemPromptSelection, type TemplateReference } from '@/types';
+import { extractPlaceholders } from '@/lib/datasets';
+import { formatTemplateVersion, groupTemplatesByCategory } from '@/lib/templates';
 import { estimatePromptCost, formatCost, formatTokens } from '@/lib/pricing';
 import { getModelConfig } from '@/lib/models';
-import { getApproximateTokenCount } from '@/lib/tokenizer';
+import { getApproximateTokenCount, preloadTokenizers } from '@/lib/tokenizer';
 
 const PromptInput: React.FC<PromptInputProps> = ({
   value,
   onChange,
   onSubmit,
+  onStop,
   isSubmitting,
   error,
+  systemPrompt = '',
+  onSystemPromptChange,
+  systemPrompts = [],
+  onSystemPromptsChange,
+  modelIds = [],
 }) => {
   const [charCount, setCharCount] = useState(0);
   const [tokenCount, setTokenCount] = useState(0);
@@ -128,6 +147,18 @@ const PromptInput: React.FC<PromptInputProps> = ({
               </Stack>
             </Box>
 
+            {/* System Prompt */}
+            {onSystemPromptChange && (
+              <SystemPromptInput
+                value={systemPrompt}
+                onChange={onSystemPromptChange}
+                overrides={systemPrompts}
+                onOverridesChange={onSystemPromptsChange}
+                modelIds={modelIds}
+                disabled={isSubmitting}
+              />
+            )}
+
             {/* Text Input */}
             <TextField
               inputRef={textFieldRef}
@@ -183,7 +214,7 @@ const PromptInput: React.FC<PromptInputProps> = ({
 
             {/* Cost Estimate */}
             <Collapse in={showEstimate && !isSubmitting}>
-              <CostEstimateDisplay prompt={value} />
+              <CostEstimateDisplay prompt={value} systemPrompt={systemPrompt} />
             </Collapse>
 
             {/* Action Buttons */}
@@ -207,6 +238,17 @@ const PromptInput: React.FC<PromptInputProps> = ({
                 </Button>
               </Stack>
 
+              {isSubmitting && onStop ? (
+                <Button
+                  variant="contained"
+                  color="error"
+                  endIcon={<Stop />}
+                  onClick={onStop}
+                  sx={{ minWidth: 120 }}
+                >
+                  Stoppen
+                </Button>
+              ) : (
               <Button
                 type="submit"
                 variant="contained"
@@ -223,6 +265,7 @@ const PromptInput: React.FC<PromptInputProps> = ({
               >
                 {isSubmitting ? 'Sende...' : 'Senden'}
               </Button>
+              )}
             </Box>
           </Stack>
         </form>
@@ -231,19 +274,118 @@ const PromptInput: React.FC<PromptInputProps> = ({
   );
 };
 
+// System Prompt Component (gemeinsam oder pro Model überschrieben)
+const SystemPromptInput: React.FC<{
+  value: string;
+  onChange: (value: string) => void;
+  overrides: SystemPromptSelection;
+  onOverridesChange?: (value: SystemPromptSelection) => void;
+  modelIds: Array<string | null>;
+  disabled?: boolean;
+}> = ({ value, onChange, overrides, onOverridesChange, modelIds, disabled = false }) => {
+  const hasOverrides = overrides.some(override => override !== null);
+  const [open, setOpen] = useState(Boolean(value) || hasOverrides);
+
+  // Beim Laden aus der Historie aufklappen
+  useEffect(() => {
+    if (value || hasOverrides) setOpen(true);
+  }, [value, hasOverrides]);
+
+  const handleOverrideToggle = (enabled: boolean) => {
+    // Überschreibungen starten mit dem gemeinsamen Prompt
+    onOverridesChange?.(modelIds.map(() => enabled ? value : null));
+  };
+
+  const handleOverrideChange = (slot: number, override: string) => {
+    onOverridesChange?.(modelIds.map((_, index) => index === slot ? override : overrides[index] ?? null));
+  };
+
+  return (
+    <Box>
+      <Button
+        size="small"
+        startIcon={<SettingsSuggest />}
+        endIcon={open ? <ExpandLess /> : <ExpandMore />}
+        onClick={() => setOpen(!open)}
+        color={value || hasOverrides ? 'primary' : 'inherit'}
+      >
+        System-Prompt
+        {(value || hasOverrides) && ` (${formatTokens(getApproximateTokenCount(value))} tokens)`}
+      </Button>
+
+      <Collapse in={open}>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {!hasOverrides && (
+            <TextField
+              multiline
+              minRows={2}
+              maxRows={8}
+              fullWidth
+              label="System-Prompt (alle Models)"
+              placeholder="Du bist ein hilfreicher Assistent..."
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              disabled={disabled}
+              size="small"
+            />
+          )}
+
+          {hasOverrides && modelIds.map((modelId, slot) => (
+            <TextField
+              key={slot}
+              multiline
+              minRows={2}
+              maxRows={8}
+              fullWidth
+              label={`System-Prompt ${slot + 1}. ${(modelId && getModelConfig(modelId)?.displayName) || 'Model'}`}
+              value={overrides[slot] ?? value}
+              onChange={(e) => handleOverrideChange(slot, e.target.value)}
+              disabled={disabled}
+              size="small"
+            />
+          ))}
+
+          {onOverridesChange && (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={hasOverrides}
+                  onChange={(e) => handleOverrideToggle(e.target.checked)}
+                  disabled={disabled || modelIds.length === 0}
+                  size="small"
+                />
+              }
+              label={<Typography variant="body2">Pro Model überschreiben</Typography>}
+            />
+          )}
+        </Stack>
+      </Collapse>
+    </Box>
+  );
+};
+
 // Cost Estimate Component
-const CostEstimateDisplay: React.FC<{ prompt: string }> = ({ prompt }) => {
+const ESTIMATE_MODELS = [
+  { modelId: 'gpt-4o-mini', name: 'GPT-4o Mini' },
+  { modelId: 'claude-3-5-haiku-20241022', name: 'Claude 3.5 Haiku' },
+  { modelId: 'gpt-4o', name: 'GPT-4o' },
+  { modelId: 'claude-3-5-sonnet-20241022', name: 'Claude 3.5 Sonnet' },
+];
+
+const CostEstimateDisplay: React.FC<{ prompt: string; systemPrompt?: string }> = ({ prompt, systemPrompt }) => {
+  // Neu rendern, sobald die Tokenizer geladen sind (bis dahin Heuristik)
+  const [, setTokenizersLoaded] = useState(false);
+
+  useEffect(() => {
+    preloadTokenizers(ESTIMATE_MODELS.map(({ modelId }) => modelId)).then(() => setTokenizersLoaded(true));
+  }, []);
+
   // Estimate costs for common models
-  const estimates = [
-    { modelId: 'gpt-4o-mini', name: 'GPT-4o Mini' },
-    { modelId: 'claude-3-5-haiku-20241022', name: 'Claude 3.5 Haiku' },
-    { modelId: 'gpt-4o', name: 'GPT-4o' },
-    { modelId: 'claude-3-5-sonnet-20241022', name: 'Claude 3.5 Sonnet' },
-  ].map(({ modelId, name }) => {
+  const estimates = ESTIMATE_MODELS.map(({ modelId, name }) => {
     const config = getModelConfig(modelId);
     if (!config) return null;
     
-    const estimate = estimatePromptCost(prompt, modelId);
+    const estimate = estimatePromptCost(prompt, modelId, 500, systemPrompt);
     return {
       name,
       cost: estimate.totalCost,
@@ -292,73 +434,122 @@ const CostEstimateDisplay: React.FC<{ prompt: string }> = ({ prompt }) => {
 
 // Enhanced Prompt Input with Templates
 export const PromptInputWithTemplates: React.FC<PromptInputProps & {
-  templates?: Array<{ name: string; prompt: string; category: string }>;
-  onTemplateSelect?: (template: string) => void;
-}> = ({ templates = [], onTemplateSelect, ...props }) => {
+  activeTemplate?: TemplateReference | null; // Vorlage, aus der der aktuelle Prompt stammt
+  onTemplateApply?: (template: TemplateReference, prompt: string) => void;
+  onTemplateClear?: () => void;
+}> = ({ activeTemplate, onTemplateApply, onTemplateClear, ...props }) => {
   const [showTemplates, setShowTemplates] = useState(false);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [templateToFill, setTemplateToFill] = useState<PromptTemplate | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
 
-  const defaultTemplates = [
-    {
-      name: 'Code Review',
-      prompt: 'Bitte überprüfe den folgenden Code und gib Feedback zu Verbesserungen:\n\n```\n// Dein Code hier\n```',
-      category: 'Entwicklung'
-    },
-    {
-      name: 'Text Zusammenfassung',
-      prompt: 'Fasse den folgenden Text in 3-5 Sätzen zusammen:\n\n',
-      category: 'Analyse'
-    },
-    {
-      name: 'Kreatives Schreiben',
-      prompt: 'Schreibe eine kurze Geschichte über...',
-      category: 'Kreativität'
-    },
-    {
-      name: 'Problemlösung',
-      prompt: 'Ich habe folgendes Problem und brauche einen strukturierten Lösungsansatz:\n\nProblem: ',
-      category: 'Beratung'
-    },
-  ];
-
-  const allTemplates = [...defaultTemplates, ...templates];
-
-  const handleTemplateSelect = (template: string) => {
-    props.onChange(template);
+  const loadTemplates = async () => {
+    const result = await getPromptTemplates();
+    if (result.success && result.data) {
+      setTemplates(result.data);
+      setTemplateError(null);
+    } else {
+      setTemplateError(result.error || 'Fehler beim Laden der Vorlagen');
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const applyTemplate = (template: PromptTemplate, prompt: string, variables: Record<string, string>) => {
+    props.onChange(prompt);
+    setTemplateToFill(null);
     setShowTemplates(false);
-    if (onTemplateSelect) {
-      onTemplateSelect(template);
+    if (onTemplateApply) {
+      onTemplateApply({
+        templateId: template.id,
+        name: template.name,
+        versionId: template.latest.id,
+        version: template.latest.version,
+        variables,
+      }, prompt);
+    }
+  };
+
+  // Vorlagen mit Platzhaltern erst ausfüllen lassen
+  const handleTemplateSelect = (template: PromptTemplate) => {
+    if (extractPlaceholders(template.latest.content).length > 0) {
+      setTemplateToFill(template);
+    } else {
+      applyTemplate(template, template.latest.content, {});
     }
   };
 
   return (
     <Box>
       <PromptInput {...props} />
+
+      {activeTemplate && (
+        <Box sx={{ mb: 2 }}>
+          <Tooltip title="Der Vergleich wird mit dieser Vorlagen-Version in der Historie gespeichert, solange der Prompt unverändert bleibt">
+            <Chip
+              icon={<Description />}
+              label={`Vorlage: ${formatTemplateVersion(activeTemplate.name, activeTemplate.version)}`}
+              size="small"
+              color="info"
+              variant="outlined"
+              onDelete={onTemplateClear}
+            />
+          </Tooltip>
+        </Box>
+      )}
       
       {/* Template Selector */}
       <Collapse in={showTemplates}>
         <Card variant="outlined" sx={{ mb: 2 }}>
           <CardContent>
-            <Typography variant="subtitle2" gutterBottom>
-              Prompt-Vorlagen
-            </Typography>
-            <Stack spacing={1}>
-              {allTemplates.map((template, index) => (
-                <Button
-                  key={index}
-                  variant="outlined"
-                  size="small"
-                  onClick={() => handleTemplateSelect(template.prompt)}
-                  sx={{ justifyContent: 'flex-start', textAlign: 'left' }}
-                >
-                  <Box>
-                    <Typography variant="body2" fontWeight={500}>
-                      {template.name}
-                    </Typography>
-                    <Typography variant="caption" color="text.secondary">
-                      {template.category}
-                    </Typography>
-                  </Box>
-                </Button>
+            <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+              <Typography variant="subtitle2">
+                Prompt-Vorlagen
+              </Typography>
+              <Button size="small" startIcon={<LibraryBooks />} onClick={() => setShowLibrary(true)}>
+                Vorlagen verwalten
+              </Button>
+            </Box>
+            {templateError && (
+              <Alert severity="error" sx={{ mb: 1 }}>{templateError}</Alert>
+            )}
+            {templates.length === 0 && !templateError && (
+              <Typography variant="body2" color="text.secondary">
+                Noch keine Vorlagen vorhanden.
+              </Typography>
+            )}
+            <Stack spacing={2}>
+              {groupTemplatesByCategory(templates).map(([category, items]) => (
+                <Box key={category}>
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
+                    {category}
+                  </Typography>
+                  <Stack spacing={1}>
+                    {items.map(template => (
+                      <Button
+                        key={template.id}
+                        variant="outlined"
+                        size="small"
+                        onClick={() => handleTemplateSelect(template)}
+                        sx={{ justifyContent: 'flex-start', textAlign: 'left' }}
+                      >
+                        <Box>
+                          <Typography variant="body2" fontWeight={500}>
+                            {template.name}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            v{template.latest.version}
+                            {extractPlaceholders(template.latest.content).length > 0 &&
+                              ` · ${extractPlaceholders(template.latest.content).join(', ')}`}
+                          </Typography>
+                        </Box>
+                      </Button>
+                    ))}
+                  </Stack>
+                </Box>
               ))}
             </Stack>
           </CardContent>
@@ -375,6 +566,20 @@ export const PromptInputWithTemplates: React.FC<PromptInputProps & {
           {showTemplates ? 'Vorlagen ausblenden' : 'Prompt-Vorlagen anzeigen'}
         </Button>
       </Box>
+
+      <TemplateFillDialog
+        open={templateToFill !== null}
+        template={templateToFill}
+        onClose={() => setTemplateToFill(null)}
+        onApply={(prompt, variables) => templateToFill && applyTemplate(templateToFill, prompt, variables)}
+      />
+
+      <TemplateLibraryDialog
+        open={showLibrary}
+        templates={templates}
+        onClose={() => setShowLibrary(false)}
+        onChanged={loadTemplates}
+      />
     </Box>
   );
 };
@@ -0,0 +1,209 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Difference } from '@mui/icons-material';
+import MarkdownRenderer from '@/components/MarkdownRenderer';
+import { useTheme } from '@/components/providers/ThemeProvider';
+import { diffResponses, formatSimilarity, type DiffCell, type DiffCellStatus, type DiffRow, type DiffSegment } from '@/lib/diff';
+
+type DiffMode = 'raw' | 'markdown';
+
+interface ResponseDiffViewProps {
+  contents: string[]; // Antwort pro Slot
+  labels: string[]; // Anzeigename pro Slot
+  order?: number[]; // Anzeigereihenfolge der Slots
+}
+
+const SEGMENT_COLORS: Record<Exclude<DiffSegment['type'], 'equal'>, string> = {
+  insert: 'success.light',
+  delete: 'error.light',
+};
+
+const CELL_BORDER_COLORS: Record<DiffCellStatus, string> = {
+  equal: 'transparent',
+  insert: 'success.main',
+  delete: 'error.main',
+  changed: 'warning.main',
+};
+
+// Wort-Diff einer Zelle; ausgeblendete Segmenttypen gehören zur jeweils anderen Seite
+const SegmentText: React.FC<{ segments: DiffSegment[]; hide?: DiffSegment['type'] }> = ({ segments, hide }) => (
+  <>
+    {segments.filter(segment => segment.type !== hide).map((segment, index) => segment.type === 'equal' ? (
+      <React.Fragment key={index}>{segment.text}</React.Fragment>
+    ) : (
+      <Box
+        key={index}
+        component={segment.type === 'delete' && !hide ? 'del' : 'span'}
+        sx={{
+          bgcolor: segment.changed ? 'warning.light' : SEGMENT_COLORS[segment.type],
+          color: 'text.primary',
+          borderRadius: 0.5,
+        }}
+      >
+        {segment.text}
+      </Box>
+    ))}
+  </>
+);
+
+/**
+ * Diff-Ansicht mehrerer Antworten gegen eine Referenz: Zeilen bzw. Markdown-Blöcke werden ausgerichtet,
+ * geänderte Wörter hervorgehoben. Alle Spalten liegen in einem gemeinsamen Scroll-Container und scrollen synchron.
+ */
+export const ResponseDiffView: React.FC<ResponseDiffViewProps> = ({ contents, labels, order }) => {
+  const { mode: themeMode } = useTheme();
+  const slots = order || contents.map((_, slot) => slot);
+  const [baseSlot, setBaseSlot] = useState(slots[0]);
+  const [mode, setMode] = useState<DiffMode>('raw');
+
+  const base = slots.includes(baseSlot) ? baseSlot : slots[0];
+  const compared = slots.filter(slot => slot !== base);
+  // Bei genau zwei Antworten klassisch nebeneinander, sonst Löschungen inline in jeder Spalte
+  const isSideBySide = compared.length === 1;
+
+  // Nur neu berechnen, wenn sich Inhalte oder Auswahl ändern (Arrays werden pro Render neu erzeugt)
+  const contentKey = contents.join('\u0000');
+  const comparedKey = compared.join(',');
+  const diff = useMemo(
+    () => diffResponses(contents[base] || '', compared.map(slot => contents[slot] || ''), mode === 'markdown' ? 'block' : 'line'),
+    [contentKey, base, comparedKey, mode]
+  );
+
+  const baseBorder = (row: DiffRow) =>
+    isSideBySide && row.changed && row.cells[0].status !== 'insert' ? CELL_BORDER_COLORS[row.cells[0].status] : 'transparent';
+  const cellBorder = (row: DiffRow, cell: DiffCell) =>
+    !row.changed || (isSideBySide && cell.status === 'delete') ? 'transparent' : CELL_BORDER_COLORS[cell.status];
+
+  const renderText = (text: string, segments: DiffSegment[] | null, hide?: DiffSegment['type']) => {
+    if (mode === 'markdown') {
+      return text.trim() ? <MarkdownRenderer content={text} isStreaming={false} theme={themeMode} /> : null;
+    }
+    return segments ? <SegmentText segments={segments} hide={hide} /> : text;
+  };
+
+  const columns = `repeat(${slots.length}, minmax(240px, 1fr))`;
+  const cellSx = {
+    px: 2,
+    py: 0.5,
+    borderLeft: 3,
+    wordBreak: 'break-word',
+    ...(mode === 'raw' && { whiteSpace: 'pre-wrap', fontFamily: 'monospace', fontSize: '0.85rem' }),
+  } as const;
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction={{ xs: 'column', md: 'row' }} justifyContent="space-between" spacing={2} sx={{ mb: 2 }}>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Difference color="primary" />
+            <Typography variant="h6">Unterschiede</Typography>
+          </Stack>
+          <Stack direction="row" spacing={2} alignItems="center">
+            <FormControl size="small" sx={{ minWidth: 180 }}>
+              <InputLabel>Referenz</InputLabel>
+              <Select label="Referenz" value={base} onChange={(e) => setBaseSlot(Number(e.target.value))}>
+                {slots.map(slot => (
+                  <MenuItem key={slot} value={slot}>{labels[slot]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={mode}
+              onChange={(_, value) => value && setMode(value)}
+            >
+              <ToggleButton value="raw">Text</ToggleButton>
+              <ToggleButton value="markdown">Markdown</ToggleButton>
+            </ToggleButtonGroup>
+          </Stack>
+        </Stack>
+
+        <Box sx={{ maxHeight: '70vh', overflow: 'auto', border: 1, borderColor: 'divider', borderRadius: 1 }}>
+          <Box sx={{ display: 'grid', gridTemplateColumns: columns, minWidth: slots.length * 240 }}>
+            {/* Kopfzeile mit Ähnlichkeit zur Referenz */}
+            {[base, ...compared].map((slot, column) => (
+              <Box
+                key={slot}
+                sx={{
+                  position: 'sticky',
+                  top: 0,
+                  zIndex: 1,
+                  bgcolor: 'background.paper',
+                  borderBottom: 1,
+                  borderColor: 'divider',
+                  px: 2,
+                  py: 1,
+                }}
+              >
+                <Stack direction="row" spacing={1} alignItems="center" justifyContent="space-between">
+                  <Typography variant="subtitle2" noWrap>{labels[slot]}</Typography>
+                  {column === 0 ? (
+                    <Chip size="small" label="Referenz" variant="outlined" />
+                  ) : (
+                    <Tooltip title="1 - normalisierte Editierdistanz auf Wortebene">
+                      <Chip
+                        size="small"
+                        label={`${formatSimilarity(diff.similarities[column - 1])} ähnlich`}
+                        color={diff.similarities[column - 1] >= 0.8 ? 'success' : diff.similarities[column - 1] >= 0.5 ? 'warning' : 'error'}
+                      />
+                    </Tooltip>
+                  )}
+                </Stack>
+              </Box>
+            ))}
+
+            {diff.rows.map((row, rowIndex) => (
+              <React.Fragment key={rowIndex}>
+                <Box
+                  sx={{
+                    ...cellSx,
+                    borderColor: baseBorder(row),
+                    bgcolor: row.changed && !isSideBySide ? 'action.hover' : undefined,
+                  }}
+                >
+                  {renderText(row.base, row.changed && isSideBySide ? row.cells[0].segments : null, 'insert')}
+                </Box>
+                {row.cells.map((cell, index) => (
+                  <Box
+                    key={index}
+                    sx={{ ...cellSx, borderColor: cellBorder(row, cell) }}
+                  >
+                    {renderText(cell.text, row.changed ? cell.segments : null, isSideBySide ? 'delete' : undefined)}
+                  </Box>
+                ))}
+              </React.Fragment>
+            ))}
+          </Box>
+        </Box>
+
+        <Stack direction="row" spacing={2} sx={{ mt: 1 }} flexWrap="wrap" useFlexGap>
+          {Object.entries({ 'Eingefügt': 'success.light', 'Entfernt': 'error.light', 'Geändert': 'warning.light' }).map(([label, color]) => (
+            <Stack key={label} direction="row" spacing={0.5} alignItems="center">
+              <Box sx={{ width: 12, height: 12, borderRadius: 0.5, bgcolor: color }} />
+              <Typography variant="caption" color="text.secondary">{label}</Typography>
+            </Stack>
+          ))}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ResponseDiffView;
@@ -17,6 +17,8 @@ import {
   Collapse,
   Alert,
   Divider,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import {
   ContentCopy,
@@ -27,14 +29,23 @@ import {
   ErrorOutline,
   Speed,
   Timer,
+  Bolt,
+  Forum,
+  ExpandMore,
+  ExpandLess,
+  StopCircle,
+  ViewColumn,
+  Difference,
 } from '@mui/icons-material';
-import { type ResponseDisplayProps, type ChatResponse } from '@/types';
+import { type ResponseDisplayProps, type ChatResponse, type ModelConfig, type ResponseMetrics, type ThreadMessage } from '@/types';
 import { formatCost, formatTokens } from '@/lib/pricing';
+import { formatLatency, formatThroughput } from '@/lib/metrics';
 import { getModelConfig } from '@/lib/models';
+import { getProvider } from '@/lib/providers';
+import AssertionBadges from '@/components/AssertionBadges';
 import { animations } from '@/lib/theme';
-import ReactMarkdown from 'react-markdown';
-import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
-import { oneDark, oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import MarkdownRenderer from '@/components/MarkdownRenderer';
+import ResponseDiffView from '@/components/ResponseDiffView';
 import { useTheme } from '@/components/providers/ThemeProvider';
 
 const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
@@ -42,6 +53,10 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
   isStreaming,
   modelConfig,
   onCopy,
+  onStop,
+  thread = [],
+  blindLabel,
+  hideModel = false,
 }) => {
   const [copySuccess, setCopySuccess] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
@@ -88,7 +103,7 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${modelConfig.displayName}_response_${new Date().toISOString()}.txt`;
+    a.download = `${hideModel ? blindLabel : modelConfig.displayName}_response_${new Date().toISOString()}.txt`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -101,9 +116,15 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
     return `${seconds}.${Math.floor(milliseconds / 100)}s`;
   };
 
-  const provider = modelConfig.provider;
+  const provider = getProvider(modelConfig.provider);
   const isComplete = Boolean(response && !isStreaming);
   const hasError = Boolean(response?.error);
+  const isCancelled = response?.finishReason === 'cancelled';
+
+  // Blind-Modus: vor der Abstimmung nur "Antwort A/B", danach zusätzlich das Model
+  const title = blindLabel
+    ? hideModel ? blindLabel : `${blindLabel} · ${modelConfig.displayName}`
+    : modelConfig.displayName;
 
   return (
     <Card 
@@ -116,9 +137,11 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
           ? 'primary.main' 
           : hasError 
             ? 'error.main' 
-            : isComplete 
-              ? 'success.main' 
-              : 'divider',
+            : isCancelled
+              ? 'warning.main'
+              : isComplete 
+                ? 'success.main' 
+                : 'divider',
         transition: 'all 0.3s ease-in-out',
         ...animations.fadeIn,
       }}
@@ -128,30 +151,31 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
         avatar={
           <Avatar 
             sx={{ 
-              bgcolor: provider === 'openai' ? 'success.main' : 'secondary.main',
+              bgcolor: hideModel ? 'grey.500' : provider?.color,
               width: 40,
               height: 40
             }}
           >
-            {modelConfig.displayName.charAt(0)}
+            {hideModel && blindLabel ? blindLabel.charAt(blindLabel.length - 1) : modelConfig.displayName.charAt(0)}
           </Avatar>
         }
         title={
           <Box display="flex" alignItems="center" gap={1}>
             <Typography variant="h6" component="h3">
-              {modelConfig.displayName}
+              {title}
             </Typography>
             <StatusChip 
               isStreaming={isStreaming} 
               hasError={hasError} 
               isComplete={isComplete} 
+              isCancelled={isCancelled}
             />
           </Box>
         }
         subheader={
-          <Stack direction="row" spacing={1} alignItems="center" mt={0.5}>
+          <Stack direction="row" spacing={1} alignItems="center" mt={0.5} flexWrap="wrap" useFlexGap>
             <Typography variant="caption" color="text.secondary">
-              {provider === 'openai' ? 'OpenAI' : 'Anthropic'}
+              {hideModel ? 'Model verborgen' : provider?.name || modelConfig.provider}
             </Typography>
             {isStreaming && (
               <>
@@ -164,7 +188,8 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
                 />
               </>
             )}
-            {response && (
+            {/* Tokens, Kosten und Laufzeiten verraten im Blind-Modus das Model */}
+            {response && !hideModel && (
               <>
                 <Chip 
                   label={`${formatTokens(response.tokens.total)} tokens`}
@@ -179,10 +204,21 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
                 />
               </>
             )}
+            {response?.metrics && !isStreaming && !hideModel && (
+              <ResponseMetricsChips metrics={response.metrics} />
+            )}
           </Stack>
         }
         action={
           <Stack direction="row" spacing={0.5}>
+            {isStreaming && onStop && (
+              <Tooltip title="Dieses Model stoppen">
+                <IconButton onClick={onStop} color="error">
+                  <StopCircle />
+                </IconButton>
+              </Tooltip>
+            )}
+
             <Tooltip title={copySuccess ? 'Kopiert!' : 'Kopieren'}>
               <IconButton 
                 onClick={handleCopy}
@@ -259,6 +295,11 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
           </Alert>
         </Collapse>
 
+        {/* Conversation Thread */}
+        {thread.length > 0 && (
+          <ThreadHistory thread={thread} theme={mode} />
+        )}
+
         {/* Response Content */}
         <Box 
           ref={contentRef}
@@ -285,7 +326,7 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
                 fontStyle: 'italic'
               }}
             >
-              Warte auf Antwort...
+              {thread.length > 0 ? 'Stelle eine Folgefrage, um die Konversation fortzusetzen.' : 'Warte auf Antwort...'}
             </Typography>
           )}
 
@@ -298,8 +339,15 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
           )}
         </Box>
 
+        {/* Assertions */}
+        {response?.assertionResults && !isStreaming && (
+          <Box sx={{ mt: 1 }}>
+            <AssertionBadges results={response.assertionResults} />
+          </Box>
+        )}
+
         {/* Response Stats */}
-        {response && !hasError && (
+        {response && !hasError && !hideModel && (
           <ResponseStats response={response} modelConfig={modelConfig} />
         )}
       </CardContent>
@@ -308,11 +356,31 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
 };
 
 // Status Chip Component
+// Latenz und Durchsatz nach Abschluss des Laufs
+const ResponseMetricsChips: React.FC<{ metrics: ResponseMetrics }> = ({ metrics }) => (
+  <>
+    {metrics.ttftMs !== null && (
+      <Tooltip title="Zeit bis zum ersten Token">
+        <Chip icon={<Bolt />} label={formatLatency(metrics.ttftMs)} size="small" variant="outlined" />
+      </Tooltip>
+    )}
+    {metrics.tokensPerSecond !== null && (
+      <Tooltip title="Output-Tokens pro Sekunde ab dem ersten Token">
+        <Chip icon={<Speed />} label={formatThroughput(metrics.tokensPerSecond)} size="small" variant="outlined" />
+      </Tooltip>
+    )}
+    <Tooltip title="Gesamtdauer">
+      <Chip icon={<Timer />} label={formatLatency(metrics.durationMs)} size="small" variant="outlined" />
+    </Tooltip>
+  </>
+);
+
 const StatusChip: React.FC<{
   isStreaming: boolean;
   hasError: boolean;
   isComplete: boolean;
-}> = ({ isStreaming, hasError, isComplete }) => {
+  isCancelled?: boolean;
+}> = ({ isStreaming, hasError, isComplete, isCancelled = false }) => {
   if (hasError) {
     return (
       <Chip 
@@ -346,6 +414,18 @@ const StatusChip: React.FC<{
     );
   }
 
+  if (isCancelled) {
+    return (
+      <Chip 
+        icon={<StopCircle />}
+        label="Abgebrochen"
+        size="small"
+        color="warning"
+        variant="filled"
+      />
+    );
+  }
+
   if (isComplete) {
     return (
       <Chip 
@@ -367,86 +447,60 @@ const StatusChip: React.FC<{
   );
 };
 
-// Markdown Renderer Component
-const MarkdownRenderer: React.FC<{
-  content: string;
-  isStreaming: boolean;
+// Thread History Component (bisherige Runden einer Konversation)
+const ThreadHistory: React.FC<{
+  thread: ThreadMessage[];
   theme: 'light' | 'dark';
-}> = ({ content, isStreaming, theme }) => {
+}> = ({ thread, theme }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const turns = thread.filter(message => message.role === 'user').length;
+
   return (
-    <Box sx={{ '& > *': { mb: 1 } }}>
-      <ReactMarkdown
-        components={{
-          code({ node, inline, className, children, ...props }: any) {
-            const match = /language-(\w+)/.exec(className || '');
-            const language = match ? match[1] : '';
-            
-            if (!inline && language) {
-              return (
-                <SyntaxHighlighter
-                  style={theme === 'dark' ? oneDark : oneLight}
-                  language={language}
-                  PreTag="div"
-                  {...props}
-                >
-                  {String(children).replace(/\n$/, '')}
-                </SyntaxHighlighter>
-              );
-            }
-            
-            return (
-              <Box
-                component="code"
-                sx={{
-                  bgcolor: 'action.hover',
-                  px: 0.5,
-                  py: 0.25,
-                  borderRadius: 0.5,
-                  fontSize: '0.875em',
-                  fontFamily: 'monospace',
-                }}
-                {...props}
-              >
-                {children}
-              </Box>
-            );
-          },
-          blockquote({ children }) {
-            return (
-              <Box
-                sx={{
-                  borderLeft: 4,
-                  borderColor: 'primary.main',
-                  pl: 2,
-                  py: 1,
-                  bgcolor: 'action.hover',
-                  borderRadius: '0 4px 4px 0',
-                  fontStyle: 'italic',
-                }}
-              >
-                {children}
-              </Box>
-            );
-          },
-        }}
+    <Box sx={{ mb: 2 }}>
+      <Box
+        display="flex"
+        alignItems="center"
+        gap={1}
+        onClick={() => setIsOpen(!isOpen)}
+        sx={{ cursor: 'pointer', color: 'text.secondary' }}
       >
-        {content}
-      </ReactMarkdown>
-      
-      {/* Streaming Cursor */}
-      {isStreaming && (
-        <Box
-          component="span"
-          sx={{
-            display: 'inline-block',
-            width: 2,
-            height: '1em',
-            bgcolor: 'primary.main',
-            ml: 0.5,
-            ...animations.typing,
-          }}
-        />
-      )}
+        <Forum fontSize="small" />
+        <Typography variant="caption" sx={{ flexGrow: 1 }}>
+          Bisheriger Verlauf ({turns} {turns === 1 ? 'Runde' : 'Runden'})
+        </Typography>
+        {isOpen ? <ExpandLess fontSize="small" /> : <ExpandMore fontSize="small" />}
+      </Box>
+
+      <Collapse in={isOpen}>
+        <Stack spacing={1} sx={{ mt: 1, maxHeight: 400, overflow: 'auto' }}>
+          {thread.map((message, index) => (
+            <Box
+              key={index}
+              sx={{
+                p: 1.5,
+                borderRadius: 1,
+                bgcolor: message.role === 'user' ? 'action.hover' : 'background.default',
+                border: 1,
+                borderColor: 'divider',
+                ml: message.role === 'user' ? 4 : 0,
+                mr: message.role === 'user' ? 0 : 4,
+              }}
+            >
+              <Typography variant="caption" color="text.secondary" fontWeight={500}>
+                {message.role === 'user' ? 'Prompt' : 'Antwort'}
+              </Typography>
+              {message.role === 'user' ? (
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                  {message.content}
+                </Typography>
+              ) : (
+                <MarkdownRenderer content={message.content} isStreaming={false} theme={theme} />
+              )}
+            </Box>
+          ))}
+        </Stack>
+      </Collapse>
+      <Divider sx={{ mt: 1 }} />
     </Box>
   );
 };
@@ -499,33 +553,39 @@ const ResponseStats: React.FC<{
   );
 };
 
-// Dual Response Display Component
-export const DualResponseDisplay: React.FC<{
-  response1: ChatResponse | null;
-  response2: ChatResponse | null;
-  isStreaming1: boolean;
-  isStreaming2: boolean;
-  model1Config: any;
-  model2Config: any;
-  onCopy1?: () => void;
-  onCopy2?: () => void;
+// Multi Response Display Component (eine Karte pro Slot)
+export const MultiResponseDisplay: React.FC<{
+  responses: Array<ChatResponse | null>;
+  streaming: boolean[];
+  modelConfigs: ModelConfig[];
+  onCopy?: (slot: number) => void;
+  onStop?: (slot: number) => void;
+  threads?: ThreadMessage[][];
+  order?: number[]; // Anzeigereihenfolge der Slots (Blind-Modus: zufällig)
+  blindLabels?: string[]; // Label pro Slot, z.B. "Antwort A"
+  hideModels?: boolean;
 }> = ({
-  response1,
-  response2,
-  isStreaming1,
-  isStreaming2,
-  model1Config,
-  model2Config,
-  onCopy1,
-  onCopy2,
+  responses,
+  streaming,
+  modelConfigs,
+  onCopy,
+  onStop,
+  threads = [],
+  order,
+  blindLabels,
+  hideModels = false,
 }) => {
-  const totalCost = (response1?.cost || 0) + (response2?.cost || 0);
-  const isAnyStreaming = isStreaming1 || isStreaming2;
+  const [view, setView] = useState<'cards' | 'diff'>('cards');
+  const totalCost = responses.reduce((sum, response) => sum + (response?.cost || 0), 0);
+  const isAnyStreaming = streaming.some(Boolean);
+  // Diff erst nach Abschluss und mit mindestens zwei Antworten
+  const canDiff = !isAnyStreaming && responses.filter(response => response?.content).length >= 2;
+  const showDiff = view === 'diff' && canDiff;
 
   return (
     <Box>
       {/* Summary Header */}
-      {(response1 || response2) && (
+      {responses.some(Boolean) && (
         <Card sx={{ mb: 3 }}>
           <CardContent>
             <Stack direction="row" justifyContent="space-between" alignItems="center">
@@ -533,11 +593,28 @@ export const DualResponseDisplay: React.FC<{
                 Vergleichsergebnisse
               </Typography>
               <Stack direction="row" spacing={2} alignItems="center">
-                <Chip 
-                  label={`Gesamtkosten: ${formatCost(totalCost)}`}
-                  color="warning"
-                  variant="outlined"
-                />
+                <ToggleButtonGroup
+                  size="small"
+                  exclusive
+                  value={showDiff ? 'diff' : 'cards'}
+                  onChange={(_, value) => value && setView(value)}
+                >
+                  <ToggleButton value="cards">
+                    <ViewColumn fontSize="small" sx={{ mr: 0.5 }} />
+                    Antworten
+                  </ToggleButton>
+                  <ToggleButton value="diff" disabled={!canDiff}>
+                    <Difference fontSize="small" sx={{ mr: 0.5 }} />
+                    Diff
+                  </ToggleButton>
+                </ToggleButtonGroup>
+                {!hideModels && (
+                  <Chip 
+                    label={`Gesamtkosten: ${formatCost(totalCost)}`}
+                    color="warning"
+                    variant="outlined"
+                  />
+                )}
                 {isAnyStreaming && (
                   <Chip 
                     icon={<Speed />}
@@ -552,30 +629,44 @@ export const DualResponseDisplay: React.FC<{
         </Card>
       )}
 
-      {/* Dual Display */}
-      <Stack 
-        direction={{ xs: 'column', lg: 'row' }} 
-        spacing={3}
-        sx={{ minHeight: 500 }}
-      >
-        <Box flex={1}>
-          <ResponseDisplay
-            response={response1}
-            isStreaming={isStreaming1}
-            modelConfig={model1Config}
-            onCopy={onCopy1}
-          />
-        </Box>
-        
-        <Box flex={1}>
-          <ResponseDisplay
-            response={response2}
-            isStreaming={isStreaming2}
-            modelConfig={model2Config}
-            onCopy={onCopy2}
-          />
+      {/* Diff View */}
+      {showDiff && (
+        <ResponseDiffView
+          contents={responses.map(response => response?.content || '')}
+          labels={modelConfigs.map((config, slot) => blindLabels?.[slot] || config.displayName)}
+          order={order}
+        />
+      )}
+
+      {/* Multi Display */}
+      {!showDiff && (
+        <Box 
+          sx={{ 
+            display: 'grid',
+            gridTemplateColumns: { 
+              xs: '1fr', 
+              lg: `repeat(${Math.min(modelConfigs.length, 2)}, 1fr)`,
+              xl: `repeat(${Math.min(modelConfigs.length, 3)}, 1fr)`,
+            },
+            gap: 3,
+            minHeight: 500,
+          }}
+        >
+          {(order || modelConfigs.map((_, slot) => slot)).map(slot => (
+            <ResponseDisplay
+              key={slot}
+              response={responses[slot] || null}
+              isStreaming={streaming[slot] || false}
+              modelConfig={modelConfigs[slot]}
+              onCopy={onCopy ? () => onCopy(slot) : undefined}
+              onStop={onStop ? () => onStop(slot) : undefined}
+              thread={threads[slot]}
+              blindLabel={blindLabels?.[slot]}
+              hideModel={hideModels}
+            />
+          ))}
         </Box>
-      </Stack>
+      )}
     </Box>
   );
 };
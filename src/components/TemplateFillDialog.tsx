@@ -0,0 +1,114 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { extractPlaceholders } from '@/lib/datasets';
+import { fillTemplate, formatTemplateVersion, getMissingVariables } from '@/lib/templates';
+import { type PromptTemplate } from '@/types';
+
+interface TemplateFillDialogProps {
+  open: boolean;
+  template: PromptTemplate | null;
+  onClose: () => void;
+  onApply: (prompt: string, variables: Record<string, string>) => void;
+}
+
+/**
+ * Formular zum Ausfüllen der {{variablen}} einer Vorlage mit Vorschau des fertigen Prompts
+ */
+export const TemplateFillDialog: React.FC<TemplateFillDialogProps> = ({ open, template, onClose, onApply }) => {
+  const [variables, setVariables] = useState<Record<string, string>>({});
+
+  // Beim Öffnen einer anderen Vorlage leer beginnen
+  useEffect(() => {
+    if (open) setVariables({});
+  }, [open, template?.latest.id]);
+
+  if (!template) return null;
+
+  const content = template.latest.content;
+  const placeholders = extractPlaceholders(content);
+  const missing = getMissingVariables(content, variables);
+  const preview = fillTemplate(content, variables).prompt;
+
+  const handleApply = () => {
+    const filled = fillTemplate(content, variables);
+    onApply(filled.prompt, filled.variables);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <Typography variant="h6">{formatTemplateVersion(template.name, template.latest.version)}</Typography>
+          <Chip label={template.category} size="small" variant="outlined" />
+        </Stack>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          {placeholders.map((name, index) => (
+            <TextField
+              key={name}
+              label={name}
+              value={variables[name] || ''}
+              onChange={(e) => setVariables(prev => ({ ...prev, [name]: e.target.value }))}
+              multiline
+              maxRows={8}
+              fullWidth
+              size="small"
+              autoFocus={index === 0}
+            />
+          ))}
+
+          <Box>
+            <Typography variant="subtitle2" gutterBottom>
+              Vorschau
+            </Typography>
+            <Box
+              sx={{
+                p: 2,
+                bgcolor: 'background.default',
+                borderRadius: 1,
+                border: 1,
+                borderColor: 'divider',
+                maxHeight: 300,
+                overflow: 'auto',
+                whiteSpace: 'pre-wrap',
+                fontFamily: 'monospace',
+                fontSize: '0.85rem',
+              }}
+            >
+              {preview}
+            </Box>
+          </Box>
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        {missing.length > 0 && (
+          <Typography variant="caption" color="text.secondary" sx={{ flexGrow: 1, pl: 2 }}>
+            Noch leer: {missing.join(', ')}
+          </Typography>
+        )}
+        <Button onClick={onClose}>Abbrechen</Button>
+        <Button variant="contained" onClick={handleApply} disabled={missing.length > 0}>
+          Übernehmen
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TemplateFillDialog;
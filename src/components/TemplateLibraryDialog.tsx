@@ -0,0 +1,298 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  List,
+  ListItemButton,
+  ListItemText,
+  ListSubheader,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add, Delete, History, Restore, Save } from '@mui/icons-material';
+import { deletePromptTemplate, getPromptTemplateVersions, savePromptTemplate } from '@/app/actions';
+import ResponseDiffView from '@/components/ResponseDiffView';
+import { extractPlaceholders } from '@/lib/datasets';
+import { DEFAULT_TEMPLATE_CATEGORY, groupTemplatesByCategory, MAX_TEMPLATE_LENGTH } from '@/lib/templates';
+import { type PromptTemplate, type PromptTemplateInput, type PromptTemplateVersion } from '@/types';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+
+interface TemplateLibraryDialogProps {
+  open: boolean;
+  templates: PromptTemplate[];
+  onClose: () => void;
+  onChanged: () => void; // Bibliothek neu laden
+}
+
+const EMPTY_TEMPLATE: PromptTemplateInput = { name: '', category: '', content: '' };
+
+const toInput = (template: PromptTemplate): PromptTemplateInput => ({
+  name: template.name,
+  category: template.category,
+  content: template.latest.content,
+});
+
+/**
+ * Bibliothek der Prompt-Vorlagen: anlegen, bearbeiten, löschen und Versionen vergleichen.
+ * Jede Inhaltsänderung wird als neue Version gespeichert.
+ */
+export const TemplateLibraryDialog: React.FC<TemplateLibraryDialogProps> = ({ open, templates, onClose, onChanged }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<PromptTemplateInput>(EMPTY_TEMPLATE);
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [comparedVersion, setComparedVersion] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selected = templates.find(template => template.id === selectedId) || null;
+  const categories = [...new Set(templates.map(template => template.category))];
+  const placeholders = extractPlaceholders(form.content);
+  const isDirty = selected
+    ? JSON.stringify(form) !== JSON.stringify(toInput(selected))
+    : form.name !== '' || form.content !== '';
+
+  // Versionen der gewählten Vorlage laden (auch nach dem Speichern einer neuen Version)
+  useEffect(() => {
+    if (!open || !selectedId) {
+      setVersions([]);
+      return;
+    }
+
+    getPromptTemplateVersions(selectedId).then(result => {
+      if (result.success && result.data) {
+        setVersions(result.data);
+        setComparedVersion(result.data[0]?.version ?? null);
+      }
+    });
+  }, [open, selectedId, selected?.latest.id]);
+
+  const selectTemplate = (template: PromptTemplate | null) => {
+    setSelectedId(template?.id || null);
+    setForm(template ? toInput(template) : EMPTY_TEMPLATE);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await savePromptTemplate(selectedId, form);
+      if (result.success && result.data) {
+        setSelectedId(result.data.id);
+        setForm(toInput(result.data));
+        setError(null);
+        onChanged();
+      } else {
+        setError(result.error || 'Fehler beim Speichern der Vorlage');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    if (!window.confirm(`Vorlage "${selected.name}" inkl. aller Versionen löschen? Einträge der Historie bleiben erhalten.`)) return;
+
+    const result = await deletePromptTemplate(selected.id);
+    if (result.success) {
+      selectTemplate(null);
+      onChanged();
+    } else {
+      setError(result.error || 'Fehler beim Löschen der Vorlage');
+    }
+  };
+
+  const compared = versions.find(version => version.version === comparedVersion);
+  const previous = compared && versions.find(version => version.version === compared.version - 1);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Prompt-Vorlagen verwalten</DialogTitle>
+      <DialogContent dividers>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={3}>
+          {/* Vorlagen nach Kategorie */}
+          <Box sx={{ width: { md: 300 }, flexShrink: 0 }}>
+            <Button
+              fullWidth
+              variant="outlined"
+              startIcon={<Add />}
+              onClick={() => selectTemplate(null)}
+              sx={{ mb: 1 }}
+            >
+              Neue Vorlage
+            </Button>
+            <List dense sx={{ maxHeight: '60vh', overflow: 'auto' }}>
+              {groupTemplatesByCategory(templates).map(([category, items]) => (
+                <React.Fragment key={category}>
+                  <ListSubheader disableSticky>{category}</ListSubheader>
+                  {items.map(template => (
+                    <ListItemButton
+                      key={template.id}
+                      selected={template.id === selectedId}
+                      onClick={() => selectTemplate(template)}
+                    >
+                      <ListItemText
+                        primary={template.name}
+                        secondary={`v${template.latest.version} · ${extractPlaceholders(template.latest.content).length} Variablen`}
+                      />
+                    </ListItemButton>
+                  ))}
+                </React.Fragment>
+              ))}
+            </List>
+          </Box>
+
+          {/* Editor */}
+          <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+            <Stack spacing={2}>
+              <Typography variant="subtitle1">
+                {selected ? `${selected.name} bearbeiten (aktuell v${selected.latest.version})` : 'Neue Vorlage'}
+              </Typography>
+
+              <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                <TextField
+                  label="Name"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  size="small"
+                  fullWidth
+                />
+                <Autocomplete
+                  freeSolo
+                  options={categories}
+                  inputValue={form.category}
+                  onInputChange={(_, value) => setForm(prev => ({ ...prev, category: value }))}
+                  fullWidth
+                  size="small"
+                  renderInput={(params) => (
+                    <TextField {...params} label="Kategorie" placeholder={DEFAULT_TEMPLATE_CATEGORY} />
+                  )}
+                />
+              </Stack>
+
+              <TextField
+                label="Vorlage"
+                value={form.content}
+                onChange={(e) => setForm(prev => ({ ...prev, content: e.target.value }))}
+                multiline
+                minRows={6}
+                maxRows={16}
+                fullWidth
+                error={form.content.length > MAX_TEMPLATE_LENGTH}
+                helperText={`Platzhalter als {{name}} – sie werden vor dem Absenden ausgefüllt. ${form.content.length}/${MAX_TEMPLATE_LENGTH}`}
+                InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.9rem' } }}
+              />
+
+              {placeholders.length > 0 && (
+                <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+                  <Typography variant="caption" color="text.secondary">Variablen:</Typography>
+                  {placeholders.map(name => (
+                    <Chip key={name} label={name} size="small" variant="outlined" />
+                  ))}
+                </Stack>
+              )}
+
+              {error && <Alert severity="error" onClose={() => setError(null)}>{error}</Alert>}
+
+              <Stack direction="row" spacing={1} justifyContent="space-between">
+                <Button
+                  color="error"
+                  startIcon={<Delete />}
+                  onClick={handleDelete}
+                  disabled={!selected || isSaving}
+                >
+                  Löschen
+                </Button>
+                <Button
+                  variant="contained"
+                  startIcon={<Save />}
+                  onClick={handleSave}
+                  disabled={!isDirty || isSaving}
+                >
+                  {selected && form.content !== selected.latest.content ? `Als v${selected.latest.version + 1} speichern` : 'Speichern'}
+                </Button>
+              </Stack>
+
+              {/* Versionsgeschichte */}
+              {selected && versions.length > 0 && (
+                <>
+                  <Divider />
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <History color="action" />
+                    <Typography variant="subtitle2">Versionen</Typography>
+                  </Stack>
+                  <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                    {versions.map(version => (
+                      <Chip
+                        key={version.id}
+                        label={`v${version.version} · ${format(new Date(version.createdAt), 'dd.MM.yyyy HH:mm', { locale: de })} · ${version.usageCount} Vergleiche`}
+                        size="small"
+                        color={version.version === comparedVersion ? 'primary' : 'default'}
+                        variant={version.version === comparedVersion ? 'filled' : 'outlined'}
+                        onClick={() => setComparedVersion(version.version)}
+                      />
+                    ))}
+                  </Stack>
+
+                  {compared && (
+                    <Box>
+                      {previous ? (
+                        <ResponseDiffView
+                          key={compared.id}
+                          contents={[previous.content, compared.content]}
+                          labels={[`v${previous.version}`, `v${compared.version}`]}
+                        />
+                      ) : (
+                        <Box
+                          sx={{
+                            p: 2,
+                            bgcolor: 'background.default',
+                            borderRadius: 1,
+                            border: 1,
+                            borderColor: 'divider',
+                            whiteSpace: 'pre-wrap',
+                            fontFamily: 'monospace',
+                            fontSize: '0.85rem',
+                          }}
+                        >
+                          {compared.content}
+                        </Box>
+                      )}
+                      {compared.version !== selected.latest.version && (
+                        <Button
+                          size="small"
+                          startIcon={<Restore />}
+                          onClick={() => setForm(prev => ({ ...prev, content: compared.content }))}
+                          sx={{ mt: 1 }}
+                        >
+                          Inhalt von v{compared.version} in den Editor übernehmen
+                        </Button>
+                      )}
+                    </Box>
+                  )}
+                </>
+              )}
+            </Stack>
+          </Box>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Schließen</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TemplateLibraryDialog;
@@ -0,0 +1,67 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { getModelCatalog } from '@/app/actions';
+import { getModelProviders, setModelCatalog, DEFAULT_MODEL_CATALOG } from '@/lib/models';
+import { type ModelConfig, type ModelProvider } from '@/types';
+
+// Model Catalog Context Types
+interface ModelCatalogContextType {
+  catalog: ModelConfig[];     // inkl. deaktivierter Models
+  models: ModelConfig[];      // nur aktivierte Models
+  providers: ModelProvider[]; // Provider mit aktivierten Models
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+const ModelCatalogContext = createContext<ModelCatalogContextType | undefined>(undefined);
+
+// Hook für Model Catalog Context
+export const useModelCatalog = (): ModelCatalogContextType => {
+  const context = useContext(ModelCatalogContext);
+  if (!context) {
+    throw new Error('useModelCatalog must be used within a ModelCatalogProvider');
+  }
+  return context;
+};
+
+// Model Catalog Provider Component
+export const ModelCatalogProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [catalog, setCatalog] = useState<ModelConfig[]>(DEFAULT_MODEL_CATALOG);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getModelCatalog();
+      if (result.success && result.data) {
+        // Synchrone Helper (getModelConfig, calculateCost, ...) lesen denselben Katalog
+        setModelCatalog(result.data);
+        setCatalog(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load model catalog:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Load catalog on mount
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return (
+    <ModelCatalogContext.Provider
+      value={{
+        catalog,
+        models: catalog.filter(model => model.enabled),
+        providers: getModelProviders(),
+        isLoading,
+        refresh,
+      }}
+    >
+      {children}
+    </ModelCatalogContext.Provider>
+  );
+};
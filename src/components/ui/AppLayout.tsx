@@ -12,8 +12,9 @@ import {
   Stack,
   Chip,
 } from '@mui/material';
-import { GitHub, Settings, TrendingUp } from '@mui/icons-material';
+import { EmojiEvents, GitHub, Insights, QueryStats, Science, Settings, TrendingUp } from '@mui/icons-material';
 import { useTheme } from '@/components/providers/ThemeProvider';
+import BudgetIndicator from '@/components/BudgetIndicator';
 
 interface AppLayoutProps {
   children: React.ReactNode;
@@ -59,7 +60,9 @@ export const AppLayout: React.FC<AppLayoutProps> = ({
             />
           </Stack>
           
-          <Stack direction="row" spacing={1}>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <BudgetIndicator />
+
             <Tooltip title="GitHub Repository">
               <IconButton 
                 color="inherit"
@@ -71,8 +74,32 @@ export const AppLayout: React.FC<AppLayoutProps> = ({
               </IconButton>
             </Tooltip>
             
+            <Tooltip title="Leaderboard">
+              <IconButton color="inherit" href="/leaderboard">
+                <EmojiEvents />
+              </IconButton>
+            </Tooltip>
+
+            <Tooltip title="Analytics">
+              <IconButton color="inherit" href="/analytics">
+                <QueryStats />
+              </IconButton>
+            </Tooltip>
+
+            <Tooltip title="Evaluationen">
+              <IconButton color="inherit" href="/evals">
+                <Science />
+              </IconButton>
+            </Tooltip>
+
+            <Tooltip title="Statistiken">
+              <IconButton color="inherit" href="/statistics">
+                <Insights />
+              </IconButton>
+            </Tooltip>
+
             <Tooltip title="Settings">
-              <IconButton color="inherit">
+              <IconButton color="inherit" href="/settings">
                 <Settings />
               </IconButton>
             </Tooltip>
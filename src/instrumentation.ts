@@ -0,0 +1,10 @@
+/**
+ * Läuft einmal beim Start des Next.js-Servers
+ */
+export async function register() {
+  // Prisma und die Model-Clients gibt es nur in der Node.js-Runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { resumeEvalRuns } = await import('@/lib/evals');
+    await resumeEvalRuns();
+  }
+}
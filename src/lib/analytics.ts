@@ -0,0 +1,339 @@
+import { PrismaClient, Prisma } from "@prisma/client";
+import { LATENCY_BUCKETS } from "@/lib/metrics";
+import { getModelConfig } from "@/lib/models";
+import { calculateCostWithPricing, resolveModelPrice } from "@/lib/pricing";
+import {
+  type AnalyticsData,
+  type AnalyticsFilter,
+  type AnalyticsSeriesPoint,
+  type AnalyticsTotals,
+  type CostRecomputation,
+  type CostRecomputationRow,
+  type LatencyHistogramBin,
+  type ModelPricing,
+  type PriceSetSelection,
+  type PricingTier,
+} from "@/types";
+
+const prisma = new PrismaClient();
+
+/**
+ * Aggregat-Abfragen für das Analytics-Dashboard (nur serverseitig verwenden).
+ * Alles wird per GROUP BY in SQLite verdichtet, es werden nie einzelne Responses geladen.
+ */
+
+// Datumsfilter im Format YYYY-MM-DD; ungültige Angaben werden ignoriert
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// createdAt liegt als Unix-Zeit in ms vor; Gruppierung in lokaler Server-Zeit
+const LOCAL_DATE = Prisma.sql`date(p."createdAt" / 1000, 'unixepoch', 'localtime')`;
+
+// Wochen beginnen am Montag ('weekday 0' springt zum nächsten Sonntag, falls nicht schon Sonntag)
+const LOCAL_WEEK = Prisma.sql`date(p."createdAt" / 1000, 'unixepoch', 'localtime', 'weekday 0', '-6 days')`;
+
+// Fehler: expliziter finishReason oder (ältere Einträge) keine Antwort
+const IS_ERROR = Prisma.sql`(r."finishReason" = 'error' OR r."content" IS NULL)`;
+
+// Datum (YYYY-MM-DD) als Tagesbeginn in Server-Zeit, in ms
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+/**
+ * WHERE-Bedingungen für Zeitraum und Models
+ */
+function buildAnalyticsConditions(filter: AnalyticsFilter): Prisma.Sql[] {
+  const conditions: Prisma.Sql[] = [];
+
+  if (filter.dateFrom && DATE_PATTERN.test(filter.dateFrom)) {
+    conditions.push(Prisma.sql`p."createdAt" >= ${startOfDay(filter.dateFrom)}`);
+  }
+
+  // Bis-Datum inklusive: alles vor dem Beginn des Folgetags
+  if (filter.dateTo && DATE_PATTERN.test(filter.dateTo)) {
+    const end = new Date(startOfDay(filter.dateTo));
+    end.setDate(end.getDate() + 1);
+    conditions.push(Prisma.sql`p."createdAt" < ${end.getTime()}`);
+  }
+
+  if (filter.models && filter.models.length > 0) {
+    conditions.push(Prisma.sql`r."model" IN (${Prisma.join(filter.models)})`);
+  }
+
+  return conditions;
+}
+
+const toWhere = (conditions: Prisma.Sql[]): Prisma.Sql =>
+  conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+
+// CASE-Ausdruck, der eine Dauer der passenden Histogramm-Klasse zuordnet
+function latencyBucketCase(column: Prisma.Sql): Prisma.Sql {
+  const cases = LATENCY_BUCKETS.flatMap((bucket, index) =>
+    bucket.maxMs !== null ? [Prisma.sql`WHEN ${column} < ${bucket.maxMs} THEN ${index}`] : []
+  );
+
+  return Prisma.sql`CASE ${Prisma.join(cases, ' ')} ELSE ${LATENCY_BUCKETS.length - 1} END`;
+}
+
+// SQLite liefert SUM/COUNT je nach Wert als BigInt
+const toNumber = (value: unknown): number =>
+  typeof value === 'bigint' ? Number(value) : Number(value || 0);
+
+/**
+ * Kosten, Anfragen, Tokens und Fehler pro Zeitraum und Model
+ */
+async function querySeries(filter: AnalyticsFilter, conditions: Prisma.Sql[]): Promise<AnalyticsSeriesPoint[]> {
+  const period = filter.granularity === 'week' ? LOCAL_WEEK : LOCAL_DATE;
+
+  const rows = await prisma.$queryRaw<Array<Record<string, unknown>>>`
+    SELECT ${period} AS "period",
+           r."model" AS "model",
+           COALESCE(m."provider", 'unbekannt') AS "provider",
+           SUM(COALESCE(r."cost", 0)) AS "cost",
+           COUNT(*) AS "requests",
+           SUM(COALESCE(r."inputTokens", 0)) AS "inputTokens",
+           SUM(COALESCE(r."outputTokens", 0)) AS "outputTokens",
+           SUM(CASE WHEN ${IS_ERROR} THEN 1 ELSE 0 END) AS "errors"
+    FROM "Response" r
+    JOIN "Prompt" p ON p."id" = r."promptId"
+    LEFT JOIN "Model" m ON m."id" = r."model"
+    ${toWhere(conditions)}
+    GROUP BY "period", r."model"
+    ORDER BY "period" ASC
+  `;
+
+  return rows.map(row => ({
+    period: String(row.period),
+    model: String(row.model),
+    provider: String(row.provider),
+    cost: toNumber(row.cost),
+    requests: toNumber(row.requests),
+    inputTokens: toNumber(row.inputTokens),
+    outputTokens: toNumber(row.outputTokens),
+    errors: toNumber(row.errors),
+  }));
+}
+
+/**
+ * Histogramm von TTFT und Gesamtdauer pro Model (nur erfolgreiche Läufe mit Messwerten)
+ */
+async function queryLatency(conditions: Prisma.Sql[]): Promise<LatencyHistogramBin[]> {
+  const successful = [...conditions, Prisma.sql`NOT ${IS_ERROR}`];
+
+  const rows = await prisma.$queryRaw<Array<Record<string, unknown>>>`
+    SELECT r."model" AS "model", 'ttft' AS "metric", ${latencyBucketCase(Prisma.sql`r."ttftMs"`)} AS "bin", COUNT(*) AS "count"
+    FROM "Response" r
+    JOIN "Prompt" p ON p."id" = r."promptId"
+    ${toWhere([...successful, Prisma.sql`r."ttftMs" IS NOT NULL`])}
+    GROUP BY r."model", "bin"
+    UNION ALL
+    SELECT r."model" AS "model", 'duration' AS "metric", ${latencyBucketCase(Prisma.sql`r."durationMs"`)} AS "bin", COUNT(*) AS "count"
+    FROM "Response" r
+    JOIN "Prompt" p ON p."id" = r."promptId"
+    ${toWhere([...successful, Prisma.sql`r."durationMs" IS NOT NULL`])}
+    GROUP BY r."model", "bin"
+  `;
+
+  return rows.map(row => ({
+    model: String(row.model),
+    metric: row.metric === 'ttft' ? 'ttft' : 'duration',
+    bin: toNumber(row.bin),
+    count: toNumber(row.count),
+  }));
+}
+
+async function queryTotals(conditions: Prisma.Sql[]): Promise<AnalyticsTotals> {
+  const [row] = await prisma.$queryRaw<Array<Record<string, unknown>>>`
+    SELECT COUNT(DISTINCT r."promptId") AS "prompts",
+           COUNT(*) AS "requests",
+           SUM(COALESCE(r."cost", 0)) AS "cost",
+           SUM(COALESCE(r."inputTokens", 0)) AS "inputTokens",
+           SUM(COALESCE(r."outputTokens", 0)) AS "outputTokens",
+           SUM(CASE WHEN ${IS_ERROR} THEN 1 ELSE 0 END) AS "errors"
+    FROM "Response" r
+    JOIN "Prompt" p ON p."id" = r."promptId"
+    ${toWhere(conditions)}
+  `;
+
+  return {
+    prompts: toNumber(row?.prompts),
+    requests: toNumber(row?.requests),
+    cost: toNumber(row?.cost),
+    inputTokens: toNumber(row?.inputTokens),
+    outputTokens: toNumber(row?.outputTokens),
+    errors: toNumber(row?.errors),
+  };
+}
+
+// Perzentile der Latenz-Statistik werden über die jüngsten Läufe pro Model gebildet
+export const LATENCY_SAMPLE_SIZE = 500;
+
+/**
+ * Messwerte der jüngsten erfolgreichen Läufe pro Model (höchstens LATENCY_SAMPLE_SIZE je Model).
+ * Perzentile lassen sich in SQLite nicht aggregieren, daher wird die Stichprobe per Fensterfunktion begrenzt.
+ */
+export async function loadLatencySamples(): Promise<Array<{
+  model: string;
+  ttftMs: number | null;
+  durationMs: number | null;
+  outputTokens: number | null;
+}>> {
+  const rows = await prisma.$queryRaw<Array<Record<string, unknown>>>`
+    SELECT "model", "ttftMs", "durationMs", "outputTokens"
+    FROM (
+      SELECT r."model" AS "model",
+             r."ttftMs" AS "ttftMs",
+             r."durationMs" AS "durationMs",
+             r."outputTokens" AS "outputTokens",
+             ROW_NUMBER() OVER (PARTITION BY r."model" ORDER BY p."createdAt" DESC) AS "rank"
+      FROM "Response" r
+      JOIN "Prompt" p ON p."id" = r."promptId"
+      WHERE r."durationMs" IS NOT NULL AND r."finishReason" <> 'error'
+    )
+    WHERE "rank" <= ${LATENCY_SAMPLE_SIZE}
+  `;
+
+  return rows.map(row => ({
+    model: String(row.model),
+    ttftMs: row.ttftMs === null ? null : toNumber(row.ttftMs),
+    durationMs: toNumber(row.durationMs),
+    outputTokens: row.outputTokens === null ? null : toNumber(row.outputTokens),
+  }));
+}
+
+/**
+ * Lädt alle Aggregate des Dashboards für Zeitraum und Model-Auswahl
+ */
+export async function getAnalyticsData(filter: AnalyticsFilter = {}): Promise<AnalyticsData> {
+  const conditions = buildAnalyticsConditions(filter);
+
+  const [series, latency, totals] = await Promise.all([
+    querySeries(filter, conditions),
+    queryLatency(conditions),
+    queryTotals(conditions),
+  ]);
+
+  return { series, latency, totals };
+}
+
+/**
+ * Preis für eine Gruppe von Responses unter dem gewählten Preisstand.
+ * Historisch gilt der zum Anfragezeitpunkt gültige Eintrag (per SQL ermittelt), vor dem ersten Eintrag der erste.
+ */
+function resolveRecomputationPrice(model: string, priceId: string | null, priceSet: PriceSetSelection): ModelPricing | null {
+  const config = getModelConfig(model);
+  if (!config) return null;
+
+  const at = priceSet.type === 'asOf'
+    ? new Date(DATE_PATTERN.test(priceSet.date) ? startOfDay(priceSet.date) : Date.now())
+    : config.prices?.find(price => price.id === priceId)?.effectiveFrom || new Date(0);
+
+  return resolveModelPrice(config, at).pricing;
+}
+
+/**
+ * Ordnet jede Response der höchsten überschrittenen Staffelgrenze ihres Models zu (0 = Basispreis),
+ * damit Staffelpreise trotz Aggregation pro Anfrage gelten
+ */
+async function buildTierFloorCase(): Promise<Prisma.Sql> {
+  const prices = await prisma.modelPrice.findMany({ select: { modelId: true, tiers: true } });
+  const thresholds = new Map<string, { model: string; above: number }>();
+
+  for (const price of prices) {
+    for (const tier of JSON.parse(price.tiers || '[]') as PricingTier[]) {
+      thresholds.set(`${price.modelId}:${tier.aboveInputTokens}`, { model: price.modelId, above: tier.aboveInputTokens });
+    }
+  }
+
+  if (thresholds.size === 0) return Prisma.sql`0`;
+
+  const cases = [...thresholds.values()]
+    .sort((a, b) => b.above - a.above)
+    .map(({ model, above }) => Prisma.sql`WHEN r."model" = ${model} AND r."inputTokens" > ${above} THEN ${above}`);
+
+  return Prisma.sql`CASE ${Prisma.join(cases, ' ')} ELSE 0 END`;
+}
+
+/**
+ * Rechnet die gespeicherten Kosten mit einem anderen Preisstand neu.
+ * Gezählt werden abgerechnete Responses (mit Kosten); ältere ohne Token-Daten behalten ihre Kosten.
+ */
+export async function getCostRecomputationData(
+  filter: AnalyticsFilter,
+  priceSet: PriceSetSelection
+): Promise<CostRecomputation> {
+  const conditions = [...buildAnalyticsConditions(filter), Prisma.sql`r."cost" IS NOT NULL`];
+  const hasTokens = Prisma.sql`(r."inputTokens" IS NOT NULL AND r."outputTokens" IS NOT NULL)`;
+  const tierFloor = await buildTierFloorCase();
+
+  // Gespeicherter Preis der Response; ältere ohne Zuordnung wie findPriceEntry (vor dem ersten Eintrag gilt der erste)
+  const rows = await prisma.$queryRaw<Array<Record<string, unknown>>>`
+    SELECT r."model" AS "model",
+           COALESCE(
+             r."priceId",
+             (SELECT mp."id" FROM "ModelPrice" mp
+              WHERE mp."modelId" = r."model" AND mp."effectiveFrom" <= p."createdAt"
+              ORDER BY mp."effectiveFrom" DESC LIMIT 1),
+             (SELECT mp."id" FROM "ModelPrice" mp
+              WHERE mp."modelId" = r."model"
+              ORDER BY mp."effectiveFrom" ASC LIMIT 1)
+           ) AS "priceId",
+           ${tierFloor} AS "tierFloor",
+           COUNT(*) AS "requests",
+           SUM(CASE WHEN ${hasTokens} THEN r."inputTokens" ELSE 0 END) AS "inputTokens",
+           SUM(CASE WHEN ${hasTokens} THEN r."outputTokens" ELSE 0 END) AS "outputTokens",
+           SUM(CASE WHEN ${hasTokens} THEN COALESCE(r."cacheReadTokens", 0) ELSE 0 END) AS "cacheRead",
+           SUM(CASE WHEN ${hasTokens} THEN COALESCE(r."cacheWriteTokens", 0) ELSE 0 END) AS "cacheWrite",
+           SUM(r."cost") AS "storedCost",
+           SUM(CASE WHEN ${hasTokens} THEN 0 ELSE r."cost" END) AS "costWithoutTokens",
+           SUM(CASE WHEN ${hasTokens} THEN 0 ELSE 1 END) AS "withoutTokens"
+    FROM "Response" r
+    JOIN "Prompt" p ON p."id" = r."promptId"
+    ${toWhere(conditions)}
+    GROUP BY r."model", "priceId", "tierFloor"
+  `;
+
+  const byModel = new Map<string, CostRecomputationRow>();
+
+  for (const row of rows) {
+    const model = String(row.model);
+    const inputTokens = toNumber(row.inputTokens);
+    const outputTokens = toNumber(row.outputTokens);
+    const storedCost = toNumber(row.storedCost);
+    const pricing = resolveRecomputationPrice(model, row.priceId === null ? null : String(row.priceId), priceSet);
+    const tierFloor = toNumber(row.tierFloor);
+
+    // Unbekannte Models (aus dem Katalog entfernt) behalten ihre gespeicherten Kosten
+    const recomputedCost = pricing
+      ? calculateCostWithPricing(
+          {
+            input: inputTokens,
+            output: outputTokens,
+            total: inputTokens + outputTokens,
+            cacheRead: toNumber(row.cacheRead),
+            cacheWrite: toNumber(row.cacheWrite),
+          },
+          pricing,
+          // Prompt-Länge knapp über der Staffelgrenze der Gruppe (Summen taugen nicht zur Staffelwahl)
+          { contextTokens: tierFloor > 0 ? tierFloor + 1 : 0 }
+        ).totalCost + toNumber(row.costWithoutTokens)
+      : storedCost;
+
+    const current = byModel.get(model);
+    byModel.set(model, {
+      model,
+      requests: (current?.requests || 0) + toNumber(row.requests),
+      inputTokens: (current?.inputTokens || 0) + inputTokens,
+      outputTokens: (current?.outputTokens || 0) + outputTokens,
+      storedCost: (current?.storedCost || 0) + storedCost,
+      recomputedCost: (current?.recomputedCost || 0) + recomputedCost,
+      withoutTokens: (current?.withoutTokens || 0) + toNumber(row.withoutTokens),
+    });
+  }
+
+  const result = [...byModel.values()].sort((a, b) => b.storedCost - a.storedCost);
+
+  return {
+    rows: result,
+    storedCost: result.reduce((sum, row) => sum + row.storedCost, 0),
+    recomputedCost: result.reduce((sum, row) => sum + row.recomputedCost, 0),
+  };
+}
@@ -0,0 +1,301 @@
+import { type Assertion, type AssertionResult, type AssertionType } from "@/types";
+
+/**
+ * Assertions: objektive Pass/Fail-Prüfungen für Antworten (client- und serverseitig nutzbar).
+ * JS-Ausdrücke und Regex-Muster der Nutzer laufen nur serverseitig in einer Sandbox mit Zeitlimit,
+ * daher wird sie übergeben.
+ */
+
+export const ASSERTION_TYPE_LABELS: Record<AssertionType, string> = {
+  contains: 'Enthält Text',
+  regex: 'Regex passt',
+  isJson: 'Gültiges JSON',
+  jsonSchema: 'JSON Schema',
+  maxLength: 'Max. Länge',
+  forbiddenWords: 'Verbotene Wörter',
+  javascript: 'JS-Ausdruck',
+};
+
+// Nur eigene Schlüssel zählen (nicht geerbte wie 'constructor')
+export const isAssertionType = (value: string): value is AssertionType => Object.hasOwn(ASSERTION_TYPE_LABELS, value);
+
+export const MAX_ASSERTIONS = 20;
+
+// Sandbox für Nutzer-Code: JS-Ausdruck mit der Antwort (output = Text, jsonText = JSON der Antwort oder undefined)
+// und Regex-Tests, beide mit Zeitlimit
+export interface AssertionSandbox {
+  runExpression: (expression: string, output: string, jsonText: string | undefined) => { passed: boolean; result: string };
+  testRegex: (pattern: string, flags: string, text: string) => boolean;
+}
+
+// Ohne Sandbox (z.B. bei der Validierung im Client) direkt testen
+const testRegexDirectly = (pattern: string, flags: string, text: string) => new RegExp(pattern, flags).test(text);
+
+/**
+ * Kurzbeschreibung einer Assertion, z.B. 'enthält "Berlin"' oder 'max. 500 Zeichen'
+ */
+export function describeAssertion(assertion: Assertion): string {
+  switch (assertion.type) {
+    case 'contains':
+      return `enthält "${assertion.value}"`;
+    case 'regex':
+      return `passt auf ${assertion.value}`;
+    case 'isJson':
+      return 'gültiges JSON';
+    case 'jsonSchema':
+      return 'erfüllt JSON Schema';
+    case 'maxLength':
+      return `max. ${assertion.value} Zeichen`;
+    case 'forbiddenWords':
+      return `ohne ${parseWordList(assertion.value).join(', ')}`;
+    case 'javascript':
+      return assertion.value;
+  }
+}
+
+const parseWordList = (value: string): string[] =>
+  value.split(/[,\n]/).map(word => word.trim()).filter(Boolean);
+
+/**
+ * Regex aus "/muster/flags" oder einem reinen Muster
+ */
+function parseRegex(value: string): RegExp {
+  const literal = value.match(/^\/([\s\S]+)\/([a-z]*)$/);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(value);
+}
+
+/**
+ * Liest JSON aus der Antwort (ein umschließender ```json-Codeblock wird ignoriert)
+ */
+export function parseJsonOutput(output: string): { value: unknown } | { error: string } {
+  const fenced = output.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/i);
+
+  try {
+    return { value: JSON.parse(fenced ? fenced[1] : output) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Ungültiges JSON' };
+  }
+}
+
+const typeOf = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : Number.isInteger(value) ? 'integer' : typeof value;
+
+/**
+ * Prüft einen Wert gegen ein JSON Schema (Teilmenge: type, enum, const, properties, required,
+ * additionalProperties, items, min/max für Zahlen, Strings und Arrays, pattern).
+ * Gibt die Verstöße mit Pfad zurück.
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: any,
+  path: string = '$',
+  testRegex: AssertionSandbox['testRegex'] = testRegexDirectly
+): string[] {
+  if (!schema || typeof schema !== 'object') return [];
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    const matches = types.some(type => type === actual || (type === 'number' && actual === 'integer'));
+    if (!matches) {
+      return [`${path}: erwartet ${types.join(' | ')}, erhalten ${actual}`];
+    }
+  }
+
+  const errors: string[] = [];
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((entry: unknown) => JSON.stringify(entry) === JSON.stringify(value))) {
+    errors.push(`${path}: nicht in ${JSON.stringify(schema.enum)}`);
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: erwartet ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) errors.push(`${path}: kleiner als ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) errors.push(`${path}: größer als ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) errors.push(`${path}: kürzer als ${schema.minLength} Zeichen`);
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) errors.push(`${path}: länger als ${schema.maxLength} Zeichen`);
+    if (typeof schema.pattern === 'string' && !testRegex(schema.pattern, '', value)) errors.push(`${path}: passt nicht auf ${schema.pattern}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) errors.push(`${path}: weniger als ${schema.minItems} Einträge`);
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) errors.push(`${path}: mehr als ${schema.maxItems} Einträge`);
+    if (schema.items) {
+      value.forEach((entry, index) => errors.push(...validateJsonSchema(entry, schema.items, `${path}[${index}]`, testRegex)));
+    }
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    const properties: Record<string, unknown> = schema.properties || {};
+
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (!(key in record)) errors.push(`${path}.${key}: fehlt`);
+    }
+    for (const [key, entry] of Object.entries(record)) {
+      if (key in properties) {
+        errors.push(...validateJsonSchema(entry, properties[key], `${path}.${key}`, testRegex));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: nicht erlaubt`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validiert Assertions aus dem Editor (Regex, Schema und JS-Ausdruck müssen sich parsen lassen)
+ */
+export function validateAssertions(assertions: Assertion[]): string | null {
+  if (assertions.length > MAX_ASSERTIONS) {
+    return `Maximal ${MAX_ASSERTIONS} Assertions pro Prompt`;
+  }
+
+  for (const assertion of assertions) {
+    if (!isAssertionType(assertion.type)) {
+      return `Unbekannter Assertion-Typ: ${assertion.type}`;
+    }
+    const label = ASSERTION_TYPE_LABELS[assertion.type];
+
+    if (assertion.type !== 'isJson' && !assertion.value?.trim()) {
+      return `${label}: Wert fehlt`;
+    }
+
+    try {
+      switch (assertion.type) {
+        case 'regex':
+          parseRegex(assertion.value);
+          break;
+        case 'jsonSchema': {
+          const schema = JSON.parse(assertion.value);
+          if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+            return `${label}: Schema muss ein JSON-Objekt sein`;
+          }
+          break;
+        }
+        case 'maxLength':
+          if (!/^\d+$/.test(assertion.value.trim()) || Number(assertion.value) < 1) {
+            return `${label}: muss eine positive ganze Zahl sein`;
+          }
+          break;
+        case 'javascript':
+          // Nur Syntax prüfen, ausgeführt wird serverseitig
+          new Function('output', 'json', `return (${assertion.value});`);
+          break;
+      }
+    } catch (error) {
+      return `${label}: ${error instanceof Error ? error.message : 'ungültig'}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Prüft eine einzelne Assertion; gibt bei Fehlschlag den Grund zurück, sonst null
+ */
+function checkAssertion(assertion: Assertion, output: string, sandbox: AssertionSandbox): string | null {
+  const normalize = (text: string) => assertion.caseSensitive ? text : text.toLowerCase();
+
+  switch (assertion.type) {
+    case 'contains':
+      return normalize(output).includes(normalize(assertion.value)) ? null : 'Text nicht gefunden';
+
+    case 'regex': {
+      const regex = parseRegex(assertion.value);
+      return sandbox.testRegex(regex.source, regex.flags, output) ? null : 'Kein Treffer';
+    }
+
+    case 'isJson': {
+      const parsed = parseJsonOutput(output);
+      return 'error' in parsed ? parsed.error : null;
+    }
+
+    case 'jsonSchema': {
+      const parsed = parseJsonOutput(output);
+      if ('error' in parsed) return `Kein gültiges JSON: ${parsed.error}`;
+
+      const errors = validateJsonSchema(parsed.value, JSON.parse(assertion.value), '$', sandbox.testRegex);
+      return errors.length > 0 ? errors.slice(0, 3).join('; ') + (errors.length > 3 ? ` (+${errors.length - 3} weitere)` : '') : null;
+    }
+
+    case 'maxLength': {
+      const limit = Number(assertion.value);
+      return output.length <= limit ? null : `${output.length} Zeichen`;
+    }
+
+    case 'forbiddenWords': {
+      const found = parseWordList(assertion.value).filter(word => normalize(output).includes(normalize(word)));
+      return found.length === 0 ? null : `Gefunden: ${found.join(', ')}`;
+    }
+
+    case 'javascript': {
+      const parsed = parseJsonOutput(output);
+      const { passed, result } = sandbox.runExpression(assertion.value, output, 'value' in parsed ? JSON.stringify(parsed.value) : undefined);
+      return passed ? null : `Ergebnis: ${result}`;
+    }
+  }
+}
+
+/**
+ * Wertet alle Assertions gegen eine abgeschlossene Antwort aus.
+ * Fehler beim Auswerten (z.B. Timeout eines JS-Ausdrucks oder Regex) zählen als nicht bestanden.
+ */
+export function evaluateAssertions(
+  assertions: Assertion[],
+  output: string,
+  sandbox: AssertionSandbox
+): AssertionResult[] {
+  return assertions.map(assertion => {
+    let message: string | null;
+    try {
+      message = checkAssertion(assertion, output, sandbox);
+    } catch (error) {
+      message = `Fehler: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    return {
+      assertionId: assertion.id,
+      type: assertion.type,
+      label: describeAssertion(assertion),
+      passed: message === null,
+      message,
+    };
+  });
+}
+
+/**
+ * Liest die als JSON gespeicherten Assertions eines Prompts
+ */
+export function parseAssertions(value: string | null): Assertion[] {
+  if (!value) return [];
+
+  try {
+    const assertions = JSON.parse(value);
+    return Array.isArray(assertions)
+      ? assertions.filter((assertion): assertion is Assertion => assertion && isAssertionType(assertion.type))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Liest die als JSON gespeicherten Assertion-Ergebnisse einer Antwort
+ */
+export function parseAssertionResults(value: string | null): AssertionResult[] | null {
+  if (!value) return null;
+
+  try {
+    const results = JSON.parse(value);
+    return Array.isArray(results) ? results : null;
+  } catch {
+    return null;
+  }
+}
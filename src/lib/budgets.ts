@@ -0,0 +1,88 @@
+import { type Budget, type BudgetInput, type BudgetMode, type BudgetPeriod, type BudgetScope } from "@/types";
+import { getModelConfig } from "./models";
+import { getProvider } from "./providers";
+import { formatCost } from "./pricing";
+
+/**
+ * Budget-Regeln (client- und serverseitig nutzbar)
+ */
+
+export const BUDGET_SCOPE_LABELS: Record<BudgetScope, string> = {
+  global: 'Gesamt',
+  model: 'Model',
+  provider: 'Provider',
+};
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  daily: 'Tag',
+  monthly: 'Monat',
+};
+
+export const BUDGET_MODE_LABELS: Record<BudgetMode, string> = {
+  block: 'Blockieren',
+  warn: 'Nur warnen',
+};
+
+// Window-Event, nach dem die Budget-Anzeige neu lädt (z.B. nach einem Vergleich)
+export const BUDGET_UPDATED_EVENT = 'budget-updated';
+
+// Nur eigene Schlüssel zählen (nicht geerbte wie 'constructor')
+export const isBudgetScope = (value: string): value is BudgetScope => Object.hasOwn(BUDGET_SCOPE_LABELS, value);
+export const isBudgetPeriod = (value: string): value is BudgetPeriod => Object.hasOwn(BUDGET_PERIOD_LABELS, value);
+export const isBudgetMode = (value: string): value is BudgetMode => Object.hasOwn(BUDGET_MODE_LABELS, value);
+
+/**
+ * Beginn des laufenden Zeitraums in lokaler Zeit (Tagesbeginn bzw. Monatserster)
+ */
+export function getPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    : new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+/**
+ * Gilt das Budget für Anfragen an dieses Model?
+ */
+export function budgetAppliesTo(budget: Pick<Budget, 'scope' | 'target'>, modelId: string): boolean {
+  switch (budget.scope) {
+    case 'global':
+      return true;
+    case 'model':
+      return budget.target === modelId;
+    case 'provider':
+      return getModelConfig(modelId)?.provider === budget.target;
+  }
+}
+
+/**
+ * Lesbare Bezeichnung, z.B. "Tagesbudget GPT-4o ($5.00)"
+ */
+export function describeBudget(budget: Pick<Budget, 'scope' | 'target' | 'period' | 'amount'>): string {
+  const prefix = budget.period === 'daily' ? 'Tagesbudget' : 'Monatsbudget';
+  const target = budget.scope === 'model'
+    ? getModelConfig(budget.target || '')?.displayName || budget.target
+    : budget.scope === 'provider'
+      ? getProvider(budget.target || '')?.name || budget.target
+      : null;
+
+  return `${prefix}${target ? ` ${target}` : ''} (${formatCost(budget.amount)})`;
+}
+
+/**
+ * Validiert ein Budget aus dem Einstellungs-Screen
+ */
+export function validateBudget(input: BudgetInput): string | null {
+  if (!isBudgetScope(input.scope) || !isBudgetPeriod(input.period) || !isBudgetMode(input.mode)) {
+    return 'Ungültiger Geltungsbereich, Zeitraum oder Modus';
+  }
+
+  if (input.scope !== 'global' && !input.target?.trim()) {
+    return `Bitte ein ${BUDGET_SCOPE_LABELS[input.scope]} auswählen`;
+  }
+
+  if (!Number.isFinite(input.amount) || input.amount <= 0) {
+    return 'Das Budget muss größer als 0 sein';
+  }
+
+  return null;
+}
@@ -0,0 +1,129 @@
+import { PrismaClient, type Model, type ModelPrice as ModelPriceRow } from "@prisma/client";
+import { DEFAULT_MODEL_CATALOG, setModelCatalog } from "./models";
+import { findPriceEntry } from "./pricing";
+import { type ModelConfig, type ModelPrice, type ModelPricing, type PricingTier } from "@/types";
+
+const prisma = new PrismaClient();
+
+/**
+ * Model-Katalog aus der Datenbank (nur serverseitig verwenden)
+ */
+
+// Stichtag der Ausgangspreise: gelten rückwirkend für alle älteren Anfragen
+const INITIAL_PRICE_DATE = new Date(0);
+
+/**
+ * Wandelt eine Zeile der Preistabelle in einen ModelPrice um
+ */
+export function toModelPrice(price: ModelPriceRow): ModelPrice {
+  const tiers: PricingTier[] = JSON.parse(price.tiers || '[]');
+
+  return {
+    id: price.id,
+    modelId: price.modelId,
+    pricing: {
+      input: price.inputPrice,
+      output: price.outputPrice,
+      ...(price.cachedInputPrice !== null && { cachedInput: price.cachedInputPrice }),
+      ...(price.cacheWritePrice !== null && { cacheWrite: price.cacheWritePrice }),
+      ...(price.batchDiscount !== null && { batchDiscount: price.batchDiscount }),
+      ...(tiers.length > 0 && { tiers }),
+    },
+    effectiveFrom: price.effectiveFrom,
+    note: price.note,
+  };
+}
+
+/**
+ * Wandelt Preise in Spalten der Preistabelle um
+ */
+export function toPriceRow(pricing: ModelPricing) {
+  return {
+    inputPrice: pricing.input,
+    outputPrice: pricing.output,
+    cachedInputPrice: pricing.cachedInput ?? null,
+    cacheWritePrice: pricing.cacheWrite ?? null,
+    batchDiscount: pricing.batchDiscount ?? null,
+    tiers: JSON.stringify(pricing.tiers || []),
+  };
+}
+
+/**
+ * Wandelt eine Model-Zeile inkl. Preistabelle in eine ModelConfig um
+ */
+export function toModelConfig(model: Model & { prices: ModelPriceRow[] }): ModelConfig {
+  const capabilities: string[] = JSON.parse(model.capabilities || '[]');
+  const prices = model.prices
+    .map(toModelPrice)
+    .sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime());
+
+  return {
+    id: model.id,
+    name: model.name,
+    displayName: model.displayName,
+    provider: model.provider,
+    pricing: findPriceEntry(prices, new Date())?.pricing || { input: 0, output: 0 },
+    prices,
+    maxTokens: model.contextWindow,
+    maxOutputTokens: model.maxOutputTokens,
+    supportsStreaming: capabilities.includes('streaming'),
+    enabled: model.enabled,
+    capabilities,
+  };
+}
+
+/**
+ * Wandelt eine ModelConfig in Spalten der Model-Tabelle um (Preise liegen in der Preistabelle)
+ */
+export function toModelRow(config: ModelConfig) {
+  return {
+    provider: config.provider,
+    name: config.name,
+    displayName: config.displayName,
+    contextWindow: config.maxTokens,
+    maxOutputTokens: config.maxOutputTokens,
+    enabled: config.enabled,
+    capabilities: JSON.stringify(config.capabilities),
+  };
+}
+
+/**
+ * Befüllt die leere Model-Tabelle mit den Standard-Models
+ */
+async function seedModelCatalog(): Promise<void> {
+  const count = await prisma.model.count();
+  if (count > 0) return;
+
+  await prisma.model.createMany({
+    data: DEFAULT_MODEL_CATALOG.map(config => ({
+      id: config.id,
+      ...toModelRow(config),
+    })),
+  });
+
+  await prisma.modelPrice.createMany({
+    data: DEFAULT_MODEL_CATALOG.map(config => ({
+      modelId: config.id,
+      ...toPriceRow(config.pricing),
+      effectiveFrom: INITIAL_PRICE_DATE,
+      note: 'Ausgangspreis',
+    })),
+  });
+}
+
+/**
+ * Lädt den Katalog aus der Datenbank und aktualisiert den In-Memory-Katalog
+ */
+export async function loadModelCatalog(): Promise<ModelConfig[]> {
+  await seedModelCatalog();
+
+  const models = await prisma.model.findMany({
+    include: { prices: true },
+    orderBy: [{ provider: 'asc' }, { displayName: 'asc' }],
+  });
+
+  const catalog = models.map(toModelConfig);
+  setModelCatalog(catalog);
+
+  return catalog;
+}
@@ -0,0 +1,143 @@
+import { PrismaClient, Prisma, type Conversation as ConversationRow, type Message } from "@prisma/client";
+import { type Conversation, type MessageRole, type ThreadMessage } from "@/types";
+
+const prisma = new PrismaClient();
+
+/**
+ * Konversationen mit einem Thread pro Model-Slot (nur serverseitig verwenden)
+ */
+
+/**
+ * Gruppiert die Nachrichten einer Konversation in einen Thread pro Slot
+ */
+function toThreads(messages: Message[], slotCount: number): ThreadMessage[][] {
+  const threads: ThreadMessage[][] = Array.from({ length: slotCount }, () => []);
+
+  [...messages]
+    .sort((a, b) => a.slot - b.slot || a.position - b.position)
+    .forEach(message => {
+      threads[message.slot]?.push({
+        role: message.role as MessageRole,
+        content: message.content,
+      });
+    });
+
+  return threads;
+}
+
+/**
+ * Wandelt eine Konversations-Zeile inkl. Nachrichten in eine Conversation um
+ */
+function toConversation(conversation: ConversationRow & { messages: Message[] }): Conversation {
+  const models: string[] = JSON.parse(conversation.models);
+
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    models,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    threads: toThreads(conversation.messages, models.length),
+  };
+}
+
+/**
+ * Lädt eine Konversation mit allen Threads
+ */
+export async function findConversation(id: string): Promise<Conversation | null> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id },
+    include: { messages: true },
+  });
+
+  return conversation ? toConversation(conversation) : null;
+}
+
+/**
+ * Lädt die fortzusetzende Konversation (null = neuer Thread, noch nicht gespeichert).
+ * Die Models müssen mit den Slots der Konversation übereinstimmen.
+ */
+export async function resolveConversation(
+  conversationId: string | undefined,
+  models: string[]
+): Promise<{ conversation: Conversation | null } | { error: string }> {
+  if (!conversationId) {
+    return { conversation: null };
+  }
+
+  const conversation = await findConversation(conversationId);
+  if (!conversation) {
+    return { error: 'Konversation nicht gefunden' };
+  }
+
+  if (conversation.models.join(',') !== models.join(',')) {
+    return { error: 'Die Models einer Konversation können nicht geändert werden' };
+  }
+
+  return { conversation };
+}
+
+/**
+ * Legt eine neue Konversation an (erst, wenn der Vergleich tatsächlich startet)
+ */
+export async function createConversation(prompt: string, models: string[]): Promise<Conversation> {
+  const conversation = await prisma.conversation.create({
+    data: {
+      title: prompt.trim().slice(0, 80),
+      models: JSON.stringify(models),
+    },
+    include: { messages: true },
+  });
+
+  return toConversation(conversation);
+}
+
+// Parallele Folgefragen können dieselbe Position belegen (Unique-Constraint), dann neu nummerieren
+const APPEND_ATTEMPTS = 3;
+
+const isUniqueConflict = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+/**
+ * Hängt eine Runde (Prompt + Antwort) an die Threads an.
+ * Slots ohne Antwort (Fehler oder Abbruch vor dem ersten Token) werden übersprungen,
+ * damit ihr Thread konsistent bleibt. Positionen werden aus dem aktuellen Stand der Datenbank vergeben.
+ */
+export async function appendConversationTurn(
+  conversation: Conversation,
+  prompt: string,
+  contents: Array<string | null>
+): Promise<void> {
+  const answered = contents.flatMap((content, slot) => content ? [{ slot, content }] : []);
+  if (answered.length === 0) return;
+
+  for (let attempt = 1; ; attempt++) {
+    const lastPositions = await prisma.message.groupBy({
+      by: ['slot'],
+      where: { conversationId: conversation.id },
+      _max: { position: true },
+    });
+    const nextPosition = (slot: number) =>
+      (lastPositions.find(entry => entry.slot === slot)?._max.position ?? -1) + 1;
+
+    try {
+      await prisma.message.createMany({
+        data: answered.flatMap(({ slot, content }) => {
+          const position = nextPosition(slot);
+          return [
+            { conversationId: conversation.id, slot, position, role: 'user', content: prompt },
+            { conversationId: conversation.id, slot, position: position + 1, role: 'assistant', content },
+          ];
+        }),
+      });
+      break;
+    } catch (error) {
+      if (!isUniqueConflict(error) || attempt >= APPEND_ATTEMPTS) throw error;
+    }
+  }
+
+  await prisma.conversation.update({
+    where: { id: conversation.id },
+    data: { updatedAt: new Date() },
+  });
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { extractPlaceholders, isEvalRunStatus, parseDataset, renderPrompt, validateDatasetItems } from "./datasets";
+
+describe('datasets', () => {
+  it('akzeptiert nur bekannte Laufstatus', () => {
+    expect(isEvalRunStatus('paused')).toBe(true);
+    expect(isEvalRunStatus('constructor')).toBe(false);
+  });
+
+  it('ersetzt bekannte Platzhalter und lässt unbekannte stehen', () => {
+    expect(renderPrompt('Übersetze {{ text }} nach {{sprache}}', { text: 'Hallo' })).toBe('Übersetze Hallo nach {{sprache}}');
+    expect(extractPlaceholders('{{a}} {{ b.c }} {{a}}')).toEqual(['a', 'b.c']);
+  });
+
+  describe('CSV', () => {
+    it('liest Prompt, Referenz und übrige Spalten als Variablen', () => {
+      const csv = 'prompt,Expected,sprache\nÜbersetze {{sprache}},Hello,Englisch\n';
+
+      expect(parseDataset(csv, 'daten.csv')).toEqual([
+        { prompt: 'Übersetze {{sprache}}', variables: { sprache: 'Englisch' }, reference: 'Hello' },
+      ]);
+    });
+
+    it('erkennt Semikolon als Trennzeichen und entfernt das BOM', () => {
+      const csv = '\uFEFFPrompt;Referenz;ort\r\nWie heißt {{ort}}?;Köln, Stadt;Köln\r\n';
+
+      expect(parseDataset(csv, 'export.csv')).toEqual([
+        { prompt: 'Wie heißt {{ort}}?', variables: { ort: 'Köln' }, reference: 'Köln, Stadt' },
+      ]);
+    });
+
+    it('unterstützt Anführungszeichen, Escapes und Zeilenumbrüche in Feldern', () => {
+      const csv = 'prompt,notiz\n"Zeile 1\nZeile 2","sagt ""Hallo"", dann, Tschüss"\n\n"Zweiter",\n';
+
+      expect(parseDataset(csv, 'daten.csv')).toEqual([
+        { prompt: 'Zeile 1\nZeile 2', variables: { notiz: 'sagt "Hallo", dann, Tschüss' }, reference: null },
+        { prompt: 'Zweiter', variables: { notiz: '' }, reference: null },
+      ]);
+    });
+
+    it('meldet fehlende Spalten und Prompts', () => {
+      expect(() => parseDataset('frage,antwort\nA,B\n', 'daten.csv')).toThrow('Die CSV-Datei braucht eine Spalte "prompt"');
+      expect(() => parseDataset('prompt,x\nA,1\n ,2\n', 'daten.csv')).toThrow('Zeile 3: Prompt fehlt');
+      expect(() => parseDataset('prompt\n', 'daten.csv')).toThrow('Der Datensatz enthält keine Prompts');
+    });
+  });
+
+  describe('JSONL', () => {
+    it('liest Variablen als Objekt oder als weitere Felder', () => {
+      const jsonl = [
+        '{"prompt": " Frage {{a}} ", "variables": {"a": "1", "b": 2, "c": null}, "reference": "Antwort"}',
+        '',
+        '{"prompt": "Frage {{a}}", "a": "x", "expected": "  "}',
+      ].join('\n');
+
+      expect(parseDataset(jsonl, 'daten.jsonl')).toEqual([
+        { prompt: 'Frage {{a}}', variables: { a: '1', b: '2' }, reference: 'Antwort' },
+        { prompt: 'Frage {{a}}', variables: { a: 'x' }, reference: null },
+      ]);
+    });
+
+    it('erkennt JSONL ohne Dateiendung am Inhalt', () => {
+      expect(parseDataset('{"prompt": "Hallo"}\n')).toEqual([{ prompt: 'Hallo', variables: {}, reference: null }]);
+    });
+
+    it('meldet ungültige Zeilen mit Zeilennummer', () => {
+      expect(() => parseDataset('{"prompt": "a"}\n{kein json', 'daten.jsonl')).toThrow('Zeile 2: Ungültiges JSON');
+      expect(() => parseDataset('["prompt"]', 'daten.jsonl')).toThrow('Zeile 1: Erwartet wird ein Objekt');
+      expect(() => parseDataset('{"prompt": 42}', 'daten.jsonl')).toThrow('Zeile 1: Prompt fehlt');
+    });
+  });
+
+  it('begrenzt die Anzahl der Einträge', () => {
+    const items = Array.from({ length: 1001 }, () => ({ prompt: 'p', variables: {}, reference: null }));
+
+    expect(validateDatasetItems(items)).toBe('Maximal 1000 Prompts pro Datensatz erlaubt');
+    expect(validateDatasetItems(items.slice(0, 1000))).toBeNull();
+  });
+});
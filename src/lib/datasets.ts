@@ -0,0 +1,201 @@
+import { type DatasetItemInput, type EvalRunStatus } from "@/types";
+
+/**
+ * Prompt-Datensätze und Evaluationsläufe (client- und serverseitig nutzbar)
+ */
+
+export const EVAL_RUN_STATUS_LABELS: Record<EvalRunStatus, string> = {
+  running: 'Läuft',
+  paused: 'Pausiert',
+  completed: 'Abgeschlossen',
+  cancelled: 'Abgebrochen',
+  failed: 'Fehlgeschlagen',
+};
+
+// Nur eigene Schlüssel zählen (nicht geerbte wie 'constructor')
+export const isEvalRunStatus = (value: string): value is EvalRunStatus => Object.hasOwn(EVAL_RUN_STATUS_LABELS, value);
+
+// Grenzen für Datensätze und Läufe
+export const MAX_DATASET_ITEMS = 1000;
+export const MAX_EVAL_CONCURRENCY = 8;
+export const DEFAULT_EVAL_CONCURRENCY = 2;
+
+// Fortschritt laufender Evaluationen im Browser nachladen
+export const EVAL_POLL_INTERVAL_MS = 2000;
+
+// Spaltennamen für die erwartete Antwort (alle übrigen Spalten werden zu Variablen)
+const REFERENCE_COLUMNS = ['reference', 'expected', 'referenz', 'erwartet'];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Ersetzt {{name}}-Platzhalter durch Variablen (unbekannte Platzhalter bleiben stehen)
+ */
+export function renderPrompt(template: string, variables: Record<string, string>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, name: string) => variables[name] ?? match);
+}
+
+/**
+ * Namen aller Platzhalter eines Prompts (ohne Duplikate, in Reihenfolge des Auftretens)
+ */
+export function extractPlaceholders(template: string): string[] {
+  return [...new Set([...template.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+}
+
+/**
+ * Zerlegt CSV in Zeilen und Felder (Anführungszeichen mit "" als Escape, Zeilenumbrüche in Feldern erlaubt).
+ * Trennzeichen ist Komma oder – wie bei deutschem Excel-Export – Semikolon.
+ */
+function parseCsvRows(text: string): string[][] {
+  const headerLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = (headerLine.match(/;/g)?.length || 0) > (headerLine.match(/,/g)?.length || 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+function parseCsvDataset(text: string): DatasetItemInput[] {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) {
+    throw new Error('Die CSV-Datei ist leer');
+  }
+
+  const columns = header.map(column => column.trim());
+  const promptIndex = columns.findIndex(column => column.toLowerCase() === 'prompt');
+  if (promptIndex === -1) {
+    throw new Error('Die CSV-Datei braucht eine Spalte "prompt"');
+  }
+  const referenceIndex = columns.findIndex(column => REFERENCE_COLUMNS.includes(column.toLowerCase()));
+
+  return rows.map((cells, index) => {
+    const prompt = cells[promptIndex]?.trim();
+    if (!prompt) {
+      throw new Error(`Zeile ${index + 2}: Prompt fehlt`);
+    }
+
+    const variables: Record<string, string> = {};
+    columns.forEach((column, columnIndex) => {
+      if (columnIndex !== promptIndex && columnIndex !== referenceIndex && column) {
+        variables[column] = cells[columnIndex] ?? '';
+      }
+    });
+
+    return {
+      prompt,
+      variables,
+      reference: referenceIndex !== -1 ? cells[referenceIndex]?.trim() || null : null,
+    };
+  });
+}
+
+function parseJsonlDataset(text: string): DatasetItemInput[] {
+  return text.split(/\r?\n/).flatMap((line, index) => {
+    if (!line.trim()) return [];
+
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`Zeile ${index + 1}: Ungültiges JSON`);
+    }
+
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new Error(`Zeile ${index + 1}: Erwartet wird ein Objekt`);
+    }
+
+    const { prompt, reference, expected, variables, ...rest } = entry as Record<string, unknown>;
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+      throw new Error(`Zeile ${index + 1}: Prompt fehlt`);
+    }
+
+    // Variablen entweder als Objekt "variables" oder als weitere Felder auf oberster Ebene
+    const source = variables && typeof variables === 'object' ? variables as Record<string, unknown> : rest;
+    const referenceValue = reference ?? expected;
+
+    return [{
+      prompt: prompt.trim(),
+      variables: Object.fromEntries(
+        Object.entries(source)
+          .filter(([, value]) => value !== null && value !== undefined)
+          .map(([name, value]) => [name, typeof value === 'string' ? value : JSON.stringify(value)])
+      ),
+      reference: typeof referenceValue === 'string' && referenceValue.trim() ? referenceValue.trim() : null,
+    }];
+  });
+}
+
+/**
+ * Liest einen Datensatz aus CSV oder JSONL (Format anhand der Dateiendung, sonst am Inhalt erkannt)
+ */
+export function parseDataset(text: string, fileName: string = ''): DatasetItemInput[] {
+  const content = text.replace(/^\uFEFF/, ''); // BOM aus Excel-Exporten
+  const isJsonl = /\.(jsonl|ndjson)$/i.test(fileName)
+    || (!/\.csv$/i.test(fileName) && content.trimStart().startsWith('{'));
+
+  const items = isJsonl ? parseJsonlDataset(content) : parseCsvDataset(content);
+  const error = validateDatasetItems(items);
+  if (error) {
+    throw new Error(error);
+  }
+
+  return items;
+}
+
+/**
+ * Validiert Datensatz-Einträge vor dem Speichern
+ */
+export function validateDatasetItems(items: DatasetItemInput[]): string | null {
+  if (items.length === 0) {
+    return 'Der Datensatz enthält keine Prompts';
+  }
+  if (items.length > MAX_DATASET_ITEMS) {
+    return `Maximal ${MAX_DATASET_ITEMS} Prompts pro Datensatz erlaubt`;
+  }
+
+  const invalid = items.findIndex(item =>
+    typeof item.prompt !== 'string' || !item.prompt.trim()
+    || !item.variables || Object.values(item.variables).some(value => typeof value !== 'string')
+  );
+  if (invalid !== -1) {
+    return `Eintrag ${invalid + 1}: Prompt fehlt oder Variablen sind ungültig`;
+  }
+
+  return null;
+}
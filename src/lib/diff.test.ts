@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { countWords, diffResponses, diffWords, formatSimilarity } from "./diff";
+
+const baseTexts = (text: string, others: string[], unit: 'line' | 'block' = 'line') =>
+  diffResponses(text, others, unit).rows.map(row => row.base);
+
+describe('diff', () => {
+  it('zählt Wörter und Satzzeichen, aber keinen Leerraum', () => {
+    expect(countWords('Hallo, schöne Welt!')).toBe(5);
+    expect(countWords('  \n ')).toBe(0);
+  });
+
+  it('lässt gleiche Texte unverändert', () => {
+    expect(diffWords('Die Katze schläft', 'Die Katze schläft')).toEqual({
+      segments: [{ type: 'equal', text: 'Die Katze schläft', changed: false }],
+      distance: 0,
+    });
+  });
+
+  it('markiert ersetzte Wörter als Änderung', () => {
+    expect(diffWords('Die Katze schläft', 'Die Katze läuft')).toEqual({
+      segments: [
+        { type: 'equal', text: 'Die Katze ', changed: false },
+        { type: 'delete', text: 'schläft', changed: true },
+        { type: 'insert', text: 'läuft', changed: true },
+      ],
+      distance: 1,
+    });
+  });
+
+  it('unterscheidet reine Einfügungen von Ersetzungen', () => {
+    expect(diffWords('eins drei', 'eins zwei drei')).toEqual({
+      segments: [
+        { type: 'equal', text: 'eins ', changed: false },
+        { type: 'insert', text: 'zwei ', changed: false },
+        { type: 'equal', text: 'drei', changed: false },
+      ],
+      distance: 1,
+    });
+  });
+
+  it('fasst Änderungen über reinen Leerraum hinweg zusammen', () => {
+    expect(diffWords('eins zwei', 'drei vier').segments).toEqual([
+      { type: 'delete', text: 'eins zwei', changed: true },
+      { type: 'insert', text: 'drei vier', changed: true },
+    ]);
+  });
+
+  it('ersetzt ab der maximalen Editierdistanz alles statt fein zu vergleichen', () => {
+    // Gemeinsames Wort in der Mitte, davor und danach jeweils 4400 verschiedene Tokens
+    const a = `${'a.'.repeat(1100)} mitte ${'c;'.repeat(1100)}`;
+    const b = `${'b,'.repeat(1100)} mitte ${'d:'.repeat(1100)}`;
+
+    expect(diffWords(a, b).segments).toEqual([
+      { type: 'delete', text: a, changed: true },
+      { type: 'insert', text: b, changed: true },
+    ]);
+  });
+
+  it('erhält den Originaltext beim Aufteilen in Zeilen', () => {
+    const result = diffResponses('a\nb', ['a\nb\n']);
+
+    expect(result.rows).toHaveLength(1);
+    expect(result.rows[0]).toMatchObject({ changed: false, base: 'a\nb', cells: [{ text: 'a\nb\n', status: 'equal' }] });
+    expect(result.similarities).toEqual([1]);
+  });
+
+  it('teilt im Block-Modus an Leerzeilen und hält Codeblöcke zusammen', () => {
+    const base = 'Text\n\n```\ncode\n\nmehr\n```\nEnde\n';
+    const other = 'Text\n\n```\nkode\n\nmehr\n```\nEnde\n';
+
+    expect(baseTexts(base, [other], 'block')).toEqual(['Text\n\n', '```\ncode\n\nmehr\n```\n', 'Ende\n']);
+    expect(baseTexts(base, [other], 'line')).toEqual(['Text\n\n```\n', 'code\n', '\nmehr\n```\nEnde\n']);
+  });
+
+  it('richtet mehrere Antworten in gemeinsamen Zeilen aus', () => {
+    const result = diffResponses('a\nb\nc\nd\n', ['a\nB\nc\nd\n', 'a\nx\nb\nc\nd\n', 'a\nb\nd\n']);
+
+    // Angrenzende Änderungen verschiedener Antworten landen in einer gemeinsamen Zeile
+    expect(result.rows.map(row => [row.changed, row.base])).toEqual([
+      [false, 'a\n'],
+      [true, 'b\nc\n'],
+      [false, 'd\n'],
+    ]);
+    expect(result.rows[1].cells.map(cell => [cell.status, cell.text])).toEqual([
+      ['changed', 'B\nc\n'],
+      ['changed', 'x\nb\nc\n'],
+      ['changed', 'b\n'],
+    ]);
+    expect(result.rows[2].cells.map(cell => cell.text)).toEqual(['d\n', 'd\n', 'd\n']);
+    expect(result.similarities).toEqual([0.75, 0.8, 0.75]);
+  });
+
+  it('zeigt Einfügungen als eigene Zeile ohne Referenztext', () => {
+    const result = diffResponses('a\nb\n', ['a\nx\nb\n']);
+
+    expect(result.rows.map(row => row.base)).toEqual(['a\n', '', 'b\n']);
+    expect(result.rows[1].cells).toMatchObject([{ status: 'insert', text: 'x\n' }]);
+    expect(result.similarities[0]).toBeCloseTo(2 / 3);
+  });
+
+  it('formatiert die Ähnlichkeit in Prozent', () => {
+    expect(formatSimilarity(0.866)).toBe('87 %');
+    expect(formatSimilarity(1)).toBe('100 %');
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * Diff zwischen Model-Antworten (client- und serverseitig nutzbar).
+ * Zuerst werden Zeilen bzw. Markdown-Blöcke ausgerichtet, innerhalb geänderter Abschnitte dann Wörter.
+ * Mehrere Antworten werden jeweils gegen eine Referenzantwort verglichen und in gemeinsamen Zeilen ausgerichtet.
+ */
+
+export type DiffUnit = 'line' | 'block';
+
+type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  type: DiffOp;
+  text: string;
+  changed: boolean; // Teil einer Ersetzung (gelöscht und eingefügt an derselben Stelle)
+}
+
+export type DiffCellStatus = 'equal' | 'insert' | 'delete' | 'changed';
+
+export interface DiffCell {
+  text: string;
+  status: DiffCellStatus;
+  segments: DiffSegment[]; // Wort-Diff gegen die Referenz
+}
+
+export interface DiffRow {
+  changed: boolean; // mindestens eine Antwort weicht hier von der Referenz ab
+  base: string;
+  cells: DiffCell[]; // eine Zelle pro verglichener Antwort
+}
+
+export interface ResponseDiff {
+  rows: DiffRow[];
+  similarities: number[]; // 0-1 pro verglichener Antwort (1 - normalisierte Wort-Editierdistanz)
+}
+
+// Ab dieser Editierdistanz wird nicht mehr fein verglichen (Laufzeit und Speicher wachsen quadratisch)
+const MAX_EDIT_DISTANCE = 4000;
+
+// Wörter (inkl. Umlaute), Leerraum und einzelne Satzzeichen
+const TOKEN_PATTERN = /\s+|[\w\u00C0-\u024F]+|[^\s\w\u00C0-\u024F]/g;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+const tokenize = (text: string): string[] => text.match(TOKEN_PATTERN) || [];
+const isWhitespace = (text: string) => text.trim() === '';
+
+export const countWords = (text: string): number => tokenize(text).filter(token => !isWhitespace(token)).length;
+
+/**
+ * Zeilen inkl. Zeilenumbruch, damit der zusammengesetzte Text exakt dem Original entspricht
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * Markdown-Blöcke (Absätze, Listen, Codeblöcke); Leerzeilen gehören zum vorherigen Block
+ */
+function splitBlocks(text: string): string[] {
+  const blocks: string[] = [];
+  let current = '';
+  let inFence = false;
+  let afterFence = false;
+
+  for (const line of splitLines(text)) {
+    const isFence = FENCE_PATTERN.test(line);
+
+    // Neuer Block nach einer Leerzeile sowie vor und nach einem Codeblock
+    if (current && !inFence && !isWhitespace(line) && (isFence || afterFence || /\n\s*\n\s*$/.test(current))) {
+      blocks.push(current);
+      current = '';
+    }
+
+    current += line;
+    if (isFence) inFence = !inFence;
+    afterFence = isFence && !inFence;
+  }
+
+  if (current) blocks.push(current);
+  return blocks;
+}
+
+/**
+ * Kürzestes Edit-Skript zweier Folgen (Myers, O((N+M)·D)).
+ * Innerhalb eines geänderten Abschnitts stehen Löschungen vor Einfügungen.
+ */
+function diffSequences(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const n = middleA.length;
+  const m = middleB.length;
+  const max = n + m;
+
+  const middle: DiffOp[] = [];
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = [];
+  let found = max === 0;
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE) && !found; d++) {
+    // Stand vor Schritt d, Index k + d
+    trace.push(v.slice(max - d, max + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[max + k - 1] < v[max + k + 1]) ? v[max + k + 1] : v[max + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && middleA[x] === middleB[y]) {
+        x++;
+        y++;
+      }
+      v[max + k] = x;
+
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    // Zu unterschiedlich: alles ersetzen
+    middle.push(...middleA.map((): DiffOp => 'delete'), ...middleB.map((): DiffOp => 'insert'));
+  } else {
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d > 0; d--) {
+      const previous = trace[d];
+      const k = x - y;
+      const previousK = k === -d || (k !== d && previous[k - 1 + d] < previous[k + 1 + d]) ? k + 1 : k - 1;
+      const previousX = previous[previousK + d];
+      const previousY = previousX - previousK;
+
+      while (x > previousX && y > previousY) {
+        middle.push('equal');
+        x--;
+        y--;
+      }
+      middle.push(x === previousX ? 'insert' : 'delete');
+      x = previousX;
+      y = previousY;
+    }
+    while (x > 0 && y > 0) {
+      middle.push('equal');
+      x--;
+      y--;
+    }
+    middle.reverse();
+  }
+
+  // Löschungen vor Einfügungen innerhalb eines Abschnitts
+  const ops: DiffOp[] = Array(prefix).fill('equal');
+  for (let index = 0; index < middle.length;) {
+    if (middle[index] === 'equal') {
+      ops.push(middle[index++]);
+      continue;
+    }
+    const run: DiffOp[] = [];
+    while (index < middle.length && middle[index] !== 'equal') run.push(middle[index++]);
+    ops.push(...run.filter(op => op === 'delete'), ...run.filter(op => op === 'insert'));
+  }
+  ops.push(...Array<DiffOp>(suffix).fill('equal'));
+
+  return ops;
+}
+
+type WordChunk = { type: 'equal'; tokens: string[] } | { type: 'change'; deleted: string[]; inserted: string[] };
+
+/**
+ * Wort-Diff zweier Texte; distance zählt ersetzte, gelöschte und eingefügte Wörter
+ */
+export function diffWords(a: string, b: string): { segments: DiffSegment[]; distance: number } {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  const ops = diffSequences(tokensA, tokensB);
+
+  const chunks: WordChunk[] = [];
+  let indexA = 0;
+  let indexB = 0;
+
+  for (const op of ops) {
+    const last = chunks[chunks.length - 1];
+
+    if (op === 'equal') {
+      if (last?.type === 'equal') last.tokens.push(tokensA[indexA]);
+      else chunks.push({ type: 'equal', tokens: [tokensA[indexA]] });
+      indexA++;
+      indexB++;
+      continue;
+    }
+
+    const change = last?.type === 'change' ? last : { type: 'change' as const, deleted: [], inserted: [] };
+    if (change !== last) chunks.push(change);
+    if (op === 'delete') change.deleted.push(tokensA[indexA++]);
+    else change.inserted.push(tokensB[indexB++]);
+  }
+
+  // Reinen Leerraum zwischen zwei Änderungen in die Änderung aufnehmen, damit sie zusammenhängend bleibt
+  const merged: WordChunk[] = [];
+  for (const chunk of chunks) {
+    const previous = merged[merged.length - 1];
+    const beforePrevious = merged[merged.length - 2];
+
+    if (
+      chunk.type === 'change' && previous?.type === 'equal' && beforePrevious?.type === 'change' &&
+      previous.tokens.every(isWhitespace)
+    ) {
+      merged.pop();
+      beforePrevious.deleted.push(...previous.tokens, ...chunk.deleted);
+      beforePrevious.inserted.push(...previous.tokens, ...chunk.inserted);
+      continue;
+    }
+    merged.push(chunk);
+  }
+
+  const segments: DiffSegment[] = [];
+  let distance = 0;
+
+  for (const chunk of merged) {
+    if (chunk.type === 'equal') {
+      segments.push({ type: 'equal', text: chunk.tokens.join(''), changed: false });
+      continue;
+    }
+
+    const changed = chunk.deleted.length > 0 && chunk.inserted.length > 0;
+    if (chunk.deleted.length > 0) segments.push({ type: 'delete', text: chunk.deleted.join(''), changed });
+    if (chunk.inserted.length > 0) segments.push({ type: 'insert', text: chunk.inserted.join(''), changed });
+    distance += Math.max(countWords(chunk.deleted.join('')), countWords(chunk.inserted.join('')));
+  }
+
+  return { segments, distance };
+}
+
+interface PairAlignment {
+  units: string[];
+  before: number[]; // Position in der Antwort beim Erreichen einer Referenzposition
+  after: number[]; // ... nach Einfügungen an dieser Position
+  hunks: Array<[number, number]>; // geänderte Referenzbereiche [start, end]
+}
+
+function alignUnits(baseUnits: string[], units: string[]): PairAlignment {
+  const ops = diffSequences(baseUnits.map(unit => unit.trimEnd()), units.map(unit => unit.trimEnd()));
+  const before = [0];
+  const after: number[] = [];
+  const hunks: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  let hunkStart: number | null = null;
+
+  for (const op of ops) {
+    if (op !== 'equal' && hunkStart === null) hunkStart = i;
+    if (op === 'equal' && hunkStart !== null) {
+      hunks.push([hunkStart, i]);
+      hunkStart = null;
+    }
+
+    if (op === 'insert') {
+      j++;
+      continue;
+    }
+    after[i] = j;
+    i++;
+    if (op === 'equal') j++;
+    before[i] = j;
+  }
+
+  if (hunkStart !== null) hunks.push([hunkStart, i]);
+  after[baseUnits.length] = j;
+
+  return { units, before, after, hunks };
+}
+
+const cellStatus = (base: string, text: string): DiffCellStatus =>
+  base.trim() === text.trim() ? 'equal' : !base.trim() ? 'insert' : !text.trim() ? 'delete' : 'changed';
+
+/**
+ * Vergleicht mehrere Antworten mit einer Referenz und richtet sie in gemeinsamen Zeilen aus
+ */
+export function diffResponses(base: string, others: string[], unit: DiffUnit = 'line'): ResponseDiff {
+  const split = unit === 'block' ? splitBlocks : splitLines;
+  const baseUnits = split(base);
+  const alignments = others.map(other => alignUnits(baseUnits, split(other)));
+
+  // Geänderte Bereiche aller Antworten zusammenführen (auch aneinandergrenzende)
+  const intervals = alignments.flatMap(alignment => alignment.hunks).sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+
+  const join = (units: string[], start: number, end: number) => units.slice(start, end).join('');
+  const rows: DiffRow[] = [];
+  const distances = others.map(() => 0);
+
+  const pushEqualRow = (start: number, end: number) => {
+    const text = join(baseUnits, start, end);
+    rows.push({
+      changed: false,
+      base: text,
+      cells: alignments.map(alignment => {
+        const cellText = join(alignment.units, alignment.after[start], alignment.before[end]);
+        return { text: cellText, status: 'equal', segments: [{ type: 'equal', text: cellText, changed: false }] };
+      }),
+    });
+  };
+
+  let position = 0;
+  for (const [start, end] of merged) {
+    if (position < start) pushEqualRow(position, start);
+
+    const baseText = join(baseUnits, start, end);
+    rows.push({
+      changed: true,
+      base: baseText,
+      cells: alignments.map((alignment, index) => {
+        const text = join(alignment.units, alignment.before[start], alignment.after[end]);
+        const { segments, distance } = diffWords(baseText, text);
+        distances[index] += distance;
+        return { text, status: cellStatus(baseText, text), segments };
+      }),
+    });
+    position = end;
+  }
+  if (position < baseUnits.length) pushEqualRow(position, baseUnits.length);
+
+  const baseWords = countWords(base);
+  const similarities = others.map((other, index) => {
+    const longest = Math.max(baseWords, countWords(other));
+    return longest === 0 ? 1 : Math.max(0, 1 - distances[index] / longest);
+  });
+
+  return { rows, similarities };
+}
+
+/**
+ * Ähnlichkeit für die Anzeige, z.B. "87 %"
+ */
+export const formatSimilarity = (similarity: number): string => `${Math.round(similarity * 100)} %`;
@@ -0,0 +1,442 @@
+import { PrismaClient, type Prisma, type Dataset as DatasetRow, type DatasetItem as DatasetItemRow, type EvalResult as EvalResultRow, type EvalRun as EvalRunRow } from "@prisma/client";
+import { loadModelCatalog } from "./catalog";
+import { isEvalRunStatus, renderPrompt } from "./datasets";
+import { createMessages, createModelInstance, getDefaultGenerationParams, getModelConfig, parseProviderError, parseTokenUsage } from "./models";
+import { calculateCost, estimatePromptCost } from "./pricing";
+import { checkBudgets, createBudgetGuard, loadBudgetStatuses } from "./spend";
+import { preloadTokenizers } from "./tokenizer";
+import { type CreateEvalRunRequest, type DatasetItem, type DatasetItemInput, type DatasetSummary, type EvalResult, type EvalRunDetails, type EvalRunSummary } from "@/types";
+
+const prisma = new PrismaClient();
+
+/**
+ * Batch-Evaluationen (nur serverseitig verwenden).
+ * Ein Lauf arbeitet alle Kombinationen aus Dataset-Item und Model mit begrenzter Parallelität ab
+ * und speichert jedes Ergebnis sofort. Fehlende Ergebnisse werden beim Fortsetzen nachgeholt.
+ */
+
+// Laufende Evaluationen (ein AbortController pro Lauf).
+// Über globalThis, da Route Handler und Server Actions getrennt gebündelt werden.
+const globalForEvals = globalThis as unknown as { activeEvalRuns?: Map<string, AbortController> };
+const activeEvalRuns = globalForEvals.activeEvalRuns ??= new Map<string, AbortController>();
+
+interface EvalTask {
+  item: DatasetItemRow;
+  model: string;
+  slot: number;
+}
+
+interface EvalRunStats {
+  completed: number;
+  failed: number;
+  cost: number;
+}
+
+/**
+ * Liest die als JSON gespeicherten Models eines Laufs
+ */
+export function parseRunModels(value: string): string[] {
+  try {
+    const models = JSON.parse(value);
+    return Array.isArray(models) ? models.filter((model): model is string => typeof model === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function parseVariables(value: string): Record<string, string> {
+  try {
+    const variables = JSON.parse(value);
+    return variables && typeof variables === 'object' ? variables : {};
+  } catch {
+    return {};
+  }
+}
+
+export function toDatasetItem(row: DatasetItemRow): DatasetItem {
+  return {
+    id: row.id,
+    position: row.position,
+    prompt: row.prompt,
+    variables: parseVariables(row.variables),
+    reference: row.reference,
+  };
+}
+
+export function toEvalResult(row: EvalResultRow): EvalResult {
+  return {
+    id: row.id,
+    itemId: row.itemId,
+    slot: row.slot,
+    model: row.model,
+    content: row.content,
+    tokens: row.inputTokens !== null && row.outputTokens !== null
+      ? {
+        input: row.inputTokens,
+        output: row.outputTokens,
+        total: row.inputTokens + row.outputTokens,
+        ...(row.cacheReadTokens && { cacheRead: row.cacheReadTokens }),
+        ...(row.cacheWriteTokens && { cacheWrite: row.cacheWriteTokens }),
+      }
+      : null,
+    cost: row.cost,
+    priceId: row.priceId,
+    durationMs: row.durationMs,
+    finishReason: row.finishReason,
+    error: row.errorMessage,
+    errorCode: row.errorCode,
+  };
+}
+
+function toEvalRunSummary(
+  run: EvalRunRow & { dataset: DatasetRow & { _count: { items: number } } },
+  stats: EvalRunStats | undefined
+): EvalRunSummary {
+  const models = parseRunModels(run.models);
+
+  return {
+    id: run.id,
+    name: run.name,
+    datasetId: run.datasetId,
+    datasetName: run.dataset.name,
+    models,
+    systemPrompt: run.systemPrompt,
+    concurrency: run.concurrency,
+    status: isEvalRunStatus(run.status) ? run.status : 'failed',
+    error: run.error,
+    total: run.dataset._count.items * models.length,
+    completed: stats?.completed || 0,
+    failed: stats?.failed || 0,
+    cost: stats?.cost || 0,
+    createdAt: run.createdAt,
+    finishedAt: run.finishedAt,
+  };
+}
+
+/**
+ * Fortschritt und Kosten pro Lauf aus den gespeicherten Ergebnissen
+ */
+async function loadRunStats(runIds: string[]): Promise<Map<string, EvalRunStats>> {
+  const [totals, failures] = await Promise.all([
+    prisma.evalResult.groupBy({
+      by: ['runId'],
+      where: { runId: { in: runIds } },
+      _count: { _all: true },
+      _sum: { cost: true },
+    }),
+    prisma.evalResult.groupBy({
+      by: ['runId'],
+      where: { runId: { in: runIds }, errorMessage: { not: null } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const failedByRun = new Map(failures.map(group => [group.runId, group._count._all]));
+
+  return new Map(totals.map(group => [group.runId, {
+    completed: group._count._all,
+    failed: failedByRun.get(group.runId) || 0,
+    cost: group._sum.cost || 0,
+  }]));
+}
+
+// Relationen, die für eine Lauf-Übersicht geladen werden
+const RUN_INCLUDE = {
+  dataset: { include: { _count: { select: { items: true } } } },
+} satisfies Prisma.EvalRunInclude;
+
+/**
+ * Speichert einen importierten Datensatz
+ */
+export async function createDataset(name: string, items: DatasetItemInput[]): Promise<DatasetSummary> {
+  const dataset = await prisma.dataset.create({
+    data: {
+      name,
+      items: {
+        create: items.map((item, position) => ({
+          position,
+          prompt: item.prompt,
+          variables: JSON.stringify(item.variables),
+          reference: item.reference,
+        })),
+      },
+    },
+  });
+
+  return { id: dataset.id, name: dataset.name, itemCount: items.length, createdAt: dataset.createdAt };
+}
+
+export async function listDatasets(): Promise<DatasetSummary[]> {
+  const datasets = await prisma.dataset.findMany({
+    orderBy: { createdAt: 'desc' },
+    include: { _count: { select: { items: true } } },
+  });
+
+  return datasets.map(dataset => ({
+    id: dataset.id,
+    name: dataset.name,
+    itemCount: dataset._count.items,
+    createdAt: dataset.createdAt,
+  }));
+}
+
+/**
+ * Datensatz-Einträge in Reihenfolge (z.B. für die Kostenschätzung vor dem Start)
+ */
+export async function loadDatasetItems(datasetId: string): Promise<DatasetItem[]> {
+  const items = await prisma.datasetItem.findMany({
+    where: { datasetId },
+    orderBy: { position: 'asc' },
+  });
+
+  return items.map(toDatasetItem);
+}
+
+export async function listEvalRuns(): Promise<EvalRunSummary[]> {
+  const runs = await prisma.evalRun.findMany({
+    orderBy: { createdAt: 'desc' },
+    include: RUN_INCLUDE,
+  });
+  const stats = await loadRunStats(runs.map(run => run.id));
+
+  return runs.map(run => toEvalRunSummary(run, stats.get(run.id)));
+}
+
+/**
+ * Legt einen Lauf an und startet ihn sofort
+ */
+export async function createEvalRun(request: CreateEvalRunRequest & { name: string }): Promise<string> {
+  const run = await prisma.evalRun.create({
+    data: {
+      datasetId: request.datasetId,
+      name: request.name,
+      models: JSON.stringify(request.models),
+      systemPrompt: request.systemPrompt?.trim() || null,
+      concurrency: request.concurrency,
+      status: 'running',
+    },
+  });
+
+  startEvalWorker(run.id);
+  return run.id;
+}
+
+export async function loadEvalRun(runId: string): Promise<EvalRunDetails | null> {
+  const run = await prisma.evalRun.findUnique({
+    where: { id: runId },
+    include: {
+      ...RUN_INCLUDE,
+      results: { orderBy: { slot: 'asc' } },
+    },
+  });
+  if (!run) return null;
+
+  const [items, stats] = await Promise.all([
+    loadDatasetItems(run.datasetId),
+    loadRunStats([run.id]),
+  ]);
+
+  return {
+    run: toEvalRunSummary(run, stats.get(run.id)),
+    items,
+    results: run.results.map(toEvalResult),
+  };
+}
+
+/**
+ * Prüft den Worst Case der offenen Anfragen (Prompt + max. Output-Tokens) gegen die Budgets
+ */
+function checkTaskBudgets(tasks: EvalTask[], systemPrompt: string | null) {
+  return checkBudgets(tasks.map(({ item, model }) => ({
+    model,
+    worstCaseCost: estimatePromptCost(
+      renderPrompt(item.prompt, parseVariables(item.variables)),
+      model,
+      getDefaultGenerationParams(model).maxTokens,
+      systemPrompt
+    ).totalCost,
+  })));
+}
+
+/**
+ * Führt eine einzelne Anfrage aus und speichert das Ergebnis (auch Provider-Fehler).
+ * Abgebrochene Anfragen werden nicht gespeichert und beim Fortsetzen wiederholt.
+ * Liefert die Kosten der gespeicherten Anfrage.
+ */
+async function executeEvalTask(
+  runId: string,
+  { item, model, slot }: EvalTask,
+  systemPrompt: string | null,
+  signal: AbortSignal
+): Promise<number> {
+  const prompt = renderPrompt(item.prompt, parseVariables(item.variables));
+  const startedAt = Date.now();
+  let result: Omit<EvalResultRow, 'id' | 'runId' | 'itemId' | 'slot' | 'model' | 'createdAt'>;
+
+  try {
+    const config = getModelConfig(model);
+    if (!config) {
+      throw new Error(`Unbekanntes Model: ${model}`);
+    }
+
+    const response = await createModelInstance(model).invoke(createMessages(prompt, systemPrompt), { signal });
+    const tokenUsage = parseTokenUsage(response.usage_metadata || {}, config.provider);
+
+    // Preis, der zum Start der Anfrage gültig war
+    const cost = calculateCost(tokenUsage, model, new Date(startedAt));
+
+    result = {
+      content: typeof response.content === 'string' ? response.content : response.text,
+      inputTokens: tokenUsage.input,
+      outputTokens: tokenUsage.output,
+      cacheReadTokens: tokenUsage.cacheRead || null,
+      cacheWriteTokens: tokenUsage.cacheWrite || null,
+      cost: cost.totalCost,
+      priceId: cost.priceId ?? null,
+      durationMs: Date.now() - startedAt,
+      finishReason: response.response_metadata?.finish_reason || 'stop',
+      errorMessage: null,
+      errorCode: null,
+    };
+  } catch (error) {
+    if (signal.aborted) return 0;
+
+    const providerError = parseProviderError(error);
+    result = {
+      content: null,
+      inputTokens: null,
+      outputTokens: null,
+      cacheReadTokens: null,
+      cacheWriteTokens: null,
+      cost: null,
+      priceId: null,
+      durationMs: Date.now() - startedAt,
+      finishReason: 'error',
+      errorMessage: providerError.message,
+      errorCode: providerError.code,
+    };
+  }
+
+  await prisma.evalResult.upsert({
+    where: { runId_itemId_slot: { runId, itemId: item.id, slot } },
+    create: { runId, itemId: item.id, slot, model, ...result },
+    update: result,
+  });
+
+  return result.cost || 0;
+}
+
+/**
+ * Arbeitet alle noch fehlenden Ergebnisse eines Laufs ab
+ */
+async function executeEvalRun(runId: string, signal: AbortSignal): Promise<void> {
+  const run = await prisma.evalRun.findUnique({
+    where: { id: runId },
+    include: {
+      dataset: { include: { items: { orderBy: { position: 'asc' } } } },
+      results: { select: { itemId: true, slot: true } },
+    },
+  });
+  if (!run || run.status !== 'running') return;
+
+  await loadModelCatalog();
+  const models = parseRunModels(run.models);
+  await preloadTokenizers(models);
+
+  const done = new Set(run.results.map(result => `${result.itemId}:${result.slot}`));
+  const queue: EvalTask[] = run.dataset.items
+    .flatMap(item => models.map((model, slot) => ({ item, model, slot })))
+    .filter(task => !done.has(`${task.item.id}:${task.slot}`));
+
+  // Budgets bei jedem Start prüfen, auch beim Fortsetzen (z.B. nach einem Server-Neustart)
+  const budgetCheck = await checkTaskBudgets(queue, run.systemPrompt);
+  if (budgetCheck.blocked) {
+    throw new Error(`Budget überschritten – ${budgetCheck.blocked}`);
+  }
+
+  // Hard-Caps wie bei interaktiven Vergleichen: Kosten pro Model nach jeder Anfrage melden,
+  // Models über dem Limit werden abgebrochen und ihre restlichen Anfragen übersprungen
+  const modelControllers = models.map(() => new AbortController());
+  const budgetGuard = createBudgetGuard(await loadBudgetStatuses(), models, modelControllers);
+  const modelCosts = models.map(() => 0);
+
+  // Feste Anzahl Worker, die sich die nächste Aufgabe aus der gemeinsamen Queue holen
+  const worker = async () => {
+    while (!signal.aborted) {
+      const task = queue.shift();
+      if (!task) return;
+
+      const modelSignal = modelControllers[task.slot].signal;
+      if (modelSignal.aborted) continue;
+
+      modelCosts[task.slot] += await executeEvalTask(run.id, task, run.systemPrompt, AbortSignal.any([signal, modelSignal]));
+      budgetGuard.track(task.slot, modelCosts[task.slot]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(run.concurrency, queue.length) }, worker));
+
+  if (!signal.aborted && modelControllers.some(controller => controller.signal.aborted)) {
+    throw new Error('Hard-Cap eines Budgets erreicht – offene Anfragen werden beim Fortsetzen nachgeholt');
+  }
+
+  if (!signal.aborted) {
+    // Nur abschließen, wenn der Lauf nicht inzwischen pausiert oder abgebrochen wurde
+    await prisma.evalRun.updateMany({
+      where: { id: runId, status: 'running' },
+      data: { status: 'completed', finishedAt: new Date() },
+    });
+  }
+}
+
+/**
+ * Startet die Abarbeitung eines Laufs im Hintergrund (no-op, falls er bereits läuft)
+ */
+export function startEvalWorker(runId: string): void {
+  if (activeEvalRuns.has(runId)) return;
+
+  const controller = new AbortController();
+  activeEvalRuns.set(runId, controller);
+
+  executeEvalRun(runId, controller.signal)
+    .catch(async error => {
+      console.error('Fehler im Evaluationslauf:', error);
+      await prisma.evalRun.update({
+        where: { id: runId },
+        data: {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unbekannter Fehler',
+          finishedAt: new Date(),
+        },
+      }).catch(() => undefined);
+    })
+    .finally(() => {
+      if (activeEvalRuns.get(runId) === controller) {
+        activeEvalRuns.delete(runId);
+      }
+    });
+}
+
+/**
+ * Bricht laufende Anfragen eines Laufs ab (Status setzt der Aufrufer)
+ */
+export function stopEvalWorker(runId: string): void {
+  activeEvalRuns.get(runId)?.abort();
+  activeEvalRuns.delete(runId);
+}
+
+/**
+ * Setzt nach einem Server-Neustart alle Läufe fort, die noch als laufend markiert sind
+ * (Budgets werden dabei wie bei jedem Start erneut geprüft)
+ */
+export async function resumeEvalRuns(): Promise<void> {
+  try {
+    const runs = await prisma.evalRun.findMany({
+      where: { status: 'running' },
+      select: { id: true },
+    });
+
+    runs.forEach(run => startEvalWorker(run.id));
+  } catch (error) {
+    console.error('Fehler beim Fortsetzen der Evaluationsläufe:', error);
+  }
+}
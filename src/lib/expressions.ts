@@ -0,0 +1,43 @@
+import vm from "node:vm";
+import { type AssertionSandbox } from "./assertions";
+
+/**
+ * Ausführung von Nutzer-Code aus Assertions (nur serverseitig verwenden): JS-Ausdrücke und Regex.
+ * Jeder Aufruf läuft in einem frischen Kontext ohne Node-Globals, ohne eval/Function und ohne WebAssembly;
+ * Microtasks laufen innerhalb des Zeitlimits, damit Promise-Ketten es nicht umgehen.
+ * Ein- und Ausgaben sind ausschließlich Strings, damit keine Objekte des Host-Realms in den Kontext gelangen.
+ */
+
+export const EXPRESSION_TIMEOUT_MS = 100;
+
+function runInSandbox(code: string, globals: Record<string, string | undefined>): unknown {
+  const context = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: 'afterEvaluate',
+  });
+  Object.assign(context, globals);
+
+  return vm.runInContext(code, context, { timeout: EXPRESSION_TIMEOUT_MS });
+}
+
+// Ergebnis wird im Kontext serialisiert: [truthy, JSON des Werts]
+const EXPRESSION_WRAPPER = (expression: string) => `(function () {
+  const json = jsonText === undefined ? undefined : JSON.parse(jsonText);
+  const result = (${expression});
+  return JSON.stringify([Boolean(result), JSON.stringify(result) === undefined ? 'undefined' : JSON.stringify(result)]);
+})()`;
+
+export const assertionSandbox: AssertionSandbox = {
+  runExpression: (expression, output, jsonText) => {
+    const raw = runInSandbox(EXPRESSION_WRAPPER(expression), { output, jsonText });
+    if (typeof raw !== 'string') {
+      throw new Error('Ungültiges Ergebnis');
+    }
+
+    const [passed, result] = JSON.parse(raw);
+    return { passed: passed === true, result: String(result) };
+  },
+
+  testRegex: (pattern, flags, text) =>
+    runInSandbox('new RegExp(pattern, flags).test(text)', { pattern, flags, text }) === true,
+};
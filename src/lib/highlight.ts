@@ -0,0 +1,32 @@
+/**
+ * Treffer-Markierung in Such-Snippets (client- und serverseitig nutzbar).
+ * Steuerzeichen statt HTML, damit Snippets nie als Markup interpretiert werden.
+ */
+
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export interface HighlightPart {
+  text: string;
+  highlighted: boolean;
+}
+
+// Zerlegt ein Snippet in normale und markierte Abschnitte
+export function splitHighlights(snippet: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+
+  for (const segment of snippet.split(HIGHLIGHT_START)) {
+    const endIndex = segment.indexOf(HIGHLIGHT_END);
+    if (endIndex === -1) {
+      if (segment) parts.push({ text: segment, highlighted: false });
+      continue;
+    }
+
+    const match = segment.slice(0, endIndex);
+    const rest = segment.slice(endIndex + HIGHLIGHT_END.length);
+    if (match) parts.push({ text: match, highlighted: true });
+    if (rest) parts.push({ text: rest, highlighted: false });
+  }
+
+  return parts;
+}
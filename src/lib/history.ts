@@ -1,5 +1,10 @@
-import { PrismaClient } from "@prisma/client";
-import { type PromptHistory, type ServerActionResult } from "@/types";
+import { PrismaClient, Prisma } from "@prisma/client";
+import { matchesSearch, parseSearchQuery, searchPrompts } from "@/lib/search";
+import { parseAssertionResults, parseAssertions } from "@/lib/assertions";
+import { toJudgment } from "@/lib/judgments";
+import { DATE_PATTERN } from "@/lib/analytics";
+import { toTemplateReference } from "@/lib/templateLibrary";
+import { type HistoryFilter, type HistoryPage, type PromptHistory, type ServerActionResult } from "@/types";
 
 const prisma = new PrismaClient();
 
@@ -7,48 +12,241 @@ const prisma = new PrismaClient();
  * Erweiterte History-Utilities
  */
 
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 32;
+const MAX_NOTE_LENGTH = 10000;
+
+// Relationen, die für einen History-Eintrag geladen werden
+const HISTORY_INCLUDE = {
+  responses: { orderBy: { slot: 'asc' } },
+  vote: true,
+  // Jüngste erfolgreiche Bewertung (abgebrochene Läufe zählen nur für die Kosten)
+  judgments: { where: { errorMessage: null }, orderBy: { createdAt: 'desc' }, take: 1 },
+  templateVersion: { include: { template: true } },
+} satisfies Prisma.PromptInclude;
+
+/**
+ * Liest die als JSON gespeicherten Tags eines Prompts
+ */
+export function parseTags(value: string | null): string[] {
+  if (!value) return [];
+
+  try {
+    const tags = JSON.parse(value);
+    return Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
 /**
- * Lädt History mit Paginierung
+ * Bereinigt Tags: getrimmt, ohne Duplikate (Groß-/Kleinschreibung egal), begrenzt
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+
+  return tags
+    .map(tag => tag.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH))
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_TAGS);
+}
+
+/**
+ * Wandelt eine Prompt-Zeile (inkl. Responses, Vote, Judge-Bewertung und Vorlage) in einen History-Eintrag um
+ */
+export function toPromptHistory(
+  { templateVersion, templateVariables, judgments, ...item }: Prisma.PromptGetPayload<{ include: typeof HISTORY_INCLUDE }>
+): PromptHistory {
+  return {
+    ...item,
+    tags: parseTags(item.tags),
+    assertions: parseAssertions(item.assertions),
+    responses: item.responses.map(response => ({
+      ...response,
+      assertionResults: parseAssertionResults(response.assertionResults),
+    })),
+    judgment: judgments[0] ? toJudgment(judgments[0]) : null,
+    template: templateVersion && toTemplateReference(templateVersion, templateVariables),
+    createdAt: item.createdAt,
+  };
+}
+
+// Erfolgreich = mindestens eine Antwort und alle Slots mit Inhalt
+const IS_SUCCESSFUL = Prisma.sql`(
+  EXISTS (SELECT 1 FROM "Response" r WHERE r."promptId" = p."id")
+  AND NOT EXISTS (SELECT 1 FROM "Response" r WHERE r."promptId" = p."id" AND (r."content" IS NULL OR r."content" = ''))
+)`;
+
+// Datum (YYYY-MM-DD) als Tagesbeginn in Server-Zeit
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`);
+
+// Gesamtkosten eines Prompts (Summe aller Slots, NULL ohne Responses)
+const PROMPT_COST = Prisma.sql`(SELECT SUM(COALESCE(r."cost", 0)) FROM "Response" r WHERE r."promptId" = p."id")`;
+
+const hasResponseFrom = (models: string[]) =>
+  Prisma.sql`EXISTS (SELECT 1 FROM "Response" r WHERE r."promptId" = p."id" AND r."model" IN (${Prisma.join(models)}))`;
+
+/**
+ * WHERE-Bedingungen auf den Prompt "p" aus model:-Angaben der Suche und Filtern.
+ * Alles wird in SQL ausgewertet, damit nie ID-Listen als Parameter übergeben werden.
+ */
+function buildHistoryConditions(searchModels: string[], filter: HistoryFilter = {}): Prisma.Sql[] {
+  const conditions: Prisma.Sql[] = [];
+
+  if (searchModels.length > 0) {
+    conditions.push(hasResponseFrom(searchModels));
+  }
+
+  if (filter.favoritesOnly) {
+    conditions.push(Prisma.sql`p."isFavorite" = 1`);
+  }
+
+  // Tags liegen als JSON-Array vor: nach dem exakten JSON-String des Tags suchen
+  if (filter.tag) {
+    conditions.push(Prisma.sql`instr(p."tags", ${JSON.stringify(filter.tag)}) > 0`);
+  }
+
+  if (filter.status === 'successful') {
+    conditions.push(IS_SUCCESSFUL);
+  } else if (filter.status === 'failed') {
+    conditions.push(Prisma.sql`NOT ${IS_SUCCESSFUL}`);
+  }
+
+  if (filter.model) {
+    conditions.push(hasResponseFrom([filter.model]));
+  }
+
+  if (filter.templateId) {
+    conditions.push(Prisma.sql`p."templateVersionId" IN (SELECT "id" FROM "PromptTemplateVersion" WHERE "templateId" = ${filter.templateId})`);
+  }
+
+  if (filter.dateFrom && DATE_PATTERN.test(filter.dateFrom)) {
+    conditions.push(Prisma.sql`p."createdAt" >= ${startOfDay(filter.dateFrom).getTime()}`);
+  }
+
+  // Bis-Datum inklusive: alles vor dem Beginn des Folgetags
+  if (filter.dateTo && DATE_PATTERN.test(filter.dateTo)) {
+    const end = startOfDay(filter.dateTo);
+    end.setDate(end.getDate() + 1);
+    conditions.push(Prisma.sql`p."createdAt" < ${end.getTime()}`);
+  }
+
+  if (filter.minCost !== undefined) {
+    conditions.push(Prisma.sql`${PROMPT_COST} >= ${filter.minCost}`);
+  }
+
+  if (filter.maxCost !== undefined) {
+    conditions.push(Prisma.sql`${PROMPT_COST} <= ${filter.maxCost}`);
+  }
+
+  return conditions;
+}
+
+const toCondition = (conditions: Prisma.Sql[]): Prisma.Sql =>
+  conditions.length > 0 ? Prisma.join(conditions, ' AND ') : Prisma.sql`1 = 1`;
+
+// SQLite liefert COUNT/SUM je nach Wert als BigInt
+const toNumber = (value: unknown): number =>
+  typeof value === 'bigint' ? Number(value) : Number(value || 0);
+
+/**
+ * Lädt die Einträge einer Seite in der angegebenen Reihenfolge
+ */
+async function loadPromptsInOrder(ids: string[]): Promise<Map<string, PromptHistory>> {
+  const prompts = await prisma.prompt.findMany({
+    where: { id: { in: ids } },
+    include: HISTORY_INCLUDE,
+  });
+
+  return new Map(prompts.map(prompt => [prompt.id, toPromptHistory(prompt)]));
+}
+
+// Ohne Volltextsuche: neueste Einträge zuerst
+async function findLatestPage(where: Prisma.Sql, offset: number, limit: number): Promise<PromptHistory[]> {
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT p."id" AS "id" FROM "Prompt" p
+    WHERE ${where}
+    ORDER BY p."createdAt" DESC
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+  const prompts = await loadPromptsInOrder(rows.map(row => row.id));
+
+  return rows.flatMap(row => prompts.get(row.id) || []);
+}
+
+// Mit Volltextsuche: nach Relevanz sortiert, Snippets der Treffer anhängen
+async function findRankedPage(ftsQuery: string, where: Prisma.Sql, offset: number, limit: number): Promise<PromptHistory[]> {
+  const matches = await searchPrompts(ftsQuery, where, offset, limit);
+  const prompts = await loadPromptsInOrder(matches.map(match => match.promptId));
+
+  return matches.flatMap(match => {
+    const prompt = prompts.get(match.promptId);
+    return prompt ? [{ ...prompt, snippets: match.snippets }] : [];
+  });
+}
+
+/**
+ * Anzahl und Summen aller Treffer
+ */
+async function summarizeHistory(where: Prisma.Sql) {
+  const [[counts], [sums]] = await Promise.all([
+    prisma.$queryRaw<Array<Record<string, unknown>>>`
+      SELECT COUNT(*) AS "total" FROM "Prompt" p WHERE ${where}
+    `,
+    prisma.$queryRaw<Array<Record<string, unknown>>>`
+      SELECT SUM(r."cost") AS "cost",
+             SUM(r."inputTokens") AS "inputTokens",
+             SUM(r."outputTokens") AS "outputTokens",
+             AVG(r."durationMs") AS "averageDurationMs"
+      FROM "Response" r
+      JOIN "Prompt" p ON p."id" = r."promptId"
+      WHERE ${where}
+    `,
+  ]);
+
+  return {
+    total: toNumber(counts?.total),
+    totalCost: toNumber(sums?.cost),
+    totalTokens: toNumber(sums?.inputTokens) + toNumber(sums?.outputTokens),
+    averageDurationMs: sums?.averageDurationMs === null || sums?.averageDurationMs === undefined
+      ? null
+      : Math.round(toNumber(sums.averageDurationMs)),
+  };
+}
+
+/**
+ * Lädt History mit Paginierung (bei Suche nach Relevanz sortiert)
  */
 export async function getPromptHistoryPaginated(
   page: number = 1,
   limit: number = 20,
-  search?: string
-): Promise<ServerActionResult<{ items: PromptHistory[]; total: number; hasMore: boolean }>> {
+  search?: string,
+  filter: HistoryFilter = {}
+): Promise<ServerActionResult<HistoryPage>> {
   try {
     const offset = (page - 1) * limit;
-    
-    const whereClause = search 
-      ? {
-          OR: [
-            { content: { contains: search } },
-            { response1: { contains: search } },
-            { response2: { contains: search } },
-          ],
-        }
-      : {};
-
-    const [items, total] = await Promise.all([
-      prisma.prompt.findMany({
-        where: whereClause,
-        orderBy: { createdAt: 'desc' },
-        skip: offset,
-        take: limit,
-      }),
-      prisma.prompt.count({ where: whereClause }),
+    const query = parseSearchQuery(search?.trim() || '');
+    const conditions = buildHistoryConditions(query.models, filter);
+    const where = toCondition(conditions);
+
+    const [items, summary] = await Promise.all([
+      query.ftsQuery
+        ? findRankedPage(query.ftsQuery, where, offset, limit)
+        : findLatestPage(where, offset, limit),
+      summarizeHistory(query.ftsQuery ? toCondition([matchesSearch(query.ftsQuery), ...conditions]) : where),
     ]);
 
-    const hasMore = offset + items.length < total;
-
     return {
       success: true,
       data: {
-        items: items.map(item => ({
-          ...item,
-          createdAt: item.createdAt,
-        })),
-        total,
-        hasMore,
+        items,
+        ...summary,
+        hasMore: offset + items.length < summary.total,
       },
     };
   } catch (error) {
@@ -72,24 +270,14 @@ export async function searchHistory(
       return { success: true, data: [] };
     }
 
-    const results = await prisma.prompt.findMany({
-      where: {
-        OR: [
-          { content: { contains: query } },
-          { response1: { contains: query } },
-          { response2: { contains: query } },
-        ],
-      },
-      orderBy: { createdAt: 'desc' },
-      take: limit,
-    });
+    const result = await getPromptHistoryPaginated(1, limit, query);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Fehler bei der Suche' };
+    }
 
     return {
       success: true,
-      data: results.map(item => ({
-        ...item,
-        createdAt: item.createdAt,
-      })),
+      data: result.data.items,
     };
   } catch (error) {
     console.error('Fehler bei der Suche:', error);
@@ -107,6 +295,7 @@ export async function getPromptById(id: string): Promise<ServerActionResult<Prom
   try {
     const prompt = await prisma.prompt.findUnique({
       where: { id },
+      include: HISTORY_INCLUDE,
     });
 
     if (!prompt) {
@@ -118,10 +307,7 @@ export async function getPromptById(id: string): Promise<ServerActionResult<Prom
 
     return {
       success: true,
-      data: {
-        ...prompt,
-        createdAt: prompt.createdAt,
-      },
+      data: toPromptHistory(prompt),
     };
   } catch (error) {
     console.error('Fehler beim Laden des Prompts:', error);
@@ -167,35 +353,62 @@ export async function getHistoryStatistics(): Promise<ServerActionResult<{
   averageCost: number;
   mostUsedModels: { model: string; count: number }[];
   totalTokens: number;
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  averageTtftMs: number | null;
+  averageDurationMs: number | null;
+  errorCount: number;
+  errorsByCode: { code: string; count: number }[];
 }>> {
   try {
     const [
       totalPrompts,
-      allPrompts,
+      allResponses,
     ] = await Promise.all([
       prisma.prompt.count(),
-      prisma.prompt.findMany({
+      prisma.response.findMany({
         select: {
-          cost1: true,
-          cost2: true,
-          model1: true,
-          model2: true,
+          cost: true,
+          model: true,
+          inputTokens: true,
+          outputTokens: true,
+          ttftMs: true,
+          durationMs: true,
+          finishReason: true,
+          errorCode: true,
         },
       }),
     ]);
 
-    // Kosten-Berechnungen
+    // Kosten-, Token- und Laufzeit-Berechnungen
     let totalCost = 0;
+    let totalInputTokens = 0;
+    let totalOutputTokens = 0;
     const modelUsage: Record<string, number> = {};
-
-    allPrompts.forEach(prompt => {
-      if (prompt.cost1) totalCost += prompt.cost1;
-      if (prompt.cost2) totalCost += prompt.cost2;
+    const errorCodes: Record<string, number> = {};
+    const ttfts: number[] = [];
+    const durations: number[] = [];
+    let errorCount = 0;
+
+    allResponses.forEach(response => {
+      if (response.cost) totalCost += response.cost;
+      totalInputTokens += response.inputTokens || 0;
+      totalOutputTokens += response.outputTokens || 0;
+      if (response.ttftMs !== null) ttfts.push(response.ttftMs);
+      if (response.durationMs !== null) durations.push(response.durationMs);
+
+      if (response.finishReason === 'error') {
+        errorCount++;
+        const code = response.errorCode || 'unbekannt';
+        errorCodes[code] = (errorCodes[code] || 0) + 1;
+      }
       
-      modelUsage[prompt.model1] = (modelUsage[prompt.model1] || 0) + 1;
-      modelUsage[prompt.model2] = (modelUsage[prompt.model2] || 0) + 1;
+      modelUsage[response.model] = (modelUsage[response.model] || 0) + 1;
     });
 
+    const average = (values: number[]) =>
+      values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
     const averageCost = totalPrompts > 0 ? totalCost / totalPrompts : 0;
 
     // Meist genutzte Models
@@ -211,7 +424,15 @@ export async function getHistoryStatistics(): Promise<ServerActionResult<{
         totalCost: parseFloat(totalCost.toFixed(6)),
         averageCost: parseFloat(averageCost.toFixed(6)),
         mostUsedModels,
-        totalTokens: 0, // TODO: Token-Tracking hinzufügen wenn verfügbar
+        totalTokens: totalInputTokens + totalOutputTokens,
+        totalInputTokens,
+        totalOutputTokens,
+        averageTtftMs: average(ttfts),
+        averageDurationMs: average(durations),
+        errorCount,
+        errorsByCode: Object.entries(errorCodes)
+          .map(([code, count]) => ({ code, count }))
+          .sort((a, b) => b.count - a.count),
       },
     };
   } catch (error) {
@@ -231,6 +452,7 @@ export async function exportHistory(
 ): Promise<ServerActionResult<string>> {
   try {
     const history = await prisma.prompt.findMany({
+      include: { responses: { orderBy: { slot: 'asc' } } },
       orderBy: { createdAt: 'desc' },
     });
 
@@ -242,21 +464,20 @@ export async function exportHistory(
     }
 
     if (format === 'csv') {
-      const headers = 'ID,Created,Prompt,Model1,Model2,Response1,Response2,Cost1,Cost2\n';
-      const rows = history.map(item => {
+      // Eine Zeile pro Antwort (Slot)
+      const headers = 'ID,Created,Prompt,Slot,Model,Response,Cost\n';
+      const rows = history.flatMap(item => item.responses.map(response => {
         const row = [
           item.id,
           item.createdAt.toISOString(),
           `"${item.content.replace(/"/g, '""')}"`,
-          item.model1,
-          item.model2,
-          `"${(item.response1 || '').replace(/"/g, '""')}"`,
-          `"${(item.response2 || '').replace(/"/g, '""')}"`,
-          item.cost1 || 0,
-          item.cost2 || 0,
+          response.slot + 1,
+          response.model,
+          `"${(response.content || '').replace(/"/g, '""')}"`,
+          response.cost || 0,
         ].join(',');
         return row;
-      }).join('\n');
+      })).join('\n');
 
       return {
         success: true,
@@ -296,10 +517,7 @@ export async function cleanupHistory(options: {
 
     if (options.removeErrors) {
       conditions.push({
-        AND: [
-          { response1: null },
-          { response2: null },
-        ],
+        responses: { every: { content: null } },
       });
     }
 
@@ -345,22 +563,111 @@ export async function cleanupHistory(options: {
 }
 
 /**
- * Favoriten-Feature (erfordert Schema-Update)
+ * Markiert einen Eintrag als Favorit bzw. entfernt die Markierung
  */
 export async function toggleFavorite(id: string): Promise<ServerActionResult<boolean>> {
   try {
-    // Note: Dies erfordert ein "isFavorite" Feld im Schema
-    // Für jetzt als Platzhalter implementiert
-    console.log(`Favoriten-Toggle für ${id} - Feature noch nicht implementiert`);
-    
+    const prompt = await prisma.prompt.findUnique({
+      where: { id },
+      select: { isFavorite: true },
+    });
+
+    if (!prompt) {
+      return { success: false, error: 'Prompt nicht gefunden' };
+    }
+
+    const updated = await prisma.prompt.update({
+      where: { id },
+      data: { isFavorite: !prompt.isFavorite },
+    });
+
     return {
-      success: false,
-      error: 'Favoriten-Feature erfordert Schema-Update',
+      success: true,
+      data: updated.isFavorite,
     };
   } catch (error) {
+    console.error('Fehler beim Setzen des Favoriten:', error);
     return {
       success: false,
       error: 'Fehler beim Setzen des Favoriten',
     };
   }
 }
+
+/**
+ * Ersetzt die Tags eines Eintrags (liefert die bereinigten Tags zurück)
+ */
+export async function updateTags(id: string, tags: string[]): Promise<ServerActionResult<string[]>> {
+  try {
+    const normalized = normalizeTags(tags);
+
+    await prisma.prompt.update({
+      where: { id },
+      data: { tags: JSON.stringify(normalized) },
+    });
+
+    return {
+      success: true,
+      data: normalized,
+    };
+  } catch (error) {
+    console.error('Fehler beim Speichern der Tags:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Speichern der Tags',
+    };
+  }
+}
+
+/**
+ * Speichert die Notiz (Markdown) eines Eintrags, leere Notiz entfernt sie
+ */
+export async function updateNote(id: string, note: string): Promise<ServerActionResult<string | null>> {
+  try {
+    if (note.length > MAX_NOTE_LENGTH) {
+      return { success: false, error: `Notiz darf höchstens ${MAX_NOTE_LENGTH} Zeichen lang sein` };
+    }
+
+    const updated = await prisma.prompt.update({
+      where: { id },
+      data: { note: note.trim() || null },
+    });
+
+    return {
+      success: true,
+      data: updated.note,
+    };
+  } catch (error) {
+    console.error('Fehler beim Speichern der Notiz:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Speichern der Notiz',
+    };
+  }
+}
+
+/**
+ * Alle vergebenen Tags (für Filter und Autovervollständigung)
+ */
+export async function getAllTags(): Promise<ServerActionResult<string[]>> {
+  try {
+    const prompts = await prisma.prompt.findMany({
+      where: { NOT: { tags: '[]' } },
+      select: { tags: true },
+    });
+
+    const tags = [...new Set(prompts.flatMap(prompt => parseTags(prompt.tags)))]
+      .sort((a, b) => a.localeCompare(b, 'de'));
+
+    return {
+      success: true,
+      data: tags,
+    };
+  } catch (error) {
+    console.error('Fehler beim Laden der Tags:', error);
+    return {
+      success: false,
+      error: 'Fehler beim Laden der Tags',
+    };
+  }
+}
@@ -0,0 +1,138 @@
+import { type JudgeScore } from "@/types";
+
+/**
+ * LLM-as-Judge: Prompt-Aufbau und Auswertung der Judge-Antworten (client- und serverseitig nutzbar).
+ * Jeder Vergleich wird in zwei Reihenfolgen bewertet, damit die Position einer Antwort das Ergebnis nicht verzerrt.
+ */
+
+export const DEFAULT_JUDGE_RUBRIC = [
+  '- Korrektheit: Sind die Aussagen sachlich richtig?',
+  '- Vollständigkeit: Wird die Frage vollständig beantwortet?',
+  '- Klarheit: Ist die Antwort verständlich und gut strukturiert?',
+  '- Prägnanz: Kommt die Antwort ohne unnötige Längen aus?',
+].join('\n');
+
+export const MAX_RUBRIC_LENGTH = 4000;
+export const JUDGE_SCORE_MIN = 1;
+export const JUDGE_SCORE_MAX = 10;
+
+// Max. Output-Tokens pro Judge-Aufruf (Begründungen bleiben kurz)
+export const JUDGE_MAX_TOKENS = 1500;
+
+export interface JudgePassResult {
+  scores: Array<{ score: number; reasoning: string }>; // in Anzeigereihenfolge
+  verdict: string;
+}
+
+/**
+ * Reihenfolgen der Bewertungsdurchläufe (Position -> Index der Antwort): original und umgekehrt
+ */
+export function getJudgeOrders(answerCount: number): number[][] {
+  const order = Array.from({ length: answerCount }, (_, index) => index);
+  return [order, [...order].reverse()];
+}
+
+/**
+ * System- und User-Prompt für einen Durchlauf. Die Antworten sind nur nummeriert,
+ * damit der Judge die Models nicht erkennt.
+ */
+export function buildJudgePrompt(
+  prompt: string,
+  rubric: string,
+  answers: string[]
+): { systemPrompt: string; userPrompt: string } {
+  const systemPrompt = [
+    'Du bist ein unparteiischer Gutachter und bewertest Antworten verschiedener KI-Assistenten auf dieselbe Anfrage.',
+    `Bewerte jede Antwort unabhängig anhand der Kriterien mit einer ganzen Zahl von ${JUDGE_SCORE_MIN} (schlecht) bis ${JUDGE_SCORE_MAX} (hervorragend).`,
+    'Die Reihenfolge der Antworten sagt nichts über ihre Qualität aus, ebenso wenig ihre Länge.',
+    '',
+    'Kriterien:',
+    rubric.trim(),
+    '',
+    'Antworte ausschließlich mit JSON in diesem Format:',
+    '{"scores": [{"answer": 1, "score": 7, "reasoning": "..."}], "verdict": "..."}',
+    'Gib für jede Antwort genau einen Eintrag in "scores" an. "verdict" fasst in 1-3 Sätzen zusammen, welche Antwort am besten ist und warum.',
+  ].join('\n');
+
+  const userPrompt = [
+    '# Anfrage',
+    prompt,
+    ...answers.flatMap((answer, index) => ['', `# Antwort ${index + 1}`, answer || '(leer)']),
+  ].join('\n');
+
+  return { systemPrompt, userPrompt };
+}
+
+/**
+ * Liest das JSON-Objekt aus einer Judge-Antwort (umgebender Text oder Codeblock wird ignoriert)
+ */
+export function parseJudgeOutput(output: string, answerCount: number): JudgePassResult {
+  const start = output.indexOf('{');
+  const end = output.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('Judge-Antwort enthält kein JSON');
+  }
+
+  const parsed = JSON.parse(output.slice(start, end + 1));
+  const entries: any[] = Array.isArray(parsed?.scores) ? parsed.scores : [];
+
+  const scores = Array.from({ length: answerCount }, (_, index) => {
+    const entry = entries.find(candidate => Number(candidate?.answer) === index + 1) ?? entries[index];
+    const score = Math.round(Number(entry?.score));
+    if (!Number.isFinite(score)) {
+      throw new Error(`Judge-Antwort ohne Bewertung für Antwort ${index + 1}`);
+    }
+
+    return {
+      score: Math.min(JUDGE_SCORE_MAX, Math.max(JUDGE_SCORE_MIN, score)),
+      reasoning: typeof entry.reasoning === 'string' ? entry.reasoning.trim() : '',
+    };
+  });
+
+  return { scores, verdict: typeof parsed.verdict === 'string' ? parsed.verdict.trim() : '' };
+}
+
+// Index der eindeutig höchsten Wertung, null bei Gleichstand
+const findWinner = (scores: number[]): number | null => {
+  const best = Math.max(...scores);
+  const leaders = scores.flatMap((score, index) => score === best ? [index] : []);
+  return leaders.length === 1 ? leaders[0] : null;
+};
+
+/**
+ * Führt die Durchläufe zusammen: Wertungen zurück auf Slots abbilden und mitteln.
+ * orders enthält Indizes in entries (siehe getJudgeOrders).
+ */
+export function combineJudgePasses(
+  entries: Array<{ slot: number; model: string }>,
+  orders: number[][],
+  passes: JudgePassResult[]
+): { scores: JudgeScore[]; winnerSlot: number | null; consistent: boolean } {
+  const scores = entries.map(({ slot, model }, index) => {
+    const results = passes.map((pass, passIndex) => pass.scores[orders[passIndex].indexOf(index)]);
+    const passScores = results.map(result => result.score);
+
+    return {
+      slot,
+      model,
+      score: passScores.reduce((sum, score) => sum + score, 0) / passScores.length,
+      passScores,
+      reasoning: results.map(result => result.reasoning),
+    };
+  });
+
+  const passWinners = passes.map((_, passIndex) => findWinner(scores.map(score => score.passScores[passIndex])));
+  const winner = findWinner(scores.map(score => score.score));
+
+  return {
+    scores,
+    winnerSlot: winner === null ? null : entries[winner].slot,
+    consistent: passWinners.every(passWinner => passWinner === passWinners[0]),
+  };
+}
+
+/**
+ * Wertung für die Anzeige, z.B. "7.5 / 10"
+ */
+export const formatJudgeScore = (score: number): string =>
+  `${Number.isInteger(score) ? score : score.toFixed(1)} / ${JUDGE_SCORE_MAX}`;
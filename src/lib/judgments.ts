@@ -0,0 +1,178 @@
+import { PrismaClient, type Judgment as JudgmentRow, type Response as ResponseRow } from "@prisma/client";
+import { buildJudgePrompt, combineJudgePasses, getJudgeOrders, parseJudgeOutput, JUDGE_MAX_TOKENS } from "./judge";
+import { createMessages, createModelInstance, getDefaultGenerationParams, getModelConfig, mergeTokenUsage, parseTokenUsage } from "./models";
+import { calculateCost } from "./pricing";
+import { type JudgeScore, type Judgment, type TokenUsage } from "@/types";
+
+const prisma = new PrismaClient();
+
+/**
+ * LLM-as-Judge (nur serverseitig verwenden).
+ * Ein Judge-Model bewertet die Antworten eines gespeicherten Vergleichs in beiden Reihenfolgen.
+ * Jeder Lauf wird als eigene Zeile gespeichert (angezeigt wird der jüngste erfolgreiche),
+ * damit die Kosten wiederholter oder abgebrochener Bewertungen in den Budgets erhalten bleiben.
+ */
+
+// Resultate werden erst nach Ende aller Streams gespeichert, daher kurz darauf warten
+const SAVED_PROMPT_TIMEOUT_MS = 10000;
+const SAVED_PROMPT_POLL_MS = 250;
+
+function parseScores(value: string): JudgeScore[] {
+  try {
+    const scores = JSON.parse(value);
+    return Array.isArray(scores) ? scores : [];
+  } catch {
+    return [];
+  }
+}
+
+function parseVerdicts(value: string): string[] {
+  try {
+    const verdicts = JSON.parse(value);
+    return Array.isArray(verdicts) ? verdicts.filter((verdict): verdict is string => typeof verdict === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function toJudgment(row: JudgmentRow): Judgment {
+  return {
+    id: row.id,
+    judgeModel: row.judgeModel,
+    rubric: row.rubric,
+    scores: parseScores(row.scores),
+    verdicts: parseVerdicts(row.verdicts),
+    winnerSlot: row.winnerSlot,
+    consistent: row.consistent,
+    tokens: {
+      input: row.inputTokens,
+      output: row.outputTokens,
+      total: row.inputTokens + row.outputTokens,
+    },
+    cost: row.cost,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Wartet, bis der Vergleich einer Stream-Session gespeichert ist
+ */
+export async function waitForSavedPrompt(sessionId: string) {
+  const deadline = Date.now() + SAVED_PROMPT_TIMEOUT_MS;
+
+  while (true) {
+    const prompt = await prisma.prompt.findUnique({
+      where: { sessionId },
+      include: { responses: { orderBy: { slot: 'asc' } } },
+    });
+    if (prompt || Date.now() >= deadline) return prompt;
+
+    await new Promise(resolve => setTimeout(resolve, SAVED_PROMPT_POLL_MS));
+  }
+}
+
+/**
+ * Antworten, die bewertet werden können (mit Inhalt und ohne Fehler)
+ */
+export const getJudgeableResponses = (responses: ResponseRow[]): ResponseRow[] =>
+  responses.filter(response => response.content?.trim() && !response.errorMessage);
+
+/**
+ * Parameter eines Judge-Aufrufs: deterministisch und mit begrenzter Länge
+ */
+export const getJudgeParams = (judgeModel: string) => {
+  const params = getDefaultGenerationParams(judgeModel);
+  return { ...params, temperature: 0, maxTokens: Math.min(JUDGE_MAX_TOKENS, params.maxTokens) };
+};
+
+/**
+ * Bewertet einen gespeicherten Vergleich und speichert das Ergebnis
+ */
+export async function judgeComparison(
+  prompt: { id: string; content: string; responses: ResponseRow[] },
+  judgeModel: string,
+  rubric: string
+): Promise<Judgment> {
+  const config = getModelConfig(judgeModel);
+  if (!config) {
+    throw new Error(`Unbekanntes Model: ${judgeModel}`);
+  }
+
+  const responses = getJudgeableResponses(prompt.responses);
+  const orders = getJudgeOrders(responses.length);
+  const startedAt = new Date();
+
+  // Beide Reihenfolgen parallel bewerten; jeder fertige Aufruf wird abgerechnet, auch wenn der andere scheitert
+  const settled = await Promise.allSettled(orders.map(async order => {
+    const { systemPrompt, userPrompt } = buildJudgePrompt(
+      prompt.content,
+      rubric,
+      order.map(index => responses[index].content || '')
+    );
+    const response = await createModelInstance(judgeModel, getJudgeParams(judgeModel))
+      .invoke(createMessages(userPrompt, systemPrompt));
+    const output = typeof response.content === 'string' ? response.content : response.text;
+    const tokenUsage = parseTokenUsage(response.usage_metadata || {}, config.provider);
+    // Preis, der zum Start der Bewertung gültig war
+    const cost = calculateCost(tokenUsage, judgeModel, startedAt).totalCost;
+
+    try {
+      return { pass: parseJudgeOutput(output, responses.length), tokenUsage, cost };
+    } catch (error) {
+      return { error, tokenUsage, cost };
+    }
+  }));
+
+  const calls = settled.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+  const tokenUsage = calls.reduce<TokenUsage | null>((sum, call) => mergeTokenUsage(sum, call.tokenUsage), null);
+  const usage = {
+    judgeModel,
+    rubric,
+    inputTokens: tokenUsage?.input || 0,
+    outputTokens: tokenUsage?.output || 0,
+    cost: calls.reduce((sum, call) => sum + call.cost, 0),
+    createdAt: new Date(),
+  };
+
+  const failure = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected')?.reason
+    ?? calls.find(call => 'error' in call)?.error;
+  const passes = calls.flatMap(call => 'pass' in call && call.pass ? [call.pass] : []);
+
+  if (failure !== undefined || passes.length !== orders.length) {
+    const errorMessage = failure instanceof Error ? failure.message : 'Unbekannter Fehler';
+    // Kosten der fertigen Aufrufe trotzdem erfassen
+    if (calls.length > 0) {
+      await prisma.judgment.create({
+        data: {
+          promptId: prompt.id,
+          ...usage,
+          scores: '[]',
+          verdicts: JSON.stringify(passes.map(pass => pass.verdict)),
+          winnerSlot: null,
+          consistent: false,
+          errorMessage,
+        },
+      });
+    }
+    throw new Error(errorMessage);
+  }
+
+  const { scores, winnerSlot, consistent } = combineJudgePasses(
+    responses.map(response => ({ slot: response.slot, model: response.model })),
+    orders,
+    passes
+  );
+
+  const judgment = await prisma.judgment.create({
+    data: {
+      promptId: prompt.id,
+      ...usage,
+      scores: JSON.stringify(scores),
+      verdicts: JSON.stringify(passes.map(pass => pass.verdict)),
+      winnerSlot,
+      consistent,
+    },
+  });
+
+  return toJudgment(judgment);
+}
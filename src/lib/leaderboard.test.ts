@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { computeLeaderboard, isVoteOutcome } from "./leaderboard";
+import { type VoteOutcome, type VoteRecord } from "@/types";
+
+const vote = (modelA: string, modelB: string, outcome: VoteOutcome): VoteRecord => ({ modelA, modelB, outcome });
+
+describe('leaderboard', () => {
+  it('akzeptiert nur bekannte Abstimmungsergebnisse', () => {
+    expect(isVoteOutcome('both_bad')).toBe(true);
+    expect(isVoteOutcome('constructor')).toBe(false);
+    expect(isVoteOutcome('')).toBe(false);
+  });
+
+  it('liefert ohne Abstimmungen ein leeres Leaderboard', () => {
+    expect(computeLeaderboard([])).toEqual([]);
+  });
+
+  it('berechnet Bradley-Terry und Elo für ein einzelnes Duell', () => {
+    // Mit virtuellem Remis gegen den Referenzspieler: s = 1.5 / (1 / (s + 1) + s / (s² + 1)), s ≈ 2.13
+    expect(computeLeaderboard([vote('x', 'y', 'a')])).toEqual([
+      { model: 'x', rating: 1131, ciLower: 1131, ciUpper: 1131, elo: 1016, games: 1, wins: 1, losses: 0, ties: 0, bothBad: 0, winRate: 1 },
+      { model: 'y', rating: 869, ciLower: 869, ciUpper: 869, elo: 984, games: 1, wins: 0, losses: 1, ties: 0, bothBad: 0, winRate: 0 },
+    ]);
+  });
+
+  it('bewertet Unentschieden wie einen halben Sieg für beide Seiten', () => {
+    const [first, second] = computeLeaderboard([vote('x', 'y', 'tie'), vote('x', 'y', 'both_bad')]);
+
+    expect([first.rating, second.rating]).toEqual([1000, 1000]);
+    expect([first.ties, first.bothBad, first.winRate]).toEqual([1, 1, 0]);
+  });
+
+  it('hängt beim Elo von der Reihenfolge ab, bei Bradley-Terry nicht', () => {
+    // Nach dem ersten Sieg ist x favorisiert, die Niederlage kostet daher mehr als der Sieg gebracht hat
+    const entries = computeLeaderboard([vote('x', 'y', 'a'), vote('y', 'x', 'a')]);
+    const byModel = new Map(entries.map(entry => [entry.model, entry]));
+
+    expect(byModel.get('x')).toMatchObject({ rating: 1000, elo: 999, wins: 1, losses: 1, winRate: 0.5 });
+    expect(byModel.get('y')).toMatchObject({ rating: 1000, elo: 1001, wins: 1, losses: 1, winRate: 0.5 });
+  });
+
+  it('sortiert nach Rating und ignoriert Abstimmungen eines Models gegen sich selbst', () => {
+    const votes = [
+      vote('x', 'y', 'a'),
+      vote('x', 'y', 'a'),
+      vote('x', 'y', 'b'),
+      vote('y', 'z', 'a'),
+      vote('y', 'z', 'tie'),
+      vote('z', 'x', 'both_bad'),
+      vote('x', 'x', 'a'),
+    ];
+    const entries = computeLeaderboard(votes);
+
+    expect(entries.map(entry => [entry.model, entry.rating, entry.elo, entry.games])).toEqual([
+      ['x', 1062, 1010, 4],
+      ['y', 1008, 1004, 5],
+      ['z', 930, 986, 3],
+    ]);
+    // Bootstrap mit festem Seed: gleiche Intervalle bei jedem Aufruf
+    expect(entries.map(entry => [entry.ciLower, entry.ciUpper])).toEqual([[863, 1280], [809, 1177], [755, 1044]]);
+    expect(computeLeaderboard(votes)).toEqual(entries);
+    entries.forEach(entry => {
+      expect(entry.ciLower).toBeLessThanOrEqual(entry.rating);
+      expect(entry.ciUpper).toBeGreaterThanOrEqual(entry.rating);
+    });
+  });
+});
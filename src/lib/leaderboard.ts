@@ -0,0 +1,163 @@
+import { type LeaderboardEntry, type VoteOutcome, type VoteRecord } from "@/types";
+
+/**
+ * Ratings aus Blind-Abstimmungen: Bradley-Terry (mit Bootstrap-Konfidenzintervallen)
+ * und klassisches Online-Elo zum Vergleich
+ */
+
+// Elo-Skala: 400 Punkte Differenz = 10:1 Gewinnchance, Startwert 1000
+const RATING_SCALE = 400;
+const RATING_BASE = 1000;
+const ELO_K_FACTOR = 32;
+
+const BT_ITERATIONS = 100;
+const BOOTSTRAP_ROUNDS = 200;
+const BOOTSTRAP_SEED = 42;
+
+export const VOTE_OUTCOME_LABELS: Record<VoteOutcome, string> = {
+  a: 'A ist besser',
+  b: 'B ist besser',
+  tie: 'Unentschieden',
+  both_bad: 'Beide schlecht',
+};
+
+// Nur eigene Schlüssel zählen (nicht geerbte wie 'constructor')
+export const isVoteOutcome = (value: string): value is VoteOutcome =>
+  Object.hasOwn(VOTE_OUTCOME_LABELS, value);
+
+// Punkte für Model A (Unentschieden und "beide schlecht" zählen jeweils halb)
+const scoreA = (outcome: VoteOutcome): number =>
+  outcome === 'a' ? 1 : outcome === 'b' ? 0 : 0.5;
+
+/**
+ * Bradley-Terry-Stärken per MM-Algorithmus.
+ * Jedes Model spielt zusätzlich ein virtuelles Remis gegen einen Referenzspieler (Stärke 1),
+ * damit Models ohne Sieg oder ohne Niederlage endliche Ratings bekommen.
+ */
+function fitBradleyTerry(votes: VoteRecord[], models: string[]): Map<string, number> {
+  const wins = new Map<string, number>(models.map(model => [model, 0.5]));
+  const pairs = new Map<string, Map<string, number>>(models.map(model => [model, new Map()]));
+
+  for (const vote of votes) {
+    if (vote.modelA === vote.modelB) continue;
+
+    const score = scoreA(vote.outcome);
+    wins.set(vote.modelA, (wins.get(vote.modelA) || 0) + score);
+    wins.set(vote.modelB, (wins.get(vote.modelB) || 0) + 1 - score);
+
+    const gamesA = pairs.get(vote.modelA)!;
+    const gamesB = pairs.get(vote.modelB)!;
+    gamesA.set(vote.modelB, (gamesA.get(vote.modelB) || 0) + 1);
+    gamesB.set(vote.modelA, (gamesB.get(vote.modelA) || 0) + 1);
+  }
+
+  let strengths = new Map<string, number>(models.map(model => [model, 1]));
+
+  for (let iteration = 0; iteration < BT_ITERATIONS; iteration++) {
+    const next = new Map<string, number>();
+
+    for (const model of models) {
+      const own = strengths.get(model)!;
+      let denominator = 1 / (own + 1); // virtuelles Spiel gegen den Referenzspieler
+
+      pairs.get(model)!.forEach((games, opponent) => {
+        denominator += games / (own + strengths.get(opponent)!);
+      });
+
+      next.set(model, wins.get(model)! / denominator);
+    }
+
+    // Auf geometrisches Mittel 1 normieren
+    const logMean = models.reduce((sum, model) => sum + Math.log(next.get(model)!), 0) / models.length;
+    next.forEach((strength, model) => next.set(model, strength / Math.exp(logMean)));
+    strengths = next;
+  }
+
+  return strengths;
+}
+
+const toRating = (strength: number): number =>
+  RATING_BASE + RATING_SCALE * Math.log10(strength);
+
+/**
+ * Klassisches Elo, sequentiell in Abstimmungsreihenfolge
+ */
+function computeElo(votes: VoteRecord[], models: string[]): Map<string, number> {
+  const ratings = new Map<string, number>(models.map(model => [model, RATING_BASE]));
+
+  for (const vote of votes) {
+    if (vote.modelA === vote.modelB) continue;
+
+    const ratingA = ratings.get(vote.modelA)!;
+    const ratingB = ratings.get(vote.modelB)!;
+    const expectedA = 1 / (1 + Math.pow(10, (ratingB - ratingA) / RATING_SCALE));
+    const delta = ELO_K_FACTOR * (scoreA(vote.outcome) - expectedA);
+
+    ratings.set(vote.modelA, ratingA + delta);
+    ratings.set(vote.modelB, ratingB - delta);
+  }
+
+  return ratings;
+}
+
+// Deterministischer Zufallsgenerator (mulberry32), damit sich die CIs nicht bei jedem Laden ändern
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const percentile = (sorted: number[], p: number): number => {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+};
+
+/**
+ * Berechnet das Leaderboard aus allen Abstimmungen (Reihenfolge = Abstimmungszeitpunkt)
+ */
+export function computeLeaderboard(votes: VoteRecord[]): LeaderboardEntry[] {
+  const models = [...new Set(votes.flatMap(vote => [vote.modelA, vote.modelB]))];
+  if (models.length === 0) return [];
+
+  const strengths = fitBradleyTerry(votes, models);
+  const elo = computeElo(votes, models);
+
+  // Bootstrap: Abstimmungen mit Zurücklegen ziehen und neu fitten
+  const random = createRandom(BOOTSTRAP_SEED);
+  const samples = new Map<string, number[]>(models.map(model => [model, []]));
+
+  for (let round = 0; round < BOOTSTRAP_ROUNDS; round++) {
+    const resampled = votes.map(() => votes[Math.floor(random() * votes.length)]);
+    const resampledStrengths = fitBradleyTerry(resampled, models);
+    resampledStrengths.forEach((strength, model) => samples.get(model)!.push(toRating(strength)));
+  }
+
+  return models
+    .map(model => {
+      const own = votes.filter(vote => vote.modelA !== vote.modelB && (vote.modelA === model || vote.modelB === model));
+      const wins = own.filter(vote => (vote.modelA === model ? vote.outcome === 'a' : vote.outcome === 'b')).length;
+      const losses = own.filter(vote => (vote.modelA === model ? vote.outcome === 'b' : vote.outcome === 'a')).length;
+      const ties = own.filter(vote => vote.outcome === 'tie').length;
+      const bothBad = own.filter(vote => vote.outcome === 'both_bad').length;
+      const sorted = samples.get(model)!.sort((a, b) => a - b);
+
+      return {
+        model,
+        rating: Math.round(toRating(strengths.get(model)!)),
+        ciLower: Math.round(percentile(sorted, 0.025)),
+        ciUpper: Math.round(percentile(sorted, 0.975)),
+        elo: Math.round(elo.get(model)!),
+        games: own.length,
+        wins,
+        losses,
+        ties,
+        bothBad,
+        winRate: own.length > 0 ? wins / own.length : 0,
+      };
+    })
+    .sort((a, b) => b.rating - a.rating);
+}
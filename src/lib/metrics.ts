@@ -0,0 +1,115 @@
+import { type LatencyPercentiles, type ModelLatencyStats, type ResponseMetrics } from "@/types";
+
+/**
+ * Latenz- und Durchsatz-Metriken pro Lauf und aggregiert pro Model
+ */
+
+// Klassen der Latenz-Histogramme (obere Grenze exklusiv, letzte Klasse offen)
+export const LATENCY_BUCKETS: Array<{ maxMs: number | null; label: string }> = [
+  { maxMs: 250, label: '< 250 ms' },
+  { maxMs: 500, label: '250–500 ms' },
+  { maxMs: 1000, label: '0,5–1 s' },
+  { maxMs: 2000, label: '1–2 s' },
+  { maxMs: 5000, label: '2–5 s' },
+  { maxMs: 10000, label: '5–10 s' },
+  { maxMs: 30000, label: '10–30 s' },
+  { maxMs: null, label: '≥ 30 s' },
+];
+
+// Unterhalb dieser Generierungsdauer ist Tokens/s nicht aussagekräftig
+const MIN_THROUGHPUT_WINDOW_MS = 50;
+
+/**
+ * Berechnet die Metriken eines Laufs aus den gemessenen Zeitpunkten (ms seit Epoch).
+ * Ohne erstes Token (z.B. invoke statt stream) zählt die gesamte Dauer als Generierungszeit.
+ */
+export function computeResponseMetrics(
+  startedAt: number,
+  firstTokenAt: number | null,
+  finishedAt: number,
+  outputTokens: number
+): ResponseMetrics {
+  const durationMs = Math.max(0, finishedAt - startedAt);
+  const ttftMs = firstTokenAt !== null ? Math.max(0, firstTokenAt - startedAt) : null;
+
+  return {
+    ttftMs,
+    durationMs,
+    tokensPerSecond: computeTokensPerSecond(outputTokens, ttftMs, durationMs),
+  };
+}
+
+/**
+ * Output-Tokens pro Sekunde zwischen erstem Token und Ende des Laufs
+ */
+export function computeTokensPerSecond(
+  outputTokens: number,
+  ttftMs: number | null,
+  durationMs: number
+): number | null {
+  const generationMs = durationMs - (ttftMs ?? 0);
+  if (outputTokens <= 0 || generationMs < MIN_THROUGHPUT_WINDOW_MS) return null;
+
+  return Math.round((outputTokens / (generationMs / 1000)) * 10) / 10;
+}
+
+// Perzentil mit linearer Interpolation (Werte müssen sortiert sein)
+const percentile = (sorted: number[], p: number): number => {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const toPercentiles = (values: number[]): LatencyPercentiles | null => {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p50: Math.round(percentile(sorted, 0.5) * 10) / 10,
+    p95: Math.round(percentile(sorted, 0.95) * 10) / 10,
+  };
+};
+
+/**
+ * Aggregiert p50/p95 pro Model (nur abgeschlossene Läufe mit gemessener Dauer)
+ */
+export function computeLatencyStats(
+  runs: Array<{ model: string; ttftMs: number | null; durationMs: number | null; outputTokens: number | null }>
+): ModelLatencyStats[] {
+  const byModel = new Map<string, typeof runs>();
+
+  for (const run of runs) {
+    if (run.durationMs === null) continue;
+    const modelRuns = byModel.get(run.model);
+    if (modelRuns) {
+      modelRuns.push(run);
+    } else {
+      byModel.set(run.model, [run]);
+    }
+  }
+
+  return [...byModel.entries()]
+    .map(([model, modelRuns]) => ({
+      model,
+      runs: modelRuns.length,
+      ttftMs: toPercentiles(modelRuns.flatMap(run => run.ttftMs !== null ? [run.ttftMs] : [])),
+      durationMs: toPercentiles(modelRuns.map(run => run.durationMs!)),
+      tokensPerSecond: toPercentiles(modelRuns.flatMap(run => {
+        const throughput = computeTokensPerSecond(run.outputTokens || 0, run.ttftMs, run.durationMs!);
+        return throughput !== null ? [throughput] : [];
+      })),
+    }))
+    .sort((a, b) => b.runs - a.runs);
+}
+
+/**
+ * Formatiert eine Dauer (ms) kompakt, z.B. "850 ms" oder "4,2 s"
+ */
+export const formatLatency = (ms: number): string =>
+  ms < 1000
+    ? `${Math.round(ms)} ms`
+    : `${(ms / 1000).toLocaleString('de-DE', { maximumFractionDigits: 1 })} s`;
+
+export const formatThroughput = (tokensPerSecond: number): string =>
+  `${tokensPerSecond.toLocaleString('de-DE', { maximumFractionDigits: 1 })} tok/s`;
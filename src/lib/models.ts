@@ -1,10 +1,18 @@
 import { ChatOpenAI } from "@langchain/openai";
 import { ChatAnthropic } from "@langchain/anthropic";
-import { BaseMessage, HumanMessage } from "@langchain/core/messages";
-import { type ModelConfig, type ModelProvider } from "@/types";
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { type GenerationParams, type ModelConfig, type ModelPricing, type ModelProvider, type ProviderError, type SystemPromptSelection, type ThreadMessage, type TokenUsage } from "@/types";
+import { getProvider, getProviders, registerProvider } from "./providers";
+import { countAnthropicTokens, countOpenAITokens } from "./tokenizer";
+
+// Standard-Parameter, falls für einen Slot nichts eingestellt wurde
+export const DEFAULT_GENERATION_PARAMS: GenerationParams = {
+  temperature: 0.7,
+  maxTokens: 4000,
+};
 
 // Model Factory für OpenAI Models
-export const createOpenAIModel = (modelName: string) => {
+export const createOpenAIModel = (modelName: string, params: GenerationParams = DEFAULT_GENERATION_PARAMS) => {
   if (!process.env.OPENAI_API_KEY) {
     throw new Error('OPENAI_API_KEY ist nicht gesetzt. Bitte füge deinen API-Key in .env.local hinzu.');
   }
@@ -12,14 +20,17 @@ export const createOpenAIModel = (modelName: string) => {
   return new ChatOpenAI({
     model: modelName,
     streaming: true,
+    streamUsage: true, // stream_options.include_usage: Usage im letzten Chunk
     openAIApiKey: process.env.OPENAI_API_KEY,
-    maxTokens: 4000, // Set reasonable default, models can handle more if needed
-    temperature: 0.7,
+    maxTokens: params.maxTokens,
+    temperature: params.temperature,
+    topP: params.topP,
+    stop: params.stop,
   });
 };
 
 // Model Factory für Anthropic Models
-export const createAnthropicModel = (modelName: string) => {
+export const createAnthropicModel = (modelName: string, params: GenerationParams = DEFAULT_GENERATION_PARAMS) => {
   if (!process.env.ANTHROPIC_API_KEY) {
     throw new Error('ANTHROPIC_API_KEY ist nicht gesetzt. Bitte füge deinen API-Key in .env.local hinzu.');
   }
@@ -28,121 +39,308 @@ export const createAnthropicModel = (modelName: string) => {
     model: modelName,
     streaming: true,
     anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-    maxTokens: 4000, // Anthropic requires positive value, set reasonable default
-    temperature: 0.7,
+    maxTokens: params.maxTokens, // Anthropic requires positive value
+    temperature: params.temperature,
+    topP: params.topP,
+    stopSequences: params.stop,
   });
 };
 
-// Verfügbare OpenAI Models (Preise basierend auf aktueller OpenAI API Dokumentation)
+// Model Factory für OpenAI-kompatible Endpunkte (llama.cpp, vLLM, ...)
+export const createOpenAICompatibleModel = (modelName: string, params: GenerationParams = DEFAULT_GENERATION_PARAMS) => {
+  if (!process.env.OPENAI_COMPATIBLE_BASE_URL) {
+    throw new Error('OPENAI_COMPATIBLE_BASE_URL ist nicht gesetzt. Bitte füge die URL deines Inferenz-Servers in .env.local hinzu.');
+  }
+  
+  return new ChatOpenAI({
+    model: modelName,
+    streaming: true,
+    // Lokale Server verlangen meist keinen Key, der Client aber schon
+    openAIApiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+    configuration: {
+      baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+    },
+    maxTokens: params.maxTokens,
+    temperature: params.temperature,
+    topP: params.topP,
+    stop: params.stop,
+  });
+};
+
+// Seed-Daten für den Model-Katalog: OpenAI Models (Preise basierend auf aktueller OpenAI API Dokumentation)
 export const OPENAI_MODELS: ModelConfig[] = [
   {
     id: "gpt-4o",
     name: "gpt-4o",
     displayName: "GPT-4o",
     provider: "openai",
-    pricing: { input: 0.005, output: 0.015 }, // USD per 1K tokens
+    pricing: { input: 0.005, output: 0.015, cachedInput: 0.0025, batchDiscount: 0.5 }, // USD per 1K tokens
     maxTokens: 128000,
+    maxOutputTokens: 16384,
     supportsStreaming: true,
+    enabled: true,
+    capabilities: ["streaming"],
   },
   {
     id: "gpt-4o-mini",
     name: "gpt-4o-mini",
     displayName: "GPT-4o Mini",
     provider: "openai",
-    pricing: { input: 0.00015, output: 0.0006 }, // $0.15/$0.60 per 1M tokens
+    pricing: { input: 0.00015, output: 0.0006, cachedInput: 0.000075, batchDiscount: 0.5 }, // $0.15/$0.60 per 1M tokens
     maxTokens: 128000,
+    maxOutputTokens: 16384,
     supportsStreaming: true,
+    enabled: true,
+    capabilities: ["streaming"],
   },
   {
     id: "gpt-4-turbo",
     name: "gpt-4-turbo",
     displayName: "GPT-4 Turbo",
     provider: "openai",
-    pricing: { input: 0.01, output: 0.03 },
+    pricing: { input: 0.01, output: 0.03, batchDiscount: 0.5 },
     maxTokens: 128000,
+    maxOutputTokens: 4096,
     supportsStreaming: true,
+    enabled: true,
+    capabilities: ["streaming"],
   },
   {
     id: "gpt-3.5-turbo",
     name: "gpt-3.5-turbo",
     displayName: "GPT-3.5 Turbo",
     provider: "openai",
-    pricing: { input: 0.0015, output: 0.002 },
+    pricing: { input: 0.0015, output: 0.002, batchDiscount: 0.5 },
     maxTokens: 16385,
+    maxOutputTokens: 4096,
     supportsStreaming: true,
+    enabled: true,
+    capabilities: ["streaming"],
   },
 ];
 
-// Verfügbare Anthropic Models (Preise von https://claude.com/pricing#api)
+// Seed-Daten für den Model-Katalog: Anthropic Models (Preise von https://claude.com/pricing#api,
+// Cache-Lesen 10 %, Cache-Schreiben 125 % des Input-Preises)
 export const ANTHROPIC_MODELS: ModelConfig[] = [
   {
     id: "claude-3-5-sonnet-20241022",
     name: "claude-3-5-sonnet-20241022",
     displayName: "Claude 3.5 Sonnet",
     provider: "anthropic",
-    pricing: { input: 0.003, output: 0.015 }, // $3/$15 per 1M tokens (≤200K)
+    pricing: { input: 0.003, output: 0.015, cachedInput: 0.0003, cacheWrite: 0.00375, batchDiscount: 0.5 }, // $3/$15 per 1M tokens (≤200K)
     maxTokens: 200000,
+    maxOutputTokens: 8192,
     supportsStreaming: true,
+    enabled: true,
+    capabilities: ["streaming"],
   },
   {
     id: "claude-3-5-haiku-20241022",
     name: "claude-3-5-haiku-20241022", 
     displayName: "Claude 3.5 Haiku",
     provider: "anthropic",
-    pricing: { input: 0.0008, output: 0.004 }, // $0.80/$4 per 1M tokens
+    pricing: { input: 0.0008, output: 0.004, cachedInput: 0.00008, cacheWrite: 0.001, batchDiscount: 0.5 }, // $0.80/$4 per 1M tokens
     maxTokens: 200000,
+    maxOutputTokens: 8192,
     supportsStreaming: true,
+    enabled: true,
+    capabilities: ["streaming"],
   },
   {
     id: "claude-3-opus-20240229",
     name: "claude-3-opus-20240229",
     displayName: "Claude 3 Opus",
     provider: "anthropic",
-    pricing: { input: 0.015, output: 0.075 }, // $15/$75 per 1M tokens
+    pricing: { input: 0.015, output: 0.075, cachedInput: 0.0015, cacheWrite: 0.01875, batchDiscount: 0.5 }, // $15/$75 per 1M tokens
     maxTokens: 200000,
+    maxOutputTokens: 4096,
     supportsStreaming: true,
+    enabled: true,
+    capabilities: ["streaming"],
   },
 ];
 
-// Model Providers Configuration
-export const MODEL_PROVIDERS: ModelProvider[] = [
-  {
-    id: "openai",
-    name: "OpenAI",
-    models: OPENAI_MODELS,
-  },
-  {
-    id: "anthropic", 
-    name: "Anthropic",
-    models: ANTHROPIC_MODELS,
-  },
-];
+// Token-Usage im OpenAI-Format (auch von OpenAI-kompatiblen Servern geliefert).
+// Gecachte Prompt-Tokens sind in den Input-Tokens enthalten.
+const parseOpenAIUsage = (usage: any): TokenUsage => ({
+  input: usage?.prompt_tokens || usage?.input_tokens || 0,
+  output: usage?.completion_tokens || usage?.output_tokens || 0,
+  total: usage?.total_tokens || 0,
+  cacheRead: usage?.input_token_details?.cache_read || usage?.prompt_tokens_details?.cached_tokens || 0,
+});
+
+// Token-Usage von Anthropic: LangChain zählt Cache-Tokens zu input_tokens und schlüsselt sie
+// in input_token_details auf, die rohe API meldet sie getrennt (cache_*_input_tokens)
+const parseAnthropicUsage = (usage: any): TokenUsage => {
+  const details = usage?.input_token_details;
+  const cacheRead = details?.cache_read ?? usage?.cache_read_input_tokens ?? 0;
+  const cacheWrite = details?.cache_creation ?? usage?.cache_creation_input_tokens ?? 0;
+  const input = (usage?.input_tokens || 0) + (details ? 0 : cacheRead + cacheWrite);
+  const output = usage?.output_tokens || 0;
+
+  return { input, output, total: input + output, cacheRead, cacheWrite };
+};
+
+// Built-in Provider registrieren
+registerProvider({
+  id: "openai",
+  name: "OpenAI",
+  color: "success.main",
+  maxTemperature: 2,
+  createModel: (config, params) => createOpenAIModel(config.name, params),
+  parseTokenUsage: parseOpenAIUsage,
+  countTokens: (text, config) => countOpenAITokens(text, config.name),
+  openAIChatFormat: true,
+});
+
+registerProvider({
+  id: "anthropic",
+  name: "Anthropic",
+  color: "secondary.main",
+  maxTemperature: 1,
+  createModel: (config, params) => createAnthropicModel(config.name, params),
+  parseTokenUsage: parseAnthropicUsage,
+  countTokens: (text, config) => countAnthropicTokens(text, config.name),
+});
 
-// Alle verfügbaren Models
-export const ALL_MODELS: ModelConfig[] = [
+registerProvider({
+  id: "openai-compatible",
+  name: "OpenAI-kompatibel",
+  color: "info.main",
+  maxTemperature: 2,
+  createModel: (config, params) => createOpenAICompatibleModel(config.name, params),
+  parseTokenUsage: parseOpenAIUsage,
+  // Tokenizer des lokalen Models ist unbekannt, OpenAI-Heuristik als Näherung
+  countTokens: (text, config) => countOpenAITokens(text, config.name),
+  openAIChatFormat: true,
+  // Lokale Models sind kostenlos, solange die Preistabelle nichts anderes vorgibt
+  getPricing: () => ({ input: 0, output: 0 }),
+});
+
+// Initialer Katalog, mit dem die Model-Tabelle befüllt wird
+export const DEFAULT_MODEL_CATALOG: ModelConfig[] = [
   ...OPENAI_MODELS,
   ...ANTHROPIC_MODELS,
 ];
 
-// Helper: Model Config by ID finden
+// Aktueller Katalog im Speicher (Server: aus der DB geladen, Client: per Server Action hydriert)
+let modelCatalog: ModelConfig[] = DEFAULT_MODEL_CATALOG;
+
+// Ersetzt den Katalog im Speicher
+export const setModelCatalog = (models: ModelConfig[]) => {
+  modelCatalog = models;
+};
+
+// Alle aktivierten Models
+export const getAllModels = (): ModelConfig[] => {
+  return modelCatalog.filter(model => model.enabled);
+};
+
+// Model Providers mit ihren Models (nur Provider mit mindestens einem Model)
+export const getModelProviders = (): ModelProvider[] => {
+  return getProviders()
+    .map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      color: provider.color,
+      models: getAllModels().filter(model => model.provider === provider.id),
+    }))
+    .filter(provider => provider.models.length > 0);
+};
+
+// Helper: Model Config by ID finden (auch deaktivierte, z.B. für Kosten alter Einträge)
 export const getModelConfig = (modelId: string): ModelConfig | null => {
-  return ALL_MODELS.find(model => model.id === modelId) || null;
+  return modelCatalog.find(model => model.id === modelId) || null;
 };
 
 // Helper: Model Instance erstellen
-export const createModelInstance = (modelId: string) => {
+export const createModelInstance = (modelId: string, params?: GenerationParams | null) => {
   const config = getModelConfig(modelId);
   if (!config) {
     throw new Error(`Unknown model: ${modelId}`);
   }
 
-  switch (config.provider) {
-    case "openai":
-      return createOpenAIModel(config.name);
-    case "anthropic":
-      return createAnthropicModel(config.name);
-    default:
-      throw new Error(`Unknown provider: ${config.provider}`);
+  const provider = getProvider(config.provider);
+  if (!provider) {
+    throw new Error(`Unknown provider: ${config.provider}`);
+  }
+
+  return provider.createModel(config, params || getDefaultGenerationParams(modelId));
+};
+
+// Helper: Standard-Parameter eines Models (Max. Tokens auf das Output-Limit begrenzt)
+export const getDefaultGenerationParams = (modelId: string | null): GenerationParams => {
+  const config = modelId ? getModelConfig(modelId) : null;
+
+  return {
+    ...DEFAULT_GENERATION_PARAMS,
+    maxTokens: Math.min(DEFAULT_GENERATION_PARAMS.maxTokens, config?.maxOutputTokens ?? Infinity),
+  };
+};
+
+// Validierung der Generation-Parameter gegen die Limits von Model und Provider
+export const validateGenerationParams = (params: GenerationParams, modelId: string): string | null => {
+  const config = getModelConfig(modelId);
+  if (!config) {
+    return `Unbekanntes Model: ${modelId}`;
+  }
+
+  const maxTemperature = getProvider(config.provider)?.maxTemperature ?? 2;
+
+  if (!Number.isFinite(params.temperature) || params.temperature < 0 || params.temperature > maxTemperature) {
+    return `Temperature für ${config.displayName} muss zwischen 0 und ${maxTemperature} liegen`;
+  }
+
+  if (!Number.isInteger(params.maxTokens) || params.maxTokens < 1 || params.maxTokens > config.maxOutputTokens) {
+    return `Max. Tokens für ${config.displayName} muss zwischen 1 und ${config.maxOutputTokens} liegen`;
+  }
+
+  if (params.topP !== undefined && (!Number.isFinite(params.topP) || params.topP <= 0 || params.topP > 1)) {
+    return `Top P für ${config.displayName} muss größer 0 und höchstens 1 sein`;
+  }
+
+  if (params.stop && (params.stop.length > 4 || params.stop.some(sequence => !sequence))) {
+    return `Maximal 4 nicht-leere Stop-Sequenzen für ${config.displayName} erlaubt`;
+  }
+
+  return null;
+};
+
+// Helper: Nachrichten für einen Model-Aufruf (System-Prompt und bisheriger Thread optional)
+export const createMessages = (
+  prompt: string,
+  systemPrompt?: string | null,
+  thread: ThreadMessage[] = []
+): BaseMessage[] => [
+  ...(systemPrompt ? [new SystemMessage(systemPrompt)] : []),
+  ...thread.map(message => message.role === 'user'
+    ? new HumanMessage(message.content)
+    : new AIMessage(message.content)
+  ),
+  new HumanMessage(prompt),
+];
+
+// Helper: Effektiver System-Prompt pro Slot (Überschreibung vor gemeinsamem Prompt)
+export const resolveSystemPrompts = (
+  slotCount: number,
+  systemPrompt?: string | null,
+  systemPrompts?: SystemPromptSelection
+): Array<string | null> => {
+  return Array.from({ length: slotCount }, (_, slot) => {
+    const override = systemPrompts?.[slot];
+    const effective = override ?? systemPrompt;
+    return effective?.trim() || null;
+  });
+};
+
+// Helper: Gespeicherte Parameter eines Historie-Eintrags lesen
+export const parseGenerationParams = (value: string | null): GenerationParams | null => {
+  if (!value) return null;
+
+  try {
+    return JSON.parse(value) as GenerationParams;
+  } catch {
+    return null;
   }
 };
 
@@ -151,41 +349,68 @@ export const getModelProvider = (modelId: string): ModelProvider | null => {
   const config = getModelConfig(modelId);
   if (!config) return null;
   
-  return MODEL_PROVIDERS.find(provider => provider.id === config.provider) || null;
+  return getModelProviders().find(provider => provider.id === config.provider) || null;
 };
 
-// Helper: Default Models für UI
-export const DEFAULT_MODELS = {
-  model1: "gpt-4o-mini",
-  model2: "claude-3-5-haiku-20241022",
+// Helper: Effektive Preise eines Models (Provider kann nur ohne Eintrag in der Preistabelle überschreiben)
+export const getModelPricing = (config: ModelConfig): ModelPricing => {
+  if (config.prices && config.prices.length > 0) return config.pricing;
+  return getProvider(config.provider)?.getPricing?.(config) || config.pricing;
 };
 
+// Helper: Default Models für UI (ein Eintrag pro Slot)
+export const DEFAULT_MODELS: string[] = [
+  "gpt-4o-mini",
+  "claude-3-5-haiku-20241022",
+];
+
+// Grenzen für die Anzahl gleichzeitig verglichener Models
+export const MIN_MODEL_SLOTS = 2;
+export const MAX_MODEL_SLOTS = 6;
+
 // Token Usage Parsing für verschiedene Providers
-export const parseTokenUsage = (usage: any, provider: string) => {
-  switch (provider) {
-    case "openai":
-      return {
-        input: usage?.prompt_tokens || 0,
-        output: usage?.completion_tokens || 0,
-        total: usage?.total_tokens || 0,
-      };
-    case "anthropic":
-      return {
-        input: usage?.input_tokens || 0,
-        output: usage?.output_tokens || 0,
-        total: (usage?.input_tokens || 0) + (usage?.output_tokens || 0),
-      };
-    default:
-      return { input: 0, output: 0, total: 0 };
+export const parseTokenUsage = (usage: any, provider: string): TokenUsage => {
+  const plugin = getProvider(provider);
+  if (!plugin) {
+    return { input: 0, output: 0, total: 0 };
   }
+
+  return plugin.parseTokenUsage(usage);
+};
+
+/**
+ * Fehlermeldung und -code eines Provider-Fehlers (OpenAI: code, Anthropic: error.type, sonst HTTP-Status)
+ */
+export const parseProviderError = (error: unknown): ProviderError => {
+  if (!(error instanceof Error)) {
+    return { message: String(error || 'Unbekannter Fehler'), code: null };
+  }
+
+  const details = error as Error & { code?: unknown; status?: unknown; error?: { type?: unknown } };
+  const code = details.code ?? details.error?.type ?? details.status;
+
+  return {
+    message: error.message || 'Unbekannter Fehler',
+    code: code !== undefined && code !== null ? String(code) : null,
+  };
+};
+
+// Summiert Usage-Metadaten gestreamter Chunks (Anthropic meldet Input beim Start und Output am Ende, OpenAI alles im letzten Chunk)
+export const mergeTokenUsage = (current: TokenUsage | null, usage: TokenUsage): TokenUsage => {
+  const input = (current?.input || 0) + usage.input;
+  const output = (current?.output || 0) + usage.output;
+  const cacheRead = (current?.cacheRead || 0) + (usage.cacheRead || 0);
+  const cacheWrite = (current?.cacheWrite || 0) + (usage.cacheWrite || 0);
+
+  return { input, output, total: input + output, cacheRead, cacheWrite };
 };
 
 // Validierung ob Model verfügbar ist
 export const isModelAvailable = (modelId: string): boolean => {
-  return getModelConfig(modelId) !== null;
+  return getModelConfig(modelId)?.enabled === true;
 };
 
 // Filter Models by Provider
 export const getModelsByProvider = (providerId: string): ModelConfig[] => {
-  return ALL_MODELS.filter(model => model.provider === providerId);
+  return getAllModels().filter(model => model.provider === providerId);
 };
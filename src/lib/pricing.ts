@@ -1,31 +1,110 @@
-import { type TokenUsage, type CostCalculation, type ModelConfig } from "@/types";
-import { getModelConfig } from "./models";
-import { countTokens } from "./tokenizer";
-
-// Aktuelle Model-Preise (Stand September 2024)
-// Preise sind in USD per 1K Tokens
-// OpenAI: https://openai.com/api/pricing/
-// Anthropic: https://claude.com/pricing#api
-export const MODEL_PRICING = {
-  openai: {
-    'gpt-4o': { input: 0.005, output: 0.015 },
-    'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
-    'gpt-4-turbo': { input: 0.01, output: 0.03 },
-    'gpt-3.5-turbo': { input: 0.0015, output: 0.002 },
-  },
-  anthropic: {
-    'claude-3-5-sonnet-20241022': { input: 0.003, output: 0.015 }, // $3/$15 per 1M tokens
-    'claude-3-5-haiku-20241022': { input: 0.0008, output: 0.004 }, // $0.80/$4 per 1M tokens  
-    'claude-3-opus-20240229': { input: 0.015, output: 0.075 }, // $15/$75 per 1M tokens
-  },
-} as const;
+import { type TokenUsage, type CostCalculation, type CostComponent, type CostItem, type CostOptions, type ModelConfig, type ModelPrice, type ModelPricing, type AppliedPrice, type ThreadMessage } from "@/types";
+import { getModelConfig, getModelPricing } from "./models";
+import { estimateInputTokens } from "./tokenizer";
+
+/**
+ * Eintrag der Preistabelle, der zum Zeitpunkt gilt (letzter Stichtag ≤ at).
+ * Liegt der Zeitpunkt vor dem ersten Eintrag, gilt der erste.
+ */
+export function findPriceEntry(prices: ModelPrice[], at: Date): ModelPrice | null {
+  if (prices.length === 0) return null;
+
+  const time = at.getTime();
+  const sorted = [...prices].sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime());
+  return sorted.filter(price => price.effectiveFrom.getTime() <= time).pop() || sorted[0];
+}
+
+/**
+ * Preis eines Models zum Zeitpunkt der Anfrage.
+ * Die Preistabelle hat Vorrang, Provider-Preise (z.B. kostenlose lokale Models) gelten nur ohne Eintrag.
+ */
+export function resolveModelPrice(config: ModelConfig, at: Date = new Date()): AppliedPrice {
+  const entry = findPriceEntry(config.prices || [], at);
+  return entry
+    ? { pricing: entry.pricing, priceId: entry.id }
+    : { pricing: getModelPricing(config), priceId: null };
+}
+
+export const COST_COMPONENT_LABELS: Record<CostComponent, string> = {
+  input: 'Input',
+  cachedInput: 'Input (Cache-Treffer)',
+  cacheWrite: 'Input (Cache-Schreiben)',
+  output: 'Output',
+};
+
+const roundCost = (cost: number) => parseFloat(cost.toFixed(6));
+
+/**
+ * Preise für die Prompt-Länge: höchste überschrittene Staffel, sonst Basispreis
+ */
+function selectTier(pricing: ModelPricing, contextTokens: number) {
+  const tier = [...(pricing.tiers || [])]
+    .sort((a, b) => b.aboveInputTokens - a.aboveInputTokens)
+    .find(candidate => contextTokens > candidate.aboveInputTokens);
+
+  return tier
+    ? { rates: { ...tier, cachedInput: tier.cachedInput ?? pricing.cachedInput, cacheWrite: tier.cacheWrite ?? pricing.cacheWrite }, tier: tier.aboveInputTokens }
+    : { rates: pricing, tier: null };
+}
+
+/**
+ * Kosten für Token-Usage bei gegebenen Preisen (Pricing ist per 1K tokens).
+ * Cache-Tokens sind Teil der Input-Tokens und werden zu ihren eigenen Preisen abgerechnet.
+ */
+export function calculateCostWithPricing(
+  tokenUsage: TokenUsage,
+  pricing: ModelPricing,
+  options: CostOptions = {}
+): CostCalculation {
+  const { rates, tier } = selectTier(pricing, options.contextTokens ?? tokenUsage.input);
+  const factor = options.batch ? 1 - (pricing.batchDiscount || 0) : 1;
+
+  const cacheRead = Math.min(tokenUsage.cacheRead || 0, tokenUsage.input);
+  const cacheWrite = Math.min(tokenUsage.cacheWrite || 0, tokenUsage.input - cacheRead);
+
+  const components: Array<[CostComponent, number, number]> = [
+    ['input', tokenUsage.input - cacheRead - cacheWrite, rates.input],
+    ['cachedInput', cacheRead, rates.cachedInput ?? rates.input],
+    ['cacheWrite', cacheWrite, rates.cacheWrite ?? rates.input],
+    ['output', tokenUsage.output, rates.output],
+  ];
+
+  // Cache-Posten nur aufführen, wenn der Provider Cache-Tokens gemeldet hat
+  const items: CostItem[] = components
+    .filter(([component, tokens]) => component === 'input' || component === 'output' || tokens > 0)
+    .map(([component, tokens, rate]) => ({
+      component,
+      tokens,
+      rate: rate * factor,
+      cost: roundCost((tokens / 1000) * rate * factor),
+    }));
+
+  const inputCost = items
+    .filter(item => item.component !== 'output')
+    .reduce((sum, item) => sum + item.cost, 0);
+  const outputCost = items.find(item => item.component === 'output')?.cost || 0;
+
+  return {
+    inputTokens: tokenUsage.input,
+    outputTokens: tokenUsage.output,
+    inputCost: roundCost(inputCost),
+    outputCost: roundCost(outputCost),
+    totalCost: roundCost(inputCost + outputCost),
+    items,
+    tier,
+    batch: factor < 1,
+  };
+}
 
 /**
  * Berechnet die Kosten für Token-Usage bei einem spezifischen Model
+ * mit dem zum Anfragezeitpunkt gültigen Preis
  */
 export function calculateCost(
   tokenUsage: TokenUsage,
-  modelId: string
+  modelId: string,
+  at: Date = new Date(),
+  options: CostOptions = {}
 ): CostCalculation {
   const modelConfig = getModelConfig(modelId);
   
@@ -33,19 +112,11 @@ export function calculateCost(
     throw new Error(`Unknown model for cost calculation: ${modelId}`);
   }
 
-  const pricing = modelConfig.pricing;
-  
-  // Konvertiere Tokens zu Kosten (Pricing ist per 1K tokens)
-  const inputCost = (tokenUsage.input / 1000) * pricing.input;
-  const outputCost = (tokenUsage.output / 1000) * pricing.output;
-  const totalCost = inputCost + outputCost;
+  const { pricing, priceId } = resolveModelPrice(modelConfig, at);
 
   return {
-    inputTokens: tokenUsage.input,
-    outputTokens: tokenUsage.output,
-    inputCost: parseFloat(inputCost.toFixed(6)),
-    outputCost: parseFloat(outputCost.toFixed(6)),
-    totalCost: parseFloat(totalCost.toFixed(6)),
+    ...calculateCostWithPricing(tokenUsage, pricing, options),
+    priceId,
   };
 }
 
@@ -55,7 +126,8 @@ export function calculateCost(
 export function calculateLiveCost(
   inputTokens: number,
   outputTokens: number,
-  modelId: string
+  modelId: string,
+  at?: Date
 ): number {
   const tokenUsage: TokenUsage = {
     input: inputTokens,
@@ -63,7 +135,7 @@ export function calculateLiveCost(
     total: inputTokens + outputTokens,
   };
   
-  return calculateCost(tokenUsage, modelId).totalCost;
+  return calculateCost(tokenUsage, modelId, at).totalCost;
 }
 
 /**
@@ -76,6 +148,29 @@ export function formatCost(cost: number): string {
   return `$${cost.toFixed(2)}`;
 }
 
+/**
+ * Formatiert einen Preis pro 1K Tokens, z.B. "$0.0050 / $0.0150 pro 1K"
+ */
+export function formatPricing(pricing: ModelPricing): string {
+  return `$${pricing.input.toFixed(4)} / $${pricing.output.toFixed(4)} pro 1K`;
+}
+
+/**
+ * Vergleicht zwei Preise inkl. Cache-, Staffel- und Batch-Konditionen
+ */
+export function isSamePricing(a: ModelPricing, b: ModelPricing): boolean {
+  const normalize = (pricing: ModelPricing) => JSON.stringify([
+    pricing.input,
+    pricing.output,
+    pricing.cachedInput ?? null,
+    pricing.cacheWrite ?? null,
+    pricing.batchDiscount ?? null,
+    [...(pricing.tiers || [])].sort((x, y) => x.aboveInputTokens - y.aboveInputTokens),
+  ]);
+
+  return normalize(a) === normalize(b);
+}
+
 /**
  * Formatiert Token-Anzahl für UI-Anzeige
  */
@@ -91,10 +186,12 @@ export function formatTokens(tokens: number): string {
 export function estimatePromptCost(
   promptText: string,
   modelId: string,
-  estimatedResponseTokens: number = 500
+  estimatedResponseTokens: number = 500,
+  systemPrompt?: string | null,
+  thread: ThreadMessage[] = []
 ): CostCalculation {
-  // Präzise Token-Zählung mit tiktoken
-  const inputTokens = countTokens(promptText, modelId);
+  // Präzise Token-Zählung mit tiktoken (inkl. System-Prompt und bisherigem Verlauf)
+  const inputTokens = estimateInputTokens(promptText, modelId, systemPrompt, thread);
   
   const tokenUsage: TokenUsage = {
     input: inputTokens,
@@ -106,28 +203,25 @@ export function estimatePromptCost(
 }
 
 /**
- * Vergleicht Kosten zwischen zwei Models
+ * Vergleicht Kosten zwischen mehreren Models
  */
 export function compareCosts(
   tokenUsage: TokenUsage,
-  model1Id: string,
-  model2Id: string
+  modelIds: string[]
 ): {
-  model1: CostCalculation;
-  model2: CostCalculation;
+  costs: CostCalculation[];
   difference: number;
-  cheaper: string;
+  cheapest: string;
 } {
-  const cost1 = calculateCost(tokenUsage, model1Id);
-  const cost2 = calculateCost(tokenUsage, model2Id);
-  const difference = Math.abs(cost1.totalCost - cost2.totalCost);
-  const cheaper = cost1.totalCost < cost2.totalCost ? model1Id : model2Id;
+  const costs = modelIds.map(modelId => calculateCost(tokenUsage, modelId));
+  const totals = costs.map(cost => cost.totalCost);
+  const difference = Math.max(...totals) - Math.min(...totals);
+  const cheapest = modelIds[totals.indexOf(Math.min(...totals))];
   
   return {
-    model1: cost1,
-    model2: cost2,
+    costs,
     difference: parseFloat(difference.toFixed(6)),
-    cheaper,
+    cheapest,
   };
 }
 
@@ -135,24 +229,31 @@ export function compareCosts(
  * Erstellt Kosten-Breakdown für UI
  */
 export function createCostBreakdown(
-  model1Usage: TokenUsage,
-  model2Usage: TokenUsage,
-  model1Id: string,
-  model2Id: string
+  usages: TokenUsage[],
+  modelIds: string[]
 ) {
-  const model1Cost = calculateCost(model1Usage, model1Id);
-  const model2Cost = calculateCost(model2Usage, model2Id);
-  const totalCost = model1Cost.totalCost + model2Cost.totalCost;
+  const modelCosts = modelIds.map((modelId, index) => calculateCost(usages[index], modelId));
+  const totalCost = modelCosts.reduce((sum, cost) => sum + cost.totalCost, 0);
+
+  // Einzelposten aller Models pro Bestandteil summiert
+  const items = modelCosts
+    .flatMap(cost => cost.items)
+    .reduce<Record<string, { tokens: number; cost: number }>>((acc, item) => {
+      acc[item.component] = acc[item.component] || { tokens: 0, cost: 0 };
+      acc[item.component].tokens += item.tokens;
+      acc[item.component].cost = roundCost(acc[item.component].cost + item.cost);
+      return acc;
+    }, {});
   
   return {
-    model1: model1Cost,
-    model2: model2Cost,
+    models: modelCosts,
     total: parseFloat(totalCost.toFixed(6)),
     breakdown: {
-      totalInputTokens: model1Usage.input + model2Usage.input,
-      totalOutputTokens: model1Usage.output + model2Usage.output,
-      totalInputCost: model1Cost.inputCost + model2Cost.inputCost,
-      totalOutputCost: model1Cost.outputCost + model2Cost.outputCost,
+      totalInputTokens: usages.reduce((sum, usage) => sum + usage.input, 0),
+      totalOutputTokens: usages.reduce((sum, usage) => sum + usage.output, 0),
+      totalInputCost: modelCosts.reduce((sum, cost) => sum + cost.inputCost, 0),
+      totalOutputCost: modelCosts.reduce((sum, cost) => sum + cost.outputCost, 0),
+      items,
     },
   };
 }
@@ -162,7 +263,10 @@ export function createCostBreakdown(
  */
 export function hasValidPricing(modelId: string): boolean {
   const config = getModelConfig(modelId);
-  return config !== null && config.pricing.input > 0 && config.pricing.output > 0;
+  if (!config) return false;
+  
+  const pricing = getModelPricing(config);
+  return pricing.input > 0 && pricing.output > 0;
 }
 
 /**
@@ -172,18 +276,15 @@ export function getPricingInfo(modelId: string) {
   const config = getModelConfig(modelId);
   if (!config) return null;
   
+  const pricing = getModelPricing(config);
+  
   return {
     modelId,
     displayName: config.displayName,
     provider: config.provider,
-    inputPrice: config.pricing.input,
-    outputPrice: config.pricing.output,
-    formattedInputPrice: `$${config.pricing.input}/1K tokens`,
-    formattedOutputPrice: `$${config.pricing.output}/1K tokens`,
+    inputPrice: pricing.input,
+    outputPrice: pricing.output,
+    formattedInputPrice: `$${pricing.input}/1K tokens`,
+    formattedOutputPrice: `$${pricing.output}/1K tokens`,
   };
 }
-
-/**
- * Export für Pricing-Konstanten (für Tests und Validierung)
- */
-export { MODEL_PRICING as PRICING_DATA };
@@ -0,0 +1,46 @@
+import { type BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { type GenerationParams, type ModelConfig, type ModelPricing, type ProviderId, type TokenUsage } from "@/types";
+
+/**
+ * Plugin-Schnittstelle für Model-Provider
+ */
+export interface ProviderPlugin {
+  id: ProviderId;
+  name: string;
+  color: string; // MUI Palette-Farbe für Avatare/Chips
+  maxTemperature: number; // Obergrenze der Temperature bei der Provider-API
+  // Erstellt die LangChain-Instanz für ein Model dieses Providers
+  createModel: (config: ModelConfig, params: GenerationParams) => BaseChatModel;
+  // Normalisiert die Usage-Daten des Providers
+  parseTokenUsage: (usage: any) => TokenUsage;
+  // Optional: Provider-spezifische Token-Zählung
+  countTokens?: (text: string, config: ModelConfig) => number;
+  // Optional: Nachrichten im OpenAI-Chat-Format (Rollen-Marker zählen als Input-Tokens)
+  openAIChatFormat?: boolean;
+  // Optional: Preise für Models ohne Eintrag in der Preistabelle (z.B. kostenlose lokale Models);
+  // undefined = Katalogpreis
+  getPricing?: (config: ModelConfig) => ModelPricing | undefined;
+}
+
+const registry = new Map<ProviderId, ProviderPlugin>();
+
+/**
+ * Registriert einen Provider (überschreibt bestehende Registrierung mit gleicher ID)
+ */
+export function registerProvider(plugin: ProviderPlugin): void {
+  registry.set(plugin.id, plugin);
+}
+
+/**
+ * Holt einen registrierten Provider
+ */
+export function getProvider(providerId: ProviderId): ProviderPlugin | null {
+  return registry.get(providerId) || null;
+}
+
+/**
+ * Alle registrierten Provider in Registrierungsreihenfolge
+ */
+export function getProviders(): ProviderPlugin[] {
+  return Array.from(registry.values());
+}
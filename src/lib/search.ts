@@ -0,0 +1,115 @@
+import { PrismaClient, Prisma } from "@prisma/client";
+import { HIGHLIGHT_START, HIGHLIGHT_END } from "@/lib/highlight";
+import { type SearchSnippet } from "@/types";
+
+const prisma = new PrismaClient();
+
+/**
+ * Volltextsuche über die FTS5-Tabelle "PromptSearch" (nur serverseitig verwenden).
+ * Die Tabelle wird per Trigger mit Prompt und Response synchron gehalten.
+ * Sie ist nicht Teil von schema.prisma (siehe Hinweis dort zu `prisma migrate dev`).
+ */
+
+const SNIPPET_TOKENS = 12;
+
+// Spalten der FTS-Tabelle (Index 0 ist die promptId)
+const SEARCH_COLUMNS: Array<{ index: number; field: SearchSnippet['field'] }> = [
+  { index: 1, field: 'content' },
+  { index: 2, field: 'systemPrompt' },
+  { index: 3, field: 'responses' },
+  { index: 4, field: 'note' },
+  { index: 5, field: 'tags' },
+];
+
+// bm25-Gewichte pro Spalte: Treffer im Prompt zählen mehr als in Antworten
+const BM25_WEIGHTS = Prisma.raw('0.0, 10.0, 2.0, 1.0, 3.0, 3.0');
+
+export interface ParsedSearchQuery {
+  ftsQuery: string | null; // null = keine Textsuche, nur Filter
+  models: string[]; // aus model:<id>
+}
+
+export interface SearchMatch {
+  promptId: string;
+  rank: number; // bm25, kleiner = relevanter
+  snippets: SearchSnippet[];
+}
+
+// Token in FTS5-Syntax quoten (Anführungszeichen verdoppeln)
+const quote = (term: string) => `"${term.replace(/"/g, '""')}"`;
+
+/**
+ * Zerlegt die Sucheingabe:
+ *  - "genaue phrase"  → Phrasensuche
+ *  - präfix*          → Präfixsuche
+ *  - model:gpt-4o     → nur Vergleiche mit diesem Model
+ *  - alle übrigen Wörter müssen vorkommen (UND)
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const terms: string[] = [];
+  const models: string[] = [];
+  const tokenPattern = /"([^"]*)"(\*?)|(\S+)/g;
+
+  for (const match of input.matchAll(tokenPattern)) {
+    const [, phrase, phrasePrefix, word] = match;
+
+    if (phrase !== undefined) {
+      if (phrase.trim()) terms.push(quote(phrase.trim()) + phrasePrefix);
+      continue;
+    }
+
+    if (word.toLowerCase().startsWith('model:')) {
+      const model = word.slice('model:'.length);
+      if (model) models.push(model);
+      continue;
+    }
+
+    const isPrefix = word.endsWith('*');
+    const term = word.replace(/\*+$/, '');
+    if (term) terms.push(quote(term) + (isPrefix ? '*' : ''));
+  }
+
+  return {
+    ftsQuery: terms.length > 0 ? terms.join(' ') : null,
+    models,
+  };
+}
+
+/**
+ * Bedingung für Prompts "p", die auf die Suchanfrage passen (für Zählung und Summen)
+ */
+export const matchesSearch = (ftsQuery: string): Prisma.Sql =>
+  Prisma.sql`p."id" IN (SELECT "promptId" FROM "PromptSearch" WHERE "PromptSearch" MATCH ${ftsQuery})`;
+
+/**
+ * Sucht eine Seite passender Prompts, sortiert nach Relevanz, inklusive markierter Snippets.
+ * Weitere Filter auf den Prompt "p" werden im selben Query angewendet.
+ */
+export async function searchPrompts(
+  ftsQuery: string,
+  where: Prisma.Sql,
+  offset: number,
+  limit: number
+): Promise<SearchMatch[]> {
+  const snippetColumns = Prisma.join(SEARCH_COLUMNS.map(({ index }) =>
+    Prisma.sql`snippet("PromptSearch", ${Prisma.raw(String(index))}, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', ${SNIPPET_TOKENS}) AS ${Prisma.raw(`"snippet${index}"`)}`
+  ));
+
+  const rows = await prisma.$queryRaw<Array<Record<string, string | number>>>`
+    SELECT p."id" AS "promptId", bm25("PromptSearch", ${BM25_WEIGHTS}) AS "rank", ${snippetColumns}
+    FROM "PromptSearch"
+    JOIN "Prompt" p ON p."id" = "PromptSearch"."promptId"
+    WHERE "PromptSearch" MATCH ${ftsQuery} AND ${where}
+    ORDER BY "rank"
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+
+  return rows.map(row => ({
+    promptId: String(row.promptId),
+    rank: Number(row.rank),
+    // Nur Spalten mit echtem Treffer (snippet() liefert sonst den Spaltenanfang)
+    snippets: SEARCH_COLUMNS
+      .map(({ index, field }) => ({ field, text: String(row[`snippet${index}`] || '') }))
+      .filter(snippet => snippet.text.includes(HIGHLIGHT_START)),
+  }));
+}
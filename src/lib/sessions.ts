@@ -0,0 +1,128 @@
+import { PrismaClient, type ChatSession } from "@prisma/client";
+import { parseAssertions } from "./assertions";
+import { parseTemplateVariables } from "./templateLibrary";
+import { type StreamSession } from "@/types";
+
+const prisma = new PrismaClient();
+
+/**
+ * Streaming-Sessions (nur serverseitig verwenden)
+ */
+
+// Gültigkeit einer Session zwischen Anlegen und Öffnen des Streams
+export const STREAM_SESSION_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Wandelt eine Session-Zeile in eine StreamSession um
+ */
+function toStreamSession(session: ChatSession): StreamSession {
+  return {
+    id: session.id,
+    prompt: session.prompt,
+    systemPrompt: session.systemPrompt,
+    systemPrompts: JSON.parse(session.systemPrompts),
+    models: JSON.parse(session.models),
+    params: JSON.parse(session.params),
+    conversationId: session.conversationId,
+    assertions: parseAssertions(session.assertions),
+    template: session.templateVersionId
+      ? { versionId: session.templateVersionId, variables: parseTemplateVariables(session.templateVariables) }
+      : null,
+  };
+}
+
+/**
+ * Legt eine ausstehende Session an und gibt ihre opake ID zurück
+ */
+export async function createStreamSession(session: Omit<StreamSession, 'id'>): Promise<string> {
+  const now = new Date();
+
+  // Abgelaufene Sessions bei der Gelegenheit aufräumen
+  await prisma.chatSession.deleteMany({
+    where: { expiresAt: { lt: now } },
+  });
+
+  const created = await prisma.chatSession.create({
+    data: {
+      id: crypto.randomUUID(),
+      prompt: session.prompt,
+      systemPrompt: session.systemPrompt,
+      systemPrompts: JSON.stringify(session.systemPrompts),
+      models: JSON.stringify(session.models),
+      params: JSON.stringify(session.params),
+      assertions: JSON.stringify(session.assertions),
+      templateVersionId: session.template?.versionId ?? null,
+      templateVariables: session.template ? JSON.stringify(session.template.variables) : null,
+      conversationId: session.conversationId,
+      expiresAt: new Date(now.getTime() + STREAM_SESSION_TTL_MS),
+    },
+  });
+
+  return created.id;
+}
+
+/**
+ * Löst eine Session genau einmal ein.
+ * Unbekannte, abgelaufene oder bereits verwendete IDs werden abgewiesen.
+ */
+export async function consumeStreamSession(
+  id: string
+): Promise<{ session: StreamSession } | { error: string; status: number }> {
+  const now = new Date();
+
+  // Atomar als verbraucht markieren, damit parallele Requests nicht doppelt streamen
+  const { count } = await prisma.chatSession.updateMany({
+    where: { id, consumedAt: null, expiresAt: { gt: now } },
+    data: { consumedAt: now },
+  });
+
+  const session = await prisma.chatSession.findUnique({ where: { id } });
+
+  if (!session) {
+    return { error: 'Unbekannte Session', status: 404 };
+  }
+
+  if (count === 0) {
+    return session.consumedAt
+      ? { error: 'Session wurde bereits verwendet', status: 409 }
+      : { error: 'Session ist abgelaufen', status: 410 };
+  }
+
+  return { session: toStreamSession(session) };
+}
+
+// Laufende Streams pro Session (ein AbortController pro Slot).
+// Über globalThis, da Route Handler und Server Actions getrennt gebündelt werden.
+const globalForStreams = globalThis as unknown as { activeStreams?: Map<string, AbortController[]> };
+const activeStreams = globalForStreams.activeStreams ??= new Map<string, AbortController[]>();
+
+/**
+ * Registriert einen laufenden Stream und gibt die AbortController der Slots zurück
+ */
+export function registerActiveStream(sessionId: string, slotCount: number): AbortController[] {
+  const controllers = Array.from({ length: slotCount }, () => new AbortController());
+  activeStreams.set(sessionId, controllers);
+  return controllers;
+}
+
+/**
+ * Entfernt einen beendeten Stream aus der Registry
+ */
+export function unregisterActiveStream(sessionId: string): void {
+  activeStreams.delete(sessionId);
+}
+
+/**
+ * Bricht einen laufenden Stream ab (alle Slots oder nur einen)
+ * Gibt false zurück, wenn kein passender Stream mehr läuft.
+ */
+export function abortActiveStream(sessionId: string, slot?: number): boolean {
+  const controllers = activeStreams.get(sessionId);
+  if (!controllers) return false;
+
+  const targets = slot === undefined ? controllers : [controllers[slot]].filter(Boolean);
+  if (targets.length === 0) return false;
+
+  targets.forEach(controller => controller.abort());
+  return true;
+}
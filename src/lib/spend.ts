@@ -0,0 +1,163 @@
+import { PrismaClient, type Budget as BudgetRow } from "@prisma/client";
+import { budgetAppliesTo, describeBudget, getPeriodStart, isBudgetMode, isBudgetPeriod, isBudgetScope } from "./budgets";
+import { formatCost } from "./pricing";
+import { type Budget, type BudgetPeriod, type BudgetStatus } from "@/types";
+
+const prisma = new PrismaClient();
+
+/**
+ * Ausgaben gegen Budgets prüfen (nur serverseitig verwenden).
+ * Gezählt werden gespeicherte Responses; parallel laufende Vergleiche sind erst nach dem Speichern enthalten.
+ */
+
+/**
+ * Wandelt eine Budget-Zeile in ein Budget um (unbekannte Werte fallen auf sichere Defaults zurück)
+ */
+export function toBudget(row: BudgetRow): Budget {
+  return {
+    id: row.id,
+    scope: isBudgetScope(row.scope) ? row.scope : 'global',
+    target: row.target,
+    period: isBudgetPeriod(row.period) ? row.period : 'monthly',
+    amount: row.amount,
+    mode: isBudgetMode(row.mode) ? row.mode : 'block',
+    hardCap: row.hardCap,
+    enabled: row.enabled,
+  };
+}
+
+/**
+ * Summierte Kosten pro Model seit Beginn des Zeitraums (Vergleiche, Evaluationsläufe und Judge-Bewertungen)
+ */
+async function getSpendByModel(period: BudgetPeriod): Promise<Map<string, number>> {
+  const periodStart = getPeriodStart(period);
+  const [responses, evalResults, judgments] = await Promise.all([
+    prisma.response.groupBy({
+      by: ['model'],
+      where: { prompt: { createdAt: { gte: periodStart } } },
+      _sum: { cost: true },
+    }),
+    prisma.evalResult.groupBy({
+      by: ['model'],
+      where: { createdAt: { gte: periodStart } },
+      _sum: { cost: true },
+    }),
+    prisma.judgment.groupBy({
+      by: ['judgeModel'],
+      where: { createdAt: { gte: periodStart } },
+      _sum: { cost: true },
+    }),
+  ]);
+
+  const spend = new Map<string, number>();
+  for (const group of [...responses, ...evalResults]) {
+    spend.set(group.model, (spend.get(group.model) || 0) + (group._sum.cost || 0));
+  }
+  for (const group of judgments) {
+    spend.set(group.judgeModel, (spend.get(group.judgeModel) || 0) + (group._sum.cost || 0));
+  }
+
+  return spend;
+}
+
+/**
+ * Verbrauch aller aktiven Budgets im laufenden Zeitraum
+ */
+export async function loadBudgetStatuses(): Promise<BudgetStatus[]> {
+  const budgets = (await prisma.budget.findMany({
+    where: { enabled: true },
+    orderBy: { createdAt: 'asc' },
+  })).map(toBudget);
+
+  if (budgets.length === 0) return [];
+
+  const periods = [...new Set(budgets.map(budget => budget.period))];
+  const spendByPeriod = new Map(await Promise.all(
+    periods.map(async period => [period, await getSpendByModel(period)] as const)
+  ));
+
+  return budgets.map(budget => {
+    let spent = 0;
+    spendByPeriod.get(budget.period)!.forEach((cost, model) => {
+      if (budgetAppliesTo(budget, model)) spent += cost;
+    });
+
+    return {
+      budget,
+      spent,
+      remaining: Math.max(0, budget.amount - spent),
+      ratio: spent / budget.amount,
+    };
+  });
+}
+
+/**
+ * Prüft vor dem Start, ob der Worst Case eines Vergleichs (Prompt + max. Output-Tokens pro Slot)
+ * in die verbleibenden Budgets passt. Budgets im Block-Modus lehnen ab, alle anderen warnen.
+ */
+export async function checkBudgets(
+  slots: Array<{ model: string; worstCaseCost: number }>
+): Promise<{ blocked: string | null; warnings: string[] }> {
+  const statuses = await loadBudgetStatuses();
+  const warnings: string[] = [];
+
+  for (const { budget, spent } of statuses) {
+    const affected = slots.filter(slot => budgetAppliesTo(budget, slot.model));
+    if (affected.length === 0) continue;
+
+    const worstCase = affected.reduce((sum, slot) => sum + slot.worstCaseCost, 0);
+    if (spent + worstCase <= budget.amount) continue;
+
+    const message = `${describeBudget(budget)}: bereits ${formatCost(spent)} verbraucht, dieser Vergleich kostet bis zu ${formatCost(worstCase)}`;
+
+    if (budget.mode === 'block') {
+      return { blocked: message, warnings };
+    }
+    warnings.push(message);
+  }
+
+  return { blocked: null, warnings };
+}
+
+export interface BudgetGuard {
+  // Meldet die Live-Kosten eines Slots; bricht Slots ab, sobald ein Hard-Cap überschritten wird
+  track: (slot: number, cost: number) => void;
+}
+
+/**
+ * Überwacht Hard-Cap-Budgets während eines Streams.
+ * Abgebrochen wird mit dem Grund 'budget' (AbortSignal.reason), damit der Slot das melden kann.
+ */
+export function createBudgetGuard(
+  statuses: BudgetStatus[],
+  modelIds: string[],
+  abortControllers: AbortController[]
+): BudgetGuard {
+  const caps = statuses
+    .filter(status => status.budget.hardCap)
+    .map(status => ({
+      remaining: status.budget.amount - status.spent,
+      slots: modelIds.flatMap((model, slot) => budgetAppliesTo(status.budget, model) ? [slot] : []),
+    }))
+    .filter(cap => cap.slots.length > 0);
+
+  const liveCosts = modelIds.map(() => 0);
+
+  return {
+    track: (slot, cost) => {
+      if (caps.length === 0) return;
+      liveCosts[slot] = cost;
+
+      for (const cap of caps) {
+        if (!cap.slots.includes(slot)) continue;
+
+        const sessionCost = cap.slots.reduce((sum, capSlot) => sum + liveCosts[capSlot], 0);
+        if (sessionCost > cap.remaining) {
+          cap.slots.forEach(capSlot => {
+            if (!abortControllers[capSlot].signal.aborted) abortControllers[capSlot].abort('budget');
+          });
+        }
+      }
+    },
+  };
+}
@@ -1,4 +1,4 @@
-import { type StreamEvent, type StreamResponse } from "@/types";
+import { type AssertionResult, type ResponseMetrics, type StreamEvent, type StreamResponse } from "@/types";
 
 export type StreamEventHandler = (event: StreamEvent) => void;
 
@@ -16,9 +16,6 @@ export class SSEStreamingClient implements StreamingClient {
   private url: string;
   private onEvent: StreamEventHandler;
   private onError: (error: Error) => void;
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 3;
-  private reconnectDelay = 1000;
 
   constructor(
     url: string, 
@@ -40,7 +37,6 @@ export class SSEStreamingClient implements StreamingClient {
       
       this.eventSource.onopen = () => {
         console.log('SSE Stream connected');
-        this.reconnectAttempts = 0;
       };
 
       this.eventSource.onmessage = (event) => {
@@ -48,7 +44,7 @@ export class SSEStreamingClient implements StreamingClient {
           const streamEvent: StreamEvent = JSON.parse(event.data);
           
           // Handle configuration errors specifically
-          if (streamEvent.type === 'error' && (streamEvent.model === 'system' || streamEvent.data?.isConfigError)) {
+          if (streamEvent.type === 'error' && (streamEvent.slot === 'system' || streamEvent.data?.isConfigError)) {
             this.onError(new Error(`Konfigurationsfehler: ${streamEvent.data?.error || 'Unbekannter Fehler'}\n\nBitte siehe ENVIRONMENT_SETUP.md für Setup-Anweisungen.`));
             return;
           }
@@ -63,8 +59,13 @@ export class SSEStreamingClient implements StreamingClient {
       this.eventSource.onerror = (error) => {
         console.error('SSE Connection Error. Siehe ENVIRONMENT_SETUP.md für API-Key Setup.');
         
-        if (this.eventSource?.readyState === EventSource.CLOSED) {
-          this.handleDisconnection();
+        // Sessions sind nur einmal gültig: den automatischen Reconnect des Browsers unterbinden.
+        // CONNECTING = Server hat den Stream beendet, CLOSED = Session abgewiesen (404/409/410)
+        const wasRejected = this.eventSource?.readyState === EventSource.CLOSED;
+        this.stop();
+
+        if (wasRejected) {
+          this.onError(new Error('Stream-Session ungültig, abgelaufen oder bereits verwendet'));
         }
       };
 
@@ -78,20 +79,6 @@ export class SSEStreamingClient implements StreamingClient {
       this.eventSource.close();
       this.eventSource = null;
     }
-    this.reconnectAttempts = 0;
-  }
-
-  private handleDisconnection(): void {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      console.log(`Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts})...`);
-      
-      setTimeout(() => {
-        this.start();
-      }, this.reconnectDelay * this.reconnectAttempts);
-    } else {
-      this.onError(new Error('Verbindung zum Stream verloren'));
-    }
   }
 }
 
@@ -162,20 +149,21 @@ export function createStreamingClient(options: UseStreamingOptions): UseStreamin
  */
 export const StreamUtils = {
   /**
-   * Erstellt einen Event-Handler für Model-spezifische Events
+   * Erstellt einen Event-Handler für Slot-spezifische Events
    */
   createModelEventHandler: (
-    modelKey: 'model1' | 'model2',
+    slot: number,
     onToken: (delta: string, tokens: any, cost: number) => void,
     onComplete: (finalContent: string, tokens: any, cost: number) => void,
-    onError: (error: string) => void
+    onError: (error: string) => void,
+    onCancelled?: (tokens: any, cost: number) => void
   ): StreamEventHandler => {
     return (event: StreamEvent) => {
-      if (event.model !== modelKey) return;
+      if (event.slot !== slot) return;
 
       switch (event.type) {
         case 'start':
-          console.log(`${modelKey} stream started`);
+          console.log(`Slot ${slot} stream started`);
           break;
 
         case 'token':
@@ -189,22 +177,23 @@ export const StreamUtils = {
         case 'error':
           onError(event.data.error || 'Unbekannter Fehler');
           break;
+
+        case 'cancelled':
+          onCancelled?.(event.data.tokens || { input: 0, output: 0, total: 0 }, event.data.cost || 0);
+          break;
       }
     };
   },
 
   /**
-   * Kombiniert Handler für beide Models
+   * Kombiniert Handler für alle Slots (Index = Slot)
    */
-  createDualModelHandler: (
-    model1Handler: StreamEventHandler,
-    model2Handler: StreamEventHandler
+  createMultiModelHandler: (
+    handlers: StreamEventHandler[]
   ): StreamEventHandler => {
     return (event: StreamEvent) => {
-      if (event.model === 'model1') {
-        model1Handler(event);
-      } else if (event.model === 'model2') {
-        model2Handler(event);
+      if (typeof event.slot === 'number' && handlers[event.slot]) {
+        handlers[event.slot](event);
       }
     };
   },
@@ -214,7 +203,7 @@ export const StreamUtils = {
    */
   createDebugHandler: (): StreamEventHandler => {
     return (event: StreamEvent) => {
-      console.log(`[SSE] ${event.type} from ${event.model}:`, event.data);
+      console.log(`[SSE] ${event.type} from slot ${event.slot}:`, event.data);
     };
   },
 
@@ -225,8 +214,8 @@ export const StreamUtils = {
     return (
       event &&
       typeof event === 'object' &&
-      ['start', 'token', 'complete', 'error'].includes(event.type) &&
-      ['model1', 'model2'].includes(event.model) &&
+      ['start', 'token', 'complete', 'error', 'cancelled'].includes(event.type) &&
+      (typeof event.slot === 'number' || event.slot === 'system') &&
       event.data &&
       typeof event.data === 'object'
     );
@@ -266,40 +255,40 @@ export class StreamTimeout {
 /**
  * Stream-State-Manager für komplexe UI-States
  */
+export interface SlotStreamState {
+  content: string;
+  isStreaming: boolean;
+  tokens: { input: number; output: number; total: number };
+  cost: number;
+  error: string | null;
+  cancelled: boolean;
+  budgetExceeded: boolean; // per Hard-Cap abgebrochen
+  exact: boolean; // Tokens/Kosten vom Provider gemeldet statt geschätzt
+  metrics: ResponseMetrics | null; // Latenz/Durchsatz nach Abschluss
+  assertionResults: AssertionResult[] | null; // nach Abschluss, falls Assertions gesetzt
+}
+
 export interface StreamState {
-  model1: {
-    content: string;
-    isStreaming: boolean;
-    tokens: { input: number; output: number; total: number };
-    cost: number;
-    error: string | null;
-  };
-  model2: {
-    content: string;
-    isStreaming: boolean;
-    tokens: { input: number; output: number; total: number };
-    cost: number;
-    error: string | null;
-  };
+  slots: SlotStreamState[];
   totalCost: number;
   isAnyStreaming: boolean;
 }
 
-export const createInitialStreamState = (): StreamState => ({
-  model1: {
-    content: '',
-    isStreaming: false,
-    tokens: { input: 0, output: 0, total: 0 },
-    cost: 0,
-    error: null,
-  },
-  model2: {
-    content: '',
-    isStreaming: false,
-    tokens: { input: 0, output: 0, total: 0 },
-    cost: 0,
-    error: null,
-  },
+const createInitialSlotState = (): SlotStreamState => ({
+  content: '',
+  isStreaming: false,
+  tokens: { input: 0, output: 0, total: 0 },
+  cost: 0,
+  error: null,
+  cancelled: false,
+  budgetExceeded: false,
+  exact: false,
+  metrics: null,
+  assertionResults: null,
+});
+
+export const createInitialStreamState = (slotCount: number = 2): StreamState => ({
+  slots: Array.from({ length: slotCount }, createInitialSlotState),
   totalCost: 0,
   isAnyStreaming: false,
 });
@@ -308,55 +297,80 @@ export const updateStreamState = (
   state: StreamState,
   event: StreamEvent
 ): StreamState => {
-  const modelKey = event.model;
+  const slot = event.slot;
   
   // Skip system messages in state updates - they're handled elsewhere
-  if (modelKey === 'system') {
+  if (slot === 'system') {
     return state;
   }
   
-  const newState = { ...state };
+  const slots = [...state.slots];
+  while (slots.length <= slot) {
+    slots.push(createInitialSlotState());
+  }
 
   switch (event.type) {
     case 'start':
-      newState[modelKey] = {
-        ...newState[modelKey],
+      slots[slot] = {
+        ...slots[slot],
         isStreaming: true,
         error: null,
+        cancelled: false,
+        budgetExceeded: false,
+        exact: false,
+        metrics: null,
+        assertionResults: null,
         content: '',
       };
       break;
 
     case 'token':
-      newState[modelKey] = {
-        ...newState[modelKey],
-        content: newState[modelKey].content + (event.data.delta || ''),
+      slots[slot] = {
+        ...slots[slot],
+        content: slots[slot].content + (event.data.delta || ''),
         tokens: event.data.tokens || { input: 0, output: 0, total: 0 },
         cost: event.data.cost || 0,
       };
       break;
 
     case 'complete':
-      newState[modelKey] = {
-        ...newState[modelKey],
+      slots[slot] = {
+        ...slots[slot],
         isStreaming: false,
         tokens: event.data.tokens || { input: 0, output: 0, total: 0 },
         cost: event.data.cost || 0,
+        exact: event.data.exact === true,
+        metrics: event.data.metrics || null,
+        assertionResults: event.data.assertionResults || null,
       };
       break;
 
     case 'error':
-      newState[modelKey] = {
-        ...newState[modelKey],
+      slots[slot] = {
+        ...slots[slot],
         isStreaming: false,
         error: event.data.error || 'Unbekannter Fehler',
       };
       break;
+
+    case 'cancelled':
+      // Teilantwort bleibt erhalten, Kosten bis zum Abbruch
+      slots[slot] = {
+        ...slots[slot],
+        isStreaming: false,
+        cancelled: true,
+        budgetExceeded: event.data.cancelReason === 'budget',
+        tokens: event.data.tokens || slots[slot].tokens,
+        cost: event.data.cost ?? slots[slot].cost,
+        metrics: event.data.metrics || null,
+      };
+      break;
   }
 
   // Update derived states
-  newState.isAnyStreaming = newState.model1.isStreaming || newState.model2.isStreaming;
-  newState.totalCost = newState.model1.cost + newState.model2.cost;
-
-  return newState;
+  return {
+    slots,
+    isAnyStreaming: slots.some(slotState => slotState.isStreaming),
+    totalCost: slots.reduce((sum, slotState) => sum + slotState.cost, 0),
+  };
 };
@@ -0,0 +1,168 @@
+import { PrismaClient, type PromptTemplate as TemplateRow, type PromptTemplateVersion as TemplateVersionRow } from "@prisma/client";
+import { fillTemplate, normalizeTemplateInput } from "./templates";
+import { type PromptTemplate, type PromptTemplateInput, type PromptTemplateVersion, type TemplateReference, type TemplateSelection } from "@/types";
+
+const prisma = new PrismaClient();
+
+/**
+ * Bibliothek der Prompt-Vorlagen (nur serverseitig verwenden).
+ * Versionen sind unveränderlich: jede Inhaltsänderung legt eine neue Version an,
+ * damit History-Einträge auf den Stand verweisen, mit dem sie erzeugt wurden.
+ */
+
+/**
+ * Liest die als JSON gespeicherten Werte der Platzhalter
+ */
+export function parseTemplateVariables(value: string | null): Record<string, string> {
+  if (!value) return {};
+
+  try {
+    const variables = JSON.parse(value);
+    return variables && typeof variables === 'object' && !Array.isArray(variables) ? variables : {};
+  } catch {
+    return {};
+  }
+}
+
+function toTemplateVersion(row: TemplateVersionRow, usageCount: number): PromptTemplateVersion {
+  return {
+    id: row.id,
+    version: row.version,
+    content: row.content,
+    usageCount,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Verweis eines History-Eintrags auf die verwendete Vorlagen-Version
+ */
+export function toTemplateReference(
+  version: TemplateVersionRow & { template: TemplateRow },
+  variables: string | null
+): TemplateReference {
+  return {
+    templateId: version.templateId,
+    name: version.template.name,
+    versionId: version.id,
+    version: version.version,
+    variables: parseTemplateVariables(variables),
+  };
+}
+
+/**
+ * Anzahl gespeicherter Vergleiche pro Vorlagen-Version
+ */
+async function loadUsageCounts(versionIds: string[]): Promise<Map<string, number>> {
+  const counts = await prisma.prompt.groupBy({
+    by: ['templateVersionId'],
+    where: { templateVersionId: { in: versionIds } },
+    _count: { _all: true },
+  });
+
+  return new Map(counts.map(count => [count.templateVersionId!, count._count._all]));
+}
+
+/**
+ * Lädt alle Vorlagen mit ihrer aktuellen Version
+ */
+export async function listTemplates(): Promise<PromptTemplate[]> {
+  const templates = await prisma.promptTemplate.findMany({
+    include: {
+      versions: { orderBy: { version: 'desc' }, take: 1 },
+      _count: { select: { versions: true } },
+    },
+    orderBy: [{ category: 'asc' }, { name: 'asc' }],
+  });
+  const usage = await loadUsageCounts(templates.flatMap(template => template.versions.map(version => version.id)));
+
+  return templates
+    .filter(template => template.versions.length > 0)
+    .map(template => ({
+      id: template.id,
+      name: template.name,
+      category: template.category,
+      latest: toTemplateVersion(template.versions[0], usage.get(template.versions[0].id) || 0),
+      versionCount: template._count.versions,
+      createdAt: template.createdAt,
+      updatedAt: template.updatedAt,
+    }));
+}
+
+/**
+ * Lädt alle Versionen einer Vorlage (neueste zuerst)
+ */
+export async function listTemplateVersions(templateId: string): Promise<PromptTemplateVersion[]> {
+  const versions = await prisma.promptTemplateVersion.findMany({
+    where: { templateId },
+    orderBy: { version: 'desc' },
+  });
+  const usage = await loadUsageCounts(versions.map(version => version.id));
+
+  return versions.map(version => toTemplateVersion(version, usage.get(version.id) || 0));
+}
+
+/**
+ * Legt eine Vorlage an oder aktualisiert sie.
+ * Name und Kategorie werden direkt geändert, ein geänderter Inhalt wird zur nächsten Version.
+ */
+export async function saveTemplate(id: string | null, input: PromptTemplateInput): Promise<PromptTemplate | null> {
+  const { name, category, content } = normalizeTemplateInput(input);
+
+  if (!id) {
+    const created = await prisma.promptTemplate.create({
+      data: { name, category, versions: { create: { version: 1, content } } },
+    });
+    return (await listTemplates()).find(template => template.id === created.id) || null;
+  }
+
+  const latest = await prisma.promptTemplateVersion.findFirst({
+    where: { templateId: id },
+    orderBy: { version: 'desc' },
+  });
+  if (!latest) return null;
+
+  await prisma.promptTemplate.update({ where: { id }, data: { name, category } });
+  // (templateId, version) ist eindeutig: parallele Änderungen können keine Version doppelt anlegen
+  if (latest.content !== content) {
+    await prisma.promptTemplateVersion.create({
+      data: { templateId: id, version: latest.version + 1, content },
+    });
+  }
+
+  return (await listTemplates()).find(template => template.id === id) || null;
+}
+
+/**
+ * Übernimmt die Vorlage einer Vergleichsanfrage nur, wenn der Prompt exakt der ausgefüllten Version entspricht
+ */
+export async function resolveTemplateSelection(
+  selection: TemplateSelection | undefined,
+  prompt: string
+): Promise<TemplateSelection | null> {
+  if (!selection) return null;
+
+  const version = await prisma.promptTemplateVersion.findUnique({ where: { id: selection.versionId } });
+  if (!version) return null;
+
+  const variables = Object.fromEntries(
+    Object.entries(selection.variables || {}).filter(([, value]) => typeof value === 'string')
+  );
+  const filled = fillTemplate(version.content, variables);
+
+  return filled.prompt.trim() === prompt.trim() ? { versionId: version.id, variables: filled.variables } : null;
+}
+
+/**
+ * Spalten eines Prompts für die verwendete Vorlage.
+ * Wurde die Vorlage inzwischen gelöscht, wird der Vergleich ohne Verweis gespeichert.
+ */
+export async function getTemplateColumns(
+  template: TemplateSelection | null
+): Promise<{ templateVersionId: string | null; templateVariables: string | null }> {
+  const exists = template && await prisma.promptTemplateVersion.count({ where: { id: template.versionId } }) > 0;
+
+  return exists
+    ? { templateVersionId: template.versionId, templateVariables: JSON.stringify(template.variables) }
+    : { templateVersionId: null, templateVariables: null };
+}
@@ -0,0 +1,78 @@
+import { extractPlaceholders, renderPrompt } from "./datasets";
+import { type PromptTemplate, type PromptTemplateInput } from "@/types";
+
+/**
+ * Prompt-Vorlagen (client-sicher): Validierung, Gruppierung und Ausfüllen der Platzhalter
+ */
+
+export const MAX_TEMPLATE_NAME_LENGTH = 100;
+export const MAX_TEMPLATE_CATEGORY_LENGTH = 50;
+export const MAX_TEMPLATE_LENGTH = 20000;
+export const DEFAULT_TEMPLATE_CATEGORY = 'Allgemein';
+
+/**
+ * Prüft Name, Kategorie und Inhalt einer Vorlage
+ */
+export function validateTemplateInput(input: PromptTemplateInput): string | null {
+  if (!input.name.trim()) {
+    return 'Bitte einen Namen für die Vorlage angeben';
+  }
+
+  if (input.name.trim().length > MAX_TEMPLATE_NAME_LENGTH) {
+    return `Der Name darf höchstens ${MAX_TEMPLATE_NAME_LENGTH} Zeichen lang sein`;
+  }
+
+  if (input.category.trim().length > MAX_TEMPLATE_CATEGORY_LENGTH) {
+    return `Die Kategorie darf höchstens ${MAX_TEMPLATE_CATEGORY_LENGTH} Zeichen lang sein`;
+  }
+
+  if (!input.content.trim()) {
+    return 'Die Vorlage darf nicht leer sein';
+  }
+
+  if (input.content.length > MAX_TEMPLATE_LENGTH) {
+    return `Die Vorlage darf höchstens ${MAX_TEMPLATE_LENGTH} Zeichen lang sein`;
+  }
+
+  return null;
+}
+
+/**
+ * Bereinigt die Eingaben einer Vorlage (leere Kategorie = Standardkategorie)
+ */
+export const normalizeTemplateInput = (input: PromptTemplateInput): PromptTemplateInput => ({
+  name: input.name.trim(),
+  category: input.category.trim() || DEFAULT_TEMPLATE_CATEGORY,
+  content: input.content,
+});
+
+/**
+ * Gruppiert Vorlagen nach Kategorie (alphabetisch, innerhalb nach Name)
+ */
+export function groupTemplatesByCategory(templates: PromptTemplate[]): Array<[string, PromptTemplate[]]> {
+  const groups = new Map<string, PromptTemplate[]>();
+
+  [...templates]
+    .sort((a, b) => a.category.localeCompare(b.category, 'de') || a.name.localeCompare(b.name, 'de'))
+    .forEach(template => {
+      groups.set(template.category, [...(groups.get(template.category) || []), template]);
+    });
+
+  return [...groups.entries()];
+}
+
+/**
+ * Platzhalter der Vorlage, für die noch kein Wert eingetragen ist
+ */
+export const getMissingVariables = (content: string, variables: Record<string, string>): string[] =>
+  extractPlaceholders(content).filter(name => !variables[name]?.trim());
+
+/**
+ * Setzt die Werte in die Vorlage ein (nur die Platzhalter der Vorlage)
+ */
+export function fillTemplate(content: string, variables: Record<string, string>): { prompt: string; variables: Record<string, string> } {
+  const used = Object.fromEntries(extractPlaceholders(content).map(name => [name, variables[name] ?? '']));
+  return { prompt: renderPrompt(content, used), variables: used };
+}
+
+export const formatTemplateVersion = (name: string, version: number) => `${name} · v${version}`;
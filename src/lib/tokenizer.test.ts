@@ -0,0 +1,63 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  countAnthropicTokens,
+  countOpenAITokens,
+  countTokens,
+  estimateInputTokens,
+  getOpenAIEncoding,
+  loadEncoder,
+} from "./tokenizer";
+
+// Bekannte Token-Zahlen (mit tiktoken ermittelt); ändern sie sich, hat sich das Encoding geändert
+const SAMPLES = {
+  greeting: 'Hello, world!',
+  german: 'Die Katze sitzt auf der Matte.',
+  code: 'function add(a, b) {\n  return a + b;\n}',
+  special: '<|endoftext|>',
+};
+
+describe('tokenizer', () => {
+  beforeAll(async () => {
+    expect(await loadEncoder('cl100k_base')).not.toBeNull();
+    expect(await loadEncoder('o200k_base')).not.toBeNull();
+  });
+
+  it('ordnet Models dem richtigen Encoding zu', () => {
+    expect(getOpenAIEncoding('gpt-4o-mini')).toBe('o200k_base');
+    expect(getOpenAIEncoding('o3-mini')).toBe('o200k_base');
+    expect(getOpenAIEncoding('gpt-4-turbo')).toBe('cl100k_base');
+    expect(getOpenAIEncoding('gpt-3.5-turbo')).toBe('cl100k_base');
+    expect(getOpenAIEncoding('claude-3-5-haiku-20241022')).toBeNull();
+  });
+
+  it('zählt cl100k_base exakt', () => {
+    expect(countOpenAITokens(SAMPLES.greeting, 'gpt-4')).toBe(4);
+    expect(countOpenAITokens(SAMPLES.german, 'gpt-4')).toBe(9);
+    expect(countOpenAITokens(SAMPLES.code, 'gpt-3.5-turbo')).toBe(14);
+  });
+
+  it('zählt o200k_base exakt', () => {
+    expect(countOpenAITokens(SAMPLES.greeting, 'gpt-4o')).toBe(4);
+    expect(countOpenAITokens(SAMPLES.german, 'gpt-4o')).toBe(7);
+    expect(countOpenAITokens(SAMPLES.code, 'gpt-4o-mini')).toBe(14);
+  });
+
+  it('behandelt Spezial-Token-Text wie normalen Text', () => {
+    expect(countOpenAITokens(SAMPLES.special, 'gpt-4')).toBe(7);
+    expect(countOpenAITokens(SAMPLES.special, 'gpt-4o')).toBe(7);
+  });
+
+  it('schätzt Anthropic-Models per Zeichen-Heuristik', () => {
+    expect(countAnthropicTokens(SAMPLES.greeting, 'claude-3-5-haiku-20241022')).toBe(4);
+    expect(countAnthropicTokens(SAMPLES.german, 'claude-3-5-haiku-20241022')).toBe(8);
+    expect(countTokens(SAMPLES.code, 'claude-3-5-haiku-20241022')).toBe(10);
+    expect(countAnthropicTokens('   ', 'claude-3-5-haiku-20241022')).toBe(0);
+  });
+
+  it('zählt den Chat-Overhead nur für Models im OpenAI-Format', () => {
+    // 4 + 9 Tokens, 2 Nachrichten à 3 Tokens + 3 Tokens Priming
+    expect(estimateInputTokens(SAMPLES.greeting, 'gpt-4', SAMPLES.german)).toBe(22);
+    // 4 + 8 Tokens geschätzt, kein Overhead
+    expect(estimateInputTokens(SAMPLES.greeting, 'claude-3-5-haiku-20241022', SAMPLES.german)).toBe(12);
+  });
+});
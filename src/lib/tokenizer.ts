@@ -1,9 +1,12 @@
 // src/lib/tokenizer.ts
-import { type TokenUsage } from '@/types';
+import { type Tiktoken } from 'tiktoken/lite';
+import { type ThreadMessage, type TokenUsage } from '@/types';
+import { getModelConfig } from './models';
+import { getProvider } from './providers';
 
 /**
- * Improved token estimation based on model type
- * This provides better accuracy than simple word counting while remaining compatible
+ * Token-Zählung: echtes BPE (tiktoken) für OpenAI-Models,
+ * Heuristik als Fallback für unbekannte Models und solange der Encoder noch lädt
  */
 
 // Token estimation constants based on empirical data
@@ -21,13 +24,138 @@ const TOKEN_ESTIMATION = {
   DEFAULT_WORDS_TO_TOKENS: 1.3,
 };
 
+// Zusätzliche Tokens pro Chat-Nachricht (Rollen-Marker) und für das Priming der Antwort (nur OpenAI-Chat-Format)
+export const CHAT_MESSAGE_OVERHEAD = {
+  TOKENS_PER_MESSAGE: 3,
+  REPLY_PRIMING_TOKENS: 3,
+};
+
+export type OpenAIEncoding = 'cl100k_base' | 'o200k_base';
+
+// Encoding pro Model-Familie (Präfix-Match, spezifischere Präfixe zuerst)
+const OPENAI_ENCODING_PREFIXES: Array<[string, OpenAIEncoding]> = [
+  ['gpt-4o', 'o200k_base'],
+  ['chatgpt-4o', 'o200k_base'],
+  ['gpt-4.1', 'o200k_base'],
+  ['gpt-4.5', 'o200k_base'],
+  ['gpt-5', 'o200k_base'],
+  ['o1', 'o200k_base'],
+  ['o3', 'o200k_base'],
+  ['o4', 'o200k_base'],
+  ['gpt-4', 'cl100k_base'],
+  ['gpt-3.5', 'cl100k_base'],
+  ['gpt-35', 'cl100k_base'],
+];
+
+/**
+ * Ermittelt das tiktoken-Encoding eines OpenAI-Models (null = unbekannt)
+ */
+export function getOpenAIEncoding(modelName: string): OpenAIEncoding | null {
+  const match = OPENAI_ENCODING_PREFIXES.find(([prefix]) => modelName.startsWith(prefix));
+  return match ? match[1] : null;
+}
+
+// Geladene Encoder (pro Encoding nur einmal) und laufende Ladevorgänge
+const encoders = new Map<OpenAIEncoding, Tiktoken>();
+const pendingEncoders = new Map<OpenAIEncoding, Promise<Tiktoken | null>>();
+
+// Im Browser wird das WASM explizit geladen (kein Bundler-Support für WASM-Imports nötig)
+export const TOKENIZER_WASM_URL = '/api/tokenizer/wasm';
+
+let browserTiktoken: Promise<typeof Tiktoken> | null = null;
+
+/**
+ * Tiktoken-Klasse für die aktuelle Umgebung: serverseitig lädt tiktoken sein WASM selbst,
+ * im Browser wird es einmalig von TOKENIZER_WASM_URL instanziiert
+ */
+function loadTiktoken(): Promise<typeof Tiktoken> {
+  if (typeof window === 'undefined') {
+    return import('tiktoken/lite').then(module => module.Tiktoken);
+  }
+
+  if (!browserTiktoken) {
+    browserTiktoken = import('tiktoken/lite/init')
+      .then(async module => {
+        await module.init(imports => WebAssembly.instantiateStreaming(fetch(TOKENIZER_WASM_URL), imports));
+        return module.Tiktoken;
+      })
+      .catch(error => {
+        browserTiktoken = null;
+        throw error;
+      });
+  }
+
+  return browserTiktoken;
+}
+
+const loadEncoderRanks = (encoding: OpenAIEncoding) =>
+  encoding === 'o200k_base'
+    ? import('tiktoken/encoders/o200k_base.json')
+    : import('tiktoken/encoders/cl100k_base.json');
+
+/**
+ * Lädt den Encoder lazy (WASM + Rank-Tabelle) und cached ihn
+ */
+export function loadEncoder(encoding: OpenAIEncoding): Promise<Tiktoken | null> {
+  const loaded = encoders.get(encoding);
+  if (loaded) return Promise.resolve(loaded);
+
+  let pending = pendingEncoders.get(encoding);
+  if (!pending) {
+    pending = Promise.all([loadTiktoken(), loadEncoderRanks(encoding)])
+      .then(([Tiktoken, module]) => {
+        const ranks = module.default ?? module;
+        const encoder = new Tiktoken(ranks.bpe_ranks, ranks.special_tokens, ranks.pat_str);
+        encoders.set(encoding, encoder);
+        return encoder;
+      })
+      .catch(error => {
+        console.error(`Tokenizer ${encoding} konnte nicht geladen werden:`, error);
+        return null;
+      })
+      .finally(() => pendingEncoders.delete(encoding));
+    pendingEncoders.set(encoding, pending);
+  }
+
+  return pending;
+}
+
 /**
- * Count tokens for OpenAI models using improved estimation
+ * Lädt die Encoder für die angegebenen Models vor (z.B. vor dem ersten Zählen)
+ */
+export async function preloadTokenizers(modelIds: string[]): Promise<void> {
+  const encodings = new Set<OpenAIEncoding>();
+
+  for (const modelId of modelIds) {
+    const config = getModelConfig(modelId);
+    const encoding = getOpenAIEncoding(config?.name || modelId);
+    if (encoding) encodings.add(encoding);
+  }
+
+  await Promise.all([...encodings].map(loadEncoder));
+}
+
+/**
+ * Count tokens for OpenAI models (BPE via tiktoken, heuristic until the encoder is loaded)
  */
 export function countOpenAITokens(text: string, modelName: string): number {
+  if (!text) return 0;
+
+  const encoding = getOpenAIEncoding(modelName);
+  const encoder = encoding ? encoders.get(encoding) : undefined;
+
+  if (encoder) {
+    // Spezial-Token-Text (<|endoftext|>) wie normalen Text behandeln
+    return encoder.encode_ordinary(text).length;
+  }
+
+  // Encoder im Hintergrund laden, bis dahin schätzen
+  if (encoding) {
+    void loadEncoder(encoding);
+  }
+
   if (!text.trim()) return 0;
   
-  // Use character-based estimation as it's more accurate for GPT models
   const cleanText = text.trim();
   return Math.ceil(cleanText.length / TOKEN_ESTIMATION.OPENAI_CHARS_PER_TOKEN);
 }
@@ -48,6 +176,13 @@ export function countAnthropicTokens(text: string, modelName: string): number {
 export function countTokens(text: string, modelId: string): number {
   if (!text) return 0;
   
+  // Provider-specific tokenizer hook, if the provider registers one
+  const config = getModelConfig(modelId);
+  const providerCounter = config ? getProvider(config.provider)?.countTokens : undefined;
+  if (config && providerCounter) {
+    return providerCounter(text, config);
+  }
+  
   // Determine provider from model ID
   if (modelId.startsWith('gpt-') || modelId.includes('openai')) {
     return countOpenAITokens(text, modelId);
@@ -74,11 +209,37 @@ export function createTokenUsage(input: string, output: string, modelId: string)
   };
 }
 
+/**
+ * Ob die Nachrichten eines Models im OpenAI-Chat-Format gezählt werden (mit Rollen-Markern)
+ */
+export function usesOpenAIChatFormat(modelId: string): boolean {
+  const config = getModelConfig(modelId);
+  const provider = config ? getProvider(config.provider) : null;
+  if (provider) {
+    return provider.openAIChatFormat === true;
+  }
+
+  return modelId.startsWith('gpt-') || modelId.includes('openai');
+}
+
 /**
  * Estimate tokens for cost calculation before API call
+ * (user prompt + optional system prompt + prior conversation thread + chat message overhead for OpenAI-format models)
  */
-export function estimateInputTokens(prompt: string, modelId: string): number {
-  return countTokens(prompt, modelId);
+export function estimateInputTokens(
+  prompt: string,
+  modelId: string,
+  systemPrompt?: string | null,
+  thread: ThreadMessage[] = []
+): number {
+  const systemTokens = systemPrompt ? countTokens(systemPrompt, modelId) : 0;
+  const threadTokens = thread.reduce((sum, message) => sum + countTokens(message.content, modelId), 0);
+  const messageCount = (systemPrompt ? 1 : 0) + thread.length + 1;
+  const overhead = usesOpenAIChatFormat(modelId)
+    ? messageCount * CHAT_MESSAGE_OVERHEAD.TOKENS_PER_MESSAGE + CHAT_MESSAGE_OVERHEAD.REPLY_PRIMING_TOKENS
+    : 0;
+
+  return countTokens(prompt, modelId) + systemTokens + threadTokens + overhead;
 }
 
 /**
@@ -1,7 +1,10 @@
 // Core Model Types
+export type ProviderId = string; // e.g. 'openai', 'anthropic', 'openai-compatible'
+
 export interface ModelProvider {
-  id: 'openai' | 'anthropic';
+  id: ProviderId;
   name: string;
+  color: string;
   models: ModelConfig[];
 }
 
@@ -9,39 +12,98 @@ export interface ModelConfig {
   id: string;
   name: string;
   displayName: string;
-  provider: 'openai' | 'anthropic';
-  pricing: ModelPricing;
-  maxTokens: number;
+  provider: ProviderId;
+  pricing: ModelPricing; // Aktuell gültiger Preis
+  prices?: ModelPrice[]; // Preistabelle, aufsteigend nach Stichtag
+  maxTokens: number; // Context Window
+  maxOutputTokens: number;
   supportsStreaming: boolean;
+  enabled: boolean;
+  capabilities: string[];
 }
 
 export interface ModelPricing {
   input: number;  // per 1K tokens
   output: number; // per 1K tokens
+  cachedInput?: number; // per 1K aus dem Cache gelesene Input-Tokens (Standard: Input-Preis)
+  cacheWrite?: number; // per 1K in den Cache geschriebene Input-Tokens (Standard: Input-Preis)
+  tiers?: PricingTier[]; // Abweichende Preise für lange Prompts
+  batchDiscount?: number; // Rabatt im Batch-Modus, z.B. 0.5 = 50 %
+}
+
+// Staffelpreis: gilt für die gesamte Anfrage, wenn der Prompt mehr als aboveInputTokens Tokens hat
+export interface PricingTier {
+  aboveInputTokens: number;
+  input: number;
+  output: number;
+  cachedInput?: number;
+  cacheWrite?: number;
+}
+
+// Eintrag der Preistabelle: gilt ab dem Stichtag bis zum nächsten Eintrag
+export interface ModelPrice {
+  id: string;
+  modelId: string;
+  pricing: ModelPricing;
+  effectiveFrom: Date;
+  note: string | null;
+}
+
+// Für eine Anfrage angewandter Preis (priceId null ohne Preistabelle, z.B. lokale Models)
+export interface AppliedPrice {
+  pricing: ModelPricing;
+  priceId: string | null;
+}
+
+// Generation-Parameter pro Model-Slot
+export interface GenerationParams {
+  temperature: number;
+  maxTokens: number; // Max. Output-Tokens
+  topP?: number;
+  stop?: string[];
 }
 
 // Chat & Prompt Types
 export interface ChatRequest {
   prompt: string;
-  model1: string;
-  model2: string;
+  models: string[]; // Ein Eintrag pro Model-Slot
+  params?: GenerationParams[]; // Parallel zu models, fehlende Einträge = Defaults
+  systemPrompt?: string; // Gemeinsamer System-Prompt
+  systemPrompts?: SystemPromptSelection; // Überschreibung pro Slot
+  conversationId?: string; // Fortsetzung einer bestehenden Konversation
 }
 
+export type FinishReason = 'stop' | 'length' | 'error' | 'cancelled';
+
 export interface ChatResponse {
   id: string;
   model: string;
   content: string;
   tokens: TokenUsage;
   cost: number;
-  finishReason: 'stop' | 'length' | 'error';
+  finishReason: FinishReason;
   timestamp: Date;
   error?: string;
+  errorCode?: string | null;
+  exact?: boolean; // true = vom Provider gemeldete (abgerechnete) Token-Usage, sonst Schätzung
+  metrics?: ResponseMetrics;
+  priceId?: string | null;
+  assertionResults?: AssertionResult[];
+}
+
+// Latenz und Durchsatz eines Laufs (serverseitig gemessen)
+export interface ResponseMetrics {
+  ttftMs: number | null; // Zeit bis zum ersten Token (null ohne Streaming oder ohne Token)
+  durationMs: number; // Gesamtdauer (Wall-Clock)
+  tokensPerSecond: number | null; // Output-Tokens pro Sekunde ab dem ersten Token
 }
 
 export interface TokenUsage {
-  input: number;
+  input: number; // inkl. Cache-Tokens
   output: number;
   total: number;
+  cacheRead?: number; // Teil von input: aus dem Prompt-Cache gelesen
+  cacheWrite?: number; // Teil von input: in den Prompt-Cache geschrieben
 }
 
 // Streaming Types
@@ -54,19 +116,23 @@ export interface StreamResponse {
   isComplete?: boolean;
   error?: string;
   isConfigError?: boolean; // Flag for configuration errors (missing API keys, etc.)
+  finishReason?: FinishReason;
+  exact?: boolean; // true = Token-Usage aus den Usage-Metadaten des Providers, sonst Schätzung
+  metrics?: ResponseMetrics; // bei complete und cancelled
+  cancelReason?: 'user' | 'budget'; // bei cancelled
+  assertionResults?: AssertionResult[]; // bei complete
 }
 
 export interface StreamEvent {
-  type: 'start' | 'token' | 'complete' | 'error';
-  model: 'model1' | 'model2' | 'system'; // Allow system for configuration errors
+  type: 'start' | 'token' | 'complete' | 'error' | 'cancelled';
+  slot: number | 'system'; // Slot-Index, 'system' for configuration errors
   data: StreamResponse;
 }
 
 // UI State Types
-export interface ModelSelection {
-  model1: string | null;
-  model2: string | null;
-}
+export type ModelSelection = Array<string | null>;
+export type ParamsSelection = Array<GenerationParams | null>; // null = Defaults des Models
+export type SystemPromptSelection = Array<string | null>; // null = gemeinsamer System-Prompt, '' = keiner
 
 export interface PromptState {
   content: string;
@@ -75,25 +141,233 @@ export interface PromptState {
 }
 
 export interface ResponseState {
-  model1: ChatResponse | null;
-  model2: ChatResponse | null;
+  responses: Array<ChatResponse | null>;
   isStreaming: boolean;
   totalCost: number;
 }
 
 // History Types (matching Prisma schema)
+export interface ResponseHistory {
+  id: string;
+  slot: number;
+  model: string;
+  content: string | null;
+  cost: number | null;
+  params: string | null; // JSON: GenerationParams
+  systemPrompt: string | null;
+  finishReason: string | null;
+  // Laufdaten (null bei älteren Einträgen)
+  inputTokens: number | null;
+  outputTokens: number | null;
+  tokensExact: boolean | null;
+  ttftMs: number | null;
+  durationMs: number | null;
+  errorMessage: string | null;
+  errorCode: string | null;
+  priceId: string | null;
+  cacheReadTokens: number | null;
+  cacheWriteTokens: number | null;
+  assertionResults: AssertionResult[] | null; // null = ohne Assertions oder nicht abgeschlossen
+}
+
+export interface ProviderError {
+  message: string;
+  code: string | null;
+}
+
 export interface PromptHistory {
   id: string;
   content: string;
-  model1: string;
-  model2: string;
-  response1: string | null;
-  response2: string | null;
-  cost1: number | null;
-  cost2: number | null;
+  systemPrompt: string | null;
+  conversationId: string | null;
+  assertions: Assertion[];
+  responses: ResponseHistory[];
+  vote?: VoteHistory | null;
+  judgment?: Judgment | null;
+  template?: TemplateReference | null; // Vorlage, aus der der Prompt erzeugt wurde
+  isFavorite: boolean;
+  tags: string[];
+  note: string | null; // Markdown
+  snippets?: SearchSnippet[]; // nur bei Volltextsuche
+  createdAt: Date;
+}
+
+export interface SearchSnippet {
+  field: 'content' | 'systemPrompt' | 'responses' | 'note' | 'tags';
+  text: string; // Treffer mit HIGHLIGHT_START/HIGHLIGHT_END markiert
+}
+
+export interface HistoryFilter {
+  favoritesOnly?: boolean;
+  tag?: string;
+  status?: 'successful' | 'failed';
+  model?: string; // Model-ID in einem beliebigen Slot
+  dateFrom?: string; // YYYY-MM-DD (inklusive)
+  dateTo?: string; // YYYY-MM-DD (inklusive)
+  minCost?: number; // Gesamtkosten aller Slots in USD
+  maxCost?: number;
+  templateId?: string; // Vergleiche aus einer Vorlage (alle Versionen)
+}
+
+export interface HistoryPage {
+  items: PromptHistory[];
+  total: number; // Anzahl aller Treffer
+  totalCost: number; // Summe aller Treffer
+  totalTokens: number; // Input + Output aller Treffer (soweit erfasst)
+  averageDurationMs: number | null;
+  hasMore: boolean;
+}
+
+export interface HistoryAnnotations {
+  tags: string[];
+  note: string;
+}
+
+export interface VoteHistory {
+  slotA: number;
+  slotB: number;
+  modelA: string;
+  modelB: string;
+  outcome: string; // VoteOutcome
+}
+
+// Blind-Voting Types
+export type VoteOutcome = 'a' | 'b' | 'tie' | 'both_bad';
+
+export interface VoteRequest {
+  sessionId: string; // Stream-Session des bewerteten Vergleichs
+  slotA: number; // Slot hinter "Antwort A"
+  slotB: number; // Slot hinter "Antwort B"
+  outcome: VoteOutcome;
+}
+
+export interface VoteRecord {
+  modelA: string;
+  modelB: string;
+  outcome: VoteOutcome;
+}
+
+export interface LeaderboardEntry {
+  model: string;
+  rating: number; // Bradley-Terry-Rating auf Elo-Skala
+  ciLower: number; // 95%-Konfidenzintervall (Bootstrap)
+  ciUpper: number;
+  elo: number; // Klassisches Online-Elo in Abstimmungsreihenfolge
+  games: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  bothBad: number;
+  winRate: number;
+}
+
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+}
+
+export interface ModelLatencyStats {
+  model: string;
+  runs: number; // Läufe mit Laufzeitdaten in der Stichprobe (jüngste Läufe pro Model)
+  ttftMs: LatencyPercentiles | null;
+  durationMs: LatencyPercentiles | null;
+  tokensPerSecond: LatencyPercentiles | null;
+}
+
+// Analytics-Dashboard
+export type AnalyticsGranularity = 'day' | 'week';
+
+export interface AnalyticsFilter {
+  dateFrom?: string; // YYYY-MM-DD (inklusive)
+  dateTo?: string; // YYYY-MM-DD (inklusive)
+  models?: string[]; // leer = alle Models
+  granularity?: AnalyticsGranularity;
+}
+
+// Aggregat pro Zeitraum (Tag bzw. Wochenbeginn) und Model
+export interface AnalyticsSeriesPoint {
+  period: string; // YYYY-MM-DD
+  model: string;
+  provider: string;
+  cost: number;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  errors: number;
+}
+
+export interface LatencyHistogramBin {
+  model: string;
+  metric: 'ttft' | 'duration';
+  bin: number; // Index in LATENCY_BUCKETS
+  count: number;
+}
+
+export interface AnalyticsTotals {
+  prompts: number;
+  requests: number;
+  cost: number;
+  inputTokens: number;
+  outputTokens: number;
+  errors: number;
+}
+
+export interface AnalyticsData {
+  series: AnalyticsSeriesPoint[];
+  latency: LatencyHistogramBin[];
+  totals: AnalyticsTotals;
+}
+
+// Preisstand für What-if-Neuberechnungen historischer Kosten
+export type PriceSetSelection =
+  | { type: 'historical' } // jeweils zum Anfragezeitpunkt gültiger Preis
+  | { type: 'asOf'; date: string }; // Preise eines Stichtags (YYYY-MM-DD) für alle Anfragen
+
+export interface CostRecomputationRow {
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  storedCost: number;
+  recomputedCost: number;
+  withoutTokens: number; // Ältere Responses ohne Token-Daten behalten ihre gespeicherten Kosten
+}
+
+export interface CostRecomputation {
+  rows: CostRecomputationRow[];
+  storedCost: number;
+  recomputedCost: number;
+}
+
+export interface Leaderboard {
+  entries: LeaderboardEntry[];
+  totalVotes: number;
+}
+
+// Conversation Types
+export type MessageRole = 'user' | 'assistant';
+
+export interface ThreadMessage {
+  role: MessageRole;
+  content: string;
+}
+
+export interface ConversationMessage extends ThreadMessage {
+  id: string;
+  slot: number;
+  position: number;
   createdAt: Date;
 }
 
+export interface Conversation {
+  id: string;
+  title: string;
+  models: string[]; // Model-ID pro Slot
+  createdAt: Date;
+  updatedAt: Date;
+  threads: ThreadMessage[][]; // Ein Thread pro Slot
+}
+
 // Cost Calculation Types
 export interface CostCalculation {
   inputTokens: number;
@@ -101,11 +375,30 @@ export interface CostCalculation {
   inputCost: number;
   outputCost: number;
   totalCost: number;
+  items: CostItem[]; // Einzelposten (Input, Cache, Output)
+  tier: number | null; // Greifende Staffel (aboveInputTokens), null = Basispreis
+  batch: boolean;
+  exact?: boolean; // true = abgerechnete Tokens, sonst Schätzung
+  priceId?: string | null; // Angewandter Eintrag der Preistabelle
+}
+
+export type CostComponent = 'input' | 'cachedInput' | 'cacheWrite' | 'output';
+
+export interface CostItem {
+  component: CostComponent;
+  tokens: number;
+  rate: number; // USD per 1K tokens (inkl. Staffel und Batch-Rabatt)
+  cost: number;
+}
+
+// Optionen der Kostenberechnung
+export interface CostOptions {
+  batch?: boolean; // Batch-Rabatt anwenden
+  contextTokens?: number; // Prompt-Länge für die Staffelwahl (Standard: Input-Tokens)
 }
 
 export interface TotalCostBreakdown {
-  model1: CostCalculation;
-  model2: CostCalculation;
+  models: CostCalculation[];
   total: number;
 }
 
@@ -118,13 +411,209 @@ export interface ServerActionResult<T> {
 
 export interface CreateChatRequest {
   prompt: string;
-  model1: string;
-  model2: string;
+  models: string[];
+  params?: GenerationParams[];
+  systemPrompt?: string;
+  systemPrompts?: SystemPromptSelection;
+  conversationId?: string;
+  assertions?: Assertion[];
+  template?: TemplateSelection; // nur, wenn der Prompt unverändert aus der Vorlage stammt
+}
+
+// Serverseitig gespeicherte Streaming-Session (Eingaben bereits validiert und aufgelöst)
+export interface StreamSession {
+  id: string;
+  prompt: string;
+  systemPrompt: string | null;
+  systemPrompts: Array<string | null>; // Effektiver System-Prompt pro Slot
+  models: string[];
+  params: GenerationParams[];
+  conversationId: string;
+  assertions: Assertion[];
+  template: TemplateSelection | null;
 }
 
 export interface CreateChatResponse {
   id: string;
   streamUrl: string;
+  conversationId: string;
+  budgetWarnings?: string[]; // Budgets im Warn-Modus, die dieser Vergleich überschreiten könnte
+}
+
+// Budgets
+export type BudgetScope = 'global' | 'model' | 'provider';
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetMode = 'block' | 'warn';
+
+export interface Budget {
+  id: string;
+  scope: BudgetScope;
+  target: string | null; // Model- bzw. Provider-ID, null bei global
+  period: BudgetPeriod;
+  amount: number; // USD
+  mode: BudgetMode; // block = Vergleich ablehnen, warn = nur warnen
+  hardCap: boolean; // laufende Streams beim Überschreiten abbrechen
+  enabled: boolean;
+}
+
+export type BudgetInput = Omit<Budget, 'id'>;
+
+export interface BudgetStatus {
+  budget: Budget;
+  spent: number; // USD im aktuellen Zeitraum
+  remaining: number;
+  ratio: number; // spent / amount
+}
+
+// Automatische Prüfungen der Antworten eines Prompts
+export type AssertionType = 'contains' | 'regex' | 'isJson' | 'jsonSchema' | 'maxLength' | 'forbiddenWords' | 'javascript';
+
+export interface Assertion {
+  id: string;
+  type: AssertionType;
+  value: string; // Text, Regex, JSON Schema, Länge, Wortliste (kommagetrennt) oder JS-Ausdruck; leer bei isJson
+  caseSensitive?: boolean; // nur contains und forbiddenWords
+}
+
+export interface AssertionResult {
+  assertionId: string;
+  type: AssertionType;
+  label: string; // Beschreibung der Assertion zum Zeitpunkt der Prüfung
+  passed: boolean;
+  message: string | null; // Grund bei Fehlschlag
+}
+
+// LLM-as-Judge: Bewertung der Antworten eines Vergleichs durch ein weiteres Model
+export interface JudgeScore {
+  slot: number;
+  model: string;
+  score: number; // Mittel beider Reihenfolgen (1-10)
+  passScores: number[]; // Einzelwertung pro Reihenfolge
+  reasoning: string[]; // Begründung pro Reihenfolge
+}
+
+export interface Judgment {
+  id: string;
+  judgeModel: string;
+  rubric: string;
+  scores: JudgeScore[];
+  verdicts: string[]; // Fazit pro Reihenfolge
+  winnerSlot: number | null; // null = Gleichstand
+  consistent: boolean; // beide Reihenfolgen mit demselben Sieger
+  tokens: TokenUsage;
+  cost: number;
+  createdAt: Date;
+}
+
+export interface JudgeRequest {
+  sessionId: string; // Stream-Session des bewerteten Vergleichs
+  judgeModel: string;
+  rubric: string;
+}
+
+// Prompt-Vorlagen (versioniert)
+export interface PromptTemplateVersion {
+  id: string;
+  version: number;
+  content: string; // darf {{variablen}} enthalten
+  usageCount: number; // Vergleiche in der History mit dieser Version
+  createdAt: Date;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  category: string;
+  latest: PromptTemplateVersion; // aktuelle Version
+  versionCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PromptTemplateInput {
+  name: string;
+  category: string;
+  content: string;
+}
+
+// Ausgefüllte Vorlage eines Prompts
+export interface TemplateSelection {
+  versionId: string;
+  variables: Record<string, string>;
+}
+
+export interface TemplateReference extends TemplateSelection {
+  templateId: string;
+  name: string;
+  version: number;
+}
+
+// Batch-Evaluationen über Prompt-Datensätze
+export interface DatasetItemInput {
+  prompt: string; // darf {{variablen}} enthalten
+  variables: Record<string, string>;
+  reference: string | null; // erwartete Antwort
+}
+
+export interface DatasetItem extends DatasetItemInput {
+  id: string;
+  position: number;
+}
+
+export interface DatasetSummary {
+  id: string;
+  name: string;
+  itemCount: number;
+  createdAt: Date;
+}
+
+export type EvalRunStatus = 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+export interface CreateEvalRunRequest {
+  datasetId: string;
+  name?: string;
+  models: string[];
+  systemPrompt?: string | null;
+  concurrency: number;
+}
+
+export interface EvalRunSummary {
+  id: string;
+  name: string;
+  datasetId: string;
+  datasetName: string;
+  models: string[];
+  systemPrompt: string | null;
+  concurrency: number;
+  status: EvalRunStatus;
+  error: string | null;
+  total: number; // Items × Models
+  completed: number; // inkl. fehlgeschlagener Anfragen
+  failed: number;
+  cost: number;
+  createdAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface EvalResult {
+  id: string;
+  itemId: string;
+  slot: number;
+  model: string;
+  content: string | null;
+  tokens: TokenUsage | null;
+  cost: number | null;
+  priceId: string | null;
+  durationMs: number | null;
+  finishReason: string | null;
+  error: string | null;
+  errorCode: string | null;
+}
+
+export interface EvalRunDetails {
+  run: EvalRunSummary;
+  items: DatasetItem[];
+  results: EvalResult[];
 }
 
 // Error Types
@@ -147,12 +636,21 @@ export interface ModelSelectorProps {
   label: string;
   availableModels: ModelConfig[];
   disabled?: boolean;
+  onRemove?: () => void;
+  params?: GenerationParams | null;
+  onParamsChange?: (params: GenerationParams) => void;
 }
 
 export interface PromptInputProps {
   value: string;
   onChange: (value: string) => void;
+  systemPrompt?: string;
+  onSystemPromptChange?: (value: string) => void;
+  systemPrompts?: SystemPromptSelection; // Überschreibung pro Slot
+  onSystemPromptsChange?: (value: SystemPromptSelection) => void;
+  modelIds?: Array<string | null>; // Models der Slots (für Überschreibungen)
   onSubmit: () => void;
+  onStop?: () => void; // Laufenden Vergleich abbrechen
   isSubmitting: boolean;
   error?: string;
 }
@@ -162,6 +660,10 @@ export interface ResponseDisplayProps {
   isStreaming: boolean;
   modelConfig: ModelConfig;
   onCopy?: () => void;
+  onStop?: () => void; // Stream dieses Models abbrechen
+  thread?: ThreadMessage[]; // Bisherige Runden der Konversation
+  blindLabel?: string; // Blind-Modus: "Antwort A" statt Model-Name
+  hideModel?: boolean; // Blind-Modus vor der Abstimmung: Model-Identität verbergen
 }
 
 export interface CostDisplayProps {
@@ -171,9 +673,9 @@ export interface CostDisplayProps {
 }
 
 export interface HistoryPanelProps {
-  history: PromptHistory[];
   onSelectPrompt: (prompt: PromptHistory) => void;
-  isLoading: boolean;
+  onContinueConversation?: (prompt: PromptHistory) => void;
+  refreshKey?: number; // Erhöhen, um die Historie neu zu laden (z.B. nach einem Vergleich)
 }
 
 // Theme Types (for Material-UI customization)
@@ -188,13 +690,10 @@ export interface AppConfig {
   maxPromptLength: number;
   streamingTimeout: number;
   retryAttempts: number;
-  defaultModels: {
-    model1: string;
-    model2: string;
-  };
+  defaultModels: string[];
 }
 
 // Export commonly used type combinations
-export type ModelSelectionPair = [ModelConfig | null, ModelConfig | null];
-export type ResponsePair = [ChatResponse | null, ChatResponse | null];
-export type StreamingState = Record<'model1' | 'model2', boolean>;
+export type ModelSelectionList = Array<ModelConfig | null>;
+export type ResponseList = Array<ChatResponse | null>;
+export type StreamingState = boolean[];